@@ -0,0 +1,405 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool, withTransaction } from "./db.js";
+import { requireRole } from "./auth.js";
+import { buildNotice, deliver, testNotice, type Channel, type Notice } from "./notify.js";
+import {
+  alertChannelConfigSchemas,
+  alertChannelCreateSchema,
+  alertChannelUpdateSchema,
+  alertRuleCreateSchema,
+  alertRuleUpdateSchema,
+} from "./validators.js";
+
+/**
+ * Regras de alerta: casam transições de status de equipamentos/links e avisam
+ * canais (webhook, email, chat). Um alerta por regra e entidade enquanto o
+ * episódio durar (dedup), com repetição opcional e aviso de recuperação.
+ */
+export const alertRoutes = Router();
+
+// configuração de alertas é só para admin (canais guardam senhas)
+alertRoutes.use("/alerts", requireRole("admin"));
+
+type ChannelKind = keyof typeof alertChannelConfigSchemas;
+
+/** Senha do SMTP nunca sai da API. */
+function publicChannel(row: any) {
+  const { password, ...config } = row.config ?? {};
+  return { ...row, config: { ...config, hasPassword: Boolean(password) } };
+}
+
+function parseConfig(kind: ChannelKind, config: unknown) {
+  return alertChannelConfigSchemas[kind].safeParse(config);
+}
+
+const ruleSelect = `
+  SELECT r.*, COALESCE(array_agg(rc.channel_id) FILTER (WHERE rc.channel_id IS NOT NULL), '{}') AS channel_ids
+  FROM alert_rules r
+  LEFT JOIN alert_rule_channels rc ON rc.rule_id = r.id
+`;
+
+async function channelsExist(ids: string[]) {
+  const r = await pool.query(`SELECT count(*)::int AS n FROM alert_channels WHERE id = ANY($1::uuid[])`, [ids]);
+  return r.rows[0].n === new Set(ids).size;
+}
+
+// -------- Canais --------
+
+alertRoutes.get("/alerts/channels", async (_req, res) => {
+  const r = await pool.query(`SELECT * FROM alert_channels ORDER BY name ASC`);
+  res.json(r.rows.map(publicChannel));
+});
+
+alertRoutes.post("/alerts/channels", async (req, res) => {
+  const parsed = alertChannelCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const config = parseConfig(parsed.data.kind, parsed.data.config);
+  if (!config.success) return res.status(400).json(config.error.flatten());
+
+  const r = await pool.query(
+    `INSERT INTO alert_channels (name, kind, config, enabled) VALUES ($1, $2, $3, COALESCE($4, true)) RETURNING *`,
+    [parsed.data.name, parsed.data.kind, JSON.stringify(config.data), parsed.data.enabled ?? null]
+  );
+  res.status(201).json(publicChannel(r.rows[0]));
+});
+
+alertRoutes.patch("/alerts/channels/:id", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = alertChannelUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+  if (Object.keys(parsed.data).length === 0) return res.status(400).json({ message: "No fields to update" });
+
+  const before = await pool.query(`SELECT * FROM alert_channels WHERE id=$1`, [id.data]);
+  if (!before.rows[0]) return res.status(404).json({ message: "Channel not found" });
+
+  let config = before.rows[0].config;
+  if (parsed.data.config) {
+    const next = parseConfig(before.rows[0].kind, parsed.data.config);
+    if (!next.success) return res.status(400).json(next.error.flatten());
+    // senha ausente no PATCH = mantém a gravada (o GET não a devolve); "" apaga
+    config = "host" in next.data ? { ...next.data, password: next.data.password ?? config.password } : next.data;
+  }
+
+  const r = await pool.query(`UPDATE alert_channels SET name=$2, enabled=$3, config=$4 WHERE id=$1 RETURNING *`, [
+    id.data,
+    parsed.data.name ?? before.rows[0].name,
+    parsed.data.enabled ?? before.rows[0].enabled,
+    JSON.stringify(config),
+  ]);
+  res.json(publicChannel(r.rows[0]));
+});
+
+alertRoutes.delete("/alerts/channels/:id", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const r = await pool.query(`DELETE FROM alert_channels WHERE id=$1 RETURNING id`, [id.data]);
+  if (!r.rows[0]) return res.status(404).json({ message: "Channel not found" });
+  res.status(204).send();
+});
+
+/** Envia uma notificação de teste; a falha volta com a mensagem do canal. */
+alertRoutes.post("/alerts/channels/:id/test", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const r = await pool.query(`SELECT * FROM alert_channels WHERE id=$1`, [id.data]);
+  if (!r.rows[0]) return res.status(404).json({ message: "Channel not found" });
+
+  try {
+    await deliver(r.rows[0], testNotice(r.rows[0]));
+    res.json({ ok: true });
+  } catch (err: unknown) {
+    res.status(502).json({ message: `Delivery failed: ${err instanceof Error ? err.message : "unknown"}` });
+  }
+});
+
+// -------- Regras --------
+
+alertRoutes.get("/alerts/rules", async (_req, res) => {
+  const r = await pool.query(`${ruleSelect} GROUP BY r.id ORDER BY r.name ASC`);
+  res.json(r.rows);
+});
+
+alertRoutes.post("/alerts/rules", async (req, res) => {
+  const parsed = alertRuleCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const d = parsed.data;
+  if (d.fromStatus === d.toStatus) return res.status(400).json({ message: "fromStatus and toStatus must differ" });
+  const channelIds = [...new Set(d.channelIds ?? [])];
+  if (!(await channelsExist(channelIds))) return res.status(400).json({ message: "Channel not found" });
+
+  const rule = await withTransaction(async (client) => {
+    const r = await client.query(
+      `
+      INSERT INTO alert_rules
+        (name, enabled, map_id, entity_type, types, name_pattern, tags, from_status, to_status,
+         min_duration_s, repeat_interval_s, notify_recovery)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING id
+      `,
+      [
+        d.name,
+        d.enabled ?? true,
+        d.mapId ?? null,
+        d.entityType,
+        d.types ?? [],
+        d.namePattern || null,
+        d.tags ?? [],
+        d.fromStatus ?? null,
+        d.toStatus,
+        d.minDurationS ?? 0,
+        d.repeatIntervalS ?? null,
+        d.notifyRecovery ?? true,
+      ]
+    );
+    const ruleId = r.rows[0].id;
+    await client.query(`INSERT INTO alert_rule_channels (rule_id, channel_id) SELECT $1, unnest($2::uuid[])`, [ruleId, channelIds]);
+    return (await client.query(`${ruleSelect} WHERE r.id=$1 GROUP BY r.id`, [ruleId])).rows[0];
+  });
+  res.status(201).json(rule);
+});
+
+alertRoutes.patch("/alerts/rules/:id", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = alertRuleUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+  if (Object.keys(parsed.data).length === 0) return res.status(400).json({ message: "No fields to update" });
+
+  const d = parsed.data;
+  if (d.channelIds && !(await channelsExist(d.channelIds))) return res.status(400).json({ message: "Channel not found" });
+
+  const rule = await withTransaction(async (client) => {
+    const r = await client.query(`SELECT * FROM alert_rules WHERE id=$1 FOR UPDATE`, [id.data]);
+    const before = r.rows[0];
+    if (!before) return null;
+
+    const next = {
+      name: d.name ?? before.name,
+      enabled: d.enabled ?? before.enabled,
+      map_id: d.mapId !== undefined ? d.mapId : before.map_id,
+      entity_type: d.entityType ?? before.entity_type,
+      types: d.types ?? before.types,
+      name_pattern: d.namePattern !== undefined ? d.namePattern || null : before.name_pattern,
+      tags: d.tags ?? before.tags,
+      from_status: d.fromStatus !== undefined ? d.fromStatus : before.from_status,
+      to_status: d.toStatus ?? before.to_status,
+      min_duration_s: d.minDurationS ?? before.min_duration_s,
+      repeat_interval_s: d.repeatIntervalS !== undefined ? d.repeatIntervalS : before.repeat_interval_s,
+      notify_recovery: d.notifyRecovery ?? before.notify_recovery,
+    };
+    if (next.from_status === next.to_status) return { error: "fromStatus and toStatus must differ" };
+
+    const cols = Object.keys(next);
+    await client.query(
+      `UPDATE alert_rules SET ${cols.map((c, i) => `${c}=$${i + 2}`).join(", ")} WHERE id=$1`,
+      [id.data, ...Object.values(next)]
+    );
+    if (d.channelIds) {
+      await client.query(`DELETE FROM alert_rule_channels WHERE rule_id=$1`, [id.data]);
+      await client.query(`INSERT INTO alert_rule_channels (rule_id, channel_id) SELECT $1, unnest($2::uuid[])`, [
+        id.data,
+        [...new Set(d.channelIds)],
+      ]);
+    }
+    // condição mudou ou regra desligada: alertas abertos não valem mais (sem aviso de recuperação)
+    const conditionKeys = ["enabled", "map_id", "entity_type", "types", "name_pattern", "tags", "from_status", "to_status"] as const;
+    if (conditionKeys.some((k) => JSON.stringify(next[k]) !== JSON.stringify(before[k]))) {
+      await client.query(`DELETE FROM alert_states WHERE rule_id=$1`, [id.data]);
+    }
+    return (await client.query(`${ruleSelect} WHERE r.id=$1 GROUP BY r.id`, [id.data])).rows[0];
+  });
+
+  if (!rule) return res.status(404).json({ message: "Rule not found" });
+  if ("error" in rule) return res.status(400).json({ message: rule.error });
+  res.json(rule);
+});
+
+alertRoutes.delete("/alerts/rules/:id", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const r = await pool.query(`DELETE FROM alert_rules WHERE id=$1 RETURNING id`, [id.data]);
+  if (!r.rows[0]) return res.status(404).json({ message: "Rule not found" });
+  res.status(204).send();
+});
+
+/** Alertas abertos agora (disparados e ainda não recuperados). */
+alertRoutes.get("/alerts/active", async (_req, res) => {
+  const r = await pool.query(`
+    SELECT s.rule_id, r.name AS rule_name, s.entity_type, s.entity_id, s.since, s.fired_at, s.last_notified_at,
+           COALESCE(d.name, l.label, fa.name || ' ↔ ' || ta.name) AS entity_name,
+           COALESCE(d.status::text, l.status::text) AS status
+    FROM alert_states s
+    JOIN alert_rules r ON r.id = s.rule_id
+    LEFT JOIN devices d ON s.entity_type = 'device' AND d.id = s.entity_id
+    LEFT JOIN links l ON s.entity_type = 'link' AND l.id = s.entity_id
+    LEFT JOIN devices fa ON fa.id = l.from_id
+    LEFT JOIN devices ta ON ta.id = l.to_id
+    ORDER BY s.fired_at DESC
+  `);
+  res.json(r.rows);
+});
+
+// -------- Avaliação --------
+
+type Entity = {
+  id: string;
+  name: string;
+  /** tipo do equipamento ou meio do link */
+  type: string | null;
+  tags: string[];
+  map_id: string;
+  status: string;
+  previous_status: string | null;
+  /** início do status atual (última transição) */
+  since: Date;
+};
+
+// último evento de status de cada entidade: de onde veio e desde quando
+const lastEvent = (type: string, alias: string) => `
+  LEFT JOIN LATERAL (
+    SELECT previous_status, created_at FROM status_events se
+    WHERE se.entity_type = '${type}' AND se.entity_id = ${alias}.id
+    ORDER BY se.created_at DESC, se.id DESC
+    LIMIT 1
+  ) e ON true
+`;
+
+async function loadEntities(type: "device" | "link"): Promise<Entity[]> {
+  const sql =
+    type === "device"
+      ? `
+        SELECT d.id, d.name, d.type, d.tags, d.map_id, d.status::text AS status,
+               e.previous_status, COALESCE(e.created_at, d.created_at) AS since
+        FROM devices d
+        ${lastEvent("device", "d")}
+      `
+      : `
+        SELECT l.id, COALESCE(l.label, a.name || ' ↔ ' || b.name) AS name, l.medium AS type,
+               ARRAY(SELECT DISTINCT unnest(a.tags || b.tags)) AS tags, a.map_id, l.status::text AS status,
+               e.previous_status, COALESCE(e.created_at, l.created_at) AS since
+        FROM links l
+        JOIN devices a ON a.id = l.from_id
+        JOIN devices b ON b.id = l.to_id
+        ${lastEvent("link", "l")}
+      `;
+  return (await pool.query(sql)).rows;
+}
+
+/** Curingas * e ? (nome inteiro, sem diferenciar maiúsculas). */
+function globRegex(pattern: string) {
+  const body = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${body}$`, "i");
+}
+
+function matches(rule: any, e: Entity) {
+  if (rule.map_id && rule.map_id !== e.map_id) return false;
+  if (rule.types.length > 0 && !rule.types.includes(e.type)) return false;
+  if (rule.tags.length > 0 && !rule.tags.some((t: string) => e.tags.includes(t))) return false;
+  if (rule.name_pattern && !globRegex(rule.name_pattern).test(e.name)) return false;
+  return true;
+}
+
+async function notifyAll(channels: Channel[], notice: Notice) {
+  const results = await Promise.allSettled(channels.map((c) => deliver(c, notice)));
+  results.forEach((r, i) => {
+    if (r.status === "rejected") console.error(`Alert delivery to "${channels[i].name}" failed:`, r.reason);
+  });
+}
+
+/**
+ * Uma rodada: abre alerta quando a entidade está no status-alvo (vindo do
+ * status de origem) há pelo menos min_duration_s; repete a cada
+ * repeat_interval_s; fecha (e avisa) quando sai do status-alvo.
+ * O estado é gravado antes do envio: no pior caso perde-se um aviso, nunca duplica.
+ */
+export async function evaluateAlerts(now = new Date()) {
+  const rules = (await pool.query(`${ruleSelect} WHERE r.enabled GROUP BY r.id`)).rows;
+  if (rules.length === 0) return;
+
+  const channelRows = (await pool.query(`SELECT * FROM alert_channels WHERE enabled`)).rows as Channel[];
+  const channelById = new Map(channelRows.map((c) => [c.id, c]));
+  const states = (await pool.query(`SELECT * FROM alert_states`)).rows;
+
+  const entities: Partial<Record<"device" | "link", Entity[]>> = {};
+  for (const rule of rules) {
+    const type: "device" | "link" = rule.entity_type;
+    const all = (entities[type] ??= await loadEntities(type));
+    const byId = new Map(all.map((e) => [e.id, e]));
+    const channels = (rule.channel_ids as string[]).map((id) => channelById.get(id)).filter((c): c is Channel => !!c);
+    const ruleRef = { id: rule.id, name: rule.name };
+    const open = new Map(states.filter((s) => s.rule_id === rule.id).map((s) => [s.entity_id, s]));
+
+    const firing = all.filter(
+      (e) =>
+        matches(rule, e) &&
+        e.status === rule.to_status &&
+        (rule.from_status === null || e.previous_status === rule.from_status) &&
+        now.getTime() - new Date(e.since).getTime() >= rule.min_duration_s * 1000
+    );
+
+    for (const e of firing) {
+      const since = new Date(e.since);
+      const state = open.get(e.id);
+      open.delete(e.id);
+      const notice = { type, id: e.id, name: e.name, status: e.status, previousStatus: e.previous_status, since };
+
+      // episódio novo (ou a entidade caiu de novo entre duas rodadas)
+      if (!state || new Date(state.since).getTime() !== since.getTime()) {
+        await pool.query(
+          `
+          INSERT INTO alert_states (rule_id, entity_type, entity_id, since, fired_at, last_notified_at)
+          VALUES ($1, $2, $3, $4, $5, $5)
+          ON CONFLICT (rule_id, entity_id) DO UPDATE SET since = EXCLUDED.since, fired_at = $5, last_notified_at = $5
+          `,
+          [rule.id, type, e.id, since, now]
+        );
+        await notifyAll(channels, buildNotice("firing", ruleRef, notice, now));
+      } else if (
+        rule.repeat_interval_s &&
+        now.getTime() - new Date(state.last_notified_at).getTime() >= rule.repeat_interval_s * 1000
+      ) {
+        await pool.query(`UPDATE alert_states SET last_notified_at=$3 WHERE rule_id=$1 AND entity_id=$2`, [rule.id, e.id, now]);
+        await notifyAll(channels, buildNotice("repeat", ruleRef, notice, now));
+      }
+    }
+
+    // o que sobrou aberto não está mais no status-alvo (ou a entidade sumiu)
+    for (const state of open.values()) {
+      await pool.query(`DELETE FROM alert_states WHERE rule_id=$1 AND entity_id=$2`, [rule.id, state.entity_id]);
+      const e = byId.get(state.entity_id);
+      if (!e || !rule.notify_recovery || e.status === rule.to_status) continue;
+      const notice = { type, id: e.id, name: e.name, status: e.status, previousStatus: rule.to_status, since: new Date(e.since) };
+      await notifyAll(channels, buildNotice("recovery", ruleRef, notice, now));
+    }
+  }
+}
+
+/** Avaliação periódica (ALERT_INTERVAL_MS, padrão 15 s), como o prober. */
+export function startAlerter(intervalMs = Number(process.env.ALERT_INTERVAL_MS) || 15_000) {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await evaluateAlerts();
+    } catch (err) {
+      console.error("Alert evaluation failed:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  void tick();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,116 @@
+import { Router } from "express";
+import { pool, type Db } from "./db.js";
+import { hasRole, type AuthUser } from "./auth.js";
+import { auditQuerySchema } from "./validators.js";
+
+/** map_ref: entity_id é o equipamento referenciado; user: nunca guarda o hash da senha. */
+export type AuditEntityType =
+  | "device"
+  | "link"
+  | "group"
+  | "map"
+  | "subnet"
+  | "device_type"
+  | "port"
+  | "vlan"
+  | "map_ref"
+  | "user";
+export type AuditAction = "create" | "update" | "delete" | "position";
+
+type Row = Record<string, unknown>;
+
+// map_ref (chave composta) e user (hash da senha) travam a linha na própria rota
+type LockableEntityType = Exclude<AuditEntityType, "map_ref" | "user">;
+
+const tables: Record<LockableEntityType, string> = {
+  device: "devices",
+  link: "links",
+  group: "groups",
+  map: "maps",
+  subnet: "subnets",
+  device_type: "device_types",
+  port: "ports",
+  vlan: "vlans",
+};
+
+/** Linha atual travada até o fim da transação: é o "antes" da auditoria. */
+export async function lockRow(db: Db, entityType: LockableEntityType, id: string): Promise<Row | null> {
+  const r = await db.query(`SELECT * FROM ${tables[entityType]} WHERE id=$1 FOR UPDATE`, [id]);
+  return r.rows[0] ?? null;
+}
+
+/**
+ * Create/delete guardam a linha inteira de um lado só;
+ * update guarda apenas os campos que mudaram, nos dois lados.
+ */
+function diffRows(before: Row | null, after: Row | null) {
+  if (!before || !after) return { before, after };
+
+  const b: Row = {};
+  const a: Row = {};
+  for (const k of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[k]) === JSON.stringify(after[k])) continue;
+    b[k] = before[k];
+    a[k] = after[k];
+  }
+  return { before: b, after: a };
+}
+
+/**
+ * Registra uma alteração. Chamar com o client da mesma transação da mudança,
+ * para a auditoria nunca divergir do que foi gravado.
+ */
+export async function recordAudit(
+  db: Db,
+  actor: AuthUser | undefined,
+  e: { entityType: AuditEntityType; entityId: string; action: AuditAction; before: Row | null; after: Row | null }
+) {
+  const { before, after } = diffRows(e.before, e.after);
+  if (before && after && Object.keys(after).length === 0) return; // nada mudou
+
+  // o token de webhook não é um usuário do banco: fica só o nome
+  const actorId = actor && actor.id !== "webhook" ? actor.id : null;
+
+  await db.query(
+    `
+    INSERT INTO audit_log (actor_id, actor_name, entity_type, entity_id, action, before, after)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `,
+    [
+      actorId,
+      actor?.username ?? "system",
+      e.entityType,
+      e.entityId,
+      e.action,
+      before ? JSON.stringify(before) : null,
+      after ? JSON.stringify(after) : null,
+    ]
+  );
+}
+
+export const auditRoutes = Router();
+
+auditRoutes.get("/audit", async (req, res) => {
+  const parsed = auditQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { entityType, entityId, actor, from, to, limit } = parsed.data;
+
+  const r = await pool.query(
+    `
+    SELECT id, actor_id, actor_name, entity_type, entity_id, action, before, after, created_at
+    FROM audit_log
+    WHERE ($1::text IS NULL OR entity_type = $1)
+      AND ($2::uuid IS NULL OR entity_id = $2)
+      AND ($3::text IS NULL OR actor_name ILIKE '%' || $3 || '%')
+      AND ($4::timestamptz IS NULL OR created_at >= $4)
+      AND ($5::timestamptz IS NULL OR created_at <= $5)
+      AND ($7 OR entity_type <> 'user')
+    ORDER BY created_at DESC, id DESC
+    LIMIT $6
+    `,
+    // gestão de usuários (papéis) só aparece para admin, como a própria gestão
+    [entityType ?? null, entityId ?? null, actor ?? null, from ?? null, to ?? null, limit, hasRole(req.user, "admin")]
+  );
+  res.json(r.rows);
+});
@@ -0,0 +1,210 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { pool } from "./db.js";
+import { loginSchema } from "./validators.js";
+
+export type Role = "viewer" | "operator" | "admin";
+export type AuthUser = { id: string; username: string; role: Role };
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SESSION_COOKIE = "session";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// viewer < operator < admin: cada papel inclui os de baixo
+const rank: Record<Role, number> = { viewer: 0, operator: 1, admin: 2 };
+
+export function hasRole(user: AuthUser | undefined, role: Role) {
+  return !!user && rank[user.role] >= rank[role];
+}
+
+/** Formato salvo: scrypt$<salt hex>$<hash hex> */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [algo, saltHex, hashHex] = stored.split("$");
+  if (algo !== "scrypt" || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest("hex");
+
+function readCookie(req: Request, name: string) {
+  const header = req.header("cookie");
+  if (!header) return undefined;
+  for (const part of header.split(";")) {
+    const [k, ...v] = part.trim().split("=");
+    if (k === name) return decodeURIComponent(v.join("="));
+  }
+  return undefined;
+}
+
+/** Remove todas as sessões do usuário (troca de senha, exclusão). */
+export async function revokeSessions(userId: string) {
+  await pool.query(`DELETE FROM sessions WHERE user_id=$1`, [userId]);
+}
+
+/**
+ * Primeiro boot sem usuários: cria um admin. Sem ADMIN_PASSWORD no .env
+ * gera uma senha aleatória e mostra no log uma única vez.
+ */
+export async function ensureAdminUser() {
+  const r = await pool.query(`SELECT 1 FROM users LIMIT 1`);
+  if (r.rows[0]) return;
+
+  const username = process.env.ADMIN_USERNAME ?? "admin";
+  const password = process.env.ADMIN_PASSWORD ?? randomBytes(9).toString("base64url");
+  await pool.query(`INSERT INTO users (username, password_hash, role) VALUES ($1, $2, 'admin')`, [
+    username,
+    await hashPassword(password),
+  ]);
+
+  if (process.env.ADMIN_PASSWORD) console.log(`Created admin user "${username}"`);
+  else console.log(`Created admin user "${username}" with password: ${password}`);
+}
+
+/** Exige sessão válida (cookie) e preenche req.user. */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (!token) return res.status(401).json({ message: "Not authenticated" });
+
+  const r = await pool.query(
+    `
+    SELECT u.id, u.username, u.role
+    FROM sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash=$1 AND s.expires_at > now()
+    `,
+    [sha256(token)]
+  );
+  if (!r.rows[0]) return res.status(401).json({ message: "Not authenticated" });
+
+  req.user = r.rows[0];
+  next();
+}
+
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ message: "Not authenticated" });
+    if (!hasRole(req.user, role)) return res.status(403).json({ message: "Forbidden" });
+    next();
+  };
+}
+
+/**
+ * PATCH parcial: operador pode mandar só `operatorFields` (status, posição...);
+ * qualquer outro campo no corpo exige admin.
+ */
+export function requireAdminUnless(operatorFields: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const keys = Object.keys(req.body ?? {});
+    const role: Role = keys.every((k) => operatorFields.includes(k)) ? "operator" : "admin";
+    return requireRole(role)(req, res, next);
+  };
+}
+
+/**
+ * Integrações externas não têm sessão: se WEBHOOK_TOKEN estiver definido,
+ * `Authorization: Bearer <token>` vale como operador. Senão, cookie normal.
+ */
+export function webhookAuth(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.WEBHOOK_TOKEN;
+  const given = req.header("authorization")?.replace(/^Bearer\s+/i, "");
+  if (expected && given && sha256(given) === sha256(expected)) {
+    req.user = { id: "webhook", username: "webhook", role: "operator" };
+    return next();
+  }
+  return authenticate(req, res, next);
+}
+
+// -------- Login / sessão --------
+
+export const authRoutes = Router();
+
+// backoff por usuário+IP: as primeiras falhas são livres, depois a espera dobra
+const FREE_FAILURES = 3;
+const MAX_LOCK_MS = 15 * 60 * 1000;
+const failedLogins = new Map<string, { failures: number; lockedUntil: number }>();
+
+function loginKey(req: Request, username: string) {
+  return `${username.toLowerCase()}|${req.ip ?? ""}`;
+}
+
+/** Milissegundos que ainda faltam para poder tentar de novo (0 = liberado). */
+function loginRetryAfter(key: string, now = Date.now()) {
+  const entry = failedLogins.get(key);
+  return entry ? Math.max(0, entry.lockedUntil - now) : 0;
+}
+
+function recordLoginFailure(key: string, now = Date.now()) {
+  // limpeza preguiçosa: entradas sem trava ativa há mais que o teto somem
+  if (failedLogins.size > 10_000) {
+    for (const [k, e] of failedLogins) if (e.lockedUntil + MAX_LOCK_MS < now) failedLogins.delete(k);
+  }
+  const failures = (failedLogins.get(key)?.failures ?? 0) + 1;
+  const lockMs = failures > FREE_FAILURES ? Math.min(1000 * 2 ** (failures - FREE_FAILURES - 1), MAX_LOCK_MS) : 0;
+  failedLogins.set(key, { failures, lockedUntil: now + lockMs });
+}
+
+authRoutes.post("/auth/login", async (req, res) => {
+  const parsed = loginSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { username, password } = parsed.data;
+  const key = loginKey(req, username);
+  const wait = loginRetryAfter(key);
+  if (wait > 0) {
+    res.setHeader("Retry-After", String(Math.ceil(wait / 1000)));
+    return res.status(429).json({ message: "Too many failed login attempts, try again later" });
+  }
+
+  const r = await pool.query(`SELECT id, username, role, password_hash FROM users WHERE username=$1`, [username]);
+  const row = r.rows[0];
+  if (!row || !(await verifyPassword(password, row.password_hash))) {
+    recordLoginFailure(key);
+    return res.status(401).json({ message: "Invalid username or password" });
+  }
+  failedLogins.delete(key);
+
+  const token = randomBytes(32).toString("base64url");
+  await pool.query(`DELETE FROM sessions WHERE expires_at <= now()`);
+  await pool.query(
+    `INSERT INTO sessions (token_hash, user_id, expires_at) VALUES ($1, $2, now() + $3 * interval '1 millisecond')`,
+    [sha256(token), row.id, SESSION_TTL_MS]
+  );
+
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.COOKIE_SECURE === "true",
+    maxAge: SESSION_TTL_MS,
+    path: "/",
+  });
+  res.json({ id: row.id, username: row.username, role: row.role });
+});
+
+authRoutes.post("/auth/logout", async (req, res) => {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) await pool.query(`DELETE FROM sessions WHERE token_hash=$1`, [sha256(token)]);
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+  res.status(204).send();
+});
+
+authRoutes.get("/auth/me", authenticate, (req, res) => {
+  res.json(req.user);
+});
@@ -0,0 +1,239 @@
+import { Router } from "express";
+import { randomUUID } from "node:crypto";
+import type { z } from "zod";
+import { defaultMapId, pool, withTransaction } from "./db.js";
+import { publish } from "./live.js";
+import { requireRole } from "./auth.js";
+import { recordAudit } from "./audit.js";
+import { recordStatusEvent } from "./statusEvents.js";
+import { mapExists } from "./transfer.js";
+import { parseIp, relinkSubnets } from "./ipam.js";
+import { deviceTypeKeys } from "./deviceTypes.js";
+import { bulkImportSchema, deviceCreateSchema, linkCreateSchema } from "./validators.js";
+
+/**
+ * Import de planilha (CSV/XLSX lidos no navegador). Valida linha a linha e
+ * devolve erros/avisos; só grava sem erros, numa transação.
+ */
+export const bulkImportRoutes = Router();
+
+type Row = Record<string, unknown>;
+
+// cabeçalhos aceitos (minúsculos, sem acento) → campo
+const deviceColumns: Record<string, string> = {
+  name: "name", nome: "name",
+  type: "type", tipo: "type",
+  ip: "ip", endereco: "ip",
+  status: "status",
+  x: "x", y: "y",
+};
+
+const linkColumns: Record<string, string> = {
+  from: "from", origem: "from", de: "from",
+  to: "to", destino: "to", para: "to",
+  label: "label", rotulo: "label",
+  status: "status",
+};
+
+/** Primeiro valor não vazio de cada campo; células vazias viram undefined. */
+function normalize(row: Row, columns: Record<string, string>) {
+  const out: Record<string, string | number | undefined> = {};
+  for (const [header, value] of Object.entries(row)) {
+    const key = columns[header.trim().toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "")];
+    if (!key || out[key] !== undefined) continue;
+    if (typeof value === "number") out[key] = value;
+    else if (value !== null && value !== undefined && String(value).trim() !== "") out[key] = String(value).trim();
+  }
+  return out;
+}
+
+function issues(error: z.ZodError) {
+  return error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message));
+}
+
+type DeviceRowReport = {
+  /** linha na planilha (1 é o cabeçalho) */
+  row: number;
+  name?: string;
+  type?: string;
+  ip?: string;
+  status?: string;
+  x?: number;
+  y?: number;
+  errors: string[];
+  warnings: string[];
+};
+
+type LinkRowReport = {
+  row: number;
+  from?: string;
+  to?: string;
+  label?: string;
+  status?: string;
+  errors: string[];
+  warnings: string[];
+};
+
+async function validate(mapId: string, rawDevices: Row[], rawLinks: Row[]) {
+  const existing = (await pool.query(`SELECT id, name, ip FROM devices WHERE map_id=$1`, [mapId])).rows;
+  const existingLinks = (
+    await pool.query(
+      `SELECT l.from_id, l.to_id FROM links l JOIN devices d ON d.id = l.from_id WHERE d.map_id = $1`,
+      [mapId]
+    )
+  ).rows;
+
+  const knownTypes = new Set(await deviceTypeKeys());
+  const existingNames = new Set(existing.map((d) => d.name.toLowerCase()));
+  // IP comparado normalizado (IPv6 tem várias grafias)
+  const ipKey = (ip: string) => {
+    const a = parseIp(ip);
+    return a ? `${a.version}:${a.value}` : ip;
+  };
+  const existingIps = new Map(existing.filter((d) => d.ip).map((d) => [ipKey(d.ip), d.name as string]));
+  const seenNames = new Map<string, number>();
+  const seenIps = new Map<string, number>();
+
+  const devices: (DeviceRowReport & { id: string })[] = rawDevices.map((raw, i) => {
+    const n = normalize(raw, deviceColumns);
+    const candidate = {
+      name: n.name === undefined ? undefined : String(n.name),
+      type: n.type === undefined ? undefined : String(n.type).toLowerCase(),
+      ip: n.ip === undefined ? undefined : String(n.ip),
+      status: n.status === undefined ? undefined : String(n.status).toLowerCase(),
+      x: n.x === undefined ? undefined : Number(n.x),
+      y: n.y === undefined ? undefined : Number(n.y),
+    };
+    const report = { id: randomUUID(), row: i + 2, ...candidate, errors: [] as string[], warnings: [] as string[] };
+
+    const parsed = deviceCreateSchema.omit({ mapId: true }).safeParse(candidate);
+    if (!parsed.success) report.errors.push(...issues(parsed.error));
+    else if (!knownTypes.has(parsed.data.type)) report.errors.push(`unknown type "${parsed.data.type}"`);
+
+    const key = candidate.name?.toLowerCase();
+    if (key) {
+      if (existingNames.has(key)) report.errors.push("name already exists on this map");
+      const first = seenNames.get(key);
+      if (first !== undefined) report.errors.push(`duplicate name (row ${first})`);
+      else seenNames.set(key, report.row);
+    }
+    if (candidate.ip) {
+      const ip = ipKey(candidate.ip);
+      if (existingIps.has(ip)) report.errors.push(`ip already used by ${existingIps.get(ip)}`);
+      const first = seenIps.get(ip);
+      if (first !== undefined) report.errors.push(`duplicate ip (row ${first})`);
+      else seenIps.set(ip, report.row);
+    }
+    if ((candidate.x === undefined) !== (candidate.y === undefined)) report.errors.push("x and y go together");
+    else if (candidate.x === undefined) report.warnings.push("no coordinates: will be auto-placed");
+    if (!candidate.status) report.warnings.push("no status: defaults to up");
+    return report;
+  });
+
+  // nome ou IP → id, primeiro entre as linhas novas, depois no mapa
+  const resolve = (ref: string): { id?: string; error?: string } => {
+    const lower = ref.toLowerCase();
+    const byName = devices.filter((d) => d.name?.toLowerCase() === lower);
+    const byIp = devices.filter((d) => d.ip === ref);
+    const fromSheet = byName.length ? byName : byIp;
+    if (fromSheet.length > 1) return { error: `"${ref}" is ambiguous` };
+    if (fromSheet[0]) {
+      return fromSheet[0].errors.length ? { error: `"${ref}" is on device row ${fromSheet[0].row}, which has errors` } : { id: fromSheet[0].id };
+    }
+
+    const onMapByName = existing.filter((d) => d.name.toLowerCase() === lower);
+    const onMap = onMapByName.length ? onMapByName : existing.filter((d) => d.ip === ref);
+    if (onMap.length > 1) return { error: `"${ref}" is ambiguous` };
+    if (onMap[0]) return { id: onMap[0].id };
+    return { error: `device "${ref}" not found` };
+  };
+
+  const links: (LinkRowReport & { fromId?: string; toId?: string })[] = rawLinks.map((raw, i) => {
+    const n = normalize(raw, linkColumns);
+    const report = {
+      row: i + 2,
+      from: n.from === undefined ? undefined : String(n.from),
+      to: n.to === undefined ? undefined : String(n.to),
+      label: n.label === undefined ? undefined : String(n.label),
+      status: n.status === undefined ? undefined : String(n.status).toLowerCase(),
+      fromId: undefined as string | undefined,
+      toId: undefined as string | undefined,
+      errors: [] as string[],
+      warnings: [] as string[],
+    };
+
+    const from = report.from ? resolve(report.from) : { error: "from is required" };
+    const to = report.to ? resolve(report.to) : { error: "to is required" };
+    if (from.error) report.errors.push(from.error);
+    if (to.error) report.errors.push(to.error);
+    if (from.id && to.id) {
+      report.fromId = from.id;
+      report.toId = to.id;
+      const parsed = linkCreateSchema.safeParse({ fromId: from.id, toId: to.id, label: report.label, status: report.status });
+      if (!parsed.success) report.errors.push(...issues(parsed.error));
+      if (from.id === to.id) report.errors.push("from and to are the same device");
+      if (existingLinks.some((l) => l.from_id === from.id && l.to_id === to.id)) report.warnings.push("a link between these devices already exists");
+    }
+    return report;
+  });
+
+  const valid = devices.every((d) => d.errors.length === 0) && links.every((l) => l.errors.length === 0);
+  return { devices, links, valid };
+}
+
+bulkImportRoutes.post("/bulk-import", requireRole("admin"), async (req, res) => {
+  const parsed = bulkImportSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { dryRun } = parsed.data;
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  if (!(await mapExists(mapId))) return res.status(400).json({ message: "mapId invalid (map not found)" });
+
+  const checked = await validate(mapId, parsed.data.devices, parsed.data.links);
+  // ids internos não saem no relatório
+  const report = {
+    dryRun,
+    valid: checked.valid,
+    devices: checked.devices.map(({ id: _id, ...d }) => d),
+    links: checked.links.map(({ fromId: _f, toId: _t, ...l }) => l),
+  };
+
+  if (dryRun) return res.json(report);
+  if (!checked.valid) return res.status(400).json({ message: "Spreadsheet has errors", ...report });
+
+  await withTransaction(async (client) => {
+    for (const d of checked.devices) {
+      const r = await client.query(
+        `
+        INSERT INTO devices (id, name, type, ip, status, x, y, map_id)
+        VALUES ($1, $2, $3, $4, COALESCE($5::device_status, 'up'::device_status), $6, $7, $8)
+        RETURNING *
+        `,
+        [d.id, d.name, d.type, d.ip ?? null, d.status ?? null, d.x ?? 0, d.y ?? 0, mapId]
+      );
+      const row = r.rows[0];
+      await recordStatusEvent(client, { entityType: "device", entityId: row.id, previousStatus: null, status: row.status, source: "manual" });
+      await recordAudit(client, req.user, { entityType: "device", entityId: row.id, action: "create", before: null, after: row });
+    }
+
+    for (const l of checked.links) {
+      const r = await client.query(
+        `
+        INSERT INTO links (from_id, to_id, status, label)
+        VALUES ($1, $2, COALESCE($3::link_status, 'up'::link_status), $4)
+        RETURNING *
+        `,
+        [l.fromId, l.toId, l.status ?? null, l.label ?? null]
+      );
+      const row = r.rows[0];
+      await recordStatusEvent(client, { entityType: "link", entityId: row.id, previousStatus: null, status: row.status, source: "manual" });
+      await recordAudit(client, req.user, { entityType: "link", entityId: row.id, action: "create", before: null, after: row });
+    }
+
+    await relinkSubnets(client, mapId);
+  });
+
+  // centenas de linhas: os navegadores refazem o fetch
+  publish("topology.restored", { mapId });
+  res.status(201).json(report);
+});
@@ -4,6 +4,9 @@ dotenv.config();
 
 const { Pool } = pg;
 
+// date (1082) fica como "YYYY-MM-DD": virar Date deslocaria o dia pelo fuso
+pg.types.setTypeParser(1082, (v) => v);
+
 if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL is missing in .env");
 }
@@ -12,6 +15,24 @@ export const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
+/** Pool ou client de transação: ambos servem para `query`. */
+export type Db = pg.Pool | pg.PoolClient;
+
+export async function withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
 export async function ensureSchema() {
   await pool.query(`CREATE EXTENSION IF NOT EXISTS "pgcrypto";`);
 
@@ -19,7 +40,7 @@ export async function ensureSchema() {
     CREATE TABLE IF NOT EXISTS devices (
       id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
       name text NOT NULL,
-      type text NOT NULL CHECK (type IN ('hub', 'switch', 'router', 'ap', 'server')),
+      type text NOT NULL,
       ip text,
       status text NOT NULL DEFAULT 'up' CHECK (status IN ('up', 'warn', 'down')),
       x double precision NOT NULL DEFAULT 0,
@@ -28,6 +49,41 @@ export async function ensureSchema() {
     )
   `);
 
+  // Tipos de equipamento são dados, não código: o admin cadastra novos pela API.
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS device_types (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      key text NOT NULL UNIQUE,
+      label text NOT NULL,
+      icon text,
+      icon_svg text,
+      width integer NOT NULL DEFAULT 220 CHECK (width BETWEEN 120 AND 600),
+      height integer NOT NULL DEFAULT 70 CHECK (height BETWEEN 40 AND 400),
+      created_at timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+
+  // Só na criação (ou vindo do CHECK antigo): tipo padrão apagado pelo admin
+  // não volta no próximo boot, e o FK não é refeito (lock + varredura de devices).
+  const typeFk = await pool.query(
+    `SELECT 1 FROM pg_constraint WHERE conname = 'devices_type_fkey' AND conrelid = 'devices'::regclass`
+  );
+  if (!typeFk.rows[0]) {
+    // um comando só: sementes e FK entram juntos ou nada entra
+    await pool.query(`
+      INSERT INTO device_types (key, label, icon) VALUES
+        ('hub', 'Hub', '🌐'),
+        ('switch', 'Switch', '🔀'),
+        ('router', 'Roteador', '📡'),
+        ('ap', 'Access point', '📶'),
+        ('server', 'Servidor', '🖥️')
+      ON CONFLICT (key) DO NOTHING;
+      INSERT INTO device_types (key, label) SELECT DISTINCT type, type FROM devices ON CONFLICT (key) DO NOTHING;
+      ALTER TABLE devices DROP CONSTRAINT IF EXISTS devices_type_check;
+      ALTER TABLE devices ADD CONSTRAINT devices_type_fkey FOREIGN KEY (type) REFERENCES device_types(key)
+    `);
+  }
+
   // If an older schema exists with integer x/y, upgrade to double precision.
   await pool.query(`
     ALTER TABLE devices
@@ -35,6 +91,30 @@ export async function ensureSchema() {
       ALTER COLUMN y TYPE double precision USING y::double precision
   `);
 
+  // Resultado da última sonda ativa (ver probe.ts)
+  await pool.query(`
+    ALTER TABLE devices
+      ADD COLUMN IF NOT EXISTS probe_latency_ms double precision,
+      ADD COLUMN IF NOT EXISTS probe_loss double precision,
+      ADD COLUMN IF NOT EXISTS probed_at timestamptz
+  `);
+
+  // Inventário (ver inventory.ts)
+  await pool.query(`
+    ALTER TABLE devices
+      ADD COLUMN IF NOT EXISTS vendor text,
+      ADD COLUMN IF NOT EXISTS model text,
+      ADD COLUMN IF NOT EXISTS serial_number text,
+      ADD COLUMN IF NOT EXISTS firmware_version text,
+      ADD COLUMN IF NOT EXISTS mac text,
+      ADD COLUMN IF NOT EXISTS location text,
+      ADD COLUMN IF NOT EXISTS owner text,
+      ADD COLUMN IF NOT EXISTS purchase_date date,
+      ADD COLUMN IF NOT EXISTS warranty_until date,
+      ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}',
+      ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'
+  `);
+
   await pool.query(`
     CREATE TABLE IF NOT EXISTS links (
       id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -52,4 +132,380 @@ export async function ensureSchema() {
     CREATE UNIQUE INDEX IF NOT EXISTS links_unique
     ON links (from_id, to_id, from_handle, to_handle)
   `);
+
+  // Portas/interfaces do equipamento (ver ports.ts). O link aponta para a porta de cada ponta.
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS ports (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      device_id uuid NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+      name text NOT NULL,
+      kind text NOT NULL DEFAULT 'ethernet' CHECK (kind IN ('ethernet', 'fiber', 'wireless', 'console', 'virtual', 'other')),
+      speed_mbps integer CHECK (speed_mbps > 0),
+      admin_status text NOT NULL DEFAULT 'up' CHECK (admin_status IN ('up', 'down')),
+      oper_status text NOT NULL DEFAULT 'unknown' CHECK (oper_status IN ('up', 'down', 'unknown')),
+      description text,
+      created_at timestamptz NOT NULL DEFAULT now(),
+      UNIQUE (device_id, name)
+    )
+  `);
+
+  await pool.query(`
+    ALTER TABLE links
+      ADD COLUMN IF NOT EXISTS from_port_id uuid REFERENCES ports(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS to_port_id uuid REFERENCES ports(id) ON DELETE SET NULL;
+    ALTER TABLE links DROP CONSTRAINT IF EXISTS links_ports_distinct;
+    ALTER TABLE links ADD CONSTRAINT links_ports_distinct CHECK (from_port_id <> to_port_id)
+  `);
+
+  // Um link por porta. Os índices cobrem cada coluna; o trigger cobre a porta
+  // usada como origem num link e destino em outro, e a porta de outro equipamento.
+  await pool.query(`
+    CREATE UNIQUE INDEX IF NOT EXISTS links_from_port ON links (from_port_id) WHERE from_port_id IS NOT NULL;
+    CREATE UNIQUE INDEX IF NOT EXISTS links_to_port ON links (to_port_id) WHERE to_port_id IS NOT NULL;
+
+    CREATE OR REPLACE FUNCTION links_check_port(p_link uuid, p_port uuid, p_device uuid) RETURNS void AS $$
+    BEGIN
+      IF p_port IS NULL THEN RETURN; END IF;
+      -- trava a porta: dois links concorrentes na mesma porta viram fila
+      PERFORM 1 FROM ports WHERE id = p_port AND device_id = p_device FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'port % is not on device %', p_port, p_device
+          USING ERRCODE = 'check_violation', CONSTRAINT = 'links_port_device';
+      END IF;
+      IF EXISTS (SELECT 1 FROM links WHERE id <> p_link AND p_port IN (from_port_id, to_port_id)) THEN
+        RAISE EXCEPTION 'port % already has a link', p_port
+          USING ERRCODE = 'unique_violation', CONSTRAINT = 'links_port_busy';
+      END IF;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION links_port_trigger() RETURNS trigger AS $$
+    BEGIN
+      PERFORM links_check_port(NEW.id, NEW.from_port_id, NEW.from_id);
+      PERFORM links_check_port(NEW.id, NEW.to_port_id, NEW.to_id);
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS links_port_check ON links;
+    CREATE TRIGGER links_port_check BEFORE INSERT OR UPDATE OF from_id, to_id, from_port_id, to_port_id ON links
+      FOR EACH ROW EXECUTE FUNCTION links_port_trigger()
+  `);
+
+  // bancos antigos: o handle (nome da porta, ex. do LLDP) vira porta de verdade
+  await pool.query(`
+    INSERT INTO ports (device_id, name)
+    SELECT from_id, from_handle FROM links WHERE from_handle IS NOT NULL AND from_port_id IS NULL
+    UNION
+    SELECT to_id, to_handle FROM links WHERE to_handle IS NOT NULL AND to_port_id IS NULL
+    ON CONFLICT (device_id, name) DO NOTHING
+  `);
+  for (const end of ["from", "to"]) {
+    // uma porta livre para um link só (o mais antigo), senão o trigger recusa
+    await pool.query(`
+      UPDATE links l SET ${end}_port_id = pick.port_id
+      FROM (
+        SELECT DISTINCT ON (p.id) p.id AS port_id, x.id AS link_id
+        FROM links x
+        JOIN ports p ON p.device_id = x.${end}_id AND p.name = x.${end}_handle
+        WHERE x.${end}_port_id IS NULL
+          AND NOT EXISTS (SELECT 1 FROM links o WHERE p.id IN (o.from_port_id, o.to_port_id))
+        ORDER BY p.id, x.created_at
+      ) pick
+      WHERE l.id = pick.link_id AND pick.port_id IS DISTINCT FROM l.from_port_id
+    `);
+  }
+
+  // Capacidade (Mbps) e meio físico do link; decidem espessura e traço da aresta
+  await pool.query(`
+    ALTER TABLE links
+      ADD COLUMN IF NOT EXISTS capacity_mbps integer CHECK (capacity_mbps > 0),
+      ADD COLUMN IF NOT EXISTS medium text CHECK (medium IN ('copper', 'fiber', 'wireless', 'vpn'))
+  `);
+
+  // Última amostra de tráfego por link (POST /webhooks/utilization); amostra mais velha é ignorada
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS link_utilization (
+      link_id uuid PRIMARY KEY REFERENCES links(id) ON DELETE CASCADE,
+      in_bps bigint NOT NULL CHECK (in_bps >= 0),
+      out_bps bigint NOT NULL CHECK (out_bps >= 0),
+      sampled_at timestamptz NOT NULL
+    )
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS status_events (
+      id bigserial PRIMARY KEY,
+      entity_type text NOT NULL CHECK (entity_type IN ('device', 'link')),
+      entity_id uuid NOT NULL,
+      previous_status text CHECK (previous_status IN ('up', 'warn', 'down')),
+      status text NOT NULL CHECK (status IN ('up', 'warn', 'down')),
+      source text NOT NULL CHECK (source IN ('manual', 'probe', 'webhook', 'discovery')),
+      created_at timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+
+  // bancos antigos: o CHECK de source não conhecia 'discovery'
+  await pool.query(`
+    ALTER TABLE status_events DROP CONSTRAINT IF EXISTS status_events_source_check;
+    ALTER TABLE status_events ADD CONSTRAINT status_events_source_check
+      CHECK (source IN ('manual', 'probe', 'webhook', 'discovery'))
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS status_events_entity
+    ON status_events (entity_type, entity_id, created_at)
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS maps (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      name text NOT NULL,
+      description text,
+      created_at timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+
+  // Bancos antigos tinham um único mapa global: vira o mapa "Principal".
+  await pool.query(`
+    INSERT INTO maps (name)
+    SELECT 'Principal' WHERE NOT EXISTS (SELECT 1 FROM maps)
+  `);
+
+  await pool.query(`
+    ALTER TABLE devices
+      ADD COLUMN IF NOT EXISTS map_id uuid REFERENCES maps(id) ON DELETE CASCADE
+  `);
+
+  await pool.query(`
+    UPDATE devices
+    SET map_id = (SELECT id FROM maps ORDER BY created_at ASC LIMIT 1)
+    WHERE map_id IS NULL
+  `);
+
+  await pool.query(`ALTER TABLE devices ALTER COLUMN map_id SET NOT NULL`);
+
+  // Equipamento de outro mapa exibido como referência (somente leitura)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS map_refs (
+      map_id uuid NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+      device_id uuid NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+      x double precision NOT NULL DEFAULT 0,
+      y double precision NOT NULL DEFAULT 0,
+      PRIMARY KEY (map_id, device_id)
+    )
+  `);
+
+  // Caixas em volta de equipamentos (sala, rack, zona de VLAN...). x/y são absolutos.
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS groups (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      map_id uuid NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+      parent_id uuid REFERENCES groups(id) ON DELETE SET NULL,
+      name text NOT NULL,
+      kind text NOT NULL DEFAULT 'room' CHECK (kind IN ('room', 'rack', 'zone', 'other')),
+      x double precision NOT NULL DEFAULT 0,
+      y double precision NOT NULL DEFAULT 0,
+      width double precision NOT NULL DEFAULT 400,
+      height double precision NOT NULL DEFAULT 260,
+      collapsed boolean NOT NULL DEFAULT false,
+      created_at timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+
+  await pool.query(`
+    ALTER TABLE devices
+      ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES groups(id) ON DELETE SET NULL
+  `);
+
+  // raiz (core): referência do status efetivo e da análise de impacto
+  await pool.query(`ALTER TABLE devices ADD COLUMN IF NOT EXISTS is_root boolean NOT NULL DEFAULT false`);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS users (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      username text NOT NULL UNIQUE,
+      password_hash text NOT NULL,
+      role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'operator', 'admin')),
+      created_at timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+
+  // Guardamos só o sha256 do token; o token em si fica no cookie do navegador.
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      token_hash text PRIMARY KEY,
+      user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      expires_at timestamptz NOT NULL,
+      created_at timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+
+  // Quem mudou o quê. Sem FK em entity_id: a entrada sobrevive à exclusão.
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id bigserial PRIMARY KEY,
+      actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+      actor_name text NOT NULL,
+      entity_type text NOT NULL CHECK (entity_type IN ('device', 'link', 'group', 'map', 'subnet', 'device_type', 'port', 'vlan', 'map_ref', 'user')),
+      entity_id uuid NOT NULL,
+      action text NOT NULL CHECK (action IN ('create', 'update', 'delete', 'position')),
+      before jsonb,
+      after jsonb,
+      created_at timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+
+  // bancos antigos: o CHECK de entity_type não conhecia os tipos mais novos
+  await pool.query(`
+    ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_entity_type_check;
+    ALTER TABLE audit_log ADD CONSTRAINT audit_log_entity_type_check
+      CHECK (entity_type IN ('device', 'link', 'group', 'map', 'subnet', 'device_type', 'port', 'vlan', 'map_ref', 'user'))
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS audit_log_entity
+    ON audit_log (entity_type, entity_id, created_at)
+  `);
+
+  await pool.query(`CREATE INDEX IF NOT EXISTS audit_log_created ON audit_log (created_at)`);
+
+  // Foto da topologia (mesmo formato do GET /topology). map_id nulo = todos os mapas.
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS snapshots (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      name text NOT NULL,
+      map_id uuid REFERENCES maps(id) ON DELETE CASCADE,
+      topology jsonb NOT NULL,
+      created_by text,
+      created_at timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+
+  // Fila de revisão da descoberta (nmap): um host pendente por IP e mapa
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS discovery_candidates (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      map_id uuid NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+      ip text NOT NULL,
+      hostname text,
+      mac text,
+      vendor text,
+      os text,
+      open_ports integer[] NOT NULL DEFAULT '{}',
+      guessed_type text NOT NULL,
+      type_reason text,
+      state text NOT NULL DEFAULT 'pending' CHECK (state IN ('pending', 'accepted', 'ignored', 'merged')),
+      device_id uuid REFERENCES devices(id) ON DELETE SET NULL,
+      first_seen timestamptz NOT NULL DEFAULT now(),
+      last_seen timestamptz NOT NULL DEFAULT now(),
+      resolved_by text,
+      resolved_at timestamptz
+    )
+  `);
+
+  // o palpite é validado ao aceitar, contra device_types
+  await pool.query(`ALTER TABLE discovery_candidates DROP CONSTRAINT IF EXISTS discovery_candidates_guessed_type_check`);
+
+  await pool.query(`
+    CREATE UNIQUE INDEX IF NOT EXISTS discovery_candidates_pending
+    ON discovery_candidates (map_id, ip) WHERE state = 'pending'
+  `);
+
+  // IPAM: cidr guardado normalizado (endereço de rede); o device aponta para a sub-rede mais específica
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS subnets (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      map_id uuid NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+      cidr text NOT NULL,
+      name text NOT NULL,
+      gateway text,
+      vlan integer CHECK (vlan BETWEEN 1 AND 4094),
+      created_at timestamptz NOT NULL DEFAULT now(),
+      UNIQUE (map_id, cidr)
+    )
+  `);
+
+  await pool.query(`
+    ALTER TABLE devices
+      ADD COLUMN IF NOT EXISTS subnet_id uuid REFERENCES subnets(id) ON DELETE SET NULL
+  `);
+
+  // VLANs por mapa (ver vlans.ts). Link carrega a VLAN tagged ou untagged (no máximo uma untagged)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS vlans (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      map_id uuid NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+      vid integer NOT NULL CHECK (vid BETWEEN 1 AND 4094),
+      name text NOT NULL,
+      color text NOT NULL DEFAULT '#6366f1',
+      created_at timestamptz NOT NULL DEFAULT now(),
+      UNIQUE (map_id, vid)
+    )
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS link_vlans (
+      link_id uuid NOT NULL REFERENCES links(id) ON DELETE CASCADE,
+      vlan_id uuid NOT NULL REFERENCES vlans(id) ON DELETE CASCADE,
+      tagged boolean NOT NULL DEFAULT true,
+      PRIMARY KEY (link_id, vlan_id)
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS link_vlans_untagged ON link_vlans (link_id) WHERE NOT tagged;
+
+    CREATE TABLE IF NOT EXISTS device_vlans (
+      device_id uuid NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+      vlan_id uuid NOT NULL REFERENCES vlans(id) ON DELETE CASCADE,
+      PRIMARY KEY (device_id, vlan_id)
+    )
+  `);
+
+  // Alertas (ver alerts.ts): regra casa transições de status e notifica canais
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS alert_channels (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      name text NOT NULL,
+      kind text NOT NULL CHECK (kind IN ('webhook', 'email', 'chat')),
+      config jsonb NOT NULL DEFAULT '{}'::jsonb,
+      enabled boolean NOT NULL DEFAULT true,
+      created_at timestamptz NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE IF NOT EXISTS alert_rules (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      name text NOT NULL,
+      enabled boolean NOT NULL DEFAULT true,
+      map_id uuid REFERENCES maps(id) ON DELETE CASCADE,
+      entity_type text NOT NULL CHECK (entity_type IN ('device', 'link')),
+      types text[] NOT NULL DEFAULT '{}',
+      name_pattern text,
+      tags text[] NOT NULL DEFAULT '{}',
+      from_status text CHECK (from_status IN ('up', 'warn', 'down')),
+      to_status text NOT NULL CHECK (to_status IN ('up', 'warn', 'down')),
+      min_duration_s integer NOT NULL DEFAULT 0 CHECK (min_duration_s >= 0),
+      repeat_interval_s integer CHECK (repeat_interval_s > 0),
+      notify_recovery boolean NOT NULL DEFAULT true,
+      created_at timestamptz NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE IF NOT EXISTS alert_rule_channels (
+      rule_id uuid NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+      channel_id uuid NOT NULL REFERENCES alert_channels(id) ON DELETE CASCADE,
+      PRIMARY KEY (rule_id, channel_id)
+    );
+
+    -- alerta disparado: um por regra e entidade; since = início do episódio (dedup)
+    CREATE TABLE IF NOT EXISTS alert_states (
+      rule_id uuid NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+      entity_type text NOT NULL CHECK (entity_type IN ('device', 'link')),
+      entity_id uuid NOT NULL,
+      since timestamptz NOT NULL,
+      fired_at timestamptz NOT NULL DEFAULT now(),
+      last_notified_at timestamptz NOT NULL DEFAULT now(),
+      PRIMARY KEY (rule_id, entity_id)
+    )
+  `);
+}
+
+export async function defaultMapId(db: Db = pool): Promise<string> {
+  const r = await db.query(`SELECT id FROM maps ORDER BY created_at ASC LIMIT 1`);
+  return r.rows[0].id;
 }
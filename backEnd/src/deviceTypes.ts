@@ -0,0 +1,122 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool, withTransaction, type Db } from "./db.js";
+import { publish } from "./live.js";
+import { requireRole } from "./auth.js";
+import { lockRow, recordAudit } from "./audit.js";
+import { deviceTypeCreateSchema, deviceTypeUpdateSchema } from "./validators.js";
+
+/**
+ * Tipos de equipamento (ícone, rótulo, tamanho padrão) cadastrados pelo admin.
+ * devices.type é FK para device_types.key; a chave não muda depois de criada.
+ */
+export const deviceTypeRoutes = Router();
+
+/** Chaves que não estão em device_types (vazio = tudo certo). */
+export async function unknownDeviceTypes(db: Db, keys: Iterable<string>) {
+  const wanted = [...new Set(keys)];
+  if (wanted.length === 0) return [];
+  const r = await db.query(`SELECT key FROM device_types WHERE key = ANY($1::text[])`, [wanted]);
+  const known = new Set(r.rows.map((t) => t.key as string));
+  return wanted.filter((k) => !known.has(k));
+}
+
+export async function deviceTypeKeys(db: Db = pool) {
+  return (await db.query(`SELECT key FROM device_types ORDER BY key`)).rows.map((t) => t.key as string);
+}
+
+export async function deviceTypeSizes(db: Db = pool) {
+  const r = await db.query(`SELECT key, width, height FROM device_types`);
+  return new Map(r.rows.map((t) => [t.key as string, { width: Number(t.width), height: Number(t.height) }]));
+}
+
+export const unknownTypesMessage = (keys: string[]) => `Unknown device type${keys.length > 1 ? "s" : ""}: ${keys.join(", ")}`;
+
+deviceTypeRoutes.get("/device-types", async (_req, res) => {
+  const r = await pool.query(`
+    SELECT t.*, (SELECT count(*)::int FROM devices d WHERE d.type = t.key) AS device_count
+    FROM device_types t
+    ORDER BY t.label, t.key
+  `);
+  res.json(r.rows);
+});
+
+deviceTypeRoutes.post("/device-types", requireRole("admin"), async (req, res) => {
+  const parsed = deviceTypeCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { key, label, icon, iconSvg, width, height } = parsed.data;
+  try {
+    const row = await withTransaction(async (client) => {
+      const r = await client.query(
+        `
+        INSERT INTO device_types (key, label, icon, icon_svg, width, height)
+        VALUES ($1, $2, $3, $4, COALESCE($5, 220), COALESCE($6, 70))
+        RETURNING *
+        `,
+        [key, label, icon ?? null, iconSvg ?? null, width ?? null, height ?? null]
+      );
+      await recordAudit(client, req.user, { entityType: "device_type", entityId: r.rows[0].id, action: "create", before: null, after: r.rows[0] });
+      return r.rows[0];
+    });
+    publish("deviceType.changed", { key });
+    res.status(201).json(row);
+  } catch (e: any) {
+    if (e?.code === "23505") return res.status(409).json({ message: "Device type key already exists" });
+    throw e;
+  }
+});
+
+deviceTypeRoutes.patch("/device-types/:id", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = deviceTypeUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+  if (Object.keys(parsed.data).length === 0) return res.status(400).json({ message: "No fields to update" });
+
+  const fields = parsed.data;
+  const row = await withTransaction(async (client) => {
+    const before = await lockRow(client, "device_type", id.data);
+    if (!before) return null;
+    const r = await client.query(
+      `UPDATE device_types SET label=$2, icon=$3, icon_svg=$4, width=$5, height=$6 WHERE id=$1 RETURNING *`,
+      [
+        id.data,
+        fields.label ?? before.label,
+        fields.icon === undefined ? before.icon : fields.icon,
+        fields.iconSvg === undefined ? before.icon_svg : fields.iconSvg,
+        fields.width ?? before.width,
+        fields.height ?? before.height,
+      ]
+    );
+    await recordAudit(client, req.user, { entityType: "device_type", entityId: id.data, action: "update", before, after: r.rows[0] });
+    return r.rows[0];
+  });
+
+  if (!row) return res.status(404).json({ message: "Device type not found" });
+  publish("deviceType.changed", { key: row.key });
+  res.json(row);
+});
+
+deviceTypeRoutes.delete("/device-types/:id", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const result = await withTransaction(async (client) => {
+    const before = await lockRow(client, "device_type", id.data);
+    if (!before) return null;
+
+    const used = await client.query(`SELECT count(*)::int AS n FROM devices WHERE type=$1`, [before.key]);
+    if (used.rows[0].n > 0) return { inUse: used.rows[0].n as number };
+
+    await client.query(`DELETE FROM device_types WHERE id=$1`, [id.data]);
+    await recordAudit(client, req.user, { entityType: "device_type", entityId: id.data, action: "delete", before, after: null });
+    return { deleted: before };
+  });
+
+  if (!result) return res.status(404).json({ message: "Device type not found" });
+  if ("inUse" in result) return res.status(409).json({ message: `Device type in use by ${result.inUse} device(s)` });
+  publish("deviceType.changed", { key: result.deleted.key });
+  res.status(204).send();
+});
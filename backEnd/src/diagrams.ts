@@ -0,0 +1,400 @@
+import { Router } from "express";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { XMLParser } from "fast-xml-parser";
+import { defaultMapId } from "./db.js";
+import { requireRole } from "./auth.js";
+import { buildExportDocument, mapExists, runImport, type ExportDocument } from "./transfer.js";
+import { deviceTypeKeys, deviceTypeSizes } from "./deviceTypes.js";
+import { exportDocumentSchema, exportQuerySchema, graphmlImportSchema } from "./validators.js";
+
+/**
+ * Conversão para DOT, GraphML (yEd) e draw.io, e GraphML de volta para o
+ * documento de import. Posições são as salvas (canto superior esquerdo).
+ */
+export const diagramRoutes = Router();
+
+type Status = "up" | "warn" | "down";
+type Device = ExportDocument["devices"][number];
+
+/** Mesma paleta do frontend: edgeColor (links) e statusClasses (equipamentos). */
+const linkColor: Record<Status, string> = { up: "#22c55e", warn: "#f59e0b", down: "#ef4444" };
+const deviceColor: Record<Status, { fill: string; stroke: string }> = {
+  up: { fill: "#ecfdf5", stroke: "#059669" },
+  warn: { fill: "#fffbeb", stroke: "#d97706" },
+  down: { fill: "#fff1f2", stroke: "#e11d48" },
+};
+
+/** Tamanho padrão de cada tipo (device_types); NODE_SIZE se o tipo sumiu. */
+type Sizes = Map<string, { width: number; height: number }>;
+const NODE_SIZE = { width: 220, height: 70 };
+const sizeOf = (sizes: Sizes, d: Device) => sizes.get(d.type) ?? NODE_SIZE;
+
+const STATUSES: Status[] = ["up", "warn", "down"];
+
+function xml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+function dotString(s: string) {
+  return `"${s.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function subtitle(d: Device) {
+  return `${d.type.toUpperCase()}${d.ip ? ` • ${d.ip}` : ""}`;
+}
+
+// ---- DOT ----
+
+/** `neato -n` respeita `pos` (centro do nó, em pontos, y para cima). */
+function toDot(doc: ExportDocument, sizes: Sizes) {
+  const lines = [
+    `digraph ${dotString(doc.map?.name ?? "topology")} {`,
+    `  graph [splines=true, overlap=false];`,
+    `  node [shape=box, style="rounded,filled", fontname="Helvetica", width=${NODE_SIZE.width / 72}, height=${NODE_SIZE.height / 72}];`,
+    `  edge [fontname="Helvetica", penwidth=2];`,
+  ];
+
+  for (const d of doc.devices) {
+    const status = d.status ?? "up";
+    const size = sizeOf(sizes, d);
+    const attrs = [
+      `label=${dotString(`${d.name}\n${subtitle(d)}`)}`,
+      `pos="${d.x + size.width / 2},${-(d.y + size.height / 2)}!"`,
+      `width=${size.width / 72}`,
+      `height=${size.height / 72}`,
+      `color="${deviceColor[status].stroke}"`,
+      `fillcolor="${deviceColor[status].fill}"`,
+      `type="${d.type}"`,
+      `status="${status}"`,
+      ...(d.ip ? [`ip=${dotString(d.ip)}`] : []),
+    ];
+    lines.push(`  ${dotString(d.id)} [${attrs.join(", ")}];`);
+  }
+
+  for (const l of doc.links) {
+    const status = l.status ?? "up";
+    const attrs = [
+      `color="${linkColor[status]}"`,
+      `status="${status}"`,
+      ...(l.label ? [`label=${dotString(l.label)}`] : []),
+    ];
+    lines.push(`  ${dotString(l.fromId)} -> ${dotString(l.toId)} [${attrs.join(", ")}];`);
+  }
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+// ---- GraphML (yEd) ----
+
+const nodeKeys = ["name", "type", "ip", "status"];
+const edgeKeys = ["label", "status", "fromHandle", "toHandle"];
+
+function toGraphml(doc: ExportDocument, sizes: Sizes) {
+  const keys = [
+    ...nodeKeys.map((k) => `  <key id="n_${k}" for="node" attr.name="${k}" attr.type="string"/>`),
+    `  <key id="n_x" for="node" attr.name="x" attr.type="double"/>`,
+    `  <key id="n_y" for="node" attr.name="y" attr.type="double"/>`,
+    `  <key id="n_gfx" for="node" yfiles.type="nodegraphics"/>`,
+    ...edgeKeys.map((k) => `  <key id="e_${k}" for="edge" attr.name="${k}" attr.type="string"/>`),
+    `  <key id="e_gfx" for="edge" yfiles.type="edgegraphics"/>`,
+  ];
+
+  const data = (key: string, value: string | number | undefined) =>
+    value === undefined ? [] : [`      <data key="${key}">${xml(String(value))}</data>`];
+
+  const nodes = doc.devices.flatMap((d) => {
+    const status = d.status ?? "up";
+    const c = deviceColor[status];
+    const size = sizeOf(sizes, d);
+    return [
+      `    <node id="${xml(d.id)}">`,
+      ...data("n_name", d.name),
+      ...data("n_type", d.type),
+      ...data("n_ip", d.ip),
+      ...data("n_status", status),
+      ...data("n_x", d.x),
+      ...data("n_y", d.y),
+      `      <data key="n_gfx">`,
+      `        <y:ShapeNode>`,
+      `          <y:Geometry x="${d.x}" y="${d.y}" width="${size.width}" height="${size.height}"/>`,
+      `          <y:Fill color="${c.fill}" transparent="false"/>`,
+      `          <y:BorderStyle color="${c.stroke}" type="line" width="2.0"/>`,
+      `          <y:NodeLabel>${xml(`${d.name}\n${subtitle(d)}`)}</y:NodeLabel>`,
+      `          <y:Shape type="roundrectangle"/>`,
+      `        </y:ShapeNode>`,
+      `      </data>`,
+      `    </node>`,
+    ];
+  });
+
+  const edges = doc.links.flatMap((l) => {
+    const status = l.status ?? "up";
+    return [
+      `    <edge id="${xml(l.id)}" source="${xml(l.fromId)}" target="${xml(l.toId)}">`,
+      ...data("e_label", l.label),
+      ...data("e_status", status),
+      ...data("e_fromHandle", l.fromHandle),
+      ...data("e_toHandle", l.toHandle),
+      `      <data key="e_gfx">`,
+      `        <y:PolyLineEdge>`,
+      `          <y:LineStyle color="${linkColor[status]}" type="line" width="2.0"/>`,
+      `          <y:Arrows source="none" target="standard"/>`,
+      ...(l.label ? [`          <y:EdgeLabel>${xml(l.label)}</y:EdgeLabel>`] : []),
+      `        </y:PolyLineEdge>`,
+      `      </data>`,
+      `    </edge>`,
+    ];
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:y="http://www.yworks.com/xml/graphml">`,
+    ...keys,
+    `  <graph id="${xml(doc.map?.name ?? "topology")}" edgedefault="directed">`,
+    ...nodes,
+    ...edges,
+    `  </graph>`,
+    `</graphml>`,
+    "",
+  ].join("\n");
+}
+
+// ---- draw.io (mxGraph) ----
+
+/** Propriedades extras vão em <object> (aparecem em "Edit Data" no draw.io). */
+function toDrawio(doc: ExportDocument, sizes: Sizes) {
+  const cells = [`        <mxCell id="0"/>`, `        <mxCell id="1" parent="0"/>`];
+
+  for (const d of doc.devices) {
+    const status = d.status ?? "up";
+    const c = deviceColor[status];
+    const size = sizeOf(sizes, d);
+    const style = `rounded=1;whiteSpace=wrap;fillColor=${c.fill};strokeColor=${c.stroke};strokeWidth=2;fontStyle=1;`;
+    cells.push(
+      `        <object id="${xml(d.id)}" label="${xml(d.name)}&#xa;${xml(subtitle(d))}" type="${d.type}" status="${status}" ip="${xml(d.ip ?? "")}">`,
+      `          <mxCell style="${style}" vertex="1" parent="1">`,
+      `            <mxGeometry x="${d.x}" y="${d.y}" width="${size.width}" height="${size.height}" as="geometry"/>`,
+      `          </mxCell>`,
+      `        </object>`
+    );
+  }
+
+  for (const l of doc.links) {
+    const status = l.status ?? "up";
+    const style = `edgeStyle=orthogonalEdgeStyle;rounded=1;endArrow=block;strokeColor=${linkColor[status]};strokeWidth=2;`;
+    cells.push(
+      `        <object id="${xml(l.id)}" label="${xml(l.label ?? "")}" status="${status}">`,
+      `          <mxCell style="${style}" edge="1" parent="1" source="${xml(l.fromId)}" target="${xml(l.toId)}">`,
+      `            <mxGeometry relative="1" as="geometry"/>`,
+      `          </mxCell>`,
+      `        </object>`
+    );
+  }
+
+  const name = xml(doc.map?.name ?? "topology");
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<mxfile>`,
+    `  <diagram id="${xml(doc.map?.id ?? "topology")}" name="${name}">`,
+    `    <mxGraphModel>`,
+    `      <root>`,
+    ...cells,
+    `      </root>`,
+    `    </mxGraphModel>`,
+    `  </diagram>`,
+    `</mxfile>`,
+    "",
+  ].join("\n");
+}
+
+const formats = {
+  dot: { ext: "dot", contentType: "text/vnd.graphviz; charset=utf-8", render: toDot },
+  graphml: { ext: "graphml", contentType: "application/graphml+xml; charset=utf-8", render: toGraphml },
+  drawio: { ext: "drawio", contentType: "application/xml; charset=utf-8", render: toDrawio },
+};
+
+diagramRoutes.get("/export/:format", async (req, res) => {
+  const format = z.enum(["dot", "graphml", "drawio"]).safeParse(req.params.format);
+  if (!format.success) return res.status(400).json({ message: "Invalid format" });
+
+  const parsed = exportQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const doc = await buildExportDocument(parsed.data.mapId ?? (await defaultMapId()));
+  if (!doc) return res.status(404).json({ message: "Map not found" });
+
+  const f = formats[format.data];
+  const file = (doc.map?.name ?? "topology").replace(/[^\w.-]+/g, "_");
+  res.setHeader("Content-Type", f.contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${file}.${f.ext}"`);
+  res.send(f.render(doc, await deviceTypeSizes()));
+});
+
+// ---- GraphML → documento de import ----
+
+type XmlNode = Record<string, any>;
+
+const asArray = <T>(v: T | T[] | undefined): T[] => (v === undefined ? [] : Array.isArray(v) ? v : [v]);
+
+function textOf(v: unknown): string | undefined {
+  if (typeof v === "string" || typeof v === "number") return String(v).trim() || undefined;
+  if (Array.isArray(v)) return textOf(v[0]);
+  if (v && typeof v === "object" && "#text" in v) return textOf((v as XmlNode)["#text"]);
+  return undefined;
+}
+
+/** Primeira ocorrência de `key` em qualquer profundidade (ShapeNode, GenericNode...). */
+function findDeep(obj: unknown, key: string): unknown {
+  if (!obj || typeof obj !== "object") return undefined;
+  if (key in obj) return (obj as XmlNode)[key];
+  for (const v of Object.values(obj)) {
+    const found = findDeep(v, key);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
+
+/** Sem `type` explícito, tenta pelo nome ("rtr-01", "AP sala 2", "firewall borda"...). */
+function guessType(types: string[], ...hints: (string | undefined)[]): string {
+  const s = hints.filter(Boolean).join(" ").toLowerCase();
+  const exact = types.find((t) => t === s.split(/\s+/)[0]);
+  if (exact) return exact;
+  if (/router|rtr|gateway|\bgw\b/.test(s)) return "router";
+  if (/\bap\b|access.?point|wi-?fi|wlan/.test(s)) return "ap";
+  if (/server|\bsrv\b|host/.test(s)) return "server";
+  if (/\bhub\b/.test(s)) return "hub";
+  return "switch";
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Converte GraphML (o nosso ou de outra ferramenta) no documento de import.
+ * Grafos aninhados (grupos do yEd) são achatados; ids que não são UUID ganham um novo.
+ */
+export function graphmlToDocument(source: string, types: string[]): { doc: unknown; warnings: string[] } {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+    removeNSPrefix: true,
+    parseTagValue: false,
+    // "key" também é atributo de <data>: só elementos viram array
+    isArray: (name, _path, _leaf, isAttribute) => !isAttribute && ["key", "graph", "node", "edge", "data"].includes(name),
+  });
+  const root = parser.parse(source)?.graphml;
+  if (!root) throw Object.assign(new Error("not a GraphML document"), { code: "BAD_GRAPHML" });
+
+  const warnings: string[] = [];
+
+  // id da <key> → nome do atributo (ou o tipo yfiles dos gráficos)
+  const keyNames = new Map<string, string>();
+  for (const k of asArray<XmlNode>(root.key)) keyNames.set(k.id, k["attr.name"] ?? k["yfiles.type"] ?? k.id);
+
+  const dataOf = (el: XmlNode) => {
+    const out: Record<string, unknown> = {};
+    for (const d of asArray<XmlNode>(el.data)) out[keyNames.get(d.key) ?? d.key] = d;
+    return out;
+  };
+
+  const collect = (graphs: XmlNode[], nodes: XmlNode[], edges: XmlNode[]) => {
+    for (const g of graphs) {
+      for (const n of asArray<XmlNode>(g.node)) {
+        // nó com subgrafo é grupo: só os filhos viram equipamentos
+        if (n.graph) collect(asArray(n.graph), nodes, edges);
+        else nodes.push(n);
+      }
+      edges.push(...asArray<XmlNode>(g.edge));
+    }
+  };
+  const rawNodes: XmlNode[] = [];
+  const rawEdges: XmlNode[] = [];
+  collect(asArray(root.graph), rawNodes, rawEdges);
+
+  const ids = new Map<string, string>();
+  const devices = rawNodes.map((n, i) => {
+    const data = dataOf(n);
+    const gfx = data.nodegraphics;
+    const geometry = findDeep(gfx, "Geometry") as XmlNode | undefined;
+    const label = textOf(findDeep(gfx, "NodeLabel"))?.split("\n")[0];
+
+    const id = UUID.test(n.id) ? n.id : randomUUID();
+    ids.set(n.id, id);
+
+    let name = textOf(data.name) ?? label ?? String(n.id);
+    if (name.length < 2) name = `node-${name}`;
+
+    const rawType = textOf(data.type);
+    const type = types.find((t) => t === rawType) ?? guessType(types, name, label);
+    const rawStatus = textOf(data.status);
+    const status = STATUSES.find((s) => s === rawStatus) ?? "up";
+
+    const x = Number(textOf(data.x) ?? geometry?.x);
+    const y = Number(textOf(data.y) ?? geometry?.y);
+    const placed = Number.isFinite(x) && Number.isFinite(y);
+    if (!placed) warnings.push(`"${name}" has no position: placed on a grid`);
+
+    return {
+      id,
+      name,
+      type,
+      ip: textOf(data.ip),
+      status,
+      x: placed ? x : (i % 4) * 260,
+      y: placed ? y : Math.floor(i / 4) * 140,
+    };
+  });
+
+  const links = rawEdges.flatMap((e) => {
+    const fromId = ids.get(e.source);
+    const toId = ids.get(e.target);
+    if (!fromId || !toId) {
+      warnings.push(`edge ${e.id ?? `${e.source}→${e.target}`} skipped: endpoint is not a device`);
+      return [];
+    }
+    const data = dataOf(e);
+    const rawStatus = textOf(data.status);
+    return [
+      {
+        id: e.id && UUID.test(e.id) ? e.id : randomUUID(),
+        fromId,
+        toId,
+        status: STATUSES.find((s) => s === rawStatus) ?? "up",
+        label: textOf(data.label) ?? textOf(findDeep(data.edgegraphics, "EdgeLabel")),
+        fromHandle: textOf(data.fromHandle),
+        toHandle: textOf(data.toHandle),
+      },
+    ];
+  });
+
+  return { doc: { format: "topology-export", version: 1, groups: [], devices, links }, warnings };
+}
+
+diagramRoutes.post("/import/graphml", requireRole("admin"), async (req, res) => {
+  const parsed = graphmlImportSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { mode, dryRun, xml: source } = parsed.data;
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  if (!(await mapExists(mapId))) return res.status(400).json({ message: "mapId invalid (map not found)" });
+
+  let converted: ReturnType<typeof graphmlToDocument>;
+  try {
+    converted = graphmlToDocument(source, await deviceTypeKeys());
+  } catch {
+    return res.status(400).json({ message: "Invalid GraphML" });
+  }
+
+  const doc = exportDocumentSchema.safeParse(converted.doc);
+  if (!doc.success) return res.status(400).json(doc.error.flatten());
+
+  try {
+    const report = await runImport(req.user, mapId, mode, dryRun, doc.data);
+    res.json({ ...report, warnings: [...converted.warnings, ...report.warnings] });
+  } catch (e: any) {
+    if (e?.code === "UNKNOWN_DEVICE_TYPE") return res.status(400).json({ message: e.message });
+    if (e?.code === "23505") return res.status(409).json({ message: "Import conflicts with existing data" });
+    throw e;
+  }
+});
@@ -0,0 +1,342 @@
+import { Router } from "express";
+import { z } from "zod";
+import { XMLParser } from "fast-xml-parser";
+import { defaultMapId, pool, withTransaction } from "./db.js";
+import { publish } from "./live.js";
+import { hasRole, requireRole } from "./auth.js";
+import { lockRow, recordAudit } from "./audit.js";
+import { recordStatusEvent, setStatus } from "./statusEvents.js";
+import { toTopologyNode } from "./topology.js";
+import { mapExists } from "./transfer.js";
+import { findIpConflict, ipConflictBody, linkDeviceSubnet } from "./ipam.js";
+import { deviceTypeKeys, unknownDeviceTypes, unknownTypesMessage } from "./deviceTypes.js";
+import { discoveryQuerySchema, discoveryResolveSchema, nmapDiscoverySchema } from "./validators.js";
+
+/**
+ * Descoberta a partir do XML do nmap. Hosts novos vão para uma fila de
+ * revisão (discovery_candidates); nada entra no mapa sem alguém aceitar.
+ */
+export const discoveryRoutes = Router();
+
+type XmlNode = Record<string, any>;
+
+type NmapHost = {
+  ip: string;
+  up: boolean;
+  hostname?: string;
+  mac?: string;
+  vendor?: string;
+  os?: string;
+  /** osclass type do fingerprint, mais provável primeiro */
+  osTypes: string[];
+  ports: number[];
+};
+
+const asArray = <T>(v: T | T[] | undefined): T[] => (v === undefined ? [] : Array.isArray(v) ? v : [v]);
+
+function parseNmap(xml: string) {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: (name, _path, _leaf, isAttribute) =>
+      !isAttribute && ["host", "address", "hostname", "port", "osmatch", "osclass"].includes(name),
+  });
+  const root = parser.parse(xml)?.nmaprun;
+  if (!root) throw Object.assign(new Error("not an nmap XML document"), { code: "BAD_NMAP" });
+
+  const hosts: NmapHost[] = asArray<XmlNode>(root.host).flatMap((h) => {
+    const addresses = asArray<XmlNode>(h.address);
+    const ip = addresses.find((a) => a.addrtype === "ipv4" || a.addrtype === "ipv6")?.addr;
+    if (!ip) return [];
+    const mac = addresses.find((a) => a.addrtype === "mac");
+
+    const osmatches = asArray<XmlNode>(h.os?.osmatch).sort((a, b) => Number(b.accuracy ?? 0) - Number(a.accuracy ?? 0));
+    const osTypes = osmatches.flatMap((m) => asArray<XmlNode>(m.osclass).map((c) => String(c.type ?? "").toLowerCase()));
+
+    return [
+      {
+        ip,
+        up: h.status?.state === "up",
+        hostname: asArray<XmlNode>(h.hostnames?.hostname)[0]?.name,
+        mac: mac?.addr,
+        vendor: mac?.vendor,
+        os: osmatches[0]?.name,
+        osTypes: osTypes.filter(Boolean),
+        ports: asArray<XmlNode>(h.ports?.port)
+          .filter((p) => p.state?.state === "open")
+          .map((p) => Number(p.portid)),
+      },
+    ];
+  });
+
+  return { hosts, scope: scanScope(String(root.args ?? "")) };
+}
+
+// -------- Escopo do scan (quem deveria ter respondido) --------
+
+function ipv4ToInt(ip: string) {
+  const parts = ip.split(".").map(Number);
+  if (parts.length !== 4 || parts.some((p) => !Number.isInteger(p) || p < 0 || p > 255)) return null;
+  return ((parts[0] << 24) >>> 0) + (parts[1] << 16) + (parts[2] << 8) + parts[3];
+}
+
+type Range = { from: number; to: number };
+
+/** Alvos da linha de comando: IP, CIDR (10.0.0.0/24) e faixa no último octeto (10.0.0.1-50). */
+function scanScope(args: string): Range[] {
+  const tokens = args.split(/\s+/);
+  const ranges: Range[] = [];
+  tokens.forEach((t, i) => {
+    if (/^--?(exclude|excludefile|iL|p|S|D|e)$/.test(tokens[i - 1] ?? "")) return;
+
+    const cidr = t.match(/^(\d+\.\d+\.\d+\.\d+)(?:\/(\d+))?$/);
+    if (cidr) {
+      const base = ipv4ToInt(cidr[1]);
+      const bits = cidr[2] === undefined ? 32 : Number(cidr[2]);
+      if (base === null || bits > 32) return;
+      const size = 2 ** (32 - bits);
+      const from = Math.floor(base / size) * size;
+      ranges.push({ from, to: from + size - 1 });
+      return;
+    }
+
+    const dash = t.match(/^(\d+\.\d+\.\d+\.)(\d+)-(\d+)$/);
+    if (dash) {
+      const from = ipv4ToInt(`${dash[1]}${dash[2]}`);
+      const to = ipv4ToInt(`${dash[1]}${dash[3]}`);
+      if (from !== null && to !== null) ranges.push({ from, to });
+    }
+  });
+  return ranges;
+}
+
+const inScope = (ip: string, scope: Range[]) => {
+  const n = ipv4ToInt(ip);
+  return n !== null && scope.some((r) => n >= r.from && n <= r.to);
+};
+
+// -------- Palpite de tipo --------
+
+/**
+ * osclass type → tipos em ordem de preferência. O primeiro que existir em
+ * device_types vence: com um tipo "firewall" cadastrado, firewall deixa de virar router.
+ */
+const osTypeMap: Record<string, string[]> = {
+  router: ["router"],
+  "broadband router": ["router"],
+  firewall: ["firewall", "router"],
+  switch: ["switch"],
+  bridge: ["switch"],
+  hub: ["hub"],
+  wap: ["ap"],
+  printer: ["printer", "server"],
+  webcam: ["camera", "server"],
+  "voip phone": ["phone", "server"],
+  pbx: ["pbx", "server"],
+  "power-device": ["ups", "server"],
+  "general purpose": ["server"],
+  "storage-misc": ["storage", "server"],
+};
+
+const serverPorts = [21, 25, 53, 110, 139, 143, 445, 1433, 3306, 3389, 5432, 5900, 8080, 9000];
+
+/** Fingerprint de SO primeiro; sem ele, nome, fabricante do MAC e portas abertas. */
+function guessType(h: NmapHost, known: Set<string>): { type: string; reason: string } {
+  for (const os of h.osTypes) {
+    const type = osTypeMap[os]?.find((t) => known.has(t));
+    if (type) return { type, reason: `os fingerprint: ${os}` };
+  }
+
+  const name = h.hostname?.toLowerCase() ?? "";
+  if (/^(fw|firewall)/.test(name) && known.has("firewall")) return { type: "firewall", reason: `hostname ${h.hostname}` };
+  if (/^(sw|switch)/.test(name)) return { type: "switch", reason: `hostname ${h.hostname}` };
+  if (/^(rt|gw|fw|router)/.test(name)) return { type: "router", reason: `hostname ${h.hostname}` };
+  if (/^(ap|wap)/.test(name)) return { type: "ap", reason: `hostname ${h.hostname}` };
+
+  const open = (port: number) => h.ports.includes(port);
+  if ((open(631) || open(9100)) && known.has("printer")) return { type: "printer", reason: "printer ports (ipp/jetdirect) open" };
+  if (open(554) && known.has("camera")) return { type: "camera", reason: "port 554 (rtsp) open" };
+  if (open(5060) && known.has("pbx")) return { type: "pbx", reason: "port 5060 (sip) open" };
+  if (open(179)) return { type: "router", reason: "port 179 (bgp) open" };
+  if (open(8291)) return { type: "router", reason: "port 8291 (winbox) open" };
+  if (/ubiquiti|ruckus|aruba|cambium|meraki/i.test(h.vendor ?? "")) return { type: "ap", reason: `vendor ${h.vendor}` };
+
+  const services = serverPorts.filter(open);
+  if (services.length) return { type: "server", reason: `server ports open: ${services.join(", ")}` };
+  if (open(23) || open(161)) return { type: "switch", reason: "only management ports (telnet/snmp) open" };
+  return { type: "server", reason: "no hint: defaulted to server" };
+}
+
+// -------- Rotas --------
+
+discoveryRoutes.post("/discovery/nmap", requireRole("operator"), async (req, res) => {
+  const parsed = nmapDiscoverySchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  if (!(await mapExists(mapId))) return res.status(400).json({ message: "mapId invalid (map not found)" });
+
+  let scan: ReturnType<typeof parseNmap>;
+  try {
+    scan = parseNmap(parsed.data.xml);
+  } catch {
+    return res.status(400).json({ message: "Invalid nmap XML" });
+  }
+
+  const devices = (await pool.query(`SELECT id, name, ip, status FROM devices WHERE map_id=$1 AND ip IS NOT NULL`, [mapId])).rows;
+  const byIp = new Map(devices.map((d) => [d.ip as string, d]));
+  const ignored = new Set(
+    (await pool.query(`SELECT ip FROM discovery_candidates WHERE map_id=$1 AND state='ignored'`, [mapId])).rows.map((r) => r.ip)
+  );
+
+  const known = new Set(await deviceTypeKeys());
+
+  const upIps = new Set(scan.hosts.filter((h) => h.up).map((h) => h.ip));
+  const downIps = new Set(scan.hosts.filter((h) => !h.up).map((h) => h.ip));
+
+  const result = await withTransaction(async (client) => {
+    const counts = { matched: 0, queued: 0, refreshed: 0, ignored: 0 };
+    for (const h of scan.hosts) {
+      if (!h.up) continue;
+      if (byIp.has(h.ip)) {
+        counts.matched++;
+        continue;
+      }
+      if (ignored.has(h.ip)) {
+        counts.ignored++;
+        continue;
+      }
+
+      const guess = guessType(h, known);
+      // mesmo IP ainda pendente: atualiza em vez de duplicar
+      const r = await client.query(
+        `
+        INSERT INTO discovery_candidates (map_id, ip, hostname, mac, vendor, os, open_ports, guessed_type, type_reason)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (map_id, ip) WHERE state = 'pending' DO UPDATE SET
+          hostname = EXCLUDED.hostname, mac = EXCLUDED.mac, vendor = EXCLUDED.vendor, os = EXCLUDED.os,
+          open_ports = EXCLUDED.open_ports, guessed_type = EXCLUDED.guessed_type,
+          type_reason = EXCLUDED.type_reason, last_seen = now()
+        RETURNING (xmax = 0) AS inserted
+        `,
+        [mapId, h.ip, h.hostname ?? null, h.mac ?? null, h.vendor ?? null, h.os ?? null, h.ports, guess.type, guess.reason]
+      );
+      if (r.rows[0].inserted) counts.queued++;
+      else counts.refreshed++;
+    }
+
+    // conhecidos que deveriam ter respondido (no escopo do scan ou listados como down)
+    const markedDown = [];
+    if (parsed.data.markMissing) {
+      for (const d of devices) {
+        if (upIps.has(d.ip) || d.status === "down") continue;
+        if (!downIps.has(d.ip) && !inScope(d.ip, scan.scope)) continue;
+        const before = await lockRow(client, "device", d.id);
+        const changed = await setStatus(client, "device", d.id, "down", "discovery");
+        if (!changed) continue;
+        await recordAudit(client, req.user, { entityType: "device", entityId: d.id, action: "update", before, after: changed.row });
+        markedDown.push(changed.row);
+      }
+    }
+    return { ...counts, markedDown };
+  });
+
+  for (const row of result.markedDown) publish("device.updated", toTopologyNode(row));
+  publish("discovery.queued", { mapId });
+
+  res.json({
+    mapId,
+    hosts: upIps.size,
+    matched: result.matched,
+    queued: result.queued,
+    refreshed: result.refreshed,
+    ignored: result.ignored,
+    markedDown: result.markedDown.map((d) => ({ id: d.id, name: d.name, ip: d.ip })),
+  });
+});
+
+discoveryRoutes.get("/discovery/candidates", async (req, res) => {
+  const parsed = discoveryQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  const r = await pool.query(
+    `SELECT * FROM discovery_candidates WHERE map_id=$1 AND state=$2 ORDER BY last_seen DESC, ip ASC LIMIT 1000`,
+    [mapId, parsed.data.state]
+  );
+  res.json(r.rows);
+});
+
+/**
+ * Revisão de um host: accept cria o equipamento, merge põe o IP num
+ * equipamento existente, ignore esconde o IP dos próximos scans.
+ * Operador só ignora; criar equipamento ou trocar IP é do admin.
+ */
+discoveryRoutes.post("/discovery/candidates/:id/resolve", requireRole("operator"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = discoveryResolveSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+  const action = parsed.data;
+  if (action.action !== "ignore" && !hasRole(req.user, "admin")) return res.status(403).json({ message: "Forbidden" });
+
+  const outcome = await withTransaction(async (client) => {
+    const c = (await client.query(`SELECT * FROM discovery_candidates WHERE id=$1 FOR UPDATE`, [id.data])).rows[0];
+    if (!c) return { error: 404 as const, message: "Candidate not found" };
+    if (c.state !== "pending") return { error: 409 as const, message: `Candidate already ${c.state}` };
+
+    if (action.action !== "ignore") {
+      // a fila pode estar velha: alguém pode ter usado o IP depois do scan
+      const conflict = await findIpConflict(client, c.map_id, c.ip, action.action === "merge" ? action.deviceId : undefined);
+      if (conflict) return { error: 409 as const, ...ipConflictBody(conflict) };
+    }
+
+    let device = null;
+    let created = false;
+    if (action.action === "accept") {
+      const unknown = await unknownDeviceTypes(client, [action.type ?? c.guessed_type]);
+      if (unknown.length) return { error: 400 as const, message: unknownTypesMessage(unknown) };
+      const r = await client.query(
+        `
+        INSERT INTO devices (name, type, ip, status, x, y, map_id)
+        VALUES ($1, $2, $3, 'up'::device_status, $4, $5, $6)
+        RETURNING *
+        `,
+        [action.name ?? c.hostname ?? c.ip, action.type ?? c.guessed_type, c.ip, action.x ?? 0, action.y ?? 0, c.map_id]
+      );
+      device = await linkDeviceSubnet(client, r.rows[0]);
+      created = true;
+      await recordStatusEvent(client, { entityType: "device", entityId: device.id, previousStatus: null, status: device.status, source: "discovery" });
+      await recordAudit(client, req.user, { entityType: "device", entityId: device.id, action: "create", before: null, after: device });
+    } else if (action.action === "merge") {
+      const before = await lockRow(client, "device", action.deviceId);
+      if (!before || before.map_id !== c.map_id) return { error: 400 as const, message: "deviceId invalid (device not found on this map)" };
+      device = (await client.query(`UPDATE devices SET ip=$2 WHERE id=$1 RETURNING *`, [action.deviceId, c.ip])).rows[0];
+      device = await linkDeviceSubnet(client, device);
+      await recordAudit(client, req.user, { entityType: "device", entityId: device.id, action: "update", before, after: device });
+    }
+
+    const state = { accept: "accepted", merge: "merged", ignore: "ignored" }[action.action];
+    const r = await client.query(
+      `
+      UPDATE discovery_candidates
+      SET state=$2, device_id=$3, resolved_by=$4, resolved_at=now()
+      WHERE id=$1
+      RETURNING *
+      `,
+      [id.data, state, device?.id ?? null, req.user?.username ?? null]
+    );
+    return { candidate: r.rows[0], device, created };
+  });
+
+  if ("error" in outcome) {
+    const { error, ...body } = outcome;
+    return res.status(error!).json(body);
+  }
+  if (outcome.device) publish(outcome.created ? "device.created" : "device.updated", toTopologyNode(outcome.device));
+  publish("discovery.queued", { mapId: outcome.candidate.map_id });
+  res.json({ candidate: outcome.candidate, device: outcome.device });
+});
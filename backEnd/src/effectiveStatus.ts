@@ -0,0 +1,57 @@
+import { Router } from "express";
+import { pool, type Db } from "./db.js";
+import { loadMapLinks } from "./paths.js";
+import { effectiveStatusQuerySchema } from "./validators.js";
+
+/**
+ * Status efetivo: o status gravado, exceto quando o equipamento não tem caminho
+ * até uma raiz do mapa — aí é "unreachable" (sintoma de falha a montante).
+ * Equipamento down e link down não dão passagem. Mapa sem raiz não deriva nada.
+ */
+export const effectiveStatusRoutes = Router();
+
+export type EffectiveStatus = "up" | "warn" | "down" | "unreachable";
+
+/** Status efetivo por equipamento do mapa (sem mapId, de todos). */
+export async function effectiveStatuses(db: Db, mapId?: string) {
+  const devices = await db.query(
+    `SELECT id, map_id, status, is_root FROM devices WHERE ($1::uuid IS NULL OR map_id = $1)`,
+    [mapId ?? null]
+  );
+  const links = await loadMapLinks(db, mapId);
+
+  const down = new Set(devices.rows.filter((d) => d.status === "down").map((d) => d.id as string));
+  const adjacency = new Map<string, string[]>();
+  const add = (a: string, b: string) => adjacency.set(a, [...(adjacency.get(a) ?? []), b]);
+  for (const l of links) {
+    if (l.is_down || down.has(l.from_id) || down.has(l.to_id)) continue;
+    add(l.from_id, l.to_id);
+    add(l.to_id, l.from_id);
+  }
+
+  const rooted = new Set(devices.rows.filter((d) => d.is_root).map((d) => d.map_id as string));
+  const queue: string[] = devices.rows.filter((d) => d.is_root && !down.has(d.id)).map((d) => d.id);
+  const reached = new Set(queue);
+  while (queue.length > 0) {
+    for (const next of adjacency.get(queue.pop()!) ?? []) {
+      if (reached.has(next)) continue;
+      reached.add(next);
+      queue.push(next);
+    }
+  }
+
+  return new Map<string, EffectiveStatus>(
+    devices.rows.map((d) => [
+      d.id,
+      d.status === "down" || !rooted.has(d.map_id) || reached.has(d.id) ? d.status : "unreachable",
+    ])
+  );
+}
+
+/** Só os status efetivos: o canvas recarrega depois de eventos que mexem em status/links. */
+effectiveStatusRoutes.get("/effective-status", async (req, res) => {
+  const parsed = effectiveStatusQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  res.json(Object.fromEntries(await effectiveStatuses(pool, parsed.data.mapId)));
+});
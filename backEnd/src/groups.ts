@@ -0,0 +1,152 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool, withTransaction, type Db } from "./db.js";
+import { publish } from "./live.js";
+import { requireAdminUnless, requireRole } from "./auth.js";
+import { lockRow, recordAudit } from "./audit.js";
+import { toGroupNode, toTopologyNode } from "./topology.js";
+import { groupCreateSchema, groupUpdateSchema } from "./validators.js";
+
+export const groupRoutes = Router();
+
+/**
+ * Pai precisa ser do mesmo mapa e não pode ser o próprio grupo
+ * nem um descendente dele (ciclo). Retorna a mensagem de erro ou null.
+ */
+async function checkParent(db: Db, mapId: string, parentId: string, groupId?: string) {
+  const p = await db.query(`SELECT map_id FROM groups WHERE id=$1`, [parentId]);
+  if (!p.rows[0]) return "parentId invalid (group not found)";
+  if (p.rows[0].map_id !== mapId) return "parentId belongs to a different map";
+  if (!groupId) return null;
+
+  const r = await db.query(
+    `
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM groups WHERE id=$1
+      UNION ALL
+      SELECT g.id, g.parent_id FROM groups g JOIN ancestors a ON g.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id=$2
+    `,
+    [parentId, groupId]
+  );
+  return r.rows[0] ? "parentId would create a cycle" : null;
+}
+
+groupRoutes.get("/groups", async (req, res) => {
+  const mapId = z.string().uuid().optional().safeParse(req.query.mapId);
+  if (!mapId.success) return res.status(400).json({ message: "Invalid mapId" });
+
+  const r = await pool.query(
+    `SELECT * FROM groups WHERE ($1::uuid IS NULL OR map_id=$1) ORDER BY created_at ASC`,
+    [mapId.data ?? null]
+  );
+  res.json(r.rows);
+});
+
+groupRoutes.post("/groups", requireRole("admin"), async (req, res) => {
+  const parsed = groupCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { mapId, parentId, name, kind, x, y, width, height } = parsed.data;
+
+  const m = await pool.query(`SELECT 1 FROM maps WHERE id=$1`, [mapId]);
+  if (!m.rows[0]) return res.status(400).json({ message: "mapId invalid (map not found)" });
+
+  if (parentId) {
+    const err = await checkParent(pool, mapId, parentId);
+    if (err) return res.status(400).json({ message: err });
+  }
+
+  const group = await withTransaction(async (client) => {
+    const r = await client.query(
+      `
+      INSERT INTO groups (map_id, parent_id, name, kind, x, y, width, height)
+      VALUES ($1, $2, $3, COALESCE($4, 'room'), COALESCE($5, 0), COALESCE($6, 0), COALESCE($7, 400), COALESCE($8, 260))
+      RETURNING *
+      `,
+      [mapId, parentId ?? null, name, kind ?? null, x ?? null, y ?? null, width ?? null, height ?? null]
+    );
+    await recordAudit(client, req.user, { entityType: "group", entityId: r.rows[0].id, action: "create", before: null, after: r.rows[0] });
+    return r.rows[0];
+  });
+
+  publish("group.created", toGroupNode(group));
+  res.status(201).json(group);
+});
+
+groupRoutes.patch("/groups/:id", requireAdminUnless(["x", "y", "width", "height", "collapsed"]), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = groupUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapKey = (k: string) => (k === "parentId" ? "parent_id" : k);
+  const entries = Object.entries(parsed.data).map(([k, v]) => [mapKey(k), v] as const);
+  if (entries.length === 0) return res.status(400).json({ message: "No fields to update" });
+
+  const current = await pool.query(`SELECT map_id FROM groups WHERE id=$1`, [id.data]);
+  if (!current.rows[0]) return res.status(404).json({ message: "Group not found" });
+
+  if (parsed.data.parentId) {
+    const err = await checkParent(pool, current.rows[0].map_id, parsed.data.parentId, id.data);
+    if (err) return res.status(400).json({ message: err });
+  }
+
+  const setParts = entries.map(([k], i) => `${k}=$${i + 2}`);
+  const values = [id.data, ...entries.map(([, v]) => v ?? null)];
+
+  const group = await withTransaction(async (client) => {
+    const before = await lockRow(client, "group", id.data);
+    if (!before) return null;
+    const r = await client.query(`UPDATE groups SET ${setParts.join(", ")} WHERE id=$1 RETURNING *`, values);
+    await recordAudit(client, req.user, { entityType: "group", entityId: id.data, action: "update", before, after: r.rows[0] });
+    return r.rows[0];
+  });
+  if (!group) return res.status(404).json({ message: "Group not found" });
+
+  publish("group.updated", toGroupNode(group));
+  res.json(group);
+});
+
+groupRoutes.delete("/groups/:id", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const r = await withTransaction(async (client) => {
+    const before = await lockRow(client, "group", id.data);
+    if (!before) return null;
+
+    // membros e subgrupos sobem para o avô, não para a raiz
+    const childrenBefore = await client.query(`SELECT * FROM groups WHERE parent_id=$1 FOR UPDATE`, [id.data]);
+    const children = await client.query(`UPDATE groups SET parent_id=$2 WHERE parent_id=$1 RETURNING *`, [
+      id.data,
+      before.parent_id,
+    ]);
+    const membersBefore = await client.query(`SELECT * FROM devices WHERE group_id=$1 FOR UPDATE`, [id.data]);
+    const members = await client.query(`UPDATE devices SET group_id=$2 WHERE group_id=$1 RETURNING *`, [
+      id.data,
+      before.parent_id,
+    ]);
+
+    const beforeById = new Map([...childrenBefore.rows, ...membersBefore.rows].map((row) => [row.id, row]));
+    for (const g of children.rows) {
+      await recordAudit(client, req.user, { entityType: "group", entityId: g.id, action: "update", before: beforeById.get(g.id), after: g });
+    }
+    for (const d of members.rows) {
+      await recordAudit(client, req.user, { entityType: "device", entityId: d.id, action: "update", before: beforeById.get(d.id), after: d });
+    }
+
+    await client.query(`DELETE FROM groups WHERE id=$1`, [id.data]);
+    await recordAudit(client, req.user, { entityType: "group", entityId: id.data, action: "delete", before, after: null });
+    return { children: children.rows, members: members.rows };
+  });
+  if (!r) return res.status(404).json({ message: "Group not found" });
+
+  // quem subiu primeiro, para o cliente não ficar com filhos de um grupo que sumiu
+  r.children.forEach((g) => publish("group.updated", toGroupNode(g)));
+  r.members.forEach((d) => publish("device.updated", toTopologyNode(d)));
+  publish("group.deleted", { id: id.data });
+  res.status(204).send();
+});
@@ -0,0 +1,185 @@
+import { Router } from "express";
+import { defaultMapId, pool } from "./db.js";
+import { loadMapLinks } from "./paths.js";
+import { impactQuerySchema, spofQuerySchema } from "./validators.js";
+
+/**
+ * Impacto de falha: quem perde o caminho até os equipamentos raiz (core) se um
+ * equipamento ou link cair. Links e equipamentos já caídos não contam como
+ * caminho, como no status efetivo.
+ */
+export const impactRoutes = Router();
+
+type Adjacent = { to: string; linkId: string };
+type Failure = { deviceId?: string; linkId?: string };
+
+async function loadGraph(mapId: string) {
+  const devices = await pool.query(`SELECT id, name, type, ip, status, is_root FROM devices WHERE map_id=$1 ORDER BY name`, [mapId]);
+  const links = await loadMapLinks(pool, mapId);
+
+  const down = new Set(devices.rows.filter((d) => d.status === "down").map((d) => d.id as string));
+  const adjacency = new Map<string, Adjacent[]>();
+  const add = (a: string, b: Adjacent) => adjacency.set(a, [...(adjacency.get(a) ?? []), b]);
+  for (const l of links) {
+    if (l.is_down || down.has(l.from_id) || down.has(l.to_id)) continue;
+    add(l.from_id, { to: l.to_id, linkId: l.id });
+    add(l.to_id, { to: l.from_id, linkId: l.id });
+  }
+  return { devices: devices.rows, links, adjacency, down };
+}
+
+/** Equipamentos alcançáveis a partir das raízes, sem passar pelo que falhou. */
+function reachable(adjacency: Map<string, Adjacent[]>, roots: string[], failed: Failure = {}) {
+  const queue = roots.filter((r) => r !== failed.deviceId);
+  const seen = new Set(queue);
+  while (queue.length > 0) {
+    const node = queue.pop()!;
+    for (const a of adjacency.get(node) ?? []) {
+      if (a.linkId === failed.linkId || a.to === failed.deviceId || seen.has(a.to)) continue;
+      seen.add(a.to);
+      queue.push(a.to);
+    }
+  }
+  return seen;
+}
+
+/** Quem era alcançável e deixa de ser (o equipamento que falhou não entra). */
+function cutOff(adjacency: Map<string, Adjacent[]>, roots: string[], before: Set<string>, failed: Failure) {
+  const after = reachable(adjacency, roots, failed);
+  return [...before].filter((id) => !after.has(id) && id !== failed.deviceId);
+}
+
+/**
+ * Pontos de articulação e pontes (Tarjan). Links paralelos entre os mesmos
+ * equipamentos não são ponte: a volta é reconhecida pelo id do link, não pelo vizinho.
+ */
+function articulation(adjacency: Map<string, Adjacent[]>, deviceIds: string[]) {
+  const disc = new Map<string, number>();
+  const low = new Map<string, number>();
+  const cutDevices = new Set<string>();
+  const bridges: string[] = [];
+  let time = 0;
+
+  // DFS com pilha explícita: mapas grandes estourariam a pilha da recursão
+  type Frame = { node: string; via: string | null; next: number; children: number };
+  const stack: Frame[] = [];
+  const enter = (node: string, via: string | null) => {
+    disc.set(node, time);
+    low.set(node, time);
+    time++;
+    stack.push({ node, via, next: 0, children: 0 });
+  };
+
+  for (const id of deviceIds) {
+    if (disc.has(id)) continue;
+    enter(id, null);
+    while (stack.length > 0) {
+      const f = stack[stack.length - 1];
+      const edges = adjacency.get(f.node) ?? [];
+      if (f.next < edges.length) {
+        const a = edges[f.next++];
+        if (a.linkId === f.via) continue;
+        if (disc.has(a.to)) {
+          low.set(f.node, Math.min(low.get(f.node)!, disc.get(a.to)!));
+        } else {
+          f.children++;
+          enter(a.to, a.linkId);
+        }
+        continue;
+      }
+
+      // vizinhos esgotados: fecha o nó e propaga o low para o pai
+      stack.pop();
+      const parent = stack[stack.length - 1];
+      if (!parent) {
+        if (f.children > 1) cutDevices.add(f.node);
+        continue;
+      }
+      low.set(parent.node, Math.min(low.get(parent.node)!, low.get(f.node)!));
+      if (low.get(f.node)! > disc.get(parent.node)!) bridges.push(f.via!);
+      if (parent.via !== null && low.get(f.node)! >= disc.get(parent.node)!) cutDevices.add(parent.node);
+    }
+  }
+  return { cutDevices: [...cutDevices], bridges };
+}
+
+/** Raízes pedidas (todas do mapa) ou, sem elas, as configuradas no mapa. */
+function resolveRoots(roots: string[] | undefined, devices: { id: string; is_root: boolean }[]) {
+  if (!roots) {
+    const configured = devices.filter((d) => d.is_root).map((d) => d.id);
+    return configured.length > 0 ? configured : { error: "No root devices configured for this map" };
+  }
+  const ids = new Set(devices.map((d) => d.id));
+  return roots.every((r) => ids.has(r)) ? roots : { error: "roots must be devices on the same map" };
+}
+
+impactRoutes.get("/impact", async (req, res) => {
+  const parsed = impactQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { deviceId, linkId } = parsed.data;
+  let mapId: string;
+  if (deviceId) {
+    const d = await pool.query(`SELECT map_id FROM devices WHERE id=$1`, [deviceId]);
+    if (!d.rows[0]) return res.status(404).json({ message: "Device not found" });
+    mapId = d.rows[0].map_id;
+  } else {
+    const l = await pool.query(`SELECT d.map_id FROM links l JOIN devices d ON d.id = l.from_id WHERE l.id=$1`, [linkId]);
+    if (!l.rows[0]) return res.status(404).json({ message: "Link not found" });
+    mapId = l.rows[0].map_id;
+  }
+
+  const { devices, adjacency, down } = await loadGraph(mapId);
+  const roots = resolveRoots(parsed.data.roots, devices);
+  if ("error" in roots) return res.status(400).json({ message: roots.error });
+
+  // raiz down não alimenta ninguém
+  const live = roots.filter((r) => !down.has(r));
+  const before = reachable(adjacency, live);
+  const lost = new Set(cutOff(adjacency, live, before, { deviceId, linkId }));
+
+  res.json({
+    failed: deviceId ? { kind: "device", id: deviceId } : { kind: "link", id: linkId },
+    roots,
+    unreachable: devices.filter((d) => lost.has(d.id)).map(({ is_root, ...d }) => d),
+    // já sem caminho até as raízes antes da falha (não entram em unreachable)
+    alreadyUnreachable: devices.filter((d) => !before.has(d.id)).length,
+  });
+});
+
+/** Pontos únicos de falha do mapa, do que mais derruba para o que menos derruba. */
+impactRoutes.get("/impact/spof", async (req, res) => {
+  const parsed = spofQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  const { devices, links, adjacency, down } = await loadGraph(mapId);
+  const roots = resolveRoots(parsed.data.roots, devices);
+  if ("error" in roots) return res.status(400).json({ message: roots.error });
+
+  const deviceById = new Map(devices.map((d) => [d.id, d]));
+  const linkById = new Map(links.map((l) => [l.id, l]));
+  const { cutDevices, bridges } = articulation(adjacency, devices.map((d) => d.id));
+  const live = roots.filter((r) => !down.has(r));
+  const before = reachable(adjacency, live);
+
+  const items = [
+    ...cutDevices.map((id) => ({
+      kind: "device" as const,
+      id,
+      name: deviceById.get(id)?.name ?? id,
+      dependants: cutOff(adjacency, live, before, { deviceId: id }).length,
+    })),
+    ...bridges.map((id) => {
+      const l = linkById.get(id)!;
+      return {
+        kind: "link" as const,
+        id,
+        name: l.label || `${deviceById.get(l.from_id)?.name ?? "?"} ↔ ${deviceById.get(l.to_id)?.name ?? "?"}`,
+        dependants: cutOff(adjacency, live, before, { linkId: id }).length,
+      };
+    }),
+  ].sort((a, b) => b.dependants - a.dependants || a.name.localeCompare(b.name));
+
+  res.json({ mapId, roots, items });
+});
@@ -0,0 +1,74 @@
+import type { z } from "zod";
+import type { Db } from "./db.js";
+import type { deviceCreateSchema } from "./validators.js";
+
+/**
+ * Inventário do equipamento (fabricante, série, garantia, tags...).
+ * Na API os campos são camelCase; no banco, colunas de devices.
+ */
+export const inventoryColumns = {
+  vendor: "vendor",
+  model: "model",
+  serialNumber: "serial_number",
+  firmwareVersion: "firmware_version",
+  mac: "mac",
+  location: "location",
+  owner: "owner",
+  purchaseDate: "purchase_date",
+  warrantyUntil: "warranty_until",
+  tags: "tags",
+  customFields: "custom_fields",
+} as const;
+
+export type InventoryKey = keyof typeof inventoryColumns;
+export type Inventory = Pick<z.infer<typeof deviceCreateSchema>, InventoryKey>;
+
+const inventoryKeys = Object.keys(inventoryColumns) as InventoryKey[];
+
+/** Linha de devices → inventário da API, sem os campos vazios. */
+export function inventoryOf(row: Record<string, any>): Inventory {
+  const out: Inventory = {};
+  for (const k of inventoryKeys) {
+    const v = row[inventoryColumns[k]];
+    if (v === null || v === undefined) continue;
+    if (Array.isArray(v) && v.length === 0) continue;
+    if (k === "customFields" && Object.keys(v).length === 0) continue;
+    (out as Record<string, unknown>)[k] = v;
+  }
+  return out;
+}
+
+/** Só o que veio no corpo (validado); chaves fora do inventário são ignoradas. */
+export function pickInventory(data: Record<string, unknown>): Inventory {
+  const out: Inventory = {};
+  for (const k of inventoryKeys) if (data[k] !== undefined) (out as Record<string, unknown>)[k] = data[k];
+  return out;
+}
+
+/** Inventário completo: o que faltar é limpo (restauração de snapshot). */
+export function fullInventory(inv: Inventory): Inventory {
+  const out: Inventory = {};
+  for (const k of inventoryKeys) (out as Record<string, unknown>)[k] = inv[k] ?? (k === "tags" ? [] : k === "customFields" ? {} : null);
+  return out;
+}
+
+/**
+ * Grava os campos presentes em `inv` e devolve a linha atualizada
+ * (ou null se não havia nada para gravar).
+ */
+export async function writeInventory(db: Db, id: string, inv: Inventory) {
+  const keys = inventoryKeys.filter((k) => inv[k] !== undefined);
+  if (keys.length === 0) return null;
+  const sets = keys.map((k, i) => {
+    const col = inventoryColumns[k];
+    // tags/custom_fields são NOT NULL: null volta ao vazio
+    if (k === "tags") return `${col}=COALESCE($${i + 2}::text[], '{}')`;
+    if (k === "customFields") return `${col}=COALESCE($${i + 2}::jsonb, '{}'::jsonb)`;
+    return `${col}=$${i + 2}`;
+  });
+  const r = await db.query(`UPDATE devices SET ${sets.join(", ")} WHERE id=$1 RETURNING *`, [
+    id,
+    ...keys.map((k) => (k === "customFields" && inv[k] != null ? JSON.stringify(inv[k]) : inv[k] ?? null)),
+  ]);
+  return r.rows[0] ?? null;
+}
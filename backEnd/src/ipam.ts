@@ -0,0 +1,345 @@
+import { Router } from "express";
+import { z } from "zod";
+import { defaultMapId, pool, withTransaction, type Db } from "./db.js";
+import { requireRole } from "./auth.js";
+import { lockRow, recordAudit } from "./audit.js";
+import { subnetCreateSchema, subnetQuerySchema, subnetUpdateSchema } from "./validators.js";
+
+/**
+ * IPAM: sub-redes por mapa, vínculo device → sub-rede mais específica,
+ * conflito de IP e utilização. A aritmética é em bigint (vale para IPv6).
+ */
+export const ipamRoutes = Router();
+
+type Addr = { version: 4 | 6; value: bigint };
+type Network = { version: 4 | 6; network: bigint; prefix: number; size: bigint };
+
+const bitsOf = (version: 4 | 6) => (version === 4 ? 32 : 128);
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4 || parts.some((p) => !/^\d{1,3}$/.test(p) || Number(p) > 255)) return null;
+  return parts.reduce((acc, p) => (acc << 8n) + BigInt(p), 0n);
+}
+
+function parseIpv6(ip: string): bigint | null {
+  let text = ip.toLowerCase().split("%")[0];
+  // IPv4 no fim (::ffff:10.0.0.1) vira dois grupos
+  const tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const v4 = parseIpv4(tail[1]);
+    if (v4 === null) return null;
+    text = `${text.slice(0, -tail[1].length)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  if (groups.some((g) => !/^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.reduce((acc, g) => (acc << 16n) + BigInt(parseInt(g, 16)), 0n);
+}
+
+export function parseIp(ip: string): Addr | null {
+  const v4 = parseIpv4(ip.trim());
+  if (v4 !== null) return { version: 4, value: v4 };
+  const v6 = ip.includes(":") ? parseIpv6(ip.trim()) : null;
+  return v6 === null ? null : { version: 6, value: v6 };
+}
+
+function formatIp({ version, value }: Addr) {
+  if (version === 4) return [24n, 16n, 8n, 0n].map((s) => ((value >> s) & 255n).toString()).join(".");
+
+  const groups = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt(112 - i * 16)) & 0xffffn));
+  // maior sequência de zeros vira "::"
+  let best = { at: -1, len: 1 };
+  for (let i = 0; i < 8; ) {
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > best.len) best = { at: i, len: j - i };
+    i = j === i ? i + 1 : j;
+  }
+  const hex = groups.map((g) => g.toString(16));
+  if (best.at === -1) return hex.join(":");
+  return `${hex.slice(0, best.at).join(":")}::${hex.slice(best.at + best.len).join(":")}`;
+}
+
+function parseCidr(cidr: string): Network | null {
+  const [ip, bits] = cidr.trim().split("/");
+  const addr = parseIp(ip ?? "");
+  const prefix = Number(bits);
+  if (!addr || !Number.isInteger(prefix) || prefix < 0 || prefix > bitsOf(addr.version)) return null;
+  const size = 1n << BigInt(bitsOf(addr.version) - prefix);
+  return { version: addr.version, network: (addr.value / size) * size, prefix, size };
+}
+
+const formatCidr = (n: Network) => `${formatIp({ version: n.version, value: n.network })}/${n.prefix}`;
+
+const contains = (n: Network, a: Addr) => n.version === a.version && a.value >= n.network && a.value < n.network + n.size;
+
+/** Faixa atribuível: IPv4 sem rede/broadcast (exceto /31 e /32); IPv6 sem o anycast do roteador (::0). */
+function usableRange(n: Network) {
+  if (n.version === 4 && n.prefix <= 30) return { first: n.network + 1n, last: n.network + n.size - 2n };
+  if (n.version === 6 && n.prefix <= 126) return { first: n.network + 1n, last: n.network + n.size - 1n };
+  return { first: n.network, last: n.network + n.size - 1n };
+}
+
+/** bigint não vai para JSON: número quando cabe, string quando não (IPv6). */
+const count = (v: bigint) => (v <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(v) : v.toString());
+
+type SubnetRow = { id: string; map_id: string; cidr: string; name: string; gateway: string | null; vlan: number | null };
+type DeviceIpRow = { id: string; name: string; ip: string | null; subnet_id: string | null };
+
+/** Sub-rede mais específica (maior prefixo) que contém o IP. */
+function mostSpecific(subnets: SubnetRow[], ip: string | null) {
+  const addr = ip ? parseIp(ip) : null;
+  if (!addr) return null;
+  let best: { id: string; prefix: number } | null = null;
+  for (const s of subnets) {
+    const n = parseCidr(s.cidr);
+    if (n && contains(n, addr) && (!best || n.prefix > best.prefix)) best = { id: s.id, prefix: n.prefix };
+  }
+  return best?.id ?? null;
+}
+
+/**
+ * Outro equipamento do mesmo mapa com o mesmo endereço (comparado já
+ * normalizado: "2001:db8::1" e "2001:0db8:0::1" batem).
+ */
+export async function findIpConflict(db: Db, mapId: string, ip: string, excludeId?: string) {
+  const addr = parseIp(ip);
+  if (!addr) return null;
+  const r = await db.query(
+    `SELECT id, name, ip, map_id FROM devices WHERE map_id=$1 AND ip IS NOT NULL AND ($2::uuid IS NULL OR id <> $2)`,
+    [mapId, excludeId ?? null]
+  );
+  const hit = r.rows.find((d) => {
+    const other = parseIp(d.ip);
+    return other && other.version === addr.version && other.value === addr.value;
+  });
+  return hit ? { id: hit.id as string, name: hit.name as string, ip: hit.ip as string, mapId: hit.map_id as string } : null;
+}
+
+export const ipConflictBody = (c: { id: string; name: string; ip: string; mapId: string }) => ({
+  message: `IP already in use by ${c.name}`,
+  device: c,
+});
+
+/** Vincula um equipamento à sub-rede certa; devolve a linha atualizada. */
+export async function linkDeviceSubnet<T extends { id: string; map_id: string; ip: string | null; subnet_id?: string | null }>(db: Db, row: T): Promise<T> {
+  const subnets: SubnetRow[] = (await db.query(`SELECT * FROM subnets WHERE map_id=$1`, [row.map_id])).rows;
+  const subnetId = mostSpecific(subnets, row.ip);
+  if ((row.subnet_id ?? null) === subnetId) return row;
+  const r = await db.query(`UPDATE devices SET subnet_id=$2 WHERE id=$1 RETURNING *`, [row.id, subnetId]);
+  return r.rows[0] ?? row;
+}
+
+/** Recalcula o vínculo de todos os equipamentos do mapa (ou de todos os mapas, com null). */
+export async function relinkSubnets(db: Db, mapId: string | null) {
+  const subnets: SubnetRow[] = (await db.query(`SELECT * FROM subnets WHERE $1::uuid IS NULL OR map_id=$1`, [mapId])).rows;
+  const devices = (await db.query(`SELECT id, map_id, ip, subnet_id FROM devices WHERE $1::uuid IS NULL OR map_id=$1`, [mapId])).rows;
+
+  const changes: [string, string | null][] = [];
+  for (const d of devices) {
+    const subnetId = mostSpecific(subnets.filter((s) => s.map_id === d.map_id), d.ip);
+    if ((d.subnet_id ?? null) !== subnetId) changes.push([d.id, subnetId]);
+  }
+  if (changes.length === 0) return;
+  await db.query(
+    `
+    UPDATE devices d SET subnet_id = c.subnet_id
+    FROM unnest($1::uuid[], $2::uuid[]) AS c(id, subnet_id)
+    WHERE d.id = c.id
+    `,
+    [changes.map((c) => c[0]), changes.map((c) => c[1])]
+  );
+}
+
+function utilization(subnet: SubnetRow, devices: DeviceIpRow[]) {
+  const net = parseCidr(subnet.cidr)!;
+  const { first, last } = usableRange(net);
+  const usable = last >= first ? last - first + 1n : 0n;
+
+  const used = new Map<bigint, { ip: string; kind: "device" | "gateway"; deviceId?: string; name?: string }[]>();
+  const take = (value: bigint, entry: { ip: string; kind: "device" | "gateway"; deviceId?: string; name?: string }) =>
+    used.set(value, [...(used.get(value) ?? []), entry]);
+
+  const gateway = subnet.gateway ? parseIp(subnet.gateway) : null;
+  if (gateway && contains(net, gateway)) take(gateway.value, { ip: formatIp(gateway), kind: "gateway" });
+  for (const d of devices) {
+    const a = d.ip ? parseIp(d.ip) : null;
+    if (a && contains(net, a)) take(a.value, { ip: formatIp(a), kind: "device", deviceId: d.id, name: d.name });
+  }
+
+  const taken = [...used.keys()].filter((v) => v >= first && v <= last).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  // buracos entre os usados (limitado: /8 ou IPv6 teriam milhões)
+  const freeRanges: { from: string; to: string; count: number | string }[] = [];
+  let cursor = first;
+  for (const v of [...taken, last + 1n]) {
+    if (v > cursor && freeRanges.length < 100) {
+      freeRanges.push({
+        from: formatIp({ version: net.version, value: cursor }),
+        to: formatIp({ version: net.version, value: v - 1n }),
+        count: count(v - cursor),
+      });
+    }
+    cursor = v + 1n;
+  }
+
+  return {
+    total: count(net.size),
+    usable: count(usable),
+    used: taken.length,
+    free: count(usable - BigInt(taken.length)),
+    nextFree: freeRanges[0]?.from ?? null,
+    freeRanges,
+    addresses: [...used.entries()]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .flatMap(([, entries]) => entries.map((e) => ({ ...e, duplicate: entries.length > 1 }))),
+  };
+}
+
+// -------- Rotas --------
+
+ipamRoutes.get("/subnets", async (req, res) => {
+  const parsed = subnetQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  const subnets: SubnetRow[] = (await pool.query(`SELECT * FROM subnets WHERE map_id=$1`, [mapId])).rows;
+  const devices: DeviceIpRow[] = (await pool.query(`SELECT id, name, ip, subnet_id FROM devices WHERE map_id=$1 AND ip IS NOT NULL`, [mapId])).rows;
+
+  // ordem numérica (texto poria 10.0.10.0 antes de 10.0.2.0); IPv4 antes de IPv6
+  const key = (s: SubnetRow) => parseCidr(s.cidr)!;
+  subnets.sort((a, b) => {
+    const x = key(a);
+    const y = key(b);
+    if (x.version !== y.version) return x.version - y.version;
+    return x.network === y.network ? x.prefix - y.prefix : x.network < y.network ? -1 : 1;
+  });
+
+  res.json(
+    subnets.map((s) => {
+      const u = utilization(s, devices);
+      return { ...s, total: u.total, usable: u.usable, used: u.used, free: u.free, nextFree: u.nextFree };
+    })
+  );
+});
+
+ipamRoutes.get("/subnets/:id/utilization", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const subnet: SubnetRow | undefined = (await pool.query(`SELECT * FROM subnets WHERE id=$1`, [id.data])).rows[0];
+  if (!subnet) return res.status(404).json({ message: "Subnet not found" });
+
+  const devices: DeviceIpRow[] = (
+    await pool.query(`SELECT id, name, ip, subnet_id FROM devices WHERE map_id=$1 AND ip IS NOT NULL`, [subnet.map_id])
+  ).rows;
+  res.json({ subnet, ...utilization(subnet, devices) });
+});
+
+/** cidr normalizado + gateway dentro dela; devolve a mensagem de erro ou os valores. */
+function checkSubnet(cidr: string, gateway: string | null | undefined) {
+  const net = parseCidr(cidr);
+  if (!net) return { error: "invalid CIDR" };
+  if (gateway) {
+    const g = parseIp(gateway);
+    if (!g || !contains(net, g)) return { error: "gateway is outside the subnet" };
+    return { cidr: formatCidr(net), gateway: formatIp(g) };
+  }
+  return { cidr: formatCidr(net), gateway: gateway ?? null };
+}
+
+ipamRoutes.post("/subnets", requireRole("admin"), async (req, res) => {
+  const parsed = subnetCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  const m = await pool.query(`SELECT 1 FROM maps WHERE id=$1`, [mapId]);
+  if (!m.rows[0]) return res.status(400).json({ message: "mapId invalid (map not found)" });
+
+  const checked = checkSubnet(parsed.data.cidr, parsed.data.gateway);
+  if ("error" in checked) return res.status(400).json({ message: checked.error });
+
+  try {
+    const subnet = await withTransaction(async (client) => {
+      const r = await client.query(
+        `INSERT INTO subnets (map_id, cidr, name, gateway, vlan) VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+        [mapId, checked.cidr, parsed.data.name, checked.gateway, parsed.data.vlan ?? null]
+      );
+      await recordAudit(client, req.user, { entityType: "subnet", entityId: r.rows[0].id, action: "create", before: null, after: r.rows[0] });
+      await relinkSubnets(client, mapId);
+      return r.rows[0];
+    });
+    res.status(201).json(subnet);
+  } catch (e: any) {
+    if (e?.code === "23505") return res.status(409).json({ message: "Subnet already exists on this map" });
+    throw e;
+  }
+});
+
+ipamRoutes.patch("/subnets/:id", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = subnetUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+  if (Object.keys(parsed.data).length === 0) return res.status(400).json({ message: "No fields to update" });
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const before = await lockRow(client, "subnet", id.data);
+      if (!before) return null;
+
+      const checked = checkSubnet(
+        parsed.data.cidr ?? String(before.cidr),
+        parsed.data.gateway === undefined ? (before.gateway as string | null) : parsed.data.gateway
+      );
+      if ("error" in checked) return { error: checked.error };
+
+      const r = await client.query(
+        `UPDATE subnets SET cidr=$2, name=$3, gateway=$4, vlan=$5 WHERE id=$1 RETURNING *`,
+        [
+          id.data,
+          checked.cidr,
+          parsed.data.name ?? before.name,
+          checked.gateway,
+          parsed.data.vlan === undefined ? before.vlan : parsed.data.vlan,
+        ]
+      );
+      await recordAudit(client, req.user, { entityType: "subnet", entityId: id.data, action: "update", before, after: r.rows[0] });
+      await relinkSubnets(client, r.rows[0].map_id);
+      return { subnet: r.rows[0] };
+    });
+
+    if (!result) return res.status(404).json({ message: "Subnet not found" });
+    if ("error" in result) return res.status(400).json({ message: result.error });
+    res.json(result.subnet);
+  } catch (e: any) {
+    if (e?.code === "23505") return res.status(409).json({ message: "Subnet already exists on this map" });
+    throw e;
+  }
+});
+
+ipamRoutes.delete("/subnets/:id", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const deleted = await withTransaction(async (client) => {
+    const r = await client.query(`DELETE FROM subnets WHERE id=$1 RETURNING *`, [id.data]);
+    if (!r.rows[0]) return null;
+    await recordAudit(client, req.user, { entityType: "subnet", entityId: id.data, action: "delete", before: r.rows[0], after: null });
+    // quem estava nela pode cair numa sub-rede maior
+    await relinkSubnets(client, r.rows[0].map_id);
+    return r.rows[0];
+  });
+
+  if (!deleted) return res.status(404).json({ message: "Subnet not found" });
+  res.status(204).send();
+});
@@ -0,0 +1,95 @@
+import { randomUUID } from "node:crypto";
+import type { Request, Response } from "express";
+
+export type LiveEventType =
+  | "device.created"
+  | "device.updated"
+  | "device.position"
+  | "device.deleted"
+  | "link.created"
+  | "link.updated"
+  | "link.deleted"
+  | "link.utilization"
+  | "group.created"
+  | "group.updated"
+  | "group.deleted"
+  | "topology.restored"
+  | "discovery.queued"
+  | "deviceType.changed"
+  | "vlan.changed";
+
+type LiveEvent = { seq: number; type: LiveEventType; data: unknown };
+
+// Muda a cada boot: cliente com id de outra época precisa refazer o fetch.
+const epoch = randomUUID().slice(0, 8);
+const BUFFER_SIZE = 500;
+const HEARTBEAT_MS = 25_000;
+
+let seq = 0;
+const buffer: LiveEvent[] = [];
+const clients = new Set<Response>();
+
+function write(res: Response, e: LiveEvent) {
+  res.write(`id: ${epoch}:${e.seq}\nevent: ${e.type}\ndata: ${JSON.stringify(e.data)}\n\n`);
+}
+
+/**
+ * Publica para todos os navegadores conectados.
+ * Chamar só depois do COMMIT, para ninguém ver mudança que foi desfeita.
+ */
+export function publish(type: LiveEventType, data: unknown) {
+  const e: LiveEvent = { seq: ++seq, type, data };
+  buffer.push(e);
+  if (buffer.length > BUFFER_SIZE) buffer.shift();
+  for (const res of clients) write(res, e);
+}
+
+/**
+ * Retorna os eventos perdidos desde `lastId`, ou null se não dá para
+ * reconstituir (outra época ou já saiu do buffer) e o cliente deve recarregar.
+ */
+function missedSince(lastId: string): LiveEvent[] | null {
+  const [e, s] = lastId.split(":");
+  const lastSeq = Number(s);
+  if (e !== epoch || !Number.isInteger(lastSeq)) return null;
+  if (lastSeq === seq) return [];
+  const oldest = buffer[0]?.seq ?? seq + 1;
+  if (lastSeq < oldest - 1) return null;
+  return buffer.filter((ev) => ev.seq > lastSeq);
+}
+
+/**
+ * GET /events (Server-Sent Events). O EventSource reenvia Last-Event-ID
+ * ao reconectar; aceitamos também ?lastEventId= para reconexão manual.
+ */
+export function liveHandler(req: Request, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write("retry: 3000\n\n");
+
+  const lastId = req.header("Last-Event-ID") ?? (typeof req.query.lastEventId === "string" ? req.query.lastEventId : undefined);
+
+  if (lastId) {
+    const missed = missedSince(lastId);
+    if (missed === null) {
+      res.write(`id: ${epoch}:${seq}\nevent: resync\ndata: {}\n\n`);
+    } else {
+      missed.forEach((e) => write(res, e));
+    }
+  } else {
+    res.write(`id: ${epoch}:${seq}\nevent: hello\ndata: {}\n\n`);
+  }
+
+  clients.add(res);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
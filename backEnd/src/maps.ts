@@ -0,0 +1,179 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool, withTransaction, type Db } from "./db.js";
+import { loadTopology } from "./topology.js";
+import { requireRole } from "./auth.js";
+import { lockRow, recordAudit } from "./audit.js";
+import {
+  devicePositionSchema,
+  mapCreateSchema,
+  mapUpdateSchema,
+  mapRefCreateSchema,
+} from "./validators.js";
+
+export const mapRoutes = Router();
+
+mapRoutes.get("/maps", async (_req, res) => {
+  const r = await pool.query(`
+    SELECT m.*, (SELECT count(*)::int FROM devices d WHERE d.map_id = m.id) AS device_count
+    FROM maps m
+    ORDER BY m.created_at ASC
+  `);
+  res.json(r.rows);
+});
+
+mapRoutes.get("/maps/:mapId", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.mapId);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const r = await pool.query(`SELECT * FROM maps WHERE id=$1`, [id.data]);
+  if (!r.rows[0]) return res.status(404).json({ message: "Map not found" });
+  res.json(r.rows[0]);
+});
+
+mapRoutes.post("/maps", requireRole("admin"), async (req, res) => {
+  const parsed = mapCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { name, description } = parsed.data;
+  const map = await withTransaction(async (client) => {
+    const r = await client.query(
+      `INSERT INTO maps (name, description) VALUES ($1, $2) RETURNING *`,
+      [name, description ?? null]
+    );
+    await recordAudit(client, req.user, { entityType: "map", entityId: r.rows[0].id, action: "create", before: null, after: r.rows[0] });
+    return r.rows[0];
+  });
+  res.status(201).json(map);
+});
+
+mapRoutes.patch("/maps/:mapId", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.mapId);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = mapUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const entries = Object.entries(parsed.data);
+  if (entries.length === 0) return res.status(400).json({ message: "No fields to update" });
+
+  const setParts = entries.map(([k], i) => `${k}=$${i + 2}`);
+  const values = [id.data, ...entries.map(([, v]) => v ?? null)];
+
+  const map = await withTransaction(async (client) => {
+    const before = await lockRow(client, "map", id.data);
+    if (!before) return null;
+    const r = await client.query(`UPDATE maps SET ${setParts.join(", ")} WHERE id=$1 RETURNING *`, values);
+    await recordAudit(client, req.user, { entityType: "map", entityId: id.data, action: "update", before, after: r.rows[0] });
+    return r.rows[0];
+  });
+  if (!map) return res.status(404).json({ message: "Map not found" });
+  res.json(map);
+});
+
+/** Remove o mapa com todos os seus equipamentos e links (cascade). */
+mapRoutes.delete("/maps/:mapId", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.mapId);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const result = await withTransaction(async (client) => {
+    // trava todos os mapas: dois DELETE simultâneos não apagam juntos os dois últimos
+    const all = await client.query(`SELECT id FROM maps FOR UPDATE`);
+    if (!all.rows.some((m) => m.id === id.data)) return "not_found";
+    if (all.rows.length <= 1) return "last";
+
+    const r = await client.query(`DELETE FROM maps WHERE id=$1 RETURNING *`, [id.data]);
+    await recordAudit(client, req.user, { entityType: "map", entityId: id.data, action: "delete", before: r.rows[0], after: null });
+    return "deleted";
+  });
+  if (result === "not_found") return res.status(404).json({ message: "Map not found" });
+  if (result === "last") return res.status(409).json({ message: "Cannot delete the last map" });
+  res.status(204).send();
+});
+
+mapRoutes.get("/maps/:mapId/topology", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.mapId);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const m = await pool.query(`SELECT 1 FROM maps WHERE id=$1`, [id.data]);
+  if (!m.rows[0]) return res.status(404).json({ message: "Map not found" });
+
+  res.json(await loadTopology(id.data));
+});
+
+// -------- Referências (equipamento de outro mapa) --------
+
+/** Referência travada até o fim da transação (chave composta: lockRow não serve). */
+async function lockRef(db: Db, mapId: string, deviceId: string) {
+  const r = await db.query(`SELECT * FROM map_refs WHERE map_id=$1 AND device_id=$2 FOR UPDATE`, [mapId, deviceId]);
+  return r.rows[0] ?? null;
+}
+
+mapRoutes.post("/maps/:mapId/refs", requireRole("admin"), async (req, res) => {
+  const mapId = z.string().uuid().safeParse(req.params.mapId);
+  if (!mapId.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = mapRefCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { deviceId, x, y } = parsed.data;
+
+  try {
+    const ref = await withTransaction(async (client) => {
+      const d = await client.query(`SELECT map_id FROM devices WHERE id=$1 FOR SHARE`, [deviceId]);
+      if (!d.rows[0]) return { error: "deviceId invalid (device not found)" };
+      if (d.rows[0].map_id === mapId.data) return { error: "Device already belongs to this map" };
+
+      const r = await client.query(
+        `INSERT INTO map_refs (map_id, device_id, x, y) VALUES ($1, $2, $3, $4) RETURNING *`,
+        [mapId.data, deviceId, x ?? 0, y ?? 0]
+      );
+      await recordAudit(client, req.user, { entityType: "map_ref", entityId: deviceId, action: "create", before: null, after: r.rows[0] });
+      return r.rows[0];
+    });
+    if ("error" in ref) return res.status(400).json({ message: ref.error });
+    res.status(201).json(ref);
+  } catch (e: any) {
+    if (e?.code === "23505") return res.status(409).json({ message: "Reference already exists" });
+    if (e?.code === "23503") return res.status(404).json({ message: "Map not found" });
+    throw e;
+  }
+});
+
+mapRoutes.patch("/maps/:mapId/refs/:deviceId/position", requireRole("operator"), async (req, res) => {
+  const mapId = z.string().uuid().safeParse(req.params.mapId);
+  const deviceId = z.string().uuid().safeParse(req.params.deviceId);
+  if (!mapId.success || !deviceId.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = devicePositionSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const ref = await withTransaction(async (client) => {
+    const before = await lockRef(client, mapId.data, deviceId.data);
+    if (!before) return null;
+    const r = await client.query(
+      `UPDATE map_refs SET x=$3, y=$4 WHERE map_id=$1 AND device_id=$2 RETURNING *`,
+      [mapId.data, deviceId.data, parsed.data.x, parsed.data.y]
+    );
+    await recordAudit(client, req.user, { entityType: "map_ref", entityId: deviceId.data, action: "position", before, after: r.rows[0] });
+    return r.rows[0];
+  });
+  if (!ref) return res.status(404).json({ message: "Reference not found" });
+  res.json(ref);
+});
+
+mapRoutes.delete("/maps/:mapId/refs/:deviceId", requireRole("admin"), async (req, res) => {
+  const mapId = z.string().uuid().safeParse(req.params.mapId);
+  const deviceId = z.string().uuid().safeParse(req.params.deviceId);
+  if (!mapId.success || !deviceId.success) return res.status(400).json({ message: "Invalid id" });
+
+  const deleted = await withTransaction(async (client) => {
+    const before = await lockRef(client, mapId.data, deviceId.data);
+    if (!before) return false;
+    await client.query(`DELETE FROM map_refs WHERE map_id=$1 AND device_id=$2`, [mapId.data, deviceId.data]);
+    await recordAudit(client, req.user, { entityType: "map_ref", entityId: deviceId.data, action: "delete", before, after: null });
+    return true;
+  });
+  if (!deleted) return res.status(404).json({ message: "Reference not found" });
+  res.status(204).send();
+});
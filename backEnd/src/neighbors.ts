@@ -0,0 +1,326 @@
+import { Router } from "express";
+import type { z } from "zod";
+import { defaultMapId, pool, withTransaction } from "./db.js";
+import { publish } from "./live.js";
+import { requireRole } from "./auth.js";
+import { recordAudit } from "./audit.js";
+import { recordStatusEvent } from "./statusEvents.js";
+import { attachHandlePorts } from "./ports.js";
+import { mapExists } from "./transfer.js";
+import { neighborAcceptSchema, neighborEntrySchema, neighborIngestSchema } from "./validators.js";
+
+/**
+ * Vizinhos LLDP/CDP → links. O reconcile só compara (nada é gravado);
+ * o accept grava o que o usuário aprovou na tela de reconciliação.
+ */
+export const neighborRoutes = Router();
+
+type NeighborEntry = z.infer<typeof neighborEntrySchema>;
+
+// -------- Parser do texto dos equipamentos --------
+
+const promptRe = /^\s*([\w.\-]+)[#>]\s*(?:sh(?:ow)?\s+)?(?:lldp|cdp)\b/i;
+
+const field = (block: string, re: RegExp) => block.match(re)?.[1]?.trim() || undefined;
+
+/** Bloco sem sistema/portas (cabeçalho, legenda) não vira vizinho. */
+function complete(e: { localDevice: string; localPort?: string; remoteSystem?: string; remotePort?: string; remoteIp?: string }) {
+  const { localPort, remoteSystem, remotePort } = e;
+  return localPort && remoteSystem && remotePort ? [{ ...e, localPort, remoteSystem, remotePort }] : [];
+}
+
+/** `show cdp neighbors detail` (IOS/NX-OS): blocos começando em "Device ID:". */
+function parseCdpDetail(section: string, local: string): NeighborEntry[] {
+  return section
+    .split(/^(?=\s*Device ID:)/im)
+    .map((block) => ({
+      localDevice: local,
+      remoteSystem: field(block, /Device ID:\s*(\S+)/i),
+      remoteIp: field(block, /IP(?:v4)? address:\s*(\S+)/i),
+      localPort: field(block, /Interface:\s*([^,\n]+)/i),
+      remotePort: field(block, /Port ID \(outgoing port\):\s*(.+)$/im),
+    }))
+    .flatMap(complete);
+}
+
+/** `show lldp neighbors detail`: "Local Intf:" (IOS) ou "Local Port id:" (NX-OS) abre cada bloco. */
+function parseLldpDetail(section: string, local: string): NeighborEntry[] {
+  return section
+    .split(/^(?=\s*Local (?:Intf|Port id):)/im)
+    .map((block) => ({
+      localDevice: local,
+      localPort: field(block, /^\s*Local (?:Intf|Port id):\s*(.+)$/im),
+      remotePort: field(block, /^\s*Port id:\s*(.+)$/im),
+      remoteSystem: field(block, /^\s*System Name:\s*(.+)$/im),
+      remoteIp: field(block, /Management Address(?:es)?:\s*(?:IP:\s*)?([\d.:a-f]+)/i) ?? field(block, /^\s*IP:\s*(\S+)/im),
+    }))
+    .flatMap(complete);
+}
+
+/**
+ * Tabela resumida (`show cdp neighbors` / `show lldp neighbors`). As colunas
+ * saem das posições do cabeçalho, porque "Gig 1/0/1" tem espaço dentro.
+ */
+function parseBrief(section: string, local: string, unparsed: string[]): NeighborEntry[] {
+  const lines = section.split(/\r?\n/);
+  const h = lines.findIndex((l) => /Device ID/i.test(l) && /Local Int/i.test(l) && /Port ID/i.test(l));
+  if (h === -1) return [];
+
+  const header = lines[h];
+  const localAt = header.search(/Local Int/i);
+  const holdAt = header.search(/Hold/i);
+  const portAt = header.search(/Port ID/i);
+  const out: NeighborEntry[] = [];
+
+  for (let i = h + 1; i < lines.length; i++) {
+    let line = lines[i];
+    if (!line.trim() || /^\s*Total /i.test(line)) continue;
+    // nome comprido: o CDP quebra a linha e o resto vem indentado embaixo
+    let name: string | undefined;
+    if (line.trim().split(/\s+/).length === 1 && /^\s/.test(lines[i + 1] ?? "")) {
+      name = line.trim();
+      line = lines[++i];
+    }
+    const entry = {
+      localDevice: local,
+      remoteSystem: name ?? line.slice(0, localAt).trim(),
+      localPort: line.slice(localAt, holdAt > localAt ? holdAt : portAt).trim(),
+      remotePort: line.slice(portAt).trim(),
+    };
+    if (entry.remoteSystem && entry.localPort && entry.remotePort) out.push(entry);
+    else unparsed.push(line.trim());
+  }
+  return out;
+}
+
+/** Separa por prompt ("sw1#show lldp neighbors detail"), então dá para colar vários equipamentos juntos. */
+function parseNeighborText(text: string, defaultLocal?: string) {
+  const sections: { local?: string; body: string }[] = [];
+  let current: { local?: string; lines: string[] } = { local: defaultLocal, lines: [] };
+
+  for (const line of text.split(/\r?\n/)) {
+    const prompt = line.match(promptRe);
+    if (prompt) {
+      sections.push({ local: current.local, body: current.lines.join("\n") });
+      current = { local: prompt[1], lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  sections.push({ local: current.local, body: current.lines.join("\n") });
+
+  const entries: NeighborEntry[] = [];
+  const unparsed: string[] = [];
+  for (const s of sections) {
+    if (!s.body.trim()) continue;
+    if (!s.local) {
+      unparsed.push("neighbor output without a local device (add the prompt line or localDevice)");
+      continue;
+    }
+    if (/Device ID:/i.test(s.body)) entries.push(...parseCdpDetail(s.body, s.local));
+    else if (/Local (?:Intf|Port id):/i.test(s.body)) entries.push(...parseLldpDetail(s.body, s.local));
+    else entries.push(...parseBrief(s.body, s.local, unparsed));
+  }
+  return { entries, unparsed };
+}
+
+// -------- Reconciliação --------
+
+/** "GigabitEthernet1/0/1", "Gig 1/0/1" e "Gi1/0/1" viram "gi1/0/1". */
+function portKey(port: string) {
+  const m = port.trim().toLowerCase().replace(/\s+/g, "").match(/^([a-z-]*)(.*)$/);
+  return m ? `${m[1].slice(0, 2)}${m[2]}` : port.toLowerCase();
+}
+
+type DeviceRef = { id: string; name: string; ip: string | null };
+
+type Proposal = {
+  fromId: string;
+  fromName: string;
+  fromHandle: string;
+  toId: string;
+  toName: string;
+  toHandle: string;
+  /** os dois lados anunciaram o mesmo cabo */
+  bothSides: boolean;
+};
+
+async function reconcile(mapId: string, entries: NeighborEntry[]) {
+  const devices: DeviceRef[] = (await pool.query(`SELECT id, name, ip FROM devices WHERE map_id=$1`, [mapId])).rows;
+  const links = (
+    await pool.query(
+      `SELECT l.* FROM links l JOIN devices d ON d.id = l.from_id WHERE d.map_id = $1 ORDER BY l.created_at ASC`,
+      [mapId]
+    )
+  ).rows;
+  const nameOf = new Map(devices.map((d) => [d.id, d.name]));
+
+  // nome exato, nome sem domínio (LLDP costuma mandar FQDN), depois IP
+  const resolve = (ref: string, ip?: string): { device?: DeviceRef; error?: string } => {
+    const lower = ref.toLowerCase();
+    const short = lower.split(".")[0];
+    const candidates = [
+      devices.filter((d) => d.name.toLowerCase() === lower),
+      devices.filter((d) => d.name.toLowerCase().split(".")[0] === short),
+      devices.filter((d) => d.ip && (d.ip === ref || d.ip === ip)),
+    ];
+    for (const found of candidates) {
+      if (found.length > 1) return { error: `"${ref}" matches ${found.length} devices` };
+      if (found[0]) return { device: found[0] };
+    }
+    return { error: `device "${ref}" not found on this map` };
+  };
+
+  const cables = new Map<string, Proposal & { seenFrom: Set<string> }>();
+  const unresolved: (NeighborEntry & { reason: string })[] = [];
+  const reporting = new Set<string>();
+
+  for (const e of entries) {
+    const local = resolve(e.localDevice);
+    if (local.device) reporting.add(local.device.id);
+    const remote = resolve(e.remoteSystem, e.remoteIp);
+    if (!local.device || !remote.device) {
+      unresolved.push({ ...e, reason: (local.error ?? remote.error)! });
+      continue;
+    }
+    if (local.device.id === remote.device.id) {
+      unresolved.push({ ...e, reason: "local and remote are the same device" });
+      continue;
+    }
+
+    // o mesmo cabo visto dos dois lados vira uma proposta só
+    const key = [`${local.device.id}|${portKey(e.localPort)}`, `${remote.device.id}|${portKey(e.remotePort)}`].sort().join("~");
+    const cable = cables.get(key);
+    if (cable) {
+      cable.seenFrom.add(local.device.id);
+      cable.bothSides = cable.seenFrom.size > 1;
+      continue;
+    }
+    cables.set(key, {
+      fromId: local.device.id,
+      fromName: local.device.name,
+      fromHandle: e.localPort,
+      toId: remote.device.id,
+      toName: remote.device.name,
+      toHandle: e.remotePort,
+      bothSides: false,
+      seenFrom: new Set([local.device.id]),
+    });
+  }
+
+  // link existente cobre o cabo: mesmo par de equipamentos e portas iguais (ou link sem portas)
+  const samePort = (handle: string | null, port: string) => !handle || portKey(handle) === portKey(port);
+  const covers = (l: any, c: Proposal) =>
+    (l.from_id === c.fromId && l.to_id === c.toId && samePort(l.from_handle, c.fromHandle) && samePort(l.to_handle, c.toHandle)) ||
+    (l.from_id === c.toId && l.to_id === c.fromId && samePort(l.from_handle, c.toHandle) && samePort(l.to_handle, c.fromHandle));
+
+  const supported = new Set<string>();
+  const proposals: Proposal[] = [];
+  const confirmed: { linkId: string; fromName: string; toName: string; fromHandle: string; toHandle: string; missingHandles: boolean }[] = [];
+
+  for (const { seenFrom: _seen, ...c } of cables.values()) {
+    const link = links.find((l) => !supported.has(l.id) && covers(l, c));
+    if (!link) {
+      proposals.push(c);
+      continue;
+    }
+    supported.add(link.id);
+    confirmed.push({
+      linkId: link.id,
+      fromName: c.fromName,
+      toName: c.toName,
+      fromHandle: c.fromHandle,
+      toHandle: c.toHandle,
+      missingHandles: !link.from_handle || !link.to_handle,
+    });
+  }
+
+  // só dá para contestar links de quem mandou a tabela de vizinhos
+  const unsupported = links
+    .filter((l) => !supported.has(l.id) && (reporting.has(l.from_id) || reporting.has(l.to_id)))
+    .map((l) => ({
+      linkId: l.id as string,
+      fromId: l.from_id as string,
+      fromName: nameOf.get(l.from_id) ?? l.from_id,
+      fromHandle: (l.from_handle as string | null) ?? null,
+      toId: l.to_id as string,
+      toName: nameOf.get(l.to_id) ?? l.to_id,
+      toHandle: (l.to_handle as string | null) ?? null,
+      label: (l.label as string | null) ?? null,
+    }));
+
+  return { proposals, confirmed, unsupported, unresolved };
+}
+
+neighborRoutes.post("/neighbors/reconcile", requireRole("operator"), async (req, res) => {
+  const parsed = neighborIngestSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  if (!(await mapExists(mapId))) return res.status(400).json({ message: "mapId invalid (map not found)" });
+
+  const fromText = parsed.data.text ? parseNeighborText(parsed.data.text, parsed.data.localDevice) : { entries: [], unparsed: [] };
+  const entries = [...fromText.entries, ...parsed.data.entries];
+  if (entries.length === 0) {
+    return res.status(400).json({ message: "No neighbors found in the input", unparsed: fromText.unparsed });
+  }
+
+  const result = await reconcile(mapId, entries);
+  res.json({ mapId, entries: entries.length, unparsed: fromText.unparsed, ...result });
+});
+
+neighborRoutes.post("/neighbors/accept", requireRole("admin"), async (req, res) => {
+  const parsed = neighborAcceptSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { links, removeLinkIds } = parsed.data;
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  if (links.length === 0 && removeLinkIds.length === 0) return res.status(400).json({ message: "Nothing to apply" });
+
+  const ids = [...new Set(links.flatMap((l) => [l.fromId, l.toId]))];
+  const onMap = await pool.query(`SELECT id FROM devices WHERE id = ANY($1::uuid[]) AND map_id = $2`, [ids, mapId]);
+  if (onMap.rows.length !== ids.length) {
+    return res.status(400).json({ message: "fromId/toId invalid (device not found on this map)" });
+  }
+
+  try {
+    const result = await withTransaction(async (client) => {
+      const created = [];
+      for (const l of links) {
+        const r = await client.query(
+          `
+          INSERT INTO links (from_id, to_id, status, label, from_handle, to_handle)
+          VALUES ($1, $2, 'up'::link_status, $3, $4, $5)
+          RETURNING *
+          `,
+          [l.fromId, l.toId, l.label ?? null, l.fromHandle, l.toHandle]
+        );
+        // o nome informado pelo LLDP/CDP vira (ou encontra) a porta do equipamento
+        const row = await attachHandlePorts(client, r.rows[0]);
+        await recordStatusEvent(client, { entityType: "link", entityId: row.id, previousStatus: null, status: row.status, source: "manual" });
+        await recordAudit(client, req.user, { entityType: "link", entityId: row.id, action: "create", before: null, after: row });
+        created.push(row);
+      }
+
+      const removed = [];
+      for (const id of removeLinkIds) {
+        const del = await client.query(
+          `DELETE FROM links l USING devices d WHERE l.id = $1 AND d.id = l.from_id AND d.map_id = $2 RETURNING l.*`,
+          [id, mapId]
+        );
+        if (!del.rows[0]) continue;
+        await recordAudit(client, req.user, { entityType: "link", entityId: id, action: "delete", before: del.rows[0], after: null });
+        removed.push(id);
+      }
+      return { created, removed };
+    });
+
+    publish("topology.restored", { mapId });
+    res.status(201).json({ created: result.created.length, removed: result.removed.length });
+  } catch (e: any) {
+    if (e?.code === "23505") {
+      return res.status(409).json({ message: "Link already exists (reconcile again)" });
+    }
+    throw e;
+  }
+});
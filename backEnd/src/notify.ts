@@ -0,0 +1,99 @@
+import { sendMail, type SmtpConfig } from "./smtp.js";
+
+export type ChannelKind = "webhook" | "email" | "chat";
+export type Channel = { id: string; name: string; kind: ChannelKind; config: Record<string, any> };
+
+export type NoticeEvent = "firing" | "repeat" | "recovery" | "test";
+
+/** O que vai para o canal; o webhook genérico recebe isto em JSON. */
+export type Notice = {
+  event: NoticeEvent;
+  rule: { id: string; name: string } | null;
+  entity: {
+    type: "device" | "link";
+    id: string;
+    name: string;
+    status: string;
+    previousStatus: string | null;
+    since: string;
+  } | null;
+  /** uma linha: assunto do email e texto do chat */
+  summary: string;
+  at: string;
+};
+
+const HTTP_TIMEOUT_MS = 10_000;
+
+const headline: Record<NoticeEvent, string> = {
+  firing: "🔴 [ALERTA]",
+  repeat: "🔁 [AINDA]",
+  recovery: "✅ [RECUPERADO]",
+  test: "🧪 [TESTE]",
+};
+
+function elapsed(since: Date, now: Date) {
+  const s = Math.max(0, Math.round((now.getTime() - since.getTime()) / 1000));
+  if (s < 120) return `${s}s`;
+  if (s < 7200) return `${Math.round(s / 60)} min`;
+  return `${Math.round(s / 3600)} h`;
+}
+
+export function buildNotice(
+  event: Exclude<NoticeEvent, "test">,
+  rule: { id: string; name: string },
+  entity: { type: "device" | "link"; id: string; name: string; status: string; previousStatus: string | null; since: Date },
+  now = new Date()
+): Notice {
+  const what = `${entity.type === "device" ? "equipamento" : "link"} ${entity.name}`;
+  const summary =
+    event === "recovery"
+      ? `${headline.recovery} ${rule.name}: ${what} agora ${entity.status}`
+      : `${headline[event]} ${rule.name}: ${what} ${entity.previousStatus ?? "?"}→${entity.status} há ${elapsed(entity.since, now)}`;
+  return {
+    event,
+    rule,
+    entity: { ...entity, since: entity.since.toISOString() },
+    summary,
+    at: now.toISOString(),
+  };
+}
+
+export function testNotice(channel: Channel): Notice {
+  return {
+    event: "test",
+    rule: null,
+    entity: null,
+    summary: `${headline.test} Canal "${channel.name}" configurado`,
+    at: new Date().toISOString(),
+  };
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const r = await fetch(url, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+  if (!r.ok) throw new Error(`HTTP ${r.status}`);
+}
+
+/** Entrega num canal; erro sobe para quem chamou (o teste mostra, o alertador registra). */
+export async function deliver(channel: Channel, notice: Notice) {
+  switch (channel.kind) {
+    case "webhook":
+      return postJson(channel.config.url, notice, channel.config.headers);
+    case "chat":
+      return postJson(channel.config.url, { text: notice.summary });
+    case "email": {
+      const details = [
+        notice.summary,
+        "",
+        notice.rule ? `Regra: ${notice.rule.name}` : null,
+        notice.entity ? `Status: ${notice.entity.previousStatus ?? "?"} → ${notice.entity.status} desde ${notice.entity.since}` : null,
+        `Enviado em ${notice.at}`,
+      ].filter((l) => l !== null);
+      return sendMail(channel.config as SmtpConfig, notice.summary, details.join("\n"));
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { Router } from "express";
+import { pool, type Db } from "./db.js";
+import { pathQuerySchema } from "./validators.js";
+
+/**
+ * Caminho mais curto entre dois equipamentos do mesmo mapa, em todas as
+ * variantes de mesmo custo. Links valem nos dois sentidos.
+ */
+export const pathRoutes = Router();
+
+// weight=capacity: custo = referência / capacidade (100G → 1, 10G → 10, 1G → 100)
+const REFERENCE_MBPS = 100_000;
+// link sem capacidade cadastrada conta como 1G
+const DEFAULT_CAPACITY_MBPS = 1_000;
+// caminhos de mesmo custo crescem em combinação; o resto é cortado
+const MAX_PATHS = 32;
+
+type Weight = "hops" | "capacity";
+type Adjacent = { to: string; linkId: string; cost: number };
+
+export function linkCost(capacityMbps: number | null, weight: Weight) {
+  if (weight === "hops") return 1;
+  return Math.max(1, Math.round(REFERENCE_MBPS / (capacityMbps ?? DEFAULT_CAPACITY_MBPS)));
+}
+
+/** Heap mínimo de [custo, nó]. */
+class MinHeap {
+  private items: [number, string][] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: [number, string]) {
+    const a = this.items;
+    a.push(item);
+    for (let i = a.length - 1; i > 0; ) {
+      const p = (i - 1) >> 1;
+      if (a[p][0] <= a[i][0]) break;
+      [a[p], a[i]] = [a[i], a[p]];
+      i = p;
+    }
+  }
+
+  pop() {
+    const a = this.items;
+    const top = a[0];
+    const last = a.pop()!;
+    if (a.length > 0) {
+      a[0] = last;
+      for (let i = 0; ; ) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < a.length && a[l][0] < a[m][0]) m = l;
+        if (r < a.length && a[r][0] < a[m][0]) m = r;
+        if (m === i) break;
+        [a[m], a[i]] = [a[i], a[m]];
+        i = m;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Dijkstra guardando todos os predecessores de mesmo custo; os caminhos saem
+ * andando de trás para frente. Custos inteiros: empate é comparação exata.
+ */
+export function shortestPaths(adjacency: Map<string, Adjacent[]>, from: string, to: string, limit = MAX_PATHS) {
+  const dist = new Map<string, number>([[from, 0]]);
+  const preds = new Map<string, { node: string; linkId: string }[]>();
+  const heap = new MinHeap();
+  heap.push([0, from]);
+
+  while (heap.size > 0) {
+    const [d, node] = heap.pop();
+    if (d > dist.get(node)!) continue;
+    if (node === to) break; // tudo que chega em `to` com esse custo já foi visto
+    for (const a of adjacency.get(node) ?? []) {
+      const next = d + a.cost;
+      const known = dist.get(a.to);
+      if (known === undefined || next < known) {
+        dist.set(a.to, next);
+        preds.set(a.to, [{ node, linkId: a.linkId }]);
+        heap.push([next, a.to]);
+      } else if (next === known) {
+        preds.get(a.to)!.push({ node, linkId: a.linkId });
+      }
+    }
+  }
+
+  const cost = dist.get(to);
+  if (cost === undefined) return { cost: null, paths: [], truncated: false };
+
+  const paths: { devices: string[]; links: string[] }[] = [];
+  let truncated = false;
+  const walk = (node: string, devices: string[], links: string[]) => {
+    if (paths.length >= limit) {
+      truncated = true;
+      return;
+    }
+    if (node === from) {
+      paths.push({ devices: [from, ...devices], links: [...links] });
+      return;
+    }
+    for (const p of preds.get(node) ?? []) walk(p.node, [node, ...devices], [p.linkId, ...links]);
+  };
+  walk(to, [], []);
+  return { cost, paths, truncated };
+}
+
+/**
+ * Links do mapa (sem mapId, de todos) com as portas das pontas; porta desligada
+ * ou caída derruba o link, como no canvas.
+ */
+export async function loadMapLinks(db: Db, mapId?: string) {
+  const r = await db.query(
+    `
+    SELECT l.id, l.from_id, l.to_id, l.status, l.label, l.capacity_mbps,
+           fp.name AS from_port, tp.name AS to_port,
+           (l.status = 'down'
+             OR 'down' IN (fp.admin_status, fp.oper_status, tp.admin_status, tp.oper_status)) AS is_down
+    FROM links l
+    JOIN devices d ON d.id = l.from_id
+    LEFT JOIN ports fp ON fp.id = l.from_port_id
+    LEFT JOIN ports tp ON tp.id = l.to_port_id
+    WHERE ($1::uuid IS NULL OR d.map_id = $1)
+    `,
+    [mapId ?? null]
+  );
+  return r.rows;
+}
+
+pathRoutes.get("/paths", async (req, res) => {
+  const parsed = pathQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { from, to, weight, avoidDown } = parsed.data;
+  const ends = await pool.query(`SELECT id, map_id FROM devices WHERE id = ANY($1::uuid[])`, [[from, to]]);
+  const source = ends.rows.find((d) => d.id === from);
+  if (!source || !ends.rows.some((d) => d.id === to)) return res.status(404).json({ message: "Device not found" });
+
+  const links = await loadMapLinks(pool, source.map_id);
+
+  const adjacency = new Map<string, Adjacent[]>();
+  const add = (a: string, b: Adjacent) => adjacency.set(a, [...(adjacency.get(a) ?? []), b]);
+  for (const l of links) {
+    if (avoidDown && l.is_down) continue;
+    const cost = linkCost(l.capacity_mbps, weight);
+    add(l.from_id, { to: l.to_id, linkId: l.id, cost });
+    add(l.to_id, { to: l.from_id, linkId: l.id, cost });
+  }
+
+  const result = shortestPaths(adjacency, from, to);
+
+  const deviceIds = [...new Set(result.paths.flatMap((p) => p.devices))];
+  const devices = await pool.query(`SELECT id, name, type, ip, status FROM devices WHERE id = ANY($1::uuid[])`, [deviceIds]);
+  const deviceById = new Map(devices.rows.map((d) => [d.id, d]));
+  const linkById = new Map(links.map((l) => [l.id, l]));
+
+  res.json({
+    from,
+    to,
+    weight,
+    avoidDown,
+    cost: result.cost,
+    truncated: result.truncated,
+    // hops[i].link = link que chega no equipamento i (null na origem)
+    paths: result.paths.map((p) => ({
+      hops: p.devices.map((id, i) => {
+        const l = i > 0 ? linkById.get(p.links[i - 1]) : undefined;
+        const forward = l?.to_id === id;
+        return {
+          device: deviceById.get(id),
+          link: l
+            ? {
+                id: l.id,
+                label: l.label ?? undefined,
+                status: l.status,
+                down: l.is_down,
+                capacityMbps: l.capacity_mbps ?? null,
+                // porta de saída do salto anterior e de entrada neste
+                outPort: (forward ? l.from_port : l.to_port) ?? null,
+                inPort: (forward ? l.to_port : l.from_port) ?? null,
+              }
+            : null,
+        };
+      }),
+    })),
+  });
+});
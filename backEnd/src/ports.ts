@@ -0,0 +1,209 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool, withTransaction, type Db } from "./db.js";
+import { publish } from "./live.js";
+import { requireAdminUnless, requireRole } from "./auth.js";
+import { lockRow, recordAudit } from "./audit.js";
+import { deviceNodeWithPorts, portsByDevice, toPort, toTopologyEdge } from "./topology.js";
+import { portCreateSchema, portUpdateSchema } from "./validators.js";
+
+/**
+ * Portas/interfaces dos equipamentos. Cada ponta de link aponta para uma porta
+ * (links.from_port_id/to_port_id); o banco garante um link por porta (trigger em db.ts).
+ * No nó do React Flow cada porta vira um handle com o id da porta.
+ */
+export const portRoutes = Router();
+
+export type PortInput = z.infer<typeof portCreateSchema> & { id?: string };
+
+/** Mapeia os erros de porta do banco (trigger/índices de links) para a resposta HTTP. */
+export function portLinkError(e: any): { status: number; message: string } | null {
+  if (e?.code === "23505" && ["links_port_busy", "links_from_port", "links_to_port"].includes(e.constraint)) {
+    return { status: 409, message: "Port already has a link" };
+  }
+  if (e?.code === "23514" && e.constraint === "links_port_device") {
+    return { status: 400, message: "Port does not belong to the link's device" };
+  }
+  if (e?.code === "23514" && e.constraint === "links_ports_distinct") {
+    return { status: 400, message: "Both ends use the same port" };
+  }
+  return null;
+}
+
+/**
+ * Link que só tem o nome da porta (handle, ex.: LLDP ou import): acha ou cria
+ * a porta com esse nome e prende o link nela, se ela estiver livre.
+ */
+export async function attachHandlePorts(db: Db, link: any) {
+  let row = link;
+  for (const end of ["from", "to"] as const) {
+    const name = row[`${end}_handle`];
+    if (!name || row[`${end}_port_id`]) continue;
+    const p = await db.query(
+      `
+      INSERT INTO ports (device_id, name) VALUES ($1, $2)
+      ON CONFLICT (device_id, name) DO UPDATE SET name = EXCLUDED.name
+      RETURNING id
+      `,
+      [row[`${end}_id`], name]
+    );
+    const portId = p.rows[0].id;
+    if (portId === row.from_port_id) continue;
+    const busy = await db.query(`SELECT 1 FROM links WHERE $1 IN (from_port_id, to_port_id)`, [portId]);
+    if (busy.rows[0]) continue; // ocupada: o link fica só com o nome
+    row = (await db.query(`UPDATE links SET ${end}_port_id=$2 WHERE id=$1 RETURNING *`, [row.id, portId])).rows[0];
+  }
+  return row;
+}
+
+/**
+ * Grava portas com id conhecido (desfazer exclusão, snapshot). Com `replace`,
+ * as portas do equipamento que não estão na lista são apagadas.
+ */
+export async function syncPorts(db: Db, deviceId: string, ports: (PortInput & { id: string })[], replace = false) {
+  if (replace) {
+    await db.query(`DELETE FROM ports WHERE device_id=$1 AND NOT (id = ANY($2::uuid[]))`, [deviceId, ports.map((p) => p.id)]);
+  }
+  for (const p of ports) {
+    await db.query(
+      `
+      INSERT INTO ports (id, device_id, name, kind, speed_mbps, admin_status, oper_status, description)
+      VALUES ($1, $2, $3, COALESCE($4, 'ethernet'), $5, COALESCE($6, 'up'), COALESCE($7, 'unknown'), $8)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name, kind = EXCLUDED.kind, speed_mbps = EXCLUDED.speed_mbps,
+        admin_status = EXCLUDED.admin_status, oper_status = EXCLUDED.oper_status, description = EXCLUDED.description
+      `,
+      [p.id, deviceId, p.name, p.kind ?? null, p.speedMbps ?? null, p.adminStatus ?? null, p.operStatus ?? null, p.description ?? null]
+    );
+  }
+}
+
+/** Portas vindas de um documento de import: casam pelo nome dentro do equipamento. */
+export async function importPorts(db: Db, deviceId: string, ports: PortInput[]) {
+  for (const p of ports) {
+    await db.query(
+      `
+      INSERT INTO ports (device_id, name, kind, speed_mbps, admin_status, oper_status, description)
+      VALUES ($1, $2, COALESCE($3, 'ethernet'), $4, COALESCE($5, 'up'), COALESCE($6, 'unknown'), $7)
+      ON CONFLICT (device_id, name) DO UPDATE SET
+        kind = COALESCE($3, ports.kind), speed_mbps = COALESCE($4, ports.speed_mbps),
+        admin_status = COALESCE($5, ports.admin_status), oper_status = COALESCE($6, ports.oper_status),
+        description = COALESCE($7, ports.description)
+      `,
+      [deviceId, p.name, p.kind ?? null, p.speedMbps ?? null, p.adminStatus ?? null, p.operStatus ?? null, p.description ?? null]
+    );
+  }
+}
+
+portRoutes.get("/devices/:id/ports", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const d = await pool.query(`SELECT 1 FROM devices WHERE id=$1`, [id.data]);
+  if (!d.rows[0]) return res.status(404).json({ message: "Device not found" });
+  res.json((await portsByDevice(pool, [id.data])).get(id.data));
+});
+
+portRoutes.post("/devices/:id/ports", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = portCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const p = parsed.data;
+  try {
+    const result = await withTransaction(async (client) => {
+      const device = await lockRow(client, "device", id.data);
+      if (!device) return null;
+      const r = await client.query(
+        `
+        INSERT INTO ports (device_id, name, kind, speed_mbps, admin_status, oper_status, description)
+        VALUES ($1, $2, COALESCE($3, 'ethernet'), $4, COALESCE($5, 'up'), COALESCE($6, 'unknown'), $7)
+        RETURNING *
+        `,
+        [id.data, p.name, p.kind ?? null, p.speedMbps ?? null, p.adminStatus ?? null, p.operStatus ?? null, p.description ?? null]
+      );
+      await recordAudit(client, req.user, { entityType: "port", entityId: r.rows[0].id, action: "create", before: null, after: r.rows[0] });
+      return { port: r.rows[0], node: await deviceNodeWithPorts(client, device) };
+    });
+
+    if (!result) return res.status(404).json({ message: "Device not found" });
+    publish("device.updated", result.node);
+    res.status(201).json(toPort(result.port));
+  } catch (e: any) {
+    if (e?.code === "23505") return res.status(409).json({ message: "Port name already exists on this device" });
+    throw e;
+  }
+});
+
+// operador pode mudar o status (admin/oper); o resto é do admin
+portRoutes.patch("/ports/:id", requireAdminUnless(["adminStatus", "operStatus"]), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = portUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+  if (Object.keys(parsed.data).length === 0) return res.status(400).json({ message: "No fields to update" });
+
+  const p = parsed.data;
+  try {
+    const result = await withTransaction(async (client) => {
+      const before = await lockRow(client, "port", id.data);
+      if (!before) return null;
+      const r = await client.query(
+        `
+        UPDATE ports SET name=$2, kind=$3, speed_mbps=$4, admin_status=$5, oper_status=$6, description=$7
+        WHERE id=$1 RETURNING *
+        `,
+        [
+          id.data,
+          p.name ?? before.name,
+          p.kind ?? before.kind,
+          p.speedMbps === undefined ? before.speed_mbps : p.speedMbps,
+          p.adminStatus ?? before.admin_status,
+          p.operStatus ?? before.oper_status,
+          p.description === undefined ? before.description : p.description,
+        ]
+      );
+      await recordAudit(client, req.user, { entityType: "port", entityId: id.data, action: "update", before, after: r.rows[0] });
+      const device = (await client.query(`SELECT * FROM devices WHERE id=$1`, [r.rows[0].device_id])).rows[0];
+      return { port: r.rows[0], node: await deviceNodeWithPorts(client, device) };
+    });
+
+    if (!result) return res.status(404).json({ message: "Port not found" });
+    publish("device.updated", result.node);
+    res.json(toPort(result.port));
+  } catch (e: any) {
+    if (e?.code === "23505") return res.status(409).json({ message: "Port name already exists on this device" });
+    throw e;
+  }
+});
+
+// o link continua, só perde a porta
+portRoutes.delete("/ports/:id", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const result = await withTransaction(async (client) => {
+    const before = await lockRow(client, "port", id.data);
+    if (!before) return null;
+    const links = await client.query(
+      `
+      UPDATE links SET from_port_id = NULLIF(from_port_id, $1), to_port_id = NULLIF(to_port_id, $1)
+      WHERE $1 IN (from_port_id, to_port_id)
+      RETURNING *
+      `,
+      [id.data]
+    );
+    await client.query(`DELETE FROM ports WHERE id=$1`, [id.data]);
+    await recordAudit(client, req.user, { entityType: "port", entityId: id.data, action: "delete", before, after: null });
+    const device = (await client.query(`SELECT * FROM devices WHERE id=$1`, [before.device_id])).rows[0];
+    return { node: await deviceNodeWithPorts(client, device), links: links.rows };
+  });
+
+  if (!result) return res.status(404).json({ message: "Port not found" });
+  publish("device.updated", result.node);
+  for (const l of result.links) publish("link.updated", toTopologyEdge(l));
+  res.status(204).send();
+});
@@ -0,0 +1,193 @@
+import net from "node:net";
+import { execFile } from "node:child_process";
+import { z } from "zod";
+import { pool, withTransaction } from "./db.js";
+import { setStatus, type Status } from "./statusEvents.js";
+import { publish } from "./live.js";
+import { toTopologyNode } from "./topology.js";
+
+const probeConfigSchema = z.object({
+  intervalMs: z.number().int().min(1000),
+  timeoutMs: z.number().int().min(50),
+  attempts: z.number().int().min(1).max(20),
+  ports: z.array(z.number().int().min(1).max(65535)),
+  icmp: z.boolean(),
+  warnLatencyMs: z.number().min(0),
+  warnLoss: z.number().min(0).max(1),
+  downLoss: z.number().min(0).max(1),
+  // hosts sondados ao mesmo tempo por tipo (cada um pode abrir um ping e uma transação)
+  concurrency: z.number().int().min(1).max(256),
+});
+
+export type ProbeConfig = z.infer<typeof probeConfigSchema>;
+
+const defaultConfig: ProbeConfig = {
+  intervalMs: 30_000,
+  timeoutMs: 1_500,
+  attempts: 3,
+  ports: [22, 80, 443],
+  icmp: false,
+  warnLatencyMs: 150,
+  warnLoss: 0.34,
+  downLoss: 1,
+  concurrency: 16,
+};
+
+const defaultsByType: Record<string, Partial<ProbeConfig>> = {
+  router: { ports: [22, 23, 443] },
+  switch: { ports: [22, 23, 80] },
+  ap: { ports: [80, 443], warnLatencyMs: 250 },
+  server: { ports: [22, 80, 443, 3389] },
+};
+
+/**
+ * Lê PROBE_CONFIG do .env (JSON), ex:
+ * {"default": {"intervalMs": 60000}, "router": {"ports": [22], "icmp": true}}
+ */
+export function loadProbeConfig(raw = process.env.PROBE_CONFIG): Record<string, ProbeConfig> & { default: ProbeConfig } {
+  const overrides = raw
+    ? z.record(z.string(), probeConfigSchema.partial()).parse(JSON.parse(raw))
+    : {};
+
+  const base = { ...defaultConfig, ...(overrides.default ?? {}) };
+  const out: Record<string, ProbeConfig> & { default: ProbeConfig } = { default: base };
+
+  const types = new Set([...Object.keys(defaultsByType), ...Object.keys(overrides)]);
+  for (const t of types) {
+    if (t === "default") continue;
+    out[t] = { ...base, ...(defaultsByType[t] ?? {}), ...(overrides[t] ?? {}) };
+  }
+  return out;
+}
+
+export type ProbeResult = { status: Status; latencyMs: number | null; loss: number };
+
+/**
+ * Conexão TCP. Uma recusa (RST) também prova que o host respondeu,
+ * então conta como sucesso; só timeout/unreachable conta como perda.
+ */
+export function tcpPing(host: string, port: number, timeoutMs: number): Promise<number | null> {
+  return new Promise((resolve) => {
+    const started = performance.now();
+    const socket = net.connect({ host, port });
+
+    const done = (ok: boolean) => {
+      socket.removeAllListeners();
+      socket.destroy();
+      resolve(ok ? performance.now() - started : null);
+    };
+
+    socket.setTimeout(timeoutMs, () => done(false));
+    socket.once("connect", () => done(true));
+    socket.once("error", (err: NodeJS.ErrnoException) => done(err.code === "ECONNREFUSED"));
+  });
+}
+
+export function icmpPing(host: string, timeoutMs: number): Promise<number | null> {
+  const seconds = String(Math.max(1, Math.ceil(timeoutMs / 1000)));
+  return new Promise((resolve) => {
+    execFile("ping", ["-n", "-c", "1", "-W", seconds, host], { timeout: timeoutMs + 1000 }, (err, stdout) => {
+      if (err) return resolve(null);
+      const m = /time[=<]([\d.]+)\s*ms/.exec(stdout);
+      resolve(m ? Number(m[1]) : 0);
+    });
+  });
+}
+
+export function classify(samples: (number | null)[], cfg: ProbeConfig): ProbeResult {
+  const ok = samples.filter((s): s is number => s !== null);
+  const loss = samples.length ? 1 - ok.length / samples.length : 1;
+  const latencyMs = ok.length ? ok.reduce((a, b) => a + b, 0) / ok.length : null;
+
+  let status: Status = "up";
+  if (loss >= cfg.downLoss) status = "down";
+  else if (loss >= cfg.warnLoss || (latencyMs !== null && latencyMs > cfg.warnLatencyMs)) status = "warn";
+
+  return { status, latencyMs, loss };
+}
+
+/**
+ * Cada tentativa tenta ICMP (se habilitado) e as portas configuradas;
+ * a primeira resposta vale como amostra da tentativa.
+ */
+export async function probeHost(host: string, cfg: ProbeConfig): Promise<ProbeResult> {
+  const samples: (number | null)[] = [];
+
+  for (let i = 0; i < cfg.attempts; i++) {
+    const checks: Promise<number | null>[] = cfg.ports.map((p) => tcpPing(host, p, cfg.timeoutMs));
+    if (cfg.icmp) checks.push(icmpPing(host, cfg.timeoutMs));
+
+    const results = await Promise.all(checks);
+    const ok = results.filter((r): r is number => r !== null);
+    samples.push(ok.length ? Math.min(...ok) : null);
+  }
+
+  return classify(samples, cfg);
+}
+
+/** Roda fn em cada item com no máximo `limit` em paralelo. */
+async function forEachLimit<T>(items: T[], limit: number, fn: (item: T) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+async function probeType(type: string, cfg: ProbeConfig, knownTypes: string[]) {
+  // "default" cobre todos os tipos sem config própria
+  const r = type === "default"
+    ? await pool.query(
+        `SELECT id, ip FROM devices WHERE ip IS NOT NULL AND ip <> '' AND NOT (type = ANY($1::text[]))`,
+        [knownTypes]
+      )
+    : await pool.query(
+        `SELECT id, ip FROM devices WHERE ip IS NOT NULL AND ip <> '' AND type = $1`,
+        [type]
+      );
+
+  await forEachLimit(r.rows as { id: string; ip: string }[], cfg.concurrency, async (d) => {
+    const res = await probeHost(d.ip.trim(), cfg);
+    const changed = await withTransaction(async (client) => {
+      await client.query(
+        `UPDATE devices SET probe_latency_ms=$2, probe_loss=$3, probed_at=now() WHERE id=$1`,
+        [d.id, res.latencyMs, res.loss]
+      );
+      return setStatus(client, "device", d.id, res.status, "probe");
+    });
+
+    // só transições vão para o canal ao vivo; latência nova chega no próximo fetch
+    if (changed && changed.previousStatus !== res.status) {
+      publish("device.updated", toTopologyNode(changed.row));
+    }
+  });
+}
+
+/**
+ * Inicia um loop por tipo de equipamento. Retorna uma função que para tudo.
+ */
+export function startProber(config = loadProbeConfig()) {
+  const timers: NodeJS.Timeout[] = [];
+  const knownTypes = Object.keys(config).filter((t) => t !== "default");
+
+  for (const [type, cfg] of Object.entries(config)) {
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await probeType(type, cfg, knownTypes);
+      } catch (err) {
+        console.error(`Probe (${type}) failed:`, err);
+      } finally {
+        running = false;
+      }
+    };
+
+    timers.push(setInterval(tick, cfg.intervalMs));
+    void tick();
+  }
+
+  return () => timers.forEach((t) => clearInterval(t));
+}
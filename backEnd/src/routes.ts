@@ -1,12 +1,40 @@
 import { Router } from "express";
 import { z } from "zod";
-import { pool } from "./db.js";
+import { defaultMapId, pool, withTransaction, type Db } from "./db.js";
+import { fetchHistory, recordStatusEvent, setStatus } from "./statusEvents.js";
+import { deviceNodeWithPorts, loadTopology, toGroupNode, toTopologyEdge, toTopologyNode } from "./topology.js";
+import { liveHandler, publish } from "./live.js";
+import { mapRoutes } from "./maps.js";
+import { groupRoutes } from "./groups.js";
+import { authenticate, authRoutes, requireAdminUnless, requireRole, webhookAuth } from "./auth.js";
+import { userRoutes } from "./users.js";
+import { auditRoutes, lockRow, recordAudit } from "./audit.js";
+import { snapshotRoutes } from "./snapshots.js";
+import { transferRoutes } from "./transfer.js";
+import { diagramRoutes } from "./diagrams.js";
+import { bulkImportRoutes } from "./bulkImport.js";
+import { neighborRoutes } from "./neighbors.js";
+import { discoveryRoutes } from "./discovery.js";
+import { findIpConflict, ipamRoutes, ipConflictBody, linkDeviceSubnet } from "./ipam.js";
+import { deviceTypeRoutes, unknownDeviceTypes, unknownTypesMessage } from "./deviceTypes.js";
+import { pickInventory, writeInventory } from "./inventory.js";
+import { attachHandlePorts, portLinkError, portRoutes, syncPorts } from "./ports.js";
+import { utilizationRoutes } from "./utilization.js";
+import { vlanRoutes } from "./vlans.js";
+import { pathRoutes } from "./paths.js";
+import { impactRoutes } from "./impact.js";
+import { effectiveStatusRoutes } from "./effectiveStatus.js";
+import { alertRoutes } from "./alerts.js";
 import {
   deviceCreateSchema,
   deviceUpdateSchema,
   devicePositionSchema,
   linkCreateSchema,
   linkUpdateSchema,
+  historyQuerySchema,
+  positionsBatchSchema,
+  restoreSchema,
+  statusWebhookSchema,
 } from "./validators.js";
 
 export const routes = Router();
@@ -16,43 +44,69 @@ routes.get("/health", async (_req, res) => {
   res.json({ ok: true, db: r.rows[0]?.ok === 1 });
 });
 
+routes.use(authRoutes);
+
+// -------- Webhooks --------
+
+/**
+ * Integração externa (Zabbix, scripts, etc.) informa status de um item.
+ * Fica registrado no histórico com source "webhook".
+ */
+routes.post("/webhooks/status", webhookAuth, requireRole("operator"), async (req, res) => {
+  const parsed = statusWebhookSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { entityType, id, status } = parsed.data;
+  const changed = await withTransaction(async (client) => {
+    const before = await lockRow(client, entityType, id);
+    const result = await setStatus(client, entityType, id, status, "webhook");
+    if (result) await recordAudit(client, req.user, { entityType, entityId: id, action: "update", before, after: result.row });
+    return result;
+  });
+
+  if (!changed) return res.status(404).json({ message: "Not found" });
+  if (changed.previousStatus !== status) {
+    if (entityType === "device") publish("device.updated", toTopologyNode(changed.row));
+    else publish("link.updated", toTopologyEdge(changed.row));
+  }
+  res.json(changed.row);
+});
+
+routes.use(utilizationRoutes);
+
+// Daqui para baixo tudo exige login; leitura vale para qualquer papel (viewer+).
+routes.use(authenticate);
+routes.use(userRoutes);
+routes.use(auditRoutes);
+routes.use(snapshotRoutes);
+routes.use(transferRoutes);
+routes.use(diagramRoutes);
+routes.use(bulkImportRoutes);
+routes.use(neighborRoutes);
+routes.use(discoveryRoutes);
+routes.use(ipamRoutes);
+routes.use(deviceTypeRoutes);
+routes.use(portRoutes);
+routes.use(vlanRoutes);
+routes.use(pathRoutes);
+routes.use(impactRoutes);
+routes.use(effectiveStatusRoutes);
+routes.use(alertRoutes);
+
 /**
  * Topology pronto pro React Flow:
  * { nodes: [{id,type,position,data}], edges: [{id,source,target,label,data,...}] }
  */
 routes.get("/topology", async (_req, res) => {
-  const devices = await pool.query(`
-    SELECT id, name, type, ip, status, x, y
-    FROM devices
-    ORDER BY created_at ASC
-  `);
-
-  const links = await pool.query(`
-    SELECT id, from_id, to_id, status, label, from_handle, to_handle
-    FROM links
-    ORDER BY created_at ASC
-  `);
-
-  const nodes = devices.rows.map((d) => ({
-    id: d.id,
-    type: "device",
-    position: { x: Number(d.x), y: Number(d.y) },
-    data: { name: d.name, type: d.type, ip: d.ip ?? undefined, status: d.status },
-  }));
-
-  const edges = links.rows.map((l) => ({
-    id: l.id,
-    source: l.from_id,
-    target: l.to_id,
-    label: l.label ?? undefined,
-    data: { status: l.status },
-    sourceHandle: l.from_handle ?? undefined,
-    targetHandle: l.to_handle ?? undefined,
-  }));
-
-  res.json({ nodes, edges });
+  res.json(await loadTopology());
 });
 
+// Atualizações ao vivo (SSE) para todos os navegadores abertos
+routes.get("/events", liveHandler);
+
+routes.use(mapRoutes);
+routes.use(groupRoutes);
+
 // -------- Devices --------
 
 routes.get("/devices", async (_req, res) => {
@@ -69,32 +123,61 @@ routes.get("/devices/:id", async (req, res) => {
   res.json(r.rows[0]);
 });
 
-routes.post("/devices", async (req, res) => {
+routes.post("/devices", requireRole("admin"), async (req, res) => {
   const parsed = deviceCreateSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error.flatten());
 
-  const { name, type, ip, status, x, y } = parsed.data;
+  const { name, type, ip, status, x, y, mapId } = parsed.data;
 
-  const r = await pool.query(
-    `
-    INSERT INTO devices (name, type, ip, status, x, y)
-    VALUES (
-      $1,
-      $2::device_type,
-      $3,
-      COALESCE($4::device_status, 'up'::device_status),
-      COALESCE($5::double precision, 0::double precision),
-      COALESCE($6::double precision, 0::double precision)
-    )
-    RETURNING *
-    `,
-    [name, type, ip ?? null, status ?? null, x ?? null, y ?? null]
-  );
+  const unknown = await unknownDeviceTypes(pool, [type]);
+  if (unknown.length) return res.status(400).json({ message: unknownTypesMessage(unknown) });
 
-  res.status(201).json(r.rows[0]);
+  if (mapId) {
+    const m = await pool.query(`SELECT 1 FROM maps WHERE id=$1`, [mapId]);
+    if (!m.rows[0]) return res.status(400).json({ message: "mapId invalid (map not found)" });
+  }
+
+  const created = await withTransaction(async (client) => {
+    const targetMapId = mapId ?? (await defaultMapId(client));
+    const conflict = ip ? await findIpConflict(client, targetMapId, ip) : null;
+    if (conflict) return { conflict };
+
+    const r = await client.query(
+      `
+      INSERT INTO devices (name, type, ip, status, x, y, map_id)
+      VALUES (
+        $1,
+        $2,
+        $3,
+        COALESCE($4::device_status, 'up'::device_status),
+        COALESCE($5::double precision, 0::double precision),
+        COALESCE($6::double precision, 0::double precision),
+        $7
+      )
+      RETURNING *
+      `,
+      [name, type, ip ?? null, status ?? null, x ?? null, y ?? null, targetMapId]
+    );
+
+    const withInventory = (await writeInventory(client, r.rows[0].id, pickInventory(parsed.data))) ?? r.rows[0];
+    const row = await linkDeviceSubnet(client, withInventory);
+    await recordStatusEvent(client, {
+      entityType: "device",
+      entityId: row.id,
+      previousStatus: null,
+      status: row.status,
+      source: "manual",
+    });
+    await recordAudit(client, req.user, { entityType: "device", entityId: row.id, action: "create", before: null, after: row });
+    return { device: row };
+  });
+
+  if (created.conflict) return res.status(409).json(ipConflictBody(created.conflict));
+  publish("device.created", toTopologyNode(created.device));
+  res.status(201).json(created.device);
 });
 
-routes.patch("/devices/:id", async (req, res) => {
+routes.patch("/devices/:id", requireAdminUnless(["status", "x", "y"]), async (req, res) => {
   const id = z.string().uuid().safeParse(req.params.id);
   if (!id.success) return res.status(400).json({ message: "Invalid id" });
 
@@ -102,31 +185,98 @@ routes.patch("/devices/:id", async (req, res) => {
   if (!parsed.success) return res.status(400).json(parsed.error.flatten());
 
   const fields = parsed.data;
+  const inventory = pickInventory(fields);
 
-  // monta update dinâmico
-  const allowed = ["name", "type", "ip", "status", "x", "y"] as const;
-  const entries = Object.entries(fields).filter(([k]) => (allowed as readonly string[]).includes(k));
-  if (entries.length === 0) return res.status(400).json({ message: "No fields to update" });
+  // monta update dinâmico (inventário vai à parte, por writeInventory)
+  const allowed = ["name", "type", "ip", "status", "x", "y", "group_id", "is_root"] as const;
+  const mapKey = (k: string) => ({ groupId: "group_id", isRoot: "is_root" })[k] ?? k;
+  const entries = Object.entries(fields).map(([k, v]) => [mapKey(k), v] as const)
+    .filter(([k]) => (allowed as readonly string[]).includes(k));
+  if (entries.length === 0 && Object.keys(inventory).length === 0) return res.status(400).json({ message: "No fields to update" });
+
+  if (fields.type) {
+    const unknown = await unknownDeviceTypes(pool, [fields.type]);
+    if (unknown.length) return res.status(400).json({ message: unknownTypesMessage(unknown) });
+  }
+
+  if (fields.groupId) {
+    const g = await pool.query(
+      `SELECT 1 FROM groups g JOIN devices d ON d.map_id = g.map_id WHERE g.id=$1 AND d.id=$2`,
+      [fields.groupId, id.data]
+    );
+    if (!g.rows[0]) return res.status(400).json({ message: "groupId invalid (group not found on this map)" });
+  }
 
   const setParts: string[] = [];
   const values: any[] = [id.data];
   let idx = 2;
 
+  // status passa por setStatus para entrar no histórico
   for (const [k, v] of entries) {
-    const cast = k === "status" ? "::device_status" : k === "type" ? "::device_type" : "";
-    setParts.push(`${k}=$${idx}${cast}`);
+    if (k === "status") continue;
+    setParts.push(`${k}=$${idx}`);
     values.push(v ?? null);
     idx++;
   }
 
-  const sql = `UPDATE devices SET ${setParts.join(", ")} WHERE id=$1 RETURNING *`;
-  const r = await pool.query(sql, values);
+  const device = await withTransaction(async (client) => {
+    const before = await lockRow(client, "device", id.data);
+    if (!before) return null;
 
-  if (!r.rows[0]) return res.status(404).json({ message: "Device not found" });
-  res.json(r.rows[0]);
+    if (fields.ip) {
+      const conflict = await findIpConflict(client, String(before.map_id), fields.ip, id.data);
+      if (conflict) return { conflict };
+    }
+
+    let row = null;
+    if (setParts.length > 0) {
+      const sql = `UPDATE devices SET ${setParts.join(", ")} WHERE id=$1 RETURNING *`;
+      const r = await client.query(sql, values);
+      row = r.rows[0] ?? null;
+      if (!row) return null;
+    }
+    if (fields.groupId && fields.x === undefined && fields.y === undefined) {
+      // entrou num grupo: traz para dentro da caixa se estiver fora
+      const r = await client.query(
+        `
+        UPDATE devices d
+        SET x = LEAST(GREATEST(d.x, g.x + 20), g.x + GREATEST(g.width - 240, 20)),
+            y = LEAST(GREATEST(d.y, g.y + 40), g.y + GREATEST(g.height - 90, 40))
+        FROM groups g
+        WHERE d.id=$1 AND g.id = d.group_id
+        RETURNING d.*
+        `,
+        [id.data]
+      );
+      row = r.rows[0] ?? row;
+    }
+    if (fields.status !== undefined) {
+      const changed = await setStatus(client, "device", id.data, fields.status, "manual");
+      row = changed?.row ?? null;
+    }
+    row = (await writeInventory(client, id.data, inventory)) ?? row;
+    if (row && fields.ip !== undefined) row = await linkDeviceSubnet(client, row);
+    if (row) await recordAudit(client, req.user, { entityType: "device", entityId: id.data, action: "update", before, after: row });
+    return row;
+  });
+
+  if (!device) return res.status(404).json({ message: "Device not found" });
+  if ("conflict" in device) return res.status(409).json(ipConflictBody(device.conflict));
+  publish("device.updated", toTopologyNode(device));
+  res.json(device);
+});
+
+routes.get("/devices/:id/history", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = historyQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  res.json(await fetchHistory(pool, "device", id.data, parsed.data));
 });
 
-routes.patch("/devices/:id/position", async (req, res) => {
+routes.patch("/devices/:id/position", requireRole("operator"), async (req, res) => {
   const id = z.string().uuid().safeParse(req.params.id);
   if (!id.success) return res.status(400).json({ message: "Invalid id" });
 
@@ -135,21 +285,83 @@ routes.patch("/devices/:id/position", async (req, res) => {
 
   const { x, y } = parsed.data;
 
-  const r = await pool.query(
-    `UPDATE devices SET x=$2, y=$3 WHERE id=$1 RETURNING *`,
-    [id.data, x, y]
-  );
+  const device = await withTransaction(async (client) => {
+    const before = await lockRow(client, "device", id.data);
+    if (!before) return null;
 
-  if (!r.rows[0]) return res.status(404).json({ message: "Device not found" });
-  res.json(r.rows[0]);
+    const r = await client.query(`UPDATE devices SET x=$2, y=$3 WHERE id=$1 RETURNING *`, [id.data, x, y]);
+    await recordAudit(client, req.user, { entityType: "device", entityId: id.data, action: "position", before, after: r.rows[0] });
+    return r.rows[0];
+  });
+
+  if (!device) return res.status(404).json({ message: "Device not found" });
+  publish("device.position", { id: id.data, position: { x, y } });
+  res.json(device);
 });
 
-routes.delete("/devices/:id", async (req, res) => {
+/**
+ * Salva várias posições absolutas de uma vez (arrastar grupo, auto layout).
+ */
+routes.patch("/positions", requireRole("operator"), async (req, res) => {
+  const parsed = positionsBatchSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { devices, groups } = parsed.data;
+
+  const updatedGroups = await withTransaction(async (client) => {
+    for (const d of devices) {
+      const before = await lockRow(client, "device", d.id);
+      if (!before) continue;
+      const r = await client.query(`UPDATE devices SET x=$2, y=$3 WHERE id=$1 RETURNING *`, [d.id, d.x, d.y]);
+      await recordAudit(client, req.user, { entityType: "device", entityId: d.id, action: "position", before, after: r.rows[0] });
+    }
+    const rows = [];
+    for (const g of groups) {
+      const before = await lockRow(client, "group", g.id);
+      if (!before) continue;
+      const r = await client.query(
+        `
+        UPDATE groups
+        SET x=$2, y=$3, width=COALESCE($4, width), height=COALESCE($5, height)
+        WHERE id=$1
+        RETURNING *
+        `,
+        [g.id, g.x, g.y, g.width ?? null, g.height ?? null]
+      );
+      await recordAudit(client, req.user, { entityType: "group", entityId: g.id, action: "position", before, after: r.rows[0] });
+      rows.push(r.rows[0]);
+    }
+    return rows;
+  });
+
+  // grupos antes: o cliente relativiza a posição do membro pela do pai
+  updatedGroups.forEach((g) => publish("group.updated", toGroupNode(g)));
+  devices.forEach((d) => publish("device.position", { id: d.id, position: { x: d.x, y: d.y } }));
+  res.status(204).send();
+});
+
+routes.delete("/devices/:id", requireRole("admin"), async (req, res) => {
   const id = z.string().uuid().safeParse(req.params.id);
   if (!id.success) return res.status(400).json({ message: "Invalid id" });
 
-  const r = await pool.query(`DELETE FROM devices WHERE id=$1 RETURNING id`, [id.data]);
-  if (!r.rows[0]) return res.status(404).json({ message: "Device not found" });
+  const deleted = await withTransaction(async (client) => {
+    const before = await lockRow(client, "device", id.data);
+    if (!before) return false;
+
+    // os links cairiam pelo CASCADE sem deixar rastro: registra cada um
+    const links = await client.query(`DELETE FROM links WHERE from_id=$1 OR to_id=$1 RETURNING *`, [id.data]);
+    for (const l of links.rows) {
+      await recordAudit(client, req.user, { entityType: "link", entityId: l.id, action: "delete", before: l, after: null });
+    }
+
+    await client.query(`DELETE FROM devices WHERE id=$1`, [id.data]);
+    await recordAudit(client, req.user, { entityType: "device", entityId: id.data, action: "delete", before, after: null });
+    return true;
+  });
+  if (!deleted) return res.status(404).json({ message: "Device not found" });
+
+  // o cliente remove as arestas do equipamento junto
+  publish("device.deleted", { id: id.data });
 
   res.status(204).send();
 });
@@ -161,24 +373,63 @@ routes.get("/links", async (_req, res) => {
   res.json(r.rows);
 });
 
-routes.post("/links", async (req, res) => {
+/**
+ * As duas pontas no mesmo mapa. FOR SHARE segura as linhas até o fim da
+ * transação: uma troca de mapa concorrente espera o INSERT do link.
+ */
+async function assertSameMap(db: Db, fromId: string, toId: string) {
+  const ends = await db.query(`SELECT map_id FROM devices WHERE id = ANY($1::uuid[]) FOR SHARE`, [[fromId, toId]]);
+  if (new Set(ends.rows.map((r) => r.map_id)).size > 1) {
+    throw Object.assign(new Error("cross-map link"), { code: "CROSS_MAP" });
+  }
+}
+
+routes.post("/links", requireRole("admin"), async (req, res) => {
   const parsed = linkCreateSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error.flatten());
 
-  const { fromId, toId, status, label, fromHandle, toHandle } = parsed.data;
+  const { fromId, toId, status, label, fromHandle, toHandle, fromPortId, toPortId, capacityMbps, medium } = parsed.data;
 
   try {
-    const r = await pool.query(
-      `
-      INSERT INTO links (from_id, to_id, status, label, from_handle, to_handle)
-      VALUES ($1, $2, COALESCE($3::link_status, 'up'::link_status), $4, $5, $6)
-      RETURNING *
-      `,
-      [fromId, toId, status ?? null, label ?? null, fromHandle ?? null, toHandle ?? null]
-    );
-
-    res.status(201).json(r.rows[0]);
+    const link = await withTransaction(async (client) => {
+      await assertSameMap(client, fromId, toId);
+      const r = await client.query(
+        `
+        INSERT INTO links (from_id, to_id, status, label, from_handle, to_handle, from_port_id, to_port_id, capacity_mbps, medium)
+        VALUES ($1, $2, COALESCE($3::link_status, 'up'::link_status), $4, $5, $6, $7, $8, $9, $10)
+        RETURNING *
+        `,
+        [
+          fromId,
+          toId,
+          status ?? null,
+          label ?? null,
+          fromHandle ?? null,
+          toHandle ?? null,
+          fromPortId ?? null,
+          toPortId ?? null,
+          capacityMbps ?? null,
+          medium ?? null,
+        ]
+      );
+
+      const row = await attachHandlePorts(client, r.rows[0]);
+      await recordStatusEvent(client, {
+        entityType: "link",
+        entityId: row.id,
+        previousStatus: null,
+        status: row.status,
+        source: "manual",
+      });
+      await recordAudit(client, req.user, { entityType: "link", entityId: row.id, action: "create", before: null, after: row });
+      return row;
+    });
+
+    publish("link.created", toTopologyEdge(link));
+    res.status(201).json(link);
   } catch (e: any) {
+    const portError = portLinkError(e);
+    if (portError) return res.status(portError.status).json({ message: portError.message });
     // unique violation
     if (e?.code === "23505") {
       return res.status(409).json({ message: "Link already exists" });
@@ -187,11 +438,12 @@ routes.post("/links", async (req, res) => {
     if (e?.code === "23503") {
       return res.status(400).json({ message: "fromId/toId invalid (device not found)" });
     }
+    if (e?.code === "CROSS_MAP") return res.status(400).json({ message: "fromId/toId belong to different maps" });
     throw e;
   }
 });
 
-routes.patch("/links/:id", async (req, res) => {
+routes.patch("/links/:id", requireAdminUnless(["status"]), async (req, res) => {
   const id = z.string().uuid().safeParse(req.params.id);
   if (!id.success) return res.status(400).json({ message: "Invalid id" });
 
@@ -199,12 +451,15 @@ routes.patch("/links/:id", async (req, res) => {
   if (!parsed.success) return res.status(400).json(parsed.error.flatten());
 
   const fields = parsed.data;
-  const allowed = ["status", "label", "from_handle", "to_handle"] as const;
+  const allowed = ["status", "label", "from_handle", "to_handle", "from_port_id", "to_port_id", "capacity_mbps", "medium"] as const;
 
   // map para nomes de coluna
   const mapKey = (k: string) => {
     if (k === "fromHandle") return "from_handle";
     if (k === "toHandle") return "to_handle";
+    if (k === "fromPortId") return "from_port_id";
+    if (k === "toPortId") return "to_port_id";
+    if (k === "capacityMbps") return "capacity_mbps";
     return k;
   };
 
@@ -218,25 +473,165 @@ routes.patch("/links/:id", async (req, res) => {
   let idx = 2;
 
   for (const [k, v] of entries) {
-    const cast = k === "status" ? "::link_status" : "";
-    setParts.push(`${k}=$${idx}${cast}`);
+    if (k === "status") continue;
+    setParts.push(`${k}=$${idx}`);
     values.push(v ?? null);
     idx++;
   }
 
-  const sql = `UPDATE links SET ${setParts.join(", ")} WHERE id=$1 RETURNING *`;
-  const r = await pool.query(sql, values);
+  let link;
+  try {
+    link = await withTransaction(async (client) => {
+      const before = await lockRow(client, "link", id.data);
+      if (!before) return null;
+
+      let row = null;
+      if (setParts.length > 0) {
+        const sql = `UPDATE links SET ${setParts.join(", ")} WHERE id=$1 RETURNING *`;
+        const r = await client.query(sql, values);
+        row = r.rows[0] ?? null;
+        if (!row) return null;
+      }
+      if (fields.status !== undefined) {
+        const changed = await setStatus(client, "link", id.data, fields.status, "manual");
+        row = changed?.row ?? null;
+      }
+      if (row) await recordAudit(client, req.user, { entityType: "link", entityId: id.data, action: "update", before, after: row });
+      return row;
+    });
+  } catch (e: any) {
+    const portError = portLinkError(e);
+    if (portError) return res.status(portError.status).json({ message: portError.message });
+    throw e;
+  }
+
+  if (!link) return res.status(404).json({ message: "Link not found" });
+  publish("link.updated", toTopologyEdge(link));
+  res.json(link);
+});
 
-  if (!r.rows[0]) return res.status(404).json({ message: "Link not found" });
-  res.json(r.rows[0]);
+routes.get("/links/:id/history", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = historyQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  res.json(await fetchHistory(pool, "link", id.data, parsed.data));
 });
 
-routes.delete("/links/:id", async (req, res) => {
+routes.delete("/links/:id", requireRole("admin"), async (req, res) => {
   const id = z.string().uuid().safeParse(req.params.id);
   if (!id.success) return res.status(400).json({ message: "Invalid id" });
 
-  const r = await pool.query(`DELETE FROM links WHERE id=$1 RETURNING id`, [id.data]);
+  const r = await withTransaction(async (client) => {
+    const del = await client.query(`DELETE FROM links WHERE id=$1 RETURNING *`, [id.data]);
+    if (del.rows[0]) {
+      await recordAudit(client, req.user, { entityType: "link", entityId: id.data, action: "delete", before: del.rows[0], after: null });
+    }
+    return del;
+  });
   if (!r.rows[0]) return res.status(404).json({ message: "Link not found" });
+  publish("link.deleted", { id: id.data });
 
   res.status(204).send();
 });
+
+// -------- Restauração (desfazer no canvas) --------
+
+/**
+ * Recria equipamentos e links apagados com os mesmos ids, para o
+ * desfazer/refazer do cliente continuar apontando para as mesmas entidades.
+ */
+routes.post("/restore", requireRole("admin"), async (req, res) => {
+  const parsed = restoreSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { devices, links } = parsed.data;
+
+  // o tipo pode ter sido removido depois da exclusão que está sendo desfeita
+  const unknown = await unknownDeviceTypes(pool, devices.map((d) => d.type));
+  if (unknown.length) return res.status(400).json({ message: unknownTypesMessage(unknown) });
+
+  try {
+    const restored = await withTransaction(async (client) => {
+      const deviceRows = [];
+      for (const d of devices) {
+        // o grupo pode ter sido apagado nesse meio tempo: volta sem grupo
+        const r = await client.query(
+          `
+          INSERT INTO devices (id, name, type, ip, status, x, y, map_id, group_id)
+          VALUES (
+            $1, $2, $3, $4, COALESCE($5::device_status, 'up'::device_status), $6, $7, $8,
+            (SELECT id FROM groups WHERE id = $9::uuid AND map_id = $8)
+          )
+          RETURNING *
+          `,
+          [d.id, d.name, d.type, d.ip ?? null, d.status ?? null, d.x, d.y, d.mapId, d.groupId ?? null]
+        );
+        if (d.ports) await syncPorts(client, d.id, d.ports);
+        const withInventory = (await writeInventory(client, d.id, pickInventory(d))) ?? r.rows[0];
+        const row = await linkDeviceSubnet(client, withInventory);
+        await recordStatusEvent(client, {
+          entityType: "device",
+          entityId: row.id,
+          previousStatus: null,
+          status: row.status,
+          source: "manual",
+        });
+        await recordAudit(client, req.user, { entityType: "device", entityId: row.id, action: "create", before: null, after: row });
+        deviceRows.push(row);
+      }
+
+      const linkRows = [];
+      for (const l of links) {
+        await assertSameMap(client, l.fromId, l.toId);
+
+        const r = await client.query(
+          `
+          INSERT INTO links (id, from_id, to_id, status, label, from_handle, to_handle, from_port_id, to_port_id, capacity_mbps, medium)
+          VALUES ($1, $2, $3, COALESCE($4::link_status, 'up'::link_status), $5, $6, $7, $8, $9, $10, $11)
+          RETURNING *
+          `,
+          [
+            l.id,
+            l.fromId,
+            l.toId,
+            l.status ?? null,
+            l.label ?? null,
+            l.fromHandle ?? null,
+            l.toHandle ?? null,
+            l.fromPortId ?? null,
+            l.toPortId ?? null,
+            l.capacityMbps ?? null,
+            l.medium ?? null,
+          ]
+        );
+        const row = r.rows[0];
+        await recordStatusEvent(client, {
+          entityType: "link",
+          entityId: row.id,
+          previousStatus: null,
+          status: row.status,
+          source: "manual",
+        });
+        await recordAudit(client, req.user, { entityType: "link", entityId: row.id, action: "create", before: null, after: row });
+        linkRows.push(row);
+      }
+
+      return { devices: deviceRows, links: linkRows };
+    });
+
+    // equipamentos antes dos links: o cliente descarta aresta sem as pontas
+    for (const d of restored.devices) publish("device.created", await deviceNodeWithPorts(pool, d));
+    restored.links.forEach((l) => publish("link.created", toTopologyEdge(l)));
+    res.status(201).json(restored);
+  } catch (e: any) {
+    const portError = portLinkError(e);
+    if (portError) return res.status(portError.status).json({ message: portError.message });
+    if (e?.code === "23505") return res.status(409).json({ message: "Device or link already exists" });
+    if (e?.code === "23503") return res.status(400).json({ message: "mapId or link endpoint not found" });
+    if (e?.code === "CROSS_MAP") return res.status(400).json({ message: "fromId/toId belong to different maps" });
+    throw e;
+  }
+});
@@ -3,15 +3,20 @@ import cors from "cors";
 import dotenv from "dotenv";
 import { routes } from "./routes.js";
 import { ensureSchema } from "./db.js";
+import { startProber } from "./probe.js";
+import { startAlerter } from "./alerts.js";
+import { ensureAdminUser } from "./auth.js";
 
 dotenv.config();
 
 const app = express();
-app.use(express.json());
+// import de topologia (JSON/GraphML) passa fácil do limite padrão de 100kb
+app.use(express.json({ limit: "5mb" }));
 
+// com credentials o navegador recusa "*": sem CORS_ORIGIN, vale o dev server do Vite
 app.use(
   cors({
-    origin: process.env.CORS_ORIGIN?.split(",").map((s) => s.trim()) ?? "*",
+    origin: (process.env.CORS_ORIGIN ?? "http://localhost:5173").split(",").map((s) => s.trim()),
     credentials: true,
   })
 );
@@ -27,6 +32,9 @@ const PORT = Number(process.env.PORT ?? 3001);
 
 async function start() {
   await ensureSchema();
+  await ensureAdminUser();
+  if (process.env.PROBE_ENABLED !== "false") startProber();
+  if (process.env.ALERTS_ENABLED !== "false") startAlerter();
   app.listen(PORT, () => console.log(`API on http://localhost:${PORT}`));
 }
 
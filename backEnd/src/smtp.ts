@@ -0,0 +1,93 @@
+import net from "node:net";
+import tls from "node:tls";
+import os from "node:os";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** TLS direto (465); sem STARTTLS */
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+};
+
+const TIMEOUT_MS = 10_000;
+
+// assunto com acento: encoded-word; CR/LF some junto
+const encodeHeader = (v: string) =>
+  /^[\x20-\x7e]*$/.test(v) ? v : `=?UTF-8?B?${Buffer.from(v.replace(/[\r\n]+/g, " ")).toString("base64")}?=`;
+
+function buildMessage(cfg: SmtpConfig, subject: string, text: string) {
+  // corpo em base64: sem linha começando com ponto nem dependência de 8BITMIME
+  const body = Buffer.from(text.replace(/\r?\n/g, "\r\n")).toString("base64").replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${cfg.from}`,
+    `To: ${cfg.to.join(", ")}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+/**
+ * Cliente SMTP mínimo (EHLO, AUTH PLAIN opcional, um envio, QUIT).
+ * Basta para relays internos.
+ */
+export function sendMail(cfg: SmtpConfig, subject: string, text: string): Promise<void> {
+  const steps: [command: string | null, expect: number][] = [
+    [null, 220],
+    [`EHLO ${os.hostname() || "localhost"}`, 250],
+    ...(cfg.username
+      ? [[`AUTH PLAIN ${Buffer.from(`\0${cfg.username}\0${cfg.password ?? ""}`).toString("base64")}`, 235] as [string, number]]
+      : []),
+    [`MAIL FROM:<${cfg.from}>`, 250],
+    ...cfg.to.map((to) => [`RCPT TO:<${to}>`, 250] as [string, number]),
+    ["DATA", 354],
+    [`${buildMessage(cfg, subject, text)}\r\n.`, 250],
+    ["QUIT", 221],
+  ];
+
+  return new Promise((resolve, reject) => {
+    const socket = cfg.secure
+      ? tls.connect({ host: cfg.host, port: cfg.port, servername: cfg.host })
+      : net.connect({ host: cfg.host, port: cfg.port });
+    let step = 0;
+    let pending = "";
+    let settled = false;
+
+    const finish = (err?: Error) => {
+      if (settled) return;
+      settled = true;
+      socket.removeAllListeners("data");
+      socket.destroy();
+      if (err) reject(err);
+      else resolve();
+    };
+
+    socket.setTimeout(TIMEOUT_MS, () => finish(new Error("SMTP timeout")));
+    socket.once("error", (err) => finish(err));
+    socket.once("close", () => finish(new Error("SMTP connection closed")));
+    socket.on("data", (chunk) => {
+      pending += chunk.toString("utf8");
+      let nl: number;
+      while ((nl = pending.indexOf("\n")) >= 0) {
+        const line = pending.slice(0, nl).trimEnd();
+        pending = pending.slice(nl + 1);
+        // resposta multilinha: "250-..." continua, "250 ..." encerra
+        if (!/^\d{3}( |$)/.test(line)) continue;
+        const code = Number(line.slice(0, 3));
+        // mesma classe basta (ex.: 251 no RCPT)
+        if (Math.floor(code / 100) !== Math.floor(steps[step][1] / 100)) return finish(new Error(`SMTP: ${line}`));
+        step++;
+        if (step === steps.length) return finish();
+        socket.write(`${steps[step][0]}\r\n`);
+      }
+    });
+  });
+}
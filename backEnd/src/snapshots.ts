@@ -0,0 +1,498 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool, withTransaction, type Db } from "./db.js";
+import { publish } from "./live.js";
+import { loadTopology } from "./topology.js";
+import { relinkSubnets } from "./ipam.js";
+import { unknownDeviceTypes, unknownTypesMessage } from "./deviceTypes.js";
+import { fullInventory, writeInventory } from "./inventory.js";
+import { syncPorts } from "./ports.js";
+import { requireRole, type AuthUser } from "./auth.js";
+import { lockRow, recordAudit } from "./audit.js";
+import { recordStatusEvent, type Status } from "./statusEvents.js";
+import { snapshotCreateSchema, snapshotDiffQuerySchema } from "./validators.js";
+
+export const snapshotRoutes = Router();
+
+type SnapNode = {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  parentId?: string;
+  style?: { width: number; height: number };
+  data: Record<string, any>;
+};
+
+type SnapEdge = {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  /** snapshots com portas trazem fromPortId/toPortId (null = sem porta) e o nome em fromHandle */
+  data?: {
+    status?: string;
+    fromHandle?: string;
+    toHandle?: string;
+    fromPortId?: string | null;
+    toPortId?: string | null;
+    capacityMbps?: number | null;
+    medium?: string | null;
+    vlans?: { vlanId: string; tagged: boolean }[];
+  };
+  sourceHandle?: string;
+  targetHandle?: string;
+};
+
+type Topology = { nodes: SnapNode[]; edges: SnapEdge[] };
+
+const POSITION_EPSILON = 0.5;
+
+/** O snapshot guarda posições relativas ao grupo (formato do React Flow); aqui voltam a ser absolutas. */
+function absoluteNodes(nodes: SnapNode[]): SnapNode[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const abs = (n: SnapNode): { x: number; y: number } => {
+    const parent = n.parentId ? byId.get(n.parentId) : undefined;
+    if (!parent) return n.position;
+    const p = abs(parent);
+    return { x: p.x + n.position.x, y: p.y + n.position.y };
+  };
+  return nodes.map((n) => {
+    const { parentId: _parentId, ...rest } = n;
+    return { ...rest, position: abs(n) };
+  });
+}
+
+const devicesOf = (t: Topology) => absoluteNodes(t.nodes).filter((n) => n.type === "device" && !n.data.refOf);
+
+// snapshot anterior às VLANs não tem a lista: não conta como mudança (listas já vêm ordenadas)
+const vlansChanged = (a: unknown, b: unknown) => Array.isArray(a) && Array.isArray(b) && JSON.stringify(a) !== JSON.stringify(b);
+
+function deviceChanges(a: SnapNode, b: SnapNode) {
+  const changes: string[] = [];
+  for (const k of ["name", "type", "ip", "status"]) {
+    if ((a.data[k] ?? null) !== (b.data[k] ?? null)) changes.push(k);
+  }
+  if ((a.data.groupId ?? null) !== (b.data.groupId ?? null)) changes.push("group");
+  if (Boolean(a.data.isRoot) !== Boolean(b.data.isRoot)) changes.push("root");
+  if (vlansChanged(a.data.vlanIds, b.data.vlanIds)) changes.push("vlans");
+  if (
+    Math.abs(a.position.x - b.position.x) > POSITION_EPSILON ||
+    Math.abs(a.position.y - b.position.y) > POSITION_EPSILON
+  ) {
+    changes.push("position");
+  }
+  return changes;
+}
+
+function linkChanges(a: SnapEdge, b: SnapEdge) {
+  const changes: string[] = [];
+  if (a.source !== b.source || a.target !== b.target) changes.push("endpoints");
+  if ((a.label ?? null) !== (b.label ?? null)) changes.push("label");
+  if ((a.sourceHandle ?? null) !== (b.sourceHandle ?? null) || (a.targetHandle ?? null) !== (b.targetHandle ?? null)) {
+    changes.push("ports");
+  }
+  if ((a.data?.status ?? "up") !== (b.data?.status ?? "up")) changes.push("status");
+  if ((a.data?.capacityMbps ?? null) !== (b.data?.capacityMbps ?? null)) changes.push("capacity");
+  if ((a.data?.medium ?? null) !== (b.data?.medium ?? null)) changes.push("medium");
+  if (vlansChanged(a.data?.vlans, b.data?.vlans)) changes.push("vlans");
+  return changes;
+}
+
+function diffEntities<T extends { id: string }>(from: T[], to: T[], changesOf: (a: T, b: T) => string[]) {
+  const fromById = new Map(from.map((x) => [x.id, x]));
+  const toIds = new Set(to.map((x) => x.id));
+
+  return {
+    added: to.filter((x) => !fromById.has(x.id)),
+    removed: from.filter((x) => !toIds.has(x.id)),
+    modified: to.flatMap((after) => {
+      const before = fromById.get(after.id);
+      if (!before) return [];
+      const changes = changesOf(before, after);
+      return changes.length ? [{ id: after.id, changes, before, after }] : [];
+    }),
+  };
+}
+
+/** Diferença de `from` para `to`: "added" existe só em `to`. Posições absolutas. */
+function diffTopologies(from: Topology, to: Topology) {
+  return {
+    devices: diffEntities(devicesOf(from), devicesOf(to), deviceChanges),
+    links: diffEntities(from.edges, to.edges, linkChanges),
+  };
+}
+
+const listColumns = `
+  id, name, map_id, created_by, created_at,
+  jsonb_array_length(topology->'nodes') AS node_count,
+  jsonb_array_length(topology->'edges') AS edge_count
+`;
+
+snapshotRoutes.get("/snapshots", async (req, res) => {
+  const mapId = z.string().uuid().optional().safeParse(req.query.mapId);
+  if (!mapId.success) return res.status(400).json({ message: "Invalid mapId" });
+
+  const r = await pool.query(
+    `SELECT ${listColumns} FROM snapshots WHERE ($1::uuid IS NULL OR map_id=$1) ORDER BY created_at DESC`,
+    [mapId.data ?? null]
+  );
+  res.json(r.rows);
+});
+
+snapshotRoutes.get("/snapshots/:id", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const r = await pool.query(`SELECT * FROM snapshots WHERE id=$1`, [id.data]);
+  if (!r.rows[0]) return res.status(404).json({ message: "Snapshot not found" });
+  res.json(r.rows[0]);
+});
+
+snapshotRoutes.post("/snapshots", requireRole("operator"), async (req, res) => {
+  const parsed = snapshotCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { name, mapId } = parsed.data;
+
+  if (mapId) {
+    const m = await pool.query(`SELECT 1 FROM maps WHERE id=$1`, [mapId]);
+    if (!m.rows[0]) return res.status(400).json({ message: "mapId invalid (map not found)" });
+  }
+
+  const topology = await loadTopology(mapId);
+  const r = await pool.query(
+    `INSERT INTO snapshots (name, map_id, topology, created_by) VALUES ($1, $2, $3, $4) RETURNING ${listColumns}`,
+    [name, mapId ?? null, JSON.stringify(topology), req.user?.username ?? null]
+  );
+  res.status(201).json(r.rows[0]);
+});
+
+snapshotRoutes.delete("/snapshots/:id", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const r = await pool.query(`DELETE FROM snapshots WHERE id=$1 RETURNING id`, [id.data]);
+  if (!r.rows[0]) return res.status(404).json({ message: "Snapshot not found" });
+  res.status(204).send();
+});
+
+/**
+ * Compara o snapshot com outro (?against=) ou com o estado atual
+ * do mesmo escopo (mapa do snapshot, ou tudo).
+ */
+snapshotRoutes.get("/snapshots/:id/diff", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = snapshotDiffQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const from = await pool.query(`SELECT id, name, map_id, created_at, topology FROM snapshots WHERE id=$1`, [id.data]);
+  if (!from.rows[0]) return res.status(404).json({ message: "Snapshot not found" });
+
+  let to: { id: string | null; name: string; created_at: string | null; topology: Topology };
+  if (parsed.data.against) {
+    const r = await pool.query(`SELECT id, name, created_at, topology FROM snapshots WHERE id=$1`, [parsed.data.against]);
+    if (!r.rows[0]) return res.status(404).json({ message: "Snapshot not found" });
+    to = r.rows[0];
+  } else {
+    const current = await loadTopology(from.rows[0].map_id ?? undefined);
+    to = { id: null, name: "current", created_at: null, topology: current as Topology };
+  }
+
+  const { topology: fromTopology, ...fromInfo } = from.rows[0];
+  const { topology: toTopology, ...toInfo } = to;
+  res.json({ from: fromInfo, to: toInfo, ...diffTopologies(fromTopology, toTopology) });
+});
+
+/**
+ * Participação em VLANs como no snapshot, auditada como no PUT de vlans.ts.
+ * As VLANs em si não entram no snapshot: uma apagada depois não volta, e
+ * snapshot anterior às VLANs (sem vlanIds/vlans) mantém a participação atual.
+ */
+async function restoreVlanMembership(db: Db, user: AuthUser | undefined, devices: SnapNode[], links: SnapEdge[]) {
+  const mapOf = new Map(devices.map((d) => [d.id, String(d.data.mapId)]));
+
+  for (const d of devices) {
+    if (!Array.isArray(d.data.vlanIds)) continue;
+    const before = await db.query(`SELECT vlan_id FROM device_vlans WHERE device_id=$1 ORDER BY vlan_id`, [d.id]);
+    await db.query(`DELETE FROM device_vlans WHERE device_id=$1`, [d.id]);
+    const after = await db.query(
+      `
+      INSERT INTO device_vlans (device_id, vlan_id)
+      SELECT $1, v.id FROM vlans v WHERE v.id = ANY($2::uuid[]) AND v.map_id = $3
+      RETURNING vlan_id
+      `,
+      [d.id, d.data.vlanIds, d.data.mapId]
+    );
+    await recordAudit(db, user, {
+      entityType: "device",
+      entityId: d.id,
+      action: "update",
+      before: { vlans: before.rows.map((r) => r.vlan_id) },
+      after: { vlans: after.rows.map((r) => r.vlan_id).sort() },
+    });
+  }
+
+  for (const l of links) {
+    const vlans = l.data?.vlans;
+    if (!Array.isArray(vlans)) continue;
+    const before = await db.query(
+      `SELECT vlan_id AS "vlanId", tagged FROM link_vlans WHERE link_id=$1 ORDER BY vlan_id`,
+      [l.id]
+    );
+    await db.query(`DELETE FROM link_vlans WHERE link_id=$1`, [l.id]);
+    const after = await db.query(
+      `
+      INSERT INTO link_vlans (link_id, vlan_id, tagged)
+      SELECT $1, v.id, m.tagged
+      FROM unnest($2::uuid[], $3::boolean[]) AS m(vlan_id, tagged)
+      JOIN vlans v ON v.id = m.vlan_id AND v.map_id = $4
+      RETURNING vlan_id AS "vlanId", tagged
+      `,
+      [l.id, vlans.map((v) => v.vlanId), vlans.map((v) => v.tagged), mapOf.get(l.source)]
+    );
+    await recordAudit(db, user, {
+      entityType: "link",
+      entityId: l.id,
+      action: "update",
+      before: { vlans: before.rows },
+      after: { vlans: after.rows.sort((a, b) => (a.vlanId < b.vlanId ? -1 : 1)) },
+    });
+  }
+}
+
+/**
+ * Volta o escopo do snapshot ao estado salvo: apaga o que surgiu depois,
+ * recria o que foi apagado (mesmos ids) e desfaz alterações. Tudo auditado
+ * e numa transação só.
+ */
+snapshotRoutes.post("/snapshots/:id/restore", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const s = await pool.query(`SELECT map_id, topology FROM snapshots WHERE id=$1`, [id.data]);
+  if (!s.rows[0]) return res.status(404).json({ message: "Snapshot not found" });
+
+  const mapId: string | null = s.rows[0].map_id;
+  const topology: Topology = s.rows[0].topology;
+  const nodes = absoluteNodes(topology.nodes);
+
+  // tipo removido depois do snapshot: recusa em vez de restaurar pela metade
+  const unknown = await unknownDeviceTypes(
+    pool,
+    nodes.filter((n) => n.type === "device" && !n.data.refOf).map((n) => String(n.data.type))
+  );
+  if (unknown.length) return res.status(409).json({ message: `${unknownTypesMessage(unknown)} (recreate them to restore)` });
+
+  await withTransaction(async (client) => {
+    // mapa apagado depois do snapshot: o que era dele não volta
+    const maps = new Set((await client.query(`SELECT id FROM maps`)).rows.map((m) => m.id));
+    const groups = nodes.filter((n) => n.type === "deviceGroup" && maps.has(n.data.mapId));
+    const devices = nodes.filter((n) => n.type === "device" && !n.data.refOf && maps.has(n.data.mapId));
+    const refs = nodes.filter((n) => n.type === "device" && n.data.refOf);
+    const deviceIds = new Set(devices.map((d) => d.id));
+    const links = topology.edges.filter((l) => deviceIds.has(l.source) && deviceIds.has(l.target));
+
+    // 1. remove o que não existia (links primeiro, para auditar cada um)
+    const goneLinks = await client.query(
+      `
+      DELETE FROM links l USING devices d
+      WHERE d.id = l.from_id AND ($1::uuid IS NULL OR d.map_id = $1) AND NOT (l.id = ANY($2::uuid[]))
+      RETURNING l.*
+      `,
+      [mapId, links.map((l) => l.id)]
+    );
+    for (const l of goneLinks.rows) {
+      await recordAudit(client, req.user, { entityType: "link", entityId: l.id, action: "delete", before: l, after: null });
+    }
+
+    const goneDevices = await client.query(
+      `DELETE FROM devices WHERE ($1::uuid IS NULL OR map_id = $1) AND NOT (id = ANY($2::uuid[])) RETURNING *`,
+      [mapId, [...deviceIds]]
+    );
+    for (const d of goneDevices.rows) {
+      await recordAudit(client, req.user, { entityType: "device", entityId: d.id, action: "delete", before: d, after: null });
+    }
+
+    const goneGroups = await client.query(
+      `DELETE FROM groups WHERE ($1::uuid IS NULL OR map_id = $1) AND NOT (id = ANY($2::uuid[])) RETURNING *`,
+      [mapId, groups.map((g) => g.id)]
+    );
+    for (const g of goneGroups.rows) {
+      await recordAudit(client, req.user, { entityType: "group", entityId: g.id, action: "delete", before: g, after: null });
+    }
+
+    // 2. grupos (o snapshot já vem com pais antes dos filhos), equipamentos, links
+    for (const g of groups) {
+      const before = await lockRow(client, "group", g.id);
+      const r = await client.query(
+        `
+        INSERT INTO groups (id, map_id, parent_id, name, kind, x, y, width, height, collapsed)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (id) DO UPDATE SET
+          map_id = EXCLUDED.map_id, parent_id = EXCLUDED.parent_id, name = EXCLUDED.name, kind = EXCLUDED.kind,
+          x = EXCLUDED.x, y = EXCLUDED.y, width = EXCLUDED.width, height = EXCLUDED.height, collapsed = EXCLUDED.collapsed
+        RETURNING *
+        `,
+        [
+          g.id,
+          g.data.mapId,
+          g.data.groupId ?? null,
+          g.data.name,
+          g.data.kind,
+          g.position.x,
+          g.position.y,
+          g.style?.width ?? 400,
+          g.style?.height ?? 260,
+          g.data.collapsed ?? false,
+        ]
+      );
+      await recordAudit(client, req.user, {
+        entityType: "group",
+        entityId: g.id,
+        action: before ? "update" : "create",
+        before,
+        after: r.rows[0],
+      });
+    }
+
+    for (const d of devices) {
+      const before = await lockRow(client, "device", d.id);
+      const r = await client.query(
+        `
+        INSERT INTO devices (id, name, type, ip, status, x, y, map_id, group_id, is_root)
+        VALUES ($1, $2, $3, $4, $5::device_status, $6, $7, $8, $9, COALESCE($10::boolean, false))
+        ON CONFLICT (id) DO UPDATE SET
+          name = EXCLUDED.name, type = EXCLUDED.type, ip = EXCLUDED.ip, status = EXCLUDED.status,
+          x = EXCLUDED.x, y = EXCLUDED.y, map_id = EXCLUDED.map_id, group_id = EXCLUDED.group_id,
+          is_root = COALESCE($10::boolean, devices.is_root)
+        RETURNING *
+        `,
+        [
+          d.id,
+          d.data.name,
+          d.data.type,
+          d.data.ip ?? null,
+          d.data.status,
+          d.position.x,
+          d.position.y,
+          d.data.mapId,
+          d.data.groupId ?? null,
+          // snapshots anteriores à raiz não têm `isRoot`: a marcação atual fica
+          typeof d.data.isRoot === "boolean" ? d.data.isRoot : null,
+        ]
+      );
+      // snapshots anteriores às portas não têm `ports`: as atuais ficam
+      if (Array.isArray(d.data.ports)) await syncPorts(client, d.id, d.data.ports, true);
+      // snapshots anteriores ao inventário não têm `inventory`: o atual fica
+      const row = d.data.inventory
+        ? ((await writeInventory(client, d.id, fullInventory(d.data.inventory))) ?? r.rows[0])
+        : r.rows[0];
+      if (before?.status !== row.status) {
+        await recordStatusEvent(client, {
+          entityType: "device",
+          entityId: row.id,
+          previousStatus: (before?.status as Status | undefined) ?? null,
+          status: row.status,
+          source: "manual",
+        });
+      }
+      await recordAudit(client, req.user, {
+        entityType: "device",
+        entityId: d.id,
+        action: before ? "update" : "create",
+        before,
+        after: row,
+      });
+    }
+
+    // as portas são soltas antes: links do snapshot podem trocar de porta entre si
+    const linkBefore = new Map<string, Awaited<ReturnType<typeof lockRow>>>();
+    for (const l of links) linkBefore.set(l.id, await lockRow(client, "link", l.id));
+    await client.query(`UPDATE links SET from_port_id = NULL, to_port_id = NULL WHERE id = ANY($1::uuid[])`, [
+      links.map((l) => l.id),
+    ]);
+
+    for (const l of links) {
+      const before = linkBefore.get(l.id) ?? null;
+      // formato antigo: o handle era o nome da porta
+      const ported = l.data !== undefined && "fromPortId" in l.data;
+      // snapshot anterior à capacidade/meio: mantém o que o link tem hoje
+      const sized = l.data !== undefined && "capacityMbps" in l.data;
+      const r = await client.query(
+        `
+        INSERT INTO links (id, from_id, to_id, status, label, from_handle, to_handle, from_port_id, to_port_id, capacity_mbps, medium)
+        VALUES ($1, $2, $3, $4::link_status, $5, $6, $7,
+          (SELECT id FROM ports WHERE id = $8::uuid), (SELECT id FROM ports WHERE id = $9::uuid), $11, $12)
+        ON CONFLICT (id) DO UPDATE SET
+          from_id = EXCLUDED.from_id, to_id = EXCLUDED.to_id, status = EXCLUDED.status,
+          label = EXCLUDED.label, from_handle = EXCLUDED.from_handle, to_handle = EXCLUDED.to_handle,
+          from_port_id = EXCLUDED.from_port_id, to_port_id = EXCLUDED.to_port_id,
+          capacity_mbps = CASE WHEN $10 THEN EXCLUDED.capacity_mbps ELSE links.capacity_mbps END,
+          medium = CASE WHEN $10 THEN EXCLUDED.medium ELSE links.medium END
+        RETURNING *
+        `,
+        [
+          l.id,
+          l.source,
+          l.target,
+          l.data?.status ?? "up",
+          l.label ?? null,
+          (ported ? l.data?.fromHandle : l.sourceHandle) ?? null,
+          (ported ? l.data?.toHandle : l.targetHandle) ?? null,
+          ported ? l.data?.fromPortId ?? null : null,
+          ported ? l.data?.toPortId ?? null : null,
+          sized,
+          l.data?.capacityMbps ?? null,
+          l.data?.medium ?? null,
+        ]
+      );
+      const row = r.rows[0];
+      if (before?.status !== row.status) {
+        await recordStatusEvent(client, {
+          entityType: "link",
+          entityId: row.id,
+          previousStatus: (before?.status as Status | undefined) ?? null,
+          status: row.status,
+          source: "manual",
+        });
+      }
+      await recordAudit(client, req.user, {
+        entityType: "link",
+        entityId: l.id,
+        action: before ? "update" : "create",
+        before,
+        after: row,
+      });
+    }
+
+    // 3. VLANs: apagar links/equipamentos levou a participação junto (cascade)
+    await restoreVlanMembership(client, req.user, devices, links);
+
+    // 4. referências do mapa (só existem em snapshot de um mapa)
+    if (mapId) {
+      await client.query(`DELETE FROM map_refs WHERE map_id=$1`, [mapId]);
+      for (const ref of refs) {
+        await client.query(
+          `
+          INSERT INTO map_refs (map_id, device_id, x, y)
+          SELECT $1, id, $3, $4 FROM devices WHERE id=$2 AND map_id <> $1
+          `,
+          [mapId, ref.data.refOf, ref.position.x, ref.position.y]
+        );
+      }
+    }
+
+    // sub-redes não entram no snapshot: o vínculo segue as de hoje
+    await relinkSubnets(client, mapId);
+  });
+
+  // mudança grande: os navegadores refazem o fetch em vez de aplicar evento a evento
+  publish("topology.restored", { mapId });
+  // o painel de VLANs recarrega por conta própria
+  for (const m of new Set(nodes.filter((n) => n.type === "device" && !n.data.refOf).map((n) => String(n.data.mapId)))) {
+    publish("vlan.changed", { mapId: m });
+  }
+  res.json(await loadTopology(mapId ?? undefined));
+});
@@ -0,0 +1,91 @@
+import type { Db } from "./db.js";
+
+export type EntityType = "device" | "link";
+export type Status = "up" | "warn" | "down";
+export type StatusSource = "manual" | "probe" | "webhook" | "discovery";
+
+export type StatusEvent = {
+  entityType: EntityType;
+  entityId: string;
+  previousStatus: Status | null;
+  status: Status;
+  source: StatusSource;
+};
+
+const tableByEntity: Record<EntityType, string> = { device: "devices", link: "links" };
+
+export async function recordStatusEvent(db: Db, e: StatusEvent) {
+  await db.query(
+    `
+    INSERT INTO status_events (entity_type, entity_id, previous_status, status, source)
+    VALUES ($1, $2, $3, $4, $5)
+    `,
+    [e.entityType, e.entityId, e.previousStatus, e.status, e.source]
+  );
+}
+
+/**
+ * Troca o status e grava a transição (se houve) no histórico.
+ * Retorna a linha atualizada + status anterior, ou null se não existe.
+ * Deve rodar dentro de uma transação para o evento não ficar órfão.
+ */
+export async function setStatus(
+  db: Db,
+  entityType: EntityType,
+  id: string,
+  status: Status,
+  source: StatusSource
+) {
+  const table = tableByEntity[entityType];
+  const r = await db.query(
+    `
+    WITH old AS (SELECT status FROM ${table} WHERE id=$1 FOR UPDATE)
+    UPDATE ${table} t SET status=$2 FROM old WHERE t.id=$1
+    RETURNING t.*, old.status AS previous_status
+    `,
+    [id, status]
+  );
+
+  const row = r.rows[0];
+  if (!row) return null;
+
+  const { previous_status: previousStatus, ...updated } = row;
+  if (previousStatus !== status) {
+    await recordStatusEvent(db, { entityType, entityId: id, previousStatus, status, source });
+  }
+  return { row: updated, previousStatus: previousStatus as Status };
+}
+
+/** Eventos no intervalo; com `from`, o primeiro é o anterior à janela (se houver). */
+export async function fetchHistory(
+  db: Db,
+  entityType: EntityType,
+  id: string,
+  range: { from?: Date; to?: Date }
+) {
+  const r = await db.query(
+    `
+    SELECT id, previous_status, status, source, created_at
+    FROM status_events
+    WHERE entity_type=$1 AND entity_id=$2
+      AND ($3::timestamptz IS NULL OR created_at >= $3)
+      AND ($4::timestamptz IS NULL OR created_at <= $4)
+    ORDER BY created_at ASC, id ASC
+    `,
+    [entityType, id, range.from ?? null, range.to ?? null]
+  );
+  if (!range.from) return r.rows;
+
+  // status em vigor no início da janela: o último evento antes de `from`
+  const before = await db.query(
+    `
+    SELECT id, previous_status, status, source, created_at
+    FROM status_events
+    WHERE entity_type=$1 AND entity_id=$2 AND created_at < $3
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1
+    `,
+    [entityType, id, range.from]
+  );
+  return [...before.rows, ...r.rows];
+}
@@ -0,0 +1,239 @@
+import { pool, type Db } from "./db.js";
+import { inventoryOf } from "./inventory.js";
+import { effectiveStatuses } from "./effectiveStatus.js";
+
+/**
+ * Conversão das linhas do banco para o formato do React Flow.
+ * Usado pelo GET /topology e pelos eventos ao vivo (live.ts).
+ */
+
+export function toTopologyNode(d: any) {
+  return {
+    id: d.id,
+    type: "device",
+    position: { x: Number(d.x), y: Number(d.y) },
+    data: {
+      name: d.name,
+      type: d.type,
+      ip: d.ip ?? undefined,
+      status: d.status,
+      // só no GET /topology (loadTopology); nos eventos ao vivo o cliente mantém o que tem e recarrega
+      effectiveStatus: d.effective_status,
+      isRoot: Boolean(d.is_root),
+      mapId: d.map_id,
+      groupId: d.group_id ?? undefined,
+      latencyMs: d.probe_latency_ms ?? undefined,
+      probedAt: d.probed_at ?? undefined,
+      inventory: inventoryOf(d),
+      // só quando a linha vem com as portas (portsByDevice); sem elas o cliente mantém as que tem
+      ports: d.ports,
+      // só no GET /topology: é o que o snapshot guarda e a restauração devolve
+      vlanIds: d.vlan_ids as string[] | undefined,
+    },
+  };
+}
+
+export function toPort(p: any) {
+  return {
+    id: p.id,
+    name: p.name,
+    kind: p.kind,
+    speedMbps: p.speed_mbps ?? undefined,
+    adminStatus: p.admin_status,
+    operStatus: p.oper_status,
+    description: p.description ?? undefined,
+  };
+}
+
+export type Port = ReturnType<typeof toPort>;
+
+export async function portsByDevice(db: Db, deviceIds: string[]) {
+  const byDevice = new Map<string, Port[]>(deviceIds.map((id) => [id, []]));
+  if (deviceIds.length === 0) return byDevice;
+  const r = await db.query(`SELECT * FROM ports WHERE device_id = ANY($1::uuid[]) ORDER BY created_at, name`, [deviceIds]);
+  for (const p of r.rows) byDevice.get(p.device_id)?.push(toPort(p));
+  return byDevice;
+}
+
+/** Nó do equipamento com as portas (eventos ao vivo de mudança de porta). */
+export async function deviceNodeWithPorts(db: Db, device: any) {
+  const ports = (await portsByDevice(db, [device.id])).get(device.id) ?? [];
+  return toTopologyNode({ ...device, ports });
+}
+
+/** Nó de referência: equipamento de outro mapa, id prefixado com "ref:". */
+export function toRefNode(r: any) {
+  return {
+    id: `ref:${r.id}`,
+    type: "device",
+    position: { x: Number(r.ref_x), y: Number(r.ref_y) },
+    data: {
+      name: r.name,
+      type: r.type,
+      ip: r.ip ?? undefined,
+      status: r.status,
+      mapId: r.ref_map_id,
+      refOf: r.id,
+      homeMapId: r.map_id,
+      homeMapName: r.home_map_name,
+    },
+  };
+}
+
+/** Grupo como nó pai do React Flow. Posição absoluta; loadTopology relativiza. */
+export function toGroupNode(g: any) {
+  return {
+    id: g.id,
+    type: "deviceGroup",
+    position: { x: Number(g.x), y: Number(g.y) },
+    style: { width: Number(g.width), height: Number(g.height) },
+    data: {
+      name: g.name,
+      kind: g.kind,
+      collapsed: g.collapsed,
+      mapId: g.map_id,
+      groupId: g.parent_id ?? undefined,
+    },
+  };
+}
+
+/**
+ * Última amostra de tráfego. Linha sem o LEFT JOIN de link_utilization (RETURNING *)
+ * devolve undefined: o cliente mantém a que já tem.
+ */
+function toUtilization(l: any) {
+  if (!("sampled_at" in l)) return undefined;
+  if (!l.sampled_at) return null;
+  return { inBps: Number(l.in_bps), outBps: Number(l.out_bps), at: l.sampled_at };
+}
+
+export function toTopologyEdge(l: any) {
+  return {
+    id: l.id,
+    source: l.from_id,
+    target: l.to_id,
+    label: l.label ?? undefined,
+    // handle do React Flow = id da porta; o nome (handle do LLDP/import) fica em data
+    data: {
+      status: l.status,
+      fromHandle: l.from_handle ?? undefined,
+      toHandle: l.to_handle ?? undefined,
+      fromPortId: l.from_port_id ?? null,
+      toPortId: l.to_port_id ?? null,
+      capacityMbps: l.capacity_mbps ?? null,
+      medium: l.medium ?? null,
+      utilization: toUtilization(l),
+      // só no GET /topology, como vlanIds do equipamento
+      vlans: l.vlans as { vlanId: string; tagged: boolean }[] | undefined,
+    },
+    sourceHandle: l.from_port_id ?? undefined,
+    targetHandle: l.to_port_id ?? undefined,
+  };
+}
+
+/**
+ * Monta o TopologyResponse. Sem mapId devolve tudo (todos os mapas),
+ * como o GET /topology sempre fez.
+ */
+export async function loadTopology(mapId?: string, db: Db = pool) {
+  const devices = await db.query(
+    `
+    SELECT d.*,
+      COALESCE((SELECT array_agg(dv.vlan_id ORDER BY dv.vlan_id) FROM device_vlans dv WHERE dv.device_id = d.id), '{}') AS vlan_ids
+    FROM devices d
+    WHERE ($1::uuid IS NULL OR d.map_id = $1)
+    ORDER BY d.created_at ASC
+    `,
+    [mapId ?? null]
+  );
+
+  const links = await db.query(
+    `
+    SELECT l.id, l.from_id, l.to_id, l.status, l.label, l.from_handle, l.to_handle, l.from_port_id, l.to_port_id,
+           l.capacity_mbps, l.medium, u.in_bps, u.out_bps, u.sampled_at,
+           COALESCE(
+             (SELECT json_agg(json_build_object('vlanId', lv.vlan_id, 'tagged', lv.tagged) ORDER BY lv.vlan_id)
+              FROM link_vlans lv WHERE lv.link_id = l.id),
+             '[]'
+           ) AS vlans
+    FROM links l
+    JOIN devices d ON d.id = l.from_id
+    LEFT JOIN link_utilization u ON u.link_id = l.id
+    WHERE ($1::uuid IS NULL OR d.map_id = $1)
+    ORDER BY l.created_at ASC
+    `,
+    [mapId ?? null]
+  );
+
+  const groups = await db.query(
+    `
+    SELECT * FROM groups
+    WHERE ($1::uuid IS NULL OR map_id = $1)
+    ORDER BY created_at ASC
+    `,
+    [mapId ?? null]
+  );
+
+  const refs = mapId
+    ? await db.query(
+        `
+        SELECT d.id, d.name, d.type, d.ip, d.status, d.map_id,
+               r.map_id AS ref_map_id, r.x AS ref_x, r.y AS ref_y,
+               m.name AS home_map_name
+        FROM map_refs r
+        JOIN devices d ON d.id = r.device_id
+        JOIN maps m ON m.id = d.map_id
+        WHERE r.map_id = $1
+        ORDER BY d.name ASC
+        `,
+        [mapId]
+      )
+    : { rows: [] };
+
+  const ports = await portsByDevice(db, devices.rows.map((d) => d.id));
+  const effective = await effectiveStatuses(db, mapId);
+
+  return {
+    nodes: [
+      ...nestGroups(
+        groups.rows.map(toGroupNode),
+        devices.rows.map((d) => toTopologyNode({ ...d, ports: ports.get(d.id), effective_status: effective.get(d.id) }))
+      ),
+      ...refs.rows.map(toRefNode),
+    ],
+    edges: links.rows.map(toTopologyEdge),
+  };
+}
+
+type PositionedNode = { id: string; position: { x: number; y: number }; data: { groupId?: string } };
+
+/**
+ * O React Flow quer filhos com `parentId`, posição relativa ao pai
+ * e pais antes dos filhos no array. No banco tudo é absoluto.
+ */
+function nestGroups<G extends PositionedNode, D extends PositionedNode>(groups: G[], devices: D[]) {
+  const byId = new Map(groups.map((g) => [g.id, g]));
+
+  const ordered: G[] = [];
+  const visited = new Set<string>();
+  const visit = (g: G) => {
+    if (visited.has(g.id)) return;
+    visited.add(g.id);
+    const parent = g.data.groupId ? byId.get(g.data.groupId) : undefined;
+    if (parent) visit(parent);
+    ordered.push(g);
+  };
+  groups.forEach(visit);
+
+  const relative = <N extends PositionedNode>(n: N) => {
+    const parent = n.data.groupId ? byId.get(n.data.groupId) : undefined;
+    if (!parent) return n;
+    return {
+      ...n,
+      parentId: parent.id,
+      position: { x: n.position.x - parent.position.x, y: n.position.y - parent.position.y },
+    };
+  };
+
+  return [...ordered.map(relative), ...devices.map(relative)];
+}
@@ -0,0 +1,399 @@
+import { Router } from "express";
+import { randomUUID } from "node:crypto";
+import type { z } from "zod";
+import { defaultMapId, pool, withTransaction, type Db } from "./db.js";
+import { publish } from "./live.js";
+import { requireRole, type AuthUser } from "./auth.js";
+import { lockRow, recordAudit } from "./audit.js";
+import { recordStatusEvent, type Status } from "./statusEvents.js";
+import { relinkSubnets } from "./ipam.js";
+import { unknownDeviceTypes, unknownTypesMessage } from "./deviceTypes.js";
+import { inventoryOf, pickInventory, writeInventory } from "./inventory.js";
+import { attachHandlePorts, importPorts } from "./ports.js";
+import { portsByDevice } from "./topology.js";
+import { exportDocumentSchema, exportQuerySchema, importSchema } from "./validators.js";
+
+export const transferRoutes = Router();
+
+export type ExportDocument = z.infer<typeof exportDocumentSchema>;
+export type ImportMode = z.infer<typeof importSchema>["mode"];
+
+type Counts = { created: number; updated: number; deleted: number };
+
+export type ImportReport = {
+  mode: ImportMode;
+  dryRun: boolean;
+  mapId: string;
+  groups: Counts;
+  devices: Counts;
+  links: Counts;
+  /** ids do documento que já existiam em outro lugar e ganharam um novo */
+  remapped: number;
+  warnings: string[];
+};
+
+/** Lançado no fim do dry-run para o withTransaction fazer ROLLBACK. */
+class DryRun extends Error {
+  constructor(public report: ImportReport) {
+    super("dry run");
+  }
+}
+
+/** Pais antes dos filhos (o INSERT do filho referencia o pai). */
+function parentsFirst<T extends { id: string; parentId?: string | null }>(items: T[]) {
+  const byId = new Map(items.map((g) => [g.id, g]));
+  const out: T[] = [];
+  const seen = new Set<string>();
+  const visit = (g: T) => {
+    if (seen.has(g.id)) return;
+    seen.add(g.id);
+    const parent = g.parentId ? byId.get(g.parentId) : undefined;
+    if (parent) visit(parent);
+    out.push(g);
+  };
+  items.forEach(visit);
+  return out;
+}
+
+/** Documento de exportação do mapa, ou null se o mapa não existe. */
+export async function buildExportDocument(mapId: string): Promise<ExportDocument | null> {
+  const map = await pool.query(`SELECT id, name FROM maps WHERE id=$1`, [mapId]);
+  if (!map.rows[0]) return null;
+
+  const groups = await pool.query(`SELECT * FROM groups WHERE map_id=$1 ORDER BY created_at ASC`, [mapId]);
+  const devices = await pool.query(`SELECT * FROM devices WHERE map_id=$1 ORDER BY created_at ASC`, [mapId]);
+  const links = await pool.query(
+    `
+    SELECT l.*, fp.name AS from_port_name, tp.name AS to_port_name
+    FROM links l
+    JOIN devices d ON d.id = l.from_id
+    LEFT JOIN ports fp ON fp.id = l.from_port_id
+    LEFT JOIN ports tp ON tp.id = l.to_port_id
+    WHERE d.map_id = $1
+    ORDER BY l.created_at ASC
+    `,
+    [mapId]
+  );
+
+  const ports = await portsByDevice(pool, devices.rows.map((d) => d.id));
+
+  return {
+    format: "topology-export",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    map: map.rows[0],
+    groups: parentsFirst(
+      groups.rows.map((g) => ({
+        id: g.id,
+        parentId: g.parent_id,
+        name: g.name,
+        kind: g.kind,
+        x: Number(g.x),
+        y: Number(g.y),
+        width: Number(g.width),
+        height: Number(g.height),
+        collapsed: g.collapsed,
+      }))
+    ),
+    devices: devices.rows.map((d) => ({
+      id: d.id,
+      name: d.name,
+      type: d.type,
+      ip: d.ip ?? undefined,
+      status: d.status,
+      x: Number(d.x),
+      y: Number(d.y),
+      groupId: d.group_id,
+      isRoot: d.is_root,
+      ...inventoryOf(d),
+      ports: (ports.get(d.id) ?? []).map(({ id: _id, ...p }) => p),
+    })),
+    links: links.rows.map((l) => ({
+      id: l.id,
+      fromId: l.from_id,
+      toId: l.to_id,
+      status: l.status,
+      label: l.label ?? undefined,
+      // no documento a porta vai pelo nome (ids de porta não valem em outro banco)
+      fromHandle: l.from_port_name ?? l.from_handle ?? undefined,
+      toHandle: l.to_port_name ?? l.to_handle ?? undefined,
+      capacityMbps: l.capacity_mbps ?? undefined,
+      medium: l.medium ?? undefined,
+    })),
+  };
+}
+
+transferRoutes.get("/export", async (req, res) => {
+  const parsed = exportQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const doc = await buildExportDocument(parsed.data.mapId ?? (await defaultMapId()));
+  if (!doc) return res.status(404).json({ message: "Map not found" });
+  res.json(doc);
+});
+
+/**
+ * Aplica o documento no mapa. Roda dentro da transação do chamador;
+ * o relatório é o mesmo no dry-run e no import de verdade.
+ */
+async function importDocument(
+  db: Db,
+  actor: AuthUser | undefined,
+  mapId: string,
+  mode: ImportMode,
+  doc: ExportDocument
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    mode,
+    dryRun: false,
+    mapId,
+    groups: { created: 0, updated: 0, deleted: 0 },
+    devices: { created: 0, updated: 0, deleted: 0 },
+    links: { created: 0, updated: 0, deleted: 0 },
+    remapped: 0,
+    warnings: [],
+  };
+
+  if (mode === "replace") {
+    const links = await db.query(
+      `DELETE FROM links l USING devices d WHERE d.id = l.from_id AND d.map_id = $1 RETURNING l.*`,
+      [mapId]
+    );
+    for (const l of links.rows) {
+      await recordAudit(db, actor, { entityType: "link", entityId: l.id, action: "delete", before: l, after: null });
+    }
+    const devices = await db.query(`DELETE FROM devices WHERE map_id=$1 RETURNING *`, [mapId]);
+    for (const d of devices.rows) {
+      await recordAudit(db, actor, { entityType: "device", entityId: d.id, action: "delete", before: d, after: null });
+    }
+    const groups = await db.query(`DELETE FROM groups WHERE map_id=$1 RETURNING *`, [mapId]);
+    for (const g of groups.rows) {
+      await recordAudit(db, actor, { entityType: "group", entityId: g.id, action: "delete", before: g, after: null });
+    }
+    report.links.deleted = links.rowCount ?? 0;
+    report.devices.deleted = devices.rowCount ?? 0;
+    report.groups.deleted = groups.rowCount ?? 0;
+  }
+
+  // replace/merge mantêm o id do documento quando está livre; copy sempre gera novo
+  const targetId = async (table: "groups" | "devices" | "links", id: string) => {
+    if (mode === "copy") return randomUUID();
+    const r = await db.query(`SELECT 1 FROM ${table} WHERE id=$1`, [id]);
+    if (!r.rows[0]) return id;
+    report.remapped++;
+    return randomUUID();
+  };
+
+  const groupIds = new Map<string, string>();
+  for (const g of parentsFirst(doc.groups)) {
+    const parentId = g.parentId ? groupIds.get(g.parentId) ?? null : null;
+
+    const existing =
+      mode === "merge"
+        ? (await db.query(`SELECT * FROM groups WHERE map_id=$1 AND name=$2 ORDER BY created_at LIMIT 1 FOR UPDATE`, [mapId, g.name]))
+            .rows[0]
+        : undefined;
+
+    if (existing) {
+      const r = await db.query(
+        `
+        UPDATE groups SET parent_id=$2, kind=COALESCE($3, kind), x=COALESCE($4, x), y=COALESCE($5, y),
+          width=COALESCE($6, width), height=COALESCE($7, height)
+        WHERE id=$1 RETURNING *
+        `,
+        [existing.id, parentId, g.kind ?? null, g.x ?? null, g.y ?? null, g.width ?? null, g.height ?? null]
+      );
+      await recordAudit(db, actor, { entityType: "group", entityId: existing.id, action: "update", before: existing, after: r.rows[0] });
+      groupIds.set(g.id, existing.id);
+      report.groups.updated++;
+      continue;
+    }
+
+    const id = await targetId("groups", g.id);
+    const r = await db.query(
+      `
+      INSERT INTO groups (id, map_id, parent_id, name, kind, x, y, width, height, collapsed)
+      VALUES ($1, $2, $3, $4, COALESCE($5, 'room'), COALESCE($6, 0), COALESCE($7, 0), COALESCE($8, 400), COALESCE($9, 260), $10)
+      RETURNING *
+      `,
+      [id, mapId, parentId, g.name, g.kind ?? null, g.x ?? null, g.y ?? null, g.width ?? null, g.height ?? null, g.collapsed ?? false]
+    );
+    await recordAudit(db, actor, { entityType: "group", entityId: id, action: "create", before: null, after: r.rows[0] });
+    groupIds.set(g.id, id);
+    report.groups.created++;
+  }
+
+  const deviceIds = new Map<string, string>();
+  for (const d of doc.devices) {
+    const groupId = d.groupId ? groupIds.get(d.groupId) ?? null : null;
+
+    // nome ganha do IP quando os dois casam com equipamentos diferentes
+    const existing =
+      mode === "merge"
+        ? (
+            await db.query(
+              `
+              SELECT * FROM devices
+              WHERE map_id=$1 AND (name=$2 OR ($3::text IS NOT NULL AND ip=$3))
+              ORDER BY (name=$2) DESC, created_at ASC
+              LIMIT 1
+              FOR UPDATE
+              `,
+              [mapId, d.name, d.ip ?? null]
+            )
+          ).rows[0]
+        : undefined;
+
+    if (existing) {
+      if (existing.name !== d.name) report.warnings.push(`"${d.name}" merged into "${existing.name}" by IP ${d.ip}`);
+      const r = await db.query(
+        `
+        UPDATE devices SET type=$2, ip=COALESCE($3, ip), status=COALESCE($4, status), x=$5, y=$6, group_id=$7,
+          is_root=COALESCE($8, is_root)
+        WHERE id=$1 RETURNING *
+        `,
+        [existing.id, d.type, d.ip ?? null, d.status ?? null, d.x, d.y, groupId, d.isRoot ?? null]
+      );
+      const row = (await writeInventory(db, existing.id, pickInventory(d))) ?? r.rows[0];
+      if (d.ports) await importPorts(db, existing.id, d.ports);
+      if (row.status !== existing.status) {
+        await recordStatusEvent(db, {
+          entityType: "device",
+          entityId: row.id,
+          previousStatus: existing.status,
+          status: row.status,
+          source: "manual",
+        });
+      }
+      await recordAudit(db, actor, { entityType: "device", entityId: row.id, action: "update", before: existing, after: row });
+      deviceIds.set(d.id, existing.id);
+      report.devices.updated++;
+      continue;
+    }
+
+    const id = await targetId("devices", d.id);
+    const r = await db.query(
+      `
+      INSERT INTO devices (id, name, type, ip, status, x, y, map_id, group_id, is_root)
+      VALUES ($1, $2, $3, $4, COALESCE($5::device_status, 'up'::device_status), $6, $7, $8, $9, COALESCE($10, false))
+      RETURNING *
+      `,
+      [id, d.name, d.type, d.ip ?? null, d.status ?? null, d.x, d.y, mapId, groupId, d.isRoot ?? null]
+    );
+    const row = (await writeInventory(db, id, pickInventory(d))) ?? r.rows[0];
+    if (d.ports) await importPorts(db, id, d.ports);
+    await recordStatusEvent(db, { entityType: "device", entityId: id, previousStatus: null, status: row.status, source: "manual" });
+    await recordAudit(db, actor, { entityType: "device", entityId: id, action: "create", before: null, after: row });
+    deviceIds.set(d.id, id);
+    report.devices.created++;
+  }
+
+  for (const l of doc.links) {
+    const fromId = deviceIds.get(l.fromId)!;
+    const toId = deviceIds.get(l.toId)!;
+    if (fromId === toId) {
+      report.warnings.push(`link ${l.label ?? l.id} skipped: both ends merged into the same device`);
+      continue;
+    }
+
+    const existing =
+      mode === "merge"
+        ? (await db.query(`SELECT id FROM links WHERE from_id=$1 AND to_id=$2 LIMIT 1`, [fromId, toId])).rows[0]
+        : undefined;
+
+    if (existing) {
+      const before = await lockRow(db, "link", existing.id);
+      const r = await db.query(
+        `
+        UPDATE links SET status=COALESCE($2, status), label=COALESCE($3, label),
+          from_handle=COALESCE($4, from_handle), to_handle=COALESCE($5, to_handle),
+          capacity_mbps=COALESCE($6, capacity_mbps), medium=COALESCE($7, medium)
+        WHERE id=$1 RETURNING *
+        `,
+        [existing.id, l.status ?? null, l.label ?? null, l.fromHandle ?? null, l.toHandle ?? null, l.capacityMbps ?? null, l.medium ?? null]
+      );
+      const row = await attachHandlePorts(db, r.rows[0]);
+      if (before && row.status !== before.status) {
+        await recordStatusEvent(db, {
+          entityType: "link",
+          entityId: row.id,
+          previousStatus: before.status as Status,
+          status: row.status,
+          source: "manual",
+        });
+      }
+      await recordAudit(db, actor, { entityType: "link", entityId: row.id, action: "update", before, after: row });
+      report.links.updated++;
+      continue;
+    }
+
+    const id = await targetId("links", l.id);
+    const r = await db.query(
+      `
+      INSERT INTO links (id, from_id, to_id, status, label, from_handle, to_handle, capacity_mbps, medium)
+      VALUES ($1, $2, $3, COALESCE($4::link_status, 'up'::link_status), $5, $6, $7, $8, $9)
+      RETURNING *
+      `,
+      [id, fromId, toId, l.status ?? null, l.label ?? null, l.fromHandle ?? null, l.toHandle ?? null, l.capacityMbps ?? null, l.medium ?? null]
+    );
+    const row = await attachHandlePorts(db, r.rows[0]);
+    await recordStatusEvent(db, { entityType: "link", entityId: id, previousStatus: null, status: row.status, source: "manual" });
+    await recordAudit(db, actor, { entityType: "link", entityId: id, action: "create", before: null, after: row });
+    report.links.created++;
+  }
+
+  return report;
+}
+
+/**
+ * Import inteiro numa transação. No dry-run executa tudo de verdade e desfaz:
+ * o relatório não tem como divergir do import real.
+ */
+export async function runImport(
+  actor: AuthUser | undefined,
+  mapId: string,
+  mode: ImportMode,
+  dryRun: boolean,
+  doc: ExportDocument
+): Promise<ImportReport> {
+  const unknown = await unknownDeviceTypes(pool, doc.devices.map((d) => d.type));
+  if (unknown.length) throw Object.assign(new Error(unknownTypesMessage(unknown)), { code: "UNKNOWN_DEVICE_TYPE" });
+
+  try {
+    const report = await withTransaction(async (client) => {
+      const r = await importDocument(client, actor, mapId, mode, doc);
+      await relinkSubnets(client, mapId);
+      if (dryRun) throw new DryRun({ ...r, dryRun: true });
+      return r;
+    });
+
+    // mudança em massa: os navegadores refazem o fetch
+    publish("topology.restored", { mapId });
+    return report;
+  } catch (e) {
+    if (e instanceof DryRun) return e.report;
+    throw e;
+  }
+}
+
+export async function mapExists(mapId: string) {
+  const m = await pool.query(`SELECT 1 FROM maps WHERE id=$1`, [mapId]);
+  return Boolean(m.rows[0]);
+}
+
+transferRoutes.post("/import", requireRole("admin"), async (req, res) => {
+  const parsed = importSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { mode, dryRun, document } = parsed.data;
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  if (!(await mapExists(mapId))) return res.status(400).json({ message: "mapId invalid (map not found)" });
+
+  try {
+    res.json(await runImport(req.user, mapId, mode, dryRun, document));
+  } catch (e: any) {
+    if (e?.code === "UNKNOWN_DEVICE_TYPE") return res.status(400).json({ message: e.message });
+    if (e?.code === "23505") return res.status(409).json({ message: "Import conflicts with existing data" });
+    throw e;
+  }
+});
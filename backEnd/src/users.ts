@@ -0,0 +1,115 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool, withTransaction, type Db } from "./db.js";
+import { recordAudit } from "./audit.js";
+import { hashPassword, requireRole, revokeSessions } from "./auth.js";
+import { userCreateSchema, userUpdateSchema } from "./validators.js";
+
+export const userRoutes = Router();
+
+// gestão de usuários é só para admin
+userRoutes.use("/users", requireRole("admin"));
+
+const publicColumns = `id, username, role, created_at`;
+
+/** Linha pública travada até o fim da transação: é o "antes" da auditoria. */
+async function lockUser(db: Db, id: string) {
+  const r = await db.query(`SELECT ${publicColumns} FROM users WHERE id=$1 FOR UPDATE`, [id]);
+  return r.rows[0] ?? null;
+}
+
+/**
+ * Impede ficar sem nenhum admin (rebaixar ou excluir o último). Trava os
+ * admins: dois rebaixamentos simultâneos não passam os dois.
+ */
+async function isLastAdmin(db: Db, user: { role: string }) {
+  if (user.role !== "admin") return false;
+  const r = await db.query(`SELECT id FROM users WHERE role='admin' FOR UPDATE`);
+  return r.rows.length <= 1;
+}
+
+userRoutes.get("/users", async (_req, res) => {
+  const r = await pool.query(`SELECT ${publicColumns} FROM users ORDER BY username ASC`);
+  res.json(r.rows);
+});
+
+userRoutes.post("/users", async (req, res) => {
+  const parsed = userCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { username, password, role } = parsed.data;
+  const passwordHash = await hashPassword(password);
+  try {
+    const user = await withTransaction(async (client) => {
+      const r = await client.query(
+        `INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3) RETURNING ${publicColumns}`,
+        [username, passwordHash, role]
+      );
+      await recordAudit(client, req.user, { entityType: "user", entityId: r.rows[0].id, action: "create", before: null, after: r.rows[0] });
+      return r.rows[0];
+    });
+    res.status(201).json(user);
+  } catch (e: any) {
+    if (e?.code === "23505") return res.status(409).json({ message: "Username already exists" });
+    throw e;
+  }
+});
+
+userRoutes.patch("/users/:id", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = userUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { password, role } = parsed.data;
+  if (password === undefined && role === undefined) return res.status(400).json({ message: "No fields to update" });
+
+  const passwordHash = password ? await hashPassword(password) : null;
+  const user = await withTransaction(async (client) => {
+    const before = await lockUser(client, id.data);
+    if (!before) return null;
+    if (role && role !== "admin" && (await isLastAdmin(client, before))) return { lastAdmin: true };
+
+    const r = await client.query(
+      `
+      UPDATE users
+      SET role = COALESCE($2, role),
+          password_hash = COALESCE($3, password_hash)
+      WHERE id=$1
+      RETURNING ${publicColumns}
+      `,
+      [id.data, role ?? null, passwordHash]
+    );
+    // o hash nunca vai para a auditoria: só a marca de que a senha mudou
+    const after = password ? { ...r.rows[0], password: "alterada" } : r.rows[0];
+    await recordAudit(client, req.user, { entityType: "user", entityId: id.data, action: "update", before, after });
+    return r.rows[0];
+  });
+  if (!user) return res.status(404).json({ message: "User not found" });
+  if ("lastAdmin" in user) return res.status(409).json({ message: "Cannot demote the last admin" });
+
+  // senha nova derruba as sessões abertas (inclusive as de quem trocou)
+  if (password) await revokeSessions(id.data);
+  res.json(user);
+});
+
+userRoutes.delete("/users/:id", async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  if (id.data === req.user?.id) return res.status(409).json({ message: "Cannot delete yourself" });
+
+  const result = await withTransaction(async (client) => {
+    const before = await lockUser(client, id.data);
+    if (!before) return "not_found";
+    if (await isLastAdmin(client, before)) return "last_admin";
+
+    await client.query(`DELETE FROM users WHERE id=$1`, [id.data]);
+    await recordAudit(client, req.user, { entityType: "user", entityId: id.data, action: "delete", before, after: null });
+    return "deleted";
+  });
+  if (result === "not_found") return res.status(404).json({ message: "User not found" });
+  if (result === "last_admin") return res.status(409).json({ message: "Cannot delete the last admin" });
+  res.status(204).send();
+});
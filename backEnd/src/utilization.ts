@@ -0,0 +1,62 @@
+import { Router } from "express";
+import { pool } from "./db.js";
+import { publish } from "./live.js";
+import { requireRole, webhookAuth } from "./auth.js";
+import { utilizationWebhookSchema } from "./validators.js";
+
+/**
+ * Tráfego dos links (bits/s) mandado por um coletor externo (SNMP, sFlow, script).
+ * Só a última amostra de cada link fica guardada; é telemetria, não entra na auditoria.
+ */
+export const utilizationRoutes = Router();
+
+// relógio do coletor adiantado travaria as amostras seguintes (a mais nova vence)
+const MAX_CLOCK_SKEW_MS = 5 * 60_000;
+
+utilizationRoutes.post("/webhooks/utilization", webhookAuth, requireRole("operator"), async (req, res) => {
+  const parsed = utilizationWebhookSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const now = Date.now();
+  const latest = new Map<string, { inBps: number; outBps: number; at: Date }>();
+  for (const s of parsed.data.samples) {
+    const at = s.at ?? new Date(now);
+    if (at.getTime() > now + MAX_CLOCK_SKEW_MS) {
+      return res.status(400).json({ message: `Sample for link ${s.linkId} is in the future` });
+    }
+    const prev = latest.get(s.linkId);
+    if (!prev || prev.at < at) latest.set(s.linkId, { inBps: s.inBps, outBps: s.outBps, at });
+  }
+
+  const ids = [...latest.keys()];
+  const samples = [...latest.values()];
+  const r = await pool.query(
+    `
+    INSERT INTO link_utilization (link_id, in_bps, out_bps, sampled_at)
+    SELECT s.link_id, s.in_bps, s.out_bps, s.sampled_at
+    FROM unnest($1::uuid[], $2::bigint[], $3::bigint[], $4::timestamptz[]) AS s(link_id, in_bps, out_bps, sampled_at)
+    JOIN links l ON l.id = s.link_id
+    ON CONFLICT (link_id) DO UPDATE SET
+      in_bps = EXCLUDED.in_bps, out_bps = EXCLUDED.out_bps, sampled_at = EXCLUDED.sampled_at
+    WHERE link_utilization.sampled_at < EXCLUDED.sampled_at
+    RETURNING *
+    `,
+    [ids, samples.map((s) => s.inBps), samples.map((s) => s.outBps), samples.map((s) => s.at)]
+  );
+
+  const known = await pool.query(`SELECT id FROM links WHERE id = ANY($1::uuid[])`, [ids]);
+  const knownIds = new Set(known.rows.map((l) => l.id));
+
+  if (r.rows.length > 0) {
+    publish(
+      "link.utilization",
+      r.rows.map((u) => ({ id: u.link_id, utilization: { inBps: Number(u.in_bps), outBps: Number(u.out_bps), at: u.sampled_at } }))
+    );
+  }
+  res.json({
+    updated: r.rows.length,
+    // já havia amostra mais nova
+    stale: knownIds.size - r.rows.length,
+    unknownLinkIds: ids.filter((id) => !knownIds.has(id)),
+  });
+});
@@ -1,21 +1,101 @@
 import { z } from "zod";
 
+/** IPv4 ou IPv6 (sem máscara); "10.0.1" e afins param aqui. */
+export const ipAddressSchema = z
+  .string()
+  .trim()
+  .refine((v) => z.ipv4().safeParse(v).success || z.ipv6().safeParse(v).success, { message: "invalid IPv4/IPv6 address" });
+
+export const cidrSchema = z
+  .string()
+  .trim()
+  .refine((v) => z.cidrv4().safeParse(v).success || z.cidrv6().safeParse(v).success, { message: "invalid CIDR (ex.: 10.0.1.0/24)" });
+
+/** Chave de device_types; se existe é conferido no banco (deviceTypes.ts). */
+export const deviceTypeKeySchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, { message: "type key: lowercase letters, digits, - and _ (max 32)" });
+
+/** Texto livre de inventário: vazio vira null (limpa o campo). */
+const inventoryText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .transform((v) => v || null)
+    .nullable();
+
+/** Aceita aa:bb:.., aa-bb-.. e aabb.ccdd.eeff (Cisco); grava aa:bb:cc:dd:ee:ff. */
+const macSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .refine((v) => /^[0-9a-f]{12}$/.test(v.replace(/[:.-]/g, "")), { message: "invalid MAC address" })
+  .transform((v) => v.replace(/[:.-]/g, "").match(/../g)!.join(":"))
+  .nullable();
+
+/** Inventário do equipamento; chaves em camelCase (colunas em inventory.ts). */
+export const deviceInventoryShape = {
+  vendor: inventoryText(100).optional(),
+  model: inventoryText(100).optional(),
+  serialNumber: inventoryText(100).optional(),
+  firmwareVersion: inventoryText(100).optional(),
+  mac: macSchema.optional(),
+  location: inventoryText(200).optional(),
+  owner: inventoryText(100).optional(),
+  purchaseDate: z.iso.date().nullable().optional(),
+  warrantyUntil: z.iso.date().nullable().optional(),
+  tags: z
+    .array(z.string().trim().min(1).max(40))
+    .max(50)
+    .transform((tags) => [...new Set(tags)])
+    .optional(),
+  customFields: z
+    .record(z.string().trim().min(1).max(60), z.string().max(500))
+    .refine((o) => Object.keys(o).length <= 50, { message: "at most 50 custom fields" })
+    .optional(),
+};
+
 export const deviceCreateSchema = z.object({
   name: z.string().min(2),
-  type: z.enum(["hub", "switch", "router", "ap", "server"]),
-  ip: z.string().optional(),
+  type: deviceTypeKeySchema,
+  ip: ipAddressSchema.optional(),
   status: z.enum(["up", "warn", "down"]).optional(),
   x: z.number().optional(),
   y: z.number().optional(),
+  mapId: z.string().uuid().optional(),
+  ...deviceInventoryShape,
 });
 
-export const deviceUpdateSchema = deviceCreateSchema.partial();
+export const deviceUpdateSchema = deviceCreateSchema
+  .omit({ mapId: true })
+  .extend({ groupId: z.string().uuid().nullable(), isRoot: z.boolean() })
+  .partial();
 
 export const devicePositionSchema = z.object({
   x: z.number(),
   y: z.number(),
 });
 
+/** Porta/interface de um equipamento (ports.ts). */
+export const portCreateSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  kind: z.enum(["ethernet", "fiber", "wireless", "console", "virtual", "other"]).optional(),
+  speedMbps: z.number().int().positive().max(10_000_000).nullable().optional(),
+  adminStatus: z.enum(["up", "down"]).optional(),
+  operStatus: z.enum(["up", "down", "unknown"]).optional(),
+  description: inventoryText(200).optional(),
+});
+
+export const portUpdateSchema = portCreateSchema.partial();
+
+export const linkMediumSchema = z.enum(["copper", "fiber", "wireless", "vpn"]);
+
+const capacityMbps = z.number().int().positive().max(10_000_000).nullable().optional();
+
+/** Handle = nome da porta (ex.: vindo do LLDP); fromPortId/toPortId = porta cadastrada. */
 export const linkCreateSchema = z.object({
   fromId: z.string().uuid(),
   toId: z.string().uuid(),
@@ -23,6 +103,10 @@ export const linkCreateSchema = z.object({
   label: z.string().optional(),
   fromHandle: z.string().optional(),
   toHandle: z.string().optional(),
+  fromPortId: z.string().uuid().nullable().optional(),
+  toPortId: z.string().uuid().nullable().optional(),
+  capacityMbps,
+  medium: linkMediumSchema.nullable().optional(),
 });
 
 export const linkUpdateSchema = z.object({
@@ -30,4 +114,432 @@ export const linkUpdateSchema = z.object({
   label: z.string().optional(),
   fromHandle: z.string().optional(),
   toHandle: z.string().optional(),
+  fromPortId: z.string().uuid().nullable().optional(),
+  toPortId: z.string().uuid().nullable().optional(),
+  capacityMbps,
+  medium: linkMediumSchema.nullable().optional(),
 }).partial();
+
+/** Desfazer exclusão: recria com os ids originais (links que caíram no cascade vão junto). */
+export const restoreSchema = z.object({
+  devices: z
+    .array(
+      deviceCreateSchema.extend({
+        id: z.string().uuid(),
+        x: z.number(),
+        y: z.number(),
+        mapId: z.string().uuid(),
+        groupId: z.string().uuid().nullable().optional(),
+        // portas caem no cascade junto com o equipamento
+        ports: z.array(portCreateSchema.extend({ id: z.string().uuid() })).max(512).optional(),
+      })
+    )
+    .default([]),
+  links: z.array(linkCreateSchema.extend({ id: z.string().uuid() })).default([]),
+});
+
+export const historyQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const statusWebhookSchema = z.object({
+  entityType: z.enum(["device", "link"]),
+  id: z.string().uuid(),
+  status: z.enum(["up", "warn", "down"]),
+});
+
+/** Amostras de tráfego (bits/s) vindas do coletor; `at` ausente = agora. */
+export const utilizationWebhookSchema = z.object({
+  samples: z
+    .array(
+      z.object({
+        linkId: z.string().uuid(),
+        inBps: z.number().int().nonnegative(),
+        outBps: z.number().int().nonnegative(),
+        at: z.coerce.date().optional(),
+      })
+    )
+    .min(1)
+    .max(1000),
+});
+
+export const mapCreateSchema = z.object({
+  name: z.string().min(2),
+  description: z.string().optional(),
+});
+
+export const mapUpdateSchema = mapCreateSchema.partial();
+
+export const mapRefCreateSchema = z.object({
+  deviceId: z.string().uuid(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+});
+
+export const groupCreateSchema = z.object({
+  mapId: z.string().uuid(),
+  parentId: z.string().uuid().nullable().optional(),
+  name: z.string().min(1),
+  kind: z.enum(["room", "rack", "zone", "other"]).optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+});
+
+export const groupUpdateSchema = groupCreateSchema
+  .omit({ mapId: true })
+  .extend({ collapsed: z.boolean() })
+  .partial();
+
+export const positionsBatchSchema = z.object({
+  devices: z.array(z.object({ id: z.string().uuid(), x: z.number(), y: z.number() })).default([]),
+  groups: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        x: z.number(),
+        y: z.number(),
+        width: z.number().positive().optional(),
+        height: z.number().positive().optional(),
+      })
+    )
+    .default([]),
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const userCreateSchema = z.object({
+  username: z.string().min(3),
+  password: z.string().min(8),
+  role: z.enum(["viewer", "operator", "admin"]),
+});
+
+export const userUpdateSchema = userCreateSchema.omit({ username: true }).partial();
+
+export const auditQuerySchema = z.object({
+  entityType: z.enum(["device", "link", "group", "map", "subnet", "device_type", "port", "vlan", "map_ref", "user"]).optional(),
+  entityId: z.string().uuid().optional(),
+  actor: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+export const snapshotCreateSchema = z.object({
+  name: z.string().min(1),
+  mapId: z.string().uuid().optional(),
+});
+
+export const snapshotDiffQuerySchema = z.object({
+  /** outro snapshot; sem ele compara com o estado atual */
+  against: z.string().uuid().optional(),
+});
+
+export const exportQuerySchema = z.object({
+  mapId: z.string().uuid().optional(),
+});
+
+/** Documento do GET /export. Posições absolutas; links e grupos apontam para ids do próprio documento. */
+export const exportDocumentSchema = z
+  .object({
+    format: z.literal("topology-export"),
+    version: z.literal(1),
+    exportedAt: z.string().optional(),
+    map: z.object({ id: z.string().uuid(), name: z.string() }).nullable().optional(),
+    groups: z
+      .array(
+        groupCreateSchema.omit({ mapId: true }).extend({
+          id: z.string().uuid(),
+          collapsed: z.boolean().optional(),
+        })
+      )
+      .default([]),
+    devices: z.array(
+      deviceCreateSchema.omit({ mapId: true }).extend({
+        id: z.string().uuid(),
+        x: z.number(),
+        y: z.number(),
+        groupId: z.string().uuid().nullable().optional(),
+        isRoot: z.boolean().optional(),
+        ports: z.array(portCreateSchema).max(512).optional(),
+      })
+    ),
+    links: z.array(linkCreateSchema.extend({ id: z.string().uuid() })).default([]),
+  })
+  .superRefine((doc, ctx) => {
+    const groupIds = new Set(doc.groups.map((g) => g.id));
+    const deviceIds = new Set(doc.devices.map((d) => d.id));
+    doc.groups.forEach((g, i) => {
+      if (g.parentId && !groupIds.has(g.parentId)) {
+        ctx.addIssue({ code: "custom", path: ["groups", i, "parentId"], message: "parent group not in document" });
+      }
+    });
+    doc.devices.forEach((d, i) => {
+      if (d.groupId && !groupIds.has(d.groupId)) {
+        ctx.addIssue({ code: "custom", path: ["devices", i, "groupId"], message: "group not in document" });
+      }
+    });
+    doc.links.forEach((l, i) => {
+      if (!deviceIds.has(l.fromId)) ctx.addIssue({ code: "custom", path: ["links", i, "fromId"], message: "device not in document" });
+      if (!deviceIds.has(l.toId)) ctx.addIssue({ code: "custom", path: ["links", i, "toId"], message: "device not in document" });
+    });
+  });
+
+export const importSchema = z.object({
+  mapId: z.string().uuid().optional(),
+  /** replace: esvazia o mapa; merge: casa equipamentos por nome/IP; copy: tudo com ids novos */
+  mode: z.enum(["replace", "merge", "copy"]),
+  /** padrão é só simular: o relatório volta e nada é gravado */
+  dryRun: z.boolean().default(true),
+  document: exportDocumentSchema,
+});
+
+/** GraphML de outra ferramenta (yEd etc.): convertido para o documento de import. */
+export const graphmlImportSchema = importSchema.omit({ document: true }).extend({
+  xml: z.string().min(1),
+});
+
+/**
+ * Linhas cruas da planilha (cabeçalho → valor). Cada linha é validada
+ * depois com deviceCreateSchema / linkCreateSchema, para o relatório por linha.
+ */
+export const bulkImportSchema = z.object({
+  mapId: z.string().uuid().optional(),
+  dryRun: z.boolean().default(true),
+  devices: z.array(z.record(z.string(), z.unknown())).max(5000).default([]),
+  links: z.array(z.record(z.string(), z.unknown())).max(10000).default([]),
+});
+
+/** Uma linha de tabela de vizinhos (LLDP/CDP), vista do equipamento local. */
+export const neighborEntrySchema = z.object({
+  localDevice: z.string().min(1),
+  localPort: z.string().min(1),
+  remoteSystem: z.string().min(1),
+  remotePort: z.string().min(1),
+  remoteIp: z.string().optional(),
+});
+
+/**
+ * Texto colado de `show lldp neighbors [detail]` / `show cdp neighbors [detail]`
+ * (um ou mais equipamentos) e/ou linhas já estruturadas.
+ */
+export const neighborIngestSchema = z
+  .object({
+    mapId: z.string().uuid().optional(),
+    text: z.string().max(2_000_000).optional(),
+    /** equipamento local do texto, quando o prompt ("sw1#show ...") não vem junto */
+    localDevice: z.string().min(1).optional(),
+    entries: z.array(neighborEntrySchema).max(20000).default([]),
+  })
+  .refine((v) => Boolean(v.text?.trim()) || v.entries.length > 0, { message: "text or entries is required" });
+
+export const neighborAcceptSchema = z.object({
+  mapId: z.string().uuid().optional(),
+  links: z
+    .array(
+      z.object({
+        fromId: z.string().uuid(),
+        toId: z.string().uuid(),
+        fromHandle: z.string().min(1),
+        toHandle: z.string().min(1),
+        label: z.string().optional(),
+      })
+    )
+    .max(5000)
+    .default([]),
+  /** links sem respaldo nos vizinhos que o usuário decidiu apagar */
+  removeLinkIds: z.array(z.string().uuid()).max(5000).default([]),
+});
+
+/** XML do nmap (`-oX`); hosts conhecidos fora do ar viram down. */
+export const nmapDiscoverySchema = z.object({
+  mapId: z.string().uuid().optional(),
+  xml: z.string().min(1),
+  /** equipamentos do mapa dentro do escopo do scan que não responderam ficam down */
+  markMissing: z.boolean().default(true),
+});
+
+export const discoveryQuerySchema = z.object({
+  mapId: z.string().uuid().optional(),
+  state: z.enum(["pending", "accepted", "ignored", "merged"]).default("pending"),
+});
+
+export const discoveryResolveSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("accept"),
+    name: z.string().min(1).optional(),
+    type: deviceTypeKeySchema.optional(),
+    x: z.number().optional(),
+    y: z.number().optional(),
+  }),
+  z.object({ action: z.literal("ignore") }),
+  /** o host é um equipamento que já está no mapa (com outro IP ou sem IP) */
+  z.object({ action: z.literal("merge"), deviceId: z.string().uuid() }),
+]);
+
+export const subnetCreateSchema = z.object({
+  mapId: z.string().uuid().optional(),
+  cidr: cidrSchema,
+  name: z.string().min(1),
+  gateway: ipAddressSchema.optional(),
+  vlan: z.number().int().min(1).max(4094).optional(),
+});
+
+export const subnetUpdateSchema = subnetCreateSchema
+  .omit({ mapId: true })
+  .extend({ gateway: ipAddressSchema.nullable(), vlan: z.number().int().min(1).max(4094).nullable() })
+  .partial();
+
+export const subnetQuerySchema = z.object({
+  mapId: z.string().uuid().optional(),
+});
+
+/** SVG vai como texto; o front desenha via <img>, onde scripts não rodam. */
+const iconSvgSchema = z
+  .string()
+  .max(64 * 1024, { message: "SVG too large (max 64 KB)" })
+  .refine((v) => /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>]*>\s*)?<svg[\s>]/i.test(v), { message: "not an SVG document" });
+
+export const deviceTypeCreateSchema = z.object({
+  key: deviceTypeKeySchema,
+  label: z.string().trim().min(1).max(60),
+  /** emoji (ou texto curto) */
+  icon: z.string().trim().min(1).max(16).nullable().optional(),
+  iconSvg: iconSvgSchema.nullable().optional(),
+  width: z.number().int().min(120).max(600).optional(),
+  height: z.number().int().min(40).max(400).optional(),
+});
+
+/** A chave não muda: equipamentos, snapshots e a fila da descoberta apontam para ela. */
+export const deviceTypeUpdateSchema = deviceTypeCreateSchema.omit({ key: true }).partial();
+
+export const vlanCreateSchema = z.object({
+  mapId: z.string().uuid().optional(),
+  vid: z.number().int().min(1).max(4094),
+  name: z.string().trim().min(1).max(64),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+});
+
+export const vlanUpdateSchema = vlanCreateSchema.omit({ mapId: true }).partial();
+
+export const vlanQuerySchema = z.object({
+  mapId: z.string().uuid().optional(),
+});
+
+/** Substitui as VLANs de um link; só uma pode ir untagged (VLAN nativa). */
+export const linkVlansSchema = z
+  .object({
+    vlans: z.array(z.object({ vlanId: z.string().uuid(), tagged: z.boolean().default(true) })).max(4094),
+  })
+  .superRefine((v, ctx) => {
+    if (new Set(v.vlans.map((x) => x.vlanId)).size !== v.vlans.length) {
+      ctx.addIssue({ code: "custom", path: ["vlans"], message: "duplicate vlanId" });
+    }
+    if (v.vlans.filter((x) => !x.tagged).length > 1) {
+      ctx.addIssue({ code: "custom", path: ["vlans"], message: "only one untagged VLAN per link" });
+    }
+  });
+
+export const deviceVlansSchema = z.object({
+  vlanIds: z.array(z.string().uuid()).max(4094),
+});
+
+/** GET /paths. `weight=capacity`: custo inverso à capacidade (como o custo do OSPF). */
+export const pathQuerySchema = z.object({
+  from: z.string().uuid(),
+  to: z.string().uuid(),
+  weight: z.enum(["hops", "capacity"]).default("hops"),
+  avoidDown: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((v) => v === "true"),
+});
+
+// raízes na query: ids separados por vírgula (?roots=a,b); sem elas valem as raízes do mapa
+const rootIds = z
+  .string()
+  .transform((s) => [...new Set(s.split(",").map((x) => x.trim()).filter(Boolean))])
+  .pipe(z.array(z.string().uuid()).min(1).max(50));
+
+export const impactQuerySchema = z
+  .object({
+    deviceId: z.string().uuid().optional(),
+    linkId: z.string().uuid().optional(),
+    roots: rootIds.optional(),
+  })
+  .refine((q) => !!q.deviceId !== !!q.linkId, { message: "Provide exactly one of deviceId or linkId" });
+
+export const spofQuerySchema = z.object({
+  mapId: z.string().uuid().optional(),
+  roots: rootIds.optional(),
+});
+
+export const effectiveStatusQuerySchema = z.object({
+  mapId: z.string().uuid().optional(),
+});
+
+// -------- Alertas --------
+
+const httpUrl = z
+  .string()
+  .trim()
+  .url()
+  .refine((u) => /^https?:\/\//i.test(u), { message: "url must be http(s)" });
+
+/** Configuração por tipo de canal; chat = JSON {text} aceito por Slack e Teams. */
+export const alertChannelConfigSchemas = {
+  webhook: z.object({
+    url: httpUrl,
+    headers: z.record(z.string(), z.string().max(500)).optional(),
+  }),
+  chat: z.object({ url: httpUrl }),
+  email: z.object({
+    host: z.string().trim().min(1).max(255),
+    port: z.number().int().min(1).max(65535),
+    // true = TLS direto (465); sem STARTTLS
+    secure: z.boolean().optional(),
+    username: z.string().max(255).optional(),
+    password: z.string().max(255).optional(),
+    from: z.string().trim().email(),
+    to: z.array(z.string().trim().email()).min(1).max(20),
+  }),
+};
+
+export const alertChannelCreateSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  kind: z.enum(["webhook", "email", "chat"]),
+  enabled: z.boolean().optional(),
+  // validado contra alertChannelConfigSchemas[kind] na rota
+  config: z.record(z.string(), z.unknown()),
+});
+
+export const alertChannelUpdateSchema = alertChannelCreateSchema.omit({ kind: true }).partial();
+
+const alertStatus = z.enum(["up", "warn", "down"]);
+
+/** Sem defaults: o PATCH parcial não pode preencher o que não veio (defaults no INSERT). */
+export const alertRuleCreateSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  enabled: z.boolean().optional(),
+  mapId: z.string().uuid().nullable().optional(),
+  entityType: z.enum(["device", "link"]),
+  // tipo do equipamento ou meio do link; vazio = qualquer
+  types: z.array(z.string().trim().min(1).max(64)).max(50).optional(),
+  // curingas * e ?, sem diferenciar maiúsculas
+  namePattern: z.string().trim().max(200).nullable().optional(),
+  // qualquer uma das tags (link: tags das pontas)
+  tags: z.array(z.string().trim().min(1).max(64)).max(50).optional(),
+  fromStatus: alertStatus.nullable().optional(),
+  toStatus: alertStatus,
+  minDurationS: z.number().int().min(0).max(7 * 86_400).optional(),
+  repeatIntervalS: z.number().int().min(60).max(7 * 86_400).nullable().optional(),
+  notifyRecovery: z.boolean().optional(),
+  channelIds: z.array(z.string().uuid()).max(20).optional(),
+});
+
+export const alertRuleUpdateSchema = alertRuleCreateSchema.partial();
@@ -0,0 +1,244 @@
+import { Router } from "express";
+import { z } from "zod";
+import { defaultMapId, pool, withTransaction, type Db } from "./db.js";
+import { publish } from "./live.js";
+import { requireRole } from "./auth.js";
+import { lockRow, recordAudit } from "./audit.js";
+import { deviceVlansSchema, linkVlansSchema, vlanCreateSchema, vlanQuerySchema, vlanUpdateSchema } from "./validators.js";
+
+/**
+ * VLANs por mapa. Link carrega VLANs (tagged/untagged) e equipamento participa
+ * de VLANs; a troca de participação fica na auditoria do próprio link/equipamento.
+ */
+export const vlanRoutes = Router();
+
+type VlanRow = { id: string; map_id: string; vid: number; name: string; color: string };
+
+/** VLANs do mapa com os participantes (equipamentos e links). */
+async function vlansWithMembers(db: Db, mapId: string) {
+  const r = await db.query(
+    `
+    SELECT v.*,
+      COALESCE((SELECT array_agg(dv.device_id) FROM device_vlans dv WHERE dv.vlan_id = v.id), '{}') AS device_ids,
+      COALESCE(
+        (SELECT json_agg(json_build_object('linkId', lv.link_id, 'tagged', lv.tagged)) FROM link_vlans lv WHERE lv.vlan_id = v.id),
+        '[]'
+      ) AS links
+    FROM vlans v
+    WHERE v.map_id = $1
+    ORDER BY v.vid ASC
+    `,
+    [mapId]
+  );
+  return r.rows.map(({ device_ids, ...v }) => ({ ...v, deviceIds: device_ids as string[] }));
+}
+
+/**
+ * Ilhas: equipamentos da VLAN agrupados pelo que se alcança andando só por links
+ * que carregam a VLAN (passar por equipamento fora dela vale, é trânsito).
+ * Mais de uma ilha = a VLAN está partida.
+ */
+export async function vlanIslands(db: Db, vlan: VlanRow) {
+  const members = await db.query(
+    `SELECT d.id, d.name FROM device_vlans dv JOIN devices d ON d.id = dv.device_id WHERE dv.vlan_id = $1 ORDER BY d.name`,
+    [vlan.id]
+  );
+  const links = await db.query(
+    `SELECT l.from_id, l.to_id FROM link_vlans lv JOIN links l ON l.id = lv.link_id WHERE lv.vlan_id = $1`,
+    [vlan.id]
+  );
+
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    const p = parent.get(x) ?? x;
+    if (p === x) return x;
+    const root = find(p);
+    parent.set(x, root);
+    return root;
+  };
+  for (const l of links.rows) parent.set(find(l.from_id), find(l.to_id));
+
+  const islands = new Map<string, { id: string; name: string }[]>();
+  for (const d of members.rows) {
+    const root = find(d.id);
+    islands.set(root, [...(islands.get(root) ?? []), { id: d.id, name: d.name }]);
+  }
+  return [...islands.values()].sort((a, b) => b.length - a.length);
+}
+
+/** Todas as VLANs (ids sem repetição) existem e são do mapa? */
+async function vlansOnMap(db: Db, ids: string[], mapId: string) {
+  const r = await db.query(`SELECT map_id FROM vlans WHERE id = ANY($1::uuid[])`, [ids]);
+  return r.rows.length === ids.length && r.rows.every((v) => v.map_id === mapId);
+}
+
+vlanRoutes.get("/vlans", async (req, res) => {
+  const parsed = vlanQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  res.json(await vlansWithMembers(pool, mapId));
+});
+
+/** VLANs partidas do mapa (só as que têm mais de uma ilha). */
+vlanRoutes.get("/vlans/islands", async (req, res) => {
+  const parsed = vlanQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  const vlans: VlanRow[] = (await pool.query(`SELECT * FROM vlans WHERE map_id=$1 ORDER BY vid`, [mapId])).rows;
+  const report = [];
+  for (const v of vlans) {
+    const islands = await vlanIslands(pool, v);
+    if (islands.length > 1) report.push({ vlan: { id: v.id, vid: v.vid, name: v.name, color: v.color }, islands });
+  }
+  res.json(report);
+});
+
+vlanRoutes.post("/vlans", requireRole("admin"), async (req, res) => {
+  const parsed = vlanCreateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const mapId = parsed.data.mapId ?? (await defaultMapId());
+  const m = await pool.query(`SELECT 1 FROM maps WHERE id=$1`, [mapId]);
+  if (!m.rows[0]) return res.status(400).json({ message: "mapId invalid (map not found)" });
+
+  try {
+    const vlan = await withTransaction(async (client) => {
+      const r = await client.query(
+        `INSERT INTO vlans (map_id, vid, name, color) VALUES ($1, $2, $3, COALESCE($4, '#6366f1')) RETURNING *`,
+        [mapId, parsed.data.vid, parsed.data.name, parsed.data.color ?? null]
+      );
+      await recordAudit(client, req.user, { entityType: "vlan", entityId: r.rows[0].id, action: "create", before: null, after: r.rows[0] });
+      return r.rows[0];
+    });
+    publish("vlan.changed", { mapId });
+    res.status(201).json(vlan);
+  } catch (e: any) {
+    if (e?.code === "23505") return res.status(409).json({ message: "VLAN id already exists on this map" });
+    throw e;
+  }
+});
+
+vlanRoutes.patch("/vlans/:id", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = vlanUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+  if (Object.keys(parsed.data).length === 0) return res.status(400).json({ message: "No fields to update" });
+
+  try {
+    const vlan = await withTransaction(async (client) => {
+      const before = await lockRow(client, "vlan", id.data);
+      if (!before) return null;
+      const r = await client.query(`UPDATE vlans SET vid=$2, name=$3, color=$4 WHERE id=$1 RETURNING *`, [
+        id.data,
+        parsed.data.vid ?? before.vid,
+        parsed.data.name ?? before.name,
+        parsed.data.color ?? before.color,
+      ]);
+      await recordAudit(client, req.user, { entityType: "vlan", entityId: id.data, action: "update", before, after: r.rows[0] });
+      return r.rows[0];
+    });
+
+    if (!vlan) return res.status(404).json({ message: "VLAN not found" });
+    publish("vlan.changed", { mapId: vlan.map_id });
+    res.json(vlan);
+  } catch (e: any) {
+    if (e?.code === "23505") return res.status(409).json({ message: "VLAN id already exists on this map" });
+    throw e;
+  }
+});
+
+vlanRoutes.delete("/vlans/:id", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const deleted = await withTransaction(async (client) => {
+    const r = await client.query(`DELETE FROM vlans WHERE id=$1 RETURNING *`, [id.data]);
+    if (!r.rows[0]) return null;
+    await recordAudit(client, req.user, { entityType: "vlan", entityId: id.data, action: "delete", before: r.rows[0], after: null });
+    return r.rows[0];
+  });
+
+  if (!deleted) return res.status(404).json({ message: "VLAN not found" });
+  publish("vlan.changed", { mapId: deleted.map_id });
+  res.status(204).send();
+});
+
+// -------- Participação --------
+
+vlanRoutes.put("/links/:id/vlans", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = linkVlansSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const { vlans } = parsed.data;
+  const result = await withTransaction(async (client) => {
+    const link = await lockRow(client, "link", id.data);
+    if (!link) return null;
+    const mapId = (await client.query(`SELECT map_id FROM devices WHERE id=$1`, [link.from_id])).rows[0].map_id;
+
+    if (!(await vlansOnMap(client, vlans.map((v) => v.vlanId), mapId))) return { error: "VLAN not found on the link's map" };
+
+    const before = await client.query(
+      `SELECT vlan_id AS "vlanId", tagged FROM link_vlans WHERE link_id=$1 ORDER BY vlan_id`,
+      [id.data]
+    );
+    await client.query(`DELETE FROM link_vlans WHERE link_id=$1`, [id.data]);
+    await client.query(
+      `INSERT INTO link_vlans (link_id, vlan_id, tagged) SELECT $1, * FROM unnest($2::uuid[], $3::boolean[])`,
+      [id.data, vlans.map((v) => v.vlanId), vlans.map((v) => v.tagged)]
+    );
+    const after = [...vlans].sort((a, b) => (a.vlanId < b.vlanId ? -1 : 1));
+    await recordAudit(client, req.user, {
+      entityType: "link",
+      entityId: id.data,
+      action: "update",
+      before: { vlans: before.rows },
+      after: { vlans: after },
+    });
+    return { mapId, vlans: after };
+  });
+
+  if (!result) return res.status(404).json({ message: "Link not found" });
+  if ("error" in result) return res.status(400).json({ message: result.error });
+  publish("vlan.changed", { mapId: result.mapId });
+  res.json(result.vlans);
+});
+
+vlanRoutes.put("/devices/:id/vlans", requireRole("admin"), async (req, res) => {
+  const id = z.string().uuid().safeParse(req.params.id);
+  if (!id.success) return res.status(400).json({ message: "Invalid id" });
+
+  const parsed = deviceVlansSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error.flatten());
+
+  const vlanIds = [...new Set(parsed.data.vlanIds)].sort();
+  const result = await withTransaction(async (client) => {
+    const device = await lockRow(client, "device", id.data);
+    if (!device) return null;
+
+    if (!(await vlansOnMap(client, vlanIds, device.map_id as string))) return { error: "VLAN not found on the device's map" };
+
+    const before = await client.query(`SELECT vlan_id FROM device_vlans WHERE device_id=$1 ORDER BY vlan_id`, [id.data]);
+    await client.query(`DELETE FROM device_vlans WHERE device_id=$1`, [id.data]);
+    await client.query(`INSERT INTO device_vlans (device_id, vlan_id) SELECT $1, unnest($2::uuid[])`, [id.data, vlanIds]);
+    await recordAudit(client, req.user, {
+      entityType: "device",
+      entityId: id.data,
+      action: "update",
+      before: { vlans: before.rows.map((r) => r.vlan_id) },
+      after: { vlans: vlanIds },
+    });
+    return { mapId: device.map_id as string, vlanIds };
+  });
+
+  if (!result) return res.status(404).json({ message: "Device not found" });
+  if ("error" in result) return res.status(400).json({ message: result.error });
+  publish("vlan.changed", { mapId: result.mapId });
+  res.json(result.vlanIds);
+});
@@ -1,5 +1,8 @@
 import TopologyPage from "./pages/TopologyPage";
+import LoginPage from "./pages/LoginPage";
 
 export default function App() {
+  // sem router: o client manda para /login quando a API responde 401
+  if (window.location.pathname === "/login") return <LoginPage />;
   return <TopologyPage />;
 }
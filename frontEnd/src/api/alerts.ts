@@ -0,0 +1,121 @@
+import { api } from "./client";
+import type { DeviceStatus } from "./topology";
+
+export type AlertChannelKind = "webhook" | "email" | "chat";
+
+export type WebhookConfig = { url: string; headers?: Record<string, string> };
+export type ChatConfig = { url: string };
+export type EmailConfig = {
+  host: string;
+  port: number;
+  /** TLS direto (465) */
+  secure?: boolean;
+  username?: string;
+  /** só no envio; ausente no PATCH = mantém a gravada */
+  password?: string;
+  from: string;
+  to: string[];
+};
+
+export type AlertChannelConfig = WebhookConfig | ChatConfig | EmailConfig;
+
+export type AlertChannel = {
+  id: string;
+  name: string;
+  kind: AlertChannelKind;
+  /** a senha do SMTP nunca volta; hasPassword diz se há uma gravada */
+  config: Record<string, unknown> & { hasPassword?: boolean };
+  enabled: boolean;
+  created_at: string;
+};
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** null = todos os mapas */
+  map_id: string | null;
+  entity_type: "device" | "link";
+  /** tipo do equipamento ou meio do link; vazio = qualquer */
+  types: string[];
+  /** curingas * e ? */
+  name_pattern: string | null;
+  tags: string[];
+  /** null = de qualquer status */
+  from_status: DeviceStatus | null;
+  to_status: DeviceStatus;
+  min_duration_s: number;
+  /** null = avisa uma vez por episódio */
+  repeat_interval_s: number | null;
+  notify_recovery: boolean;
+  channel_ids: string[];
+  created_at: string;
+};
+
+export type AlertRulePayload = {
+  name: string;
+  enabled?: boolean;
+  mapId?: string | null;
+  entityType: "device" | "link";
+  types?: string[];
+  namePattern?: string | null;
+  tags?: string[];
+  fromStatus?: DeviceStatus | null;
+  toStatus: DeviceStatus;
+  minDurationS?: number;
+  repeatIntervalS?: number | null;
+  notifyRecovery?: boolean;
+  channelIds?: string[];
+};
+
+export type ActiveAlert = {
+  rule_id: string;
+  rule_name: string;
+  entity_type: "device" | "link";
+  entity_id: string;
+  entity_name: string | null;
+  status: DeviceStatus | null;
+  since: string;
+  fired_at: string;
+  last_notified_at: string;
+};
+
+export function fetchAlertChannels() {
+  return api<AlertChannel[]>("/alerts/channels");
+}
+
+export function createAlertChannel(payload: { name: string; kind: AlertChannelKind; enabled?: boolean; config: AlertChannelConfig }) {
+  return api<AlertChannel>("/alerts/channels", { method: "POST", json: payload });
+}
+
+export function updateAlertChannel(id: string, payload: Partial<{ name: string; enabled: boolean; config: AlertChannelConfig }>) {
+  return api<AlertChannel>(`/alerts/channels/${id}`, { method: "PATCH", json: payload });
+}
+
+export function deleteAlertChannel(id: string) {
+  return api(`/alerts/channels/${id}`, { method: "DELETE" });
+}
+
+export function testAlertChannel(id: string) {
+  return api<{ ok: true }>(`/alerts/channels/${id}/test`, { method: "POST" });
+}
+
+export function fetchAlertRules() {
+  return api<AlertRule[]>("/alerts/rules");
+}
+
+export function createAlertRule(payload: AlertRulePayload) {
+  return api<AlertRule>("/alerts/rules", { method: "POST", json: payload });
+}
+
+export function updateAlertRule(id: string, payload: Partial<AlertRulePayload>) {
+  return api<AlertRule>(`/alerts/rules/${id}`, { method: "PATCH", json: payload });
+}
+
+export function deleteAlertRule(id: string) {
+  return api(`/alerts/rules/${id}`, { method: "DELETE" });
+}
+
+export function fetchActiveAlerts() {
+  return api<ActiveAlert[]>("/alerts/active");
+}
@@ -0,0 +1,46 @@
+import { api } from "./client";
+
+/** map_ref: entity_id é o equipamento referenciado; user só aparece para admin. */
+export type AuditEntityType =
+  | "device"
+  | "link"
+  | "group"
+  | "map"
+  | "subnet"
+  | "device_type"
+  | "port"
+  | "vlan"
+  | "map_ref"
+  | "user";
+export type AuditAction = "create" | "update" | "delete" | "position";
+
+export type AuditEntry = {
+  id: string;
+  actor_id: string | null;
+  actor_name: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  /** create/delete: linha inteira; update: só os campos alterados */
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+};
+
+export type AuditFilters = {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+export function fetchAudit(filters: AuditFilters = {}) {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([k, v]) => {
+    if (v !== undefined && v !== "") params.set(k, String(v));
+  });
+  const qs = params.toString();
+  return api<AuditEntry[]>(`/audit${qs ? `?${qs}` : ""}`);
+}
@@ -0,0 +1,28 @@
+import { api } from "./client";
+
+export type Role = "viewer" | "operator" | "admin";
+
+export type CurrentUser = {
+  id: string;
+  username: string;
+  role: Role;
+};
+
+// viewer < operator < admin: cada papel inclui os de baixo
+const rank: Record<Role, number> = { viewer: 0, operator: 1, admin: 2 };
+
+export function hasRole(user: CurrentUser | null | undefined, role: Role) {
+  return !!user && rank[user.role] >= rank[role];
+}
+
+export function login(username: string, password: string) {
+  return api<CurrentUser>("/auth/login", { method: "POST", json: { username, password } });
+}
+
+export function logout() {
+  return api("/auth/logout", { method: "POST" });
+}
+
+export function fetchMe() {
+  return api<CurrentUser>("/auth/me");
+}
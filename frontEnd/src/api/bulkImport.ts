@@ -0,0 +1,41 @@
+import { api } from "./client";
+
+type RowIssues = {
+  /** linha na planilha (1 é o cabeçalho) */
+  row: number;
+  errors: string[];
+  warnings: string[];
+};
+
+export type BulkDeviceReport = RowIssues & {
+  name?: string;
+  type?: string;
+  ip?: string;
+  status?: string;
+  x?: number;
+  y?: number;
+};
+
+export type BulkLinkReport = RowIssues & {
+  from?: string;
+  to?: string;
+  label?: string;
+  status?: string;
+};
+
+export type BulkImportReport = {
+  dryRun: boolean;
+  valid: boolean;
+  devices: BulkDeviceReport[];
+  links: BulkLinkReport[];
+};
+
+/** Linhas cruas da planilha (cabeçalho → célula); o backend valida e normaliza. */
+export function bulkImport(input: {
+  mapId: string;
+  dryRun: boolean;
+  devices: Record<string, unknown>[];
+  links: Record<string, unknown>[];
+}) {
+  return api<BulkImportReport>("/bulk-import", { method: "POST", json: input });
+}
@@ -1,4 +1,4 @@
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:3001/api";
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:3001/api";
 
 type FetchOptions = RequestInit & { json?: any };
 
@@ -7,6 +7,7 @@ export async function api<T>(path: string, options: FetchOptions = {}): Promise<
 
   const res = await fetch(`${API_BASE_URL}${path}`, {
     ...rest,
+    credentials: "include",
     headers: {
       "Content-Type": "application/json",
       ...(headers ?? {}),
@@ -14,6 +15,11 @@ export async function api<T>(path: string, options: FetchOptions = {}): Promise<
     body: json !== undefined ? JSON.stringify(json) : rest.body,
   });
 
+  // sessão expirada ou inexistente: volta para o login (exceto no próprio login)
+  if (res.status === 401 && path !== "/auth/login" && window.location.pathname !== "/login") {
+    window.location.assign("/login");
+  }
+
   if (!res.ok) {
     const text = await res.text().catch(() => "");
     throw new Error(text || `HTTP ${res.status}`);
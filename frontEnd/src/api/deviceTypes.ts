@@ -0,0 +1,41 @@
+import { api } from "./client";
+
+export type DeviceTypeDef = {
+  id: string;
+  key: string;
+  label: string;
+  /** emoji; sem ele e sem SVG o canvas usa um ícone genérico */
+  icon: string | null;
+  /** SVG enviado pelo admin (texto) */
+  icon_svg: string | null;
+  /** tamanho padrão do nó no canvas */
+  width: number;
+  height: number;
+  created_at: string;
+  /** quantos equipamentos usam (todos os mapas) */
+  device_count: number;
+};
+
+export type DeviceTypeInput = {
+  label: string;
+  icon?: string | null;
+  iconSvg?: string | null;
+  width?: number;
+  height?: number;
+};
+
+export function fetchDeviceTypes() {
+  return api<DeviceTypeDef[]>("/device-types");
+}
+
+export function createDeviceType(payload: DeviceTypeInput & { key: string }) {
+  return api<DeviceTypeDef>("/device-types", { method: "POST", json: payload });
+}
+
+export function updateDeviceType(id: string, payload: Partial<DeviceTypeInput>) {
+  return api<DeviceTypeDef>(`/device-types/${id}`, { method: "PATCH", json: payload });
+}
+
+export function deleteDeviceType(id: string) {
+  return api(`/device-types/${id}`, { method: "DELETE" });
+}
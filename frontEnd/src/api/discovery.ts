@@ -0,0 +1,55 @@
+import { api } from "./client";
+import type { DeviceRow, DeviceType } from "./topology";
+
+export type CandidateState = "pending" | "accepted" | "ignored" | "merged";
+
+export type DiscoveryCandidate = {
+  id: string;
+  map_id: string;
+  ip: string;
+  hostname: string | null;
+  mac: string | null;
+  vendor: string | null;
+  os: string | null;
+  open_ports: number[];
+  guessed_type: DeviceType;
+  /** por que o tipo foi escolhido (fingerprint, portas...) */
+  type_reason: string | null;
+  state: CandidateState;
+  device_id: string | null;
+  first_seen: string;
+  last_seen: string;
+  resolved_by: string | null;
+  resolved_at: string | null;
+};
+
+export type NmapDiscoveryResult = {
+  mapId: string;
+  hosts: number;
+  matched: number;
+  queued: number;
+  refreshed: number;
+  ignored: number;
+  /** conhecidos que não responderam e foram para down */
+  markedDown: { id: string; name: string; ip: string }[];
+};
+
+export function discoverNmap(input: { mapId: string; xml: string; markMissing: boolean }) {
+  return api<NmapDiscoveryResult>("/discovery/nmap", { method: "POST", json: input });
+}
+
+export function fetchCandidates(mapId: string, state: CandidateState = "pending") {
+  return api<DiscoveryCandidate[]>(`/discovery/candidates?mapId=${encodeURIComponent(mapId)}&state=${state}`);
+}
+
+export type ResolveAction =
+  | { action: "accept"; name?: string; type?: DeviceType; x?: number; y?: number }
+  | { action: "ignore" }
+  | { action: "merge"; deviceId: string };
+
+export function resolveCandidate(id: string, body: ResolveAction) {
+  return api<{ candidate: DiscoveryCandidate; device: DeviceRow | null }>(`/discovery/candidates/${id}/resolve`, {
+    method: "POST",
+    json: body,
+  });
+}
@@ -0,0 +1,50 @@
+import { api } from "./client";
+
+export type GroupKind = "room" | "rack" | "zone" | "other";
+
+export type GroupRow = {
+  id: string;
+  map_id: string;
+  parent_id: string | null;
+  name: string;
+  kind: GroupKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  collapsed: boolean;
+};
+
+export function createGroup(payload: {
+  mapId: string;
+  parentId?: string | null;
+  name: string;
+  kind?: GroupKind;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+}) {
+  return api<GroupRow>("/groups", { method: "POST", json: payload });
+}
+
+export function updateGroup(
+  id: string,
+  payload: { name?: string; kind?: GroupKind; parentId?: string | null; collapsed?: boolean }
+) {
+  return api<GroupRow>(`/groups/${id}`, { method: "PATCH", json: payload });
+}
+
+export function deleteGroup(id: string) {
+  return api(`/groups/${id}`, { method: "DELETE" });
+}
+
+export type PositionsBatch = {
+  devices?: { id: string; x: number; y: number }[];
+  groups?: { id: string; x: number; y: number; width?: number; height?: number }[];
+};
+
+/** Posições absolutas, numa transação só. */
+export function patchPositions(payload: PositionsBatch) {
+  return api("/positions", { method: "PATCH", json: payload });
+}
@@ -0,0 +1,28 @@
+import { api } from "./client";
+import type { DeviceStatus, DeviceType } from "./topology";
+
+export type FailureTarget = { kind: "device" | "link"; id: string };
+
+export type ImpactResult = {
+  failed: FailureTarget;
+  /** raízes usadas (as configuradas no mapa) */
+  roots: string[];
+  /** perdem o caminho até as raízes com a falha */
+  unreachable: { id: string; name: string; type: DeviceType; ip: string | null; status: DeviceStatus }[];
+  /** já estavam sem caminho até as raízes antes da falha */
+  alreadyUnreachable: number;
+};
+
+export type SpofItem = FailureTarget & { name: string; dependants: number };
+
+export type SpofReport = { mapId: string; roots: string[]; items: SpofItem[] };
+
+/** Sem `roots`, valem as raízes configuradas no mapa. */
+export function fetchImpact(target: FailureTarget) {
+  const q = new URLSearchParams({ [target.kind === "device" ? "deviceId" : "linkId"]: target.id });
+  return api<ImpactResult>(`/impact?${q}`);
+}
+
+export function fetchSpof(mapId: string) {
+  return api<SpofReport>(`/impact/spof?mapId=${encodeURIComponent(mapId)}`);
+}
@@ -0,0 +1,102 @@
+import { API_BASE_URL } from "./client";
+import type { LinkUtilization, TopologyEdge, TopologyNode } from "./topology";
+
+export type LiveEvent =
+  | { type: "device.created" | "device.updated"; data: Extract<TopologyNode, { type: "device" }> }
+  | { type: "device.position"; data: { id: string; position: { x: number; y: number } } }
+  | { type: "device.deleted"; data: { id: string } }
+  | { type: "link.created" | "link.updated"; data: TopologyEdge }
+  | { type: "link.deleted"; data: { id: string } }
+  | { type: "link.utilization"; data: { id: string; utilization: LinkUtilization }[] }
+  | { type: "group.created" | "group.updated"; data: Extract<TopologyNode, { type: "deviceGroup" }> }
+  | { type: "group.deleted"; data: { id: string } }
+  | { type: "topology.restored"; data: { mapId: string | null } }
+  | { type: "discovery.queued"; data: { mapId: string } }
+  | { type: "deviceType.changed"; data: { key: string } }
+  | { type: "vlan.changed"; data: { mapId: string } };
+
+const eventTypes: LiveEvent["type"][] = [
+  "device.created",
+  "device.updated",
+  "device.position",
+  "device.deleted",
+  "link.created",
+  "link.updated",
+  "link.deleted",
+  "link.utilization",
+  "group.created",
+  "group.updated",
+  "group.deleted",
+  "topology.restored",
+  "discovery.queued",
+  "deviceType.changed",
+  "vlan.changed",
+];
+
+type LiveHandlers = {
+  onEvent: (e: LiveEvent) => void;
+  /** estado local pode estar defasado: refazer o GET /topology */
+  onResync: () => void;
+  onConnectionChange?: (connected: boolean) => void;
+};
+
+/**
+ * Assina o canal SSE. O EventSource já reconecta sozinho mandando
+ * Last-Event-ID; quando ele desiste (CLOSED) reabrimos com backoff.
+ * Retorna a função de cancelamento.
+ */
+export function subscribeLive({ onEvent, onResync, onConnectionChange }: LiveHandlers) {
+  let es: EventSource | null = null;
+  let lastEventId = "";
+  let retryTimer: number | null = null;
+  let attempt = 0;
+  let stopped = false;
+  let connectedOnce = false;
+
+  const connect = () => {
+    const qs = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : "";
+    es = new EventSource(`${API_BASE_URL}/events${qs}`, { withCredentials: true });
+
+    es.onopen = () => {
+      attempt = 0;
+      onConnectionChange?.(true);
+    };
+
+    es.addEventListener("hello", (e) => {
+      lastEventId = (e as MessageEvent).lastEventId;
+      // reconexão sem id conhecido: não sabemos o que perdemos
+      if (connectedOnce) onResync();
+      connectedOnce = true;
+    });
+
+    es.addEventListener("resync", (e) => {
+      lastEventId = (e as MessageEvent).lastEventId;
+      connectedOnce = true;
+      onResync();
+    });
+
+    for (const type of eventTypes) {
+      es.addEventListener(type, (e) => {
+        const msg = e as MessageEvent<string>;
+        lastEventId = msg.lastEventId;
+        onEvent({ type, data: JSON.parse(msg.data) } as LiveEvent);
+      });
+    }
+
+    es.onerror = () => {
+      onConnectionChange?.(false);
+      if (es?.readyState !== EventSource.CLOSED || stopped) return;
+      es = null;
+      const delay = Math.min(30_000, 1000 * 2 ** attempt++);
+      retryTimer = window.setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (retryTimer) window.clearTimeout(retryTimer);
+    es?.close();
+  };
+}
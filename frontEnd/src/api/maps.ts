@@ -0,0 +1,43 @@
+import { api } from "./client";
+import type { TopologyResponse } from "./topology";
+
+export type MapInfo = {
+  id: string;
+  name: string;
+  description: string | null;
+  device_count?: number;
+  created_at: string;
+};
+
+export function fetchMaps() {
+  return api<MapInfo[]>("/maps");
+}
+
+export function createMap(payload: { name: string; description?: string }) {
+  return api<MapInfo>("/maps", { method: "POST", json: payload });
+}
+
+export function updateMap(id: string, payload: { name?: string; description?: string }) {
+  return api<MapInfo>(`/maps/${id}`, { method: "PATCH", json: payload });
+}
+
+export function deleteMap(id: string) {
+  return api(`/maps/${id}`, { method: "DELETE" });
+}
+
+export function fetchMapTopology(mapId: string) {
+  return api<TopologyResponse>(`/maps/${mapId}/topology`);
+}
+
+// ---- Referências ----
+export function addMapRef(mapId: string, payload: { deviceId: string; x?: number; y?: number }) {
+  return api(`/maps/${mapId}/refs`, { method: "POST", json: payload });
+}
+
+export function patchMapRefPosition(mapId: string, deviceId: string, x: number, y: number) {
+  return api(`/maps/${mapId}/refs/${deviceId}/position`, { method: "PATCH", json: { x, y } });
+}
+
+export function deleteMapRef(mapId: string, deviceId: string) {
+  return api(`/maps/${mapId}/refs/${deviceId}`, { method: "DELETE" });
+}
@@ -0,0 +1,55 @@
+import { api } from "./client";
+
+/** Uma linha de LLDP/CDP, vista do equipamento local. */
+export type NeighborEntry = {
+  localDevice: string;
+  localPort: string;
+  remoteSystem: string;
+  remotePort: string;
+  remoteIp?: string;
+};
+
+export type NeighborProposal = {
+  fromId: string;
+  fromName: string;
+  fromHandle: string;
+  toId: string;
+  toName: string;
+  toHandle: string;
+  /** os dois lados anunciaram o mesmo cabo */
+  bothSides: boolean;
+};
+
+export type NeighborReconciliation = {
+  mapId: string;
+  entries: number;
+  unparsed: string[];
+  proposals: NeighborProposal[];
+  /** links que já existem e batem com os vizinhos */
+  confirmed: { linkId: string; fromName: string; toName: string; fromHandle: string; toHandle: string; missingHandles: boolean }[];
+  /** links de quem mandou vizinhos, mas que nenhum vizinho confirma */
+  unsupported: {
+    linkId: string;
+    fromId: string;
+    fromName: string;
+    fromHandle: string | null;
+    toId: string;
+    toName: string;
+    toHandle: string | null;
+    label: string | null;
+  }[];
+  unresolved: (NeighborEntry & { reason: string })[];
+};
+
+/** Só compara: nada é gravado. */
+export function reconcileNeighbors(input: { mapId: string; text?: string; localDevice?: string; entries?: NeighborEntry[] }) {
+  return api<NeighborReconciliation>("/neighbors/reconcile", { method: "POST", json: input });
+}
+
+export function acceptNeighbors(input: {
+  mapId: string;
+  links: { fromId: string; toId: string; fromHandle: string; toHandle: string }[];
+  removeLinkIds: string[];
+}) {
+  return api<{ created: number; removed: number }>("/neighbors/accept", { method: "POST", json: input });
+}
@@ -0,0 +1,36 @@
+import { api } from "./client";
+import type { DeviceStatus, DeviceType, LinkStatus } from "./topology";
+
+export type PathWeight = "hops" | "capacity";
+
+export type PathHop = {
+  device: { id: string; name: string; type: DeviceType; ip: string | null; status: DeviceStatus };
+  /** link que chega neste equipamento (null na origem) */
+  link: {
+    id: string;
+    label?: string;
+    status: LinkStatus;
+    /** link down ou porta de uma das pontas desligada/caída */
+    down: boolean;
+    capacityMbps: number | null;
+    outPort: string | null;
+    inPort: string | null;
+  } | null;
+};
+
+export type PathResult = {
+  from: string;
+  to: string;
+  weight: PathWeight;
+  avoidDown: boolean;
+  /** null = sem caminho */
+  cost: number | null;
+  /** havia mais caminhos de mesmo custo do que o limite */
+  truncated: boolean;
+  paths: { hops: PathHop[] }[];
+};
+
+export function fetchPaths(from: string, to: string, opts: { weight: PathWeight; avoidDown: boolean }) {
+  const q = new URLSearchParams({ from, to, weight: opts.weight, avoidDown: String(opts.avoidDown) });
+  return api<PathResult>(`/paths?${q}`);
+}
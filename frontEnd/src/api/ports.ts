@@ -0,0 +1,42 @@
+import { api } from "./client";
+
+export type PortKind = "ethernet" | "fiber" | "wireless" | "console" | "virtual" | "other";
+export type PortAdminStatus = "up" | "down";
+export type PortOperStatus = "up" | "down" | "unknown";
+
+/** Porta/interface como vem no nó (data.ports) e nas rotas de porta. */
+export type DevicePort = {
+  id: string;
+  name: string;
+  kind: PortKind;
+  speedMbps?: number;
+  adminStatus: PortAdminStatus;
+  operStatus: PortOperStatus;
+  description?: string;
+};
+
+export type PortPayload = {
+  name: string;
+  kind?: PortKind;
+  speedMbps?: number | null;
+  adminStatus?: PortAdminStatus;
+  operStatus?: PortOperStatus;
+  description?: string | null;
+};
+
+export function fetchDevicePorts(deviceId: string) {
+  return api<DevicePort[]>(`/devices/${deviceId}/ports`);
+}
+
+export function createPort(deviceId: string, payload: PortPayload) {
+  return api<DevicePort>(`/devices/${deviceId}/ports`, { method: "POST", json: payload });
+}
+
+/** Operador só pode mandar adminStatus/operStatus. */
+export function updatePort(id: string, payload: Partial<PortPayload>) {
+  return api<DevicePort>(`/ports/${id}`, { method: "PATCH", json: payload });
+}
+
+export function deletePort(id: string) {
+  return api(`/ports/${id}`, { method: "DELETE" });
+}
@@ -0,0 +1,56 @@
+import { api } from "./client";
+import type { DeviceNodePayload, TopologyEdge, TopologyResponse } from "./topology";
+
+export type SnapshotRow = {
+  id: string;
+  name: string;
+  /** null = snapshot de todos os mapas */
+  map_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  node_count: number;
+  edge_count: number;
+};
+
+/** Equipamento no diff: posição sempre absoluta. */
+export type SnapshotDevice = {
+  id: string;
+  type: "device";
+  position: { x: number; y: number };
+  data: DeviceNodePayload;
+};
+
+export type DiffSide<T> = {
+  added: T[];
+  removed: T[];
+  modified: { id: string; changes: string[]; before: T; after: T }[];
+};
+
+export type SnapshotDiff = {
+  from: { id: string; name: string; map_id: string | null; created_at: string };
+  /** id null = estado atual */
+  to: { id: string | null; name: string; created_at: string | null };
+  devices: DiffSide<SnapshotDevice>;
+  links: DiffSide<TopologyEdge>;
+};
+
+export function fetchSnapshots(mapId?: string) {
+  return api<SnapshotRow[]>(`/snapshots${mapId ? `?mapId=${encodeURIComponent(mapId)}` : ""}`);
+}
+
+export function createSnapshot(payload: { name: string; mapId?: string }) {
+  return api<SnapshotRow>("/snapshots", { method: "POST", json: payload });
+}
+
+export function deleteSnapshot(id: string) {
+  return api(`/snapshots/${id}`, { method: "DELETE" });
+}
+
+/** Sem `against` compara com o estado atual. */
+export function fetchSnapshotDiff(id: string, against?: string) {
+  return api<SnapshotDiff>(`/snapshots/${id}/diff${against ? `?against=${encodeURIComponent(against)}` : ""}`);
+}
+
+export function restoreSnapshot(id: string) {
+  return api<TopologyResponse>(`/snapshots/${id}/restore`, { method: "POST" });
+}
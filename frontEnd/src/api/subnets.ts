@@ -0,0 +1,66 @@
+import { api } from "./client";
+
+export type Subnet = {
+  id: string;
+  map_id: string;
+  cidr: string;
+  name: string;
+  gateway: string | null;
+  vlan: number | null;
+  created_at: string;
+};
+
+/** Contagens vêm como string quando não cabem em number (IPv6). */
+export type AddressCount = number | string;
+
+export type SubnetSummary = Subnet & {
+  total: AddressCount;
+  usable: AddressCount;
+  used: number;
+  free: AddressCount;
+  /** primeiro IP livre da faixa atribuível (null = cheia) */
+  nextFree: string | null;
+};
+
+export type SubnetAddress = {
+  ip: string;
+  kind: "device" | "gateway";
+  deviceId?: string;
+  name?: string;
+  /** mesmo IP em mais de um equipamento/gateway */
+  duplicate: boolean;
+};
+
+export type SubnetUtilization = {
+  subnet: Subnet;
+  total: AddressCount;
+  usable: AddressCount;
+  used: number;
+  free: AddressCount;
+  nextFree: string | null;
+  /** no máximo 100 faixas */
+  freeRanges: { from: string; to: string; count: AddressCount }[];
+  addresses: SubnetAddress[];
+};
+
+export type SubnetInput = { cidr: string; name: string; gateway?: string; vlan?: number };
+
+export function fetchSubnets(mapId: string) {
+  return api<SubnetSummary[]>(`/subnets?mapId=${encodeURIComponent(mapId)}`);
+}
+
+export function fetchSubnetUtilization(id: string) {
+  return api<SubnetUtilization>(`/subnets/${id}/utilization`);
+}
+
+export function createSubnet(payload: SubnetInput & { mapId: string }) {
+  return api<Subnet>("/subnets", { method: "POST", json: payload });
+}
+
+export function updateSubnet(id: string, payload: Partial<{ cidr: string; name: string; gateway: string | null; vlan: number | null }>) {
+  return api<Subnet>(`/subnets/${id}`, { method: "PATCH", json: payload });
+}
+
+export function deleteSubnet(id: string) {
+  return api(`/subnets/${id}`, { method: "DELETE" });
+}
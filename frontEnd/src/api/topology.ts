@@ -1,34 +1,156 @@
 import { api } from "./client";
+import type { GroupKind } from "./groups";
+import type { DevicePort } from "./ports";
 
 export type DeviceStatus = "up" | "warn" | "down";
-export type DeviceType = "hub" | "switch" | "router" | "ap" | "server";
+/** status gravado, ou "unreachable" sem caminho até uma raiz do mapa */
+export type EffectiveStatus = DeviceStatus | "unreachable";
+/** Chave de device_types (cadastrável pelo admin; ver api/deviceTypes.ts). */
+export type DeviceType = string;
 export type LinkStatus = "up" | "warn" | "down";
+export type LinkMedium = "copper" | "fiber" | "wireless" | "vpn";
 
-export type TopologyNode = {
-  id: string;
-  type: "device";
-  position: { x: number; y: number };
-  data: { name: string; type: DeviceType; ip?: string; status: DeviceStatus };
+/** Última amostra de tráfego do link, em bits/s. */
+export type LinkUtilization = { inBps: number; outBps: number; at: string };
+
+/** Inventário do equipamento (como na API: camelCase; campos vazios não vêm). */
+export type DeviceInventory = {
+  vendor?: string | null;
+  model?: string | null;
+  serialNumber?: string | null;
+  firmwareVersion?: string | null;
+  mac?: string | null;
+  location?: string | null;
+  owner?: string | null;
+  /** YYYY-MM-DD */
+  purchaseDate?: string | null;
+  warrantyUntil?: string | null;
+  tags?: string[] | null;
+  customFields?: Record<string, string> | null;
+};
+
+export type DeviceNodePayload = {
+  name: string;
+  type: DeviceType;
+  ip?: string;
+  status: DeviceStatus;
+  /** derivado pelo servidor; ausente nos eventos ao vivo (fica o que o nó já tem) */
+  effectiveStatus?: EffectiveStatus;
+  /** raiz (core) do mapa */
+  isRoot?: boolean;
+  mapId?: string;
+  groupId?: string;
+  latencyMs?: number;
+  probedAt?: string;
+  inventory?: DeviceInventory;
+  ports?: DevicePort[];
+  /** VLANs de que participa; só no GET /topology (o canvas usa o /vlans) */
+  vlanIds?: string[];
+  /** presentes só em nós de referência (equipamento de outro mapa) */
+  refOf?: string;
+  homeMapId?: string;
+  homeMapName?: string;
 };
 
+export type GroupNodePayload = {
+  name: string;
+  kind: GroupKind;
+  collapsed: boolean;
+  mapId?: string;
+  /** grupo pai */
+  groupId?: string;
+};
+
+export type TopologyNode =
+  | {
+      id: string;
+      type: "device";
+      position: { x: number; y: number };
+      parentId?: string;
+      data: DeviceNodePayload;
+    }
+  | {
+      id: string;
+      type: "deviceGroup";
+      position: { x: number; y: number };
+      parentId?: string;
+      style: { width: number; height: number };
+      data: GroupNodePayload;
+    };
+
 export type TopologyEdge = {
   id: string;
   source: string;
   target: string;
   label?: string;
-  data?: { status?: LinkStatus };
+  /** fromHandle/toHandle = nome da porta (LLDP/import); fromPortId/toPortId = porta cadastrada */
+  data?: {
+    status?: LinkStatus;
+    fromHandle?: string;
+    toHandle?: string;
+    fromPortId?: string | null;
+    toPortId?: string | null;
+    capacityMbps?: number | null;
+    medium?: LinkMedium | null;
+    /** ausente = evento sem tráfego (mantém o que já tem); null = nunca amostrado */
+    utilization?: LinkUtilization | null;
+    /** só no GET /topology, como vlanIds do equipamento */
+    vlans?: { vlanId: string; tagged: boolean }[];
+  };
+  /** id da porta de cada ponta (handle do nó) */
   sourceHandle?: string;
   targetHandle?: string;
 };
 
 export type TopologyResponse = { nodes: TopologyNode[]; edges: TopologyEdge[] };
 
+export type StatusSource = "manual" | "probe" | "webhook" | "discovery";
+
+export type StatusEvent = {
+  id: string;
+  previous_status: DeviceStatus | null;
+  status: DeviceStatus;
+  source: StatusSource;
+  created_at: string;
+};
+
+export type HistoryRange = { from?: string; to?: string };
+
 // ---- GET ----
 export function fetchTopology() {
   return api<TopologyResponse>("/topology");
 }
 
 // ---- Devices ----
+export type DeviceRow = {
+  id: string;
+  name: string;
+  type: DeviceType;
+  ip: string | null;
+  status: DeviceStatus;
+  x: number;
+  y: number;
+  map_id: string;
+  group_id: string | null;
+  /** sub-rede mais específica que contém o IP (IPAM) */
+  subnet_id: string | null;
+  vendor: string | null;
+  model: string | null;
+  serial_number: string | null;
+  firmware_version: string | null;
+  mac: string | null;
+  location: string | null;
+  owner: string | null;
+  purchase_date: string | null;
+  warranty_until: string | null;
+  tags: string[];
+  custom_fields: Record<string, string>;
+};
+
+export function fetchDevices() {
+  return api<DeviceRow[]>("/devices");
+}
+
 export function createDevice(payload: {
   name: string;
   type: DeviceType;
@@ -36,8 +158,9 @@ export function createDevice(payload: {
   status?: DeviceStatus;
   x?: number;
   y?: number;
+  mapId?: string;
 }) {
-  return api("/devices", { method: "POST", json: payload });
+  return api<DeviceRow>("/devices", { method: "POST", json: payload });
 }
 
 export function patchDevicePosition(id: string, x: number, y: number) {
@@ -48,11 +171,43 @@ export function patchDeviceStatus(id: string, status: DeviceStatus) {
   return api(`/devices/${id}`, { method: "PATCH", json: { status } });
 }
 
+/** Campos ausentes não mudam; null limpa. */
+export function patchDeviceInventory(id: string, inventory: DeviceInventory) {
+  return api<DeviceRow>(`/devices/${id}`, { method: "PATCH", json: inventory });
+}
+
+export function patchDeviceGroup(id: string, groupId: string | null) {
+  return api(`/devices/${id}`, { method: "PATCH", json: { groupId } });
+}
+
+export function patchDeviceRoot(id: string, isRoot: boolean) {
+  return api(`/devices/${id}`, { method: "PATCH", json: { isRoot } });
+}
+
+/** Status efetivo por equipamento do mapa. */
+export function fetchEffectiveStatus(mapId: string) {
+  return api<Record<string, EffectiveStatus>>(`/effective-status?mapId=${encodeURIComponent(mapId)}`);
+}
+
 export function deleteDevice(id: string) {
   return api(`/devices/${id}`, { method: "DELETE" });
 }
 
 // ---- Links ----
+export type LinkRow = {
+  id: string;
+  from_id: string;
+  to_id: string;
+  status: LinkStatus;
+  label: string | null;
+  from_handle: string | null;
+  to_handle: string | null;
+  from_port_id: string | null;
+  to_port_id: string | null;
+  capacity_mbps: number | null;
+  medium: LinkMedium | null;
+};
+
 export function createLink(payload: {
   fromId: string;
   toId: string;
@@ -60,14 +215,72 @@ export function createLink(payload: {
   label?: string;
   fromHandle?: string;
   toHandle?: string;
+  fromPortId?: string | null;
+  toPortId?: string | null;
+  capacityMbps?: number | null;
+  medium?: LinkMedium | null;
 }) {
-  return api("/links", { method: "POST", json: payload });
+  return api<LinkRow>("/links", { method: "POST", json: payload });
 }
 
 export function patchLinkStatus(id: string, status: LinkStatus) {
   return api(`/links/${id}`, { method: "PATCH", json: { status } });
 }
 
+export function patchLinkCapacity(id: string, payload: { capacityMbps: number | null; medium: LinkMedium | null }) {
+  return api<LinkRow>(`/links/${id}`, { method: "PATCH", json: payload });
+}
+
 export function deleteLink(id: string) {
   return api(`/links/${id}`, { method: "DELETE" });
 }
+
+// ---- Restauração (desfazer) ----
+export type RestoreDevice = DeviceInventory & {
+  id: string;
+  name: string;
+  type: DeviceType;
+  ip?: string;
+  status: DeviceStatus;
+  x: number;
+  y: number;
+  mapId: string;
+  groupId?: string | null;
+  ports?: DevicePort[];
+};
+
+export type RestoreLink = {
+  id: string;
+  fromId: string;
+  toId: string;
+  status: LinkStatus;
+  label?: string;
+  fromHandle?: string;
+  toHandle?: string;
+  fromPortId?: string | null;
+  toPortId?: string | null;
+  capacityMbps?: number | null;
+  medium?: LinkMedium | null;
+};
+
+/** Recria equipamentos/links apagados com os ids originais. */
+export function restoreEntities(payload: { devices?: RestoreDevice[]; links?: RestoreLink[] }) {
+  return api("/restore", { method: "POST", json: payload });
+}
+
+// ---- Histórico de status ----
+function historyQuery(range: HistoryRange) {
+  const qs = new URLSearchParams();
+  if (range.from) qs.set("from", range.from);
+  if (range.to) qs.set("to", range.to);
+  const str = qs.toString();
+  return str ? `?${str}` : "";
+}
+
+export function fetchDeviceHistory(id: string, range: HistoryRange = {}) {
+  return api<StatusEvent[]>(`/devices/${id}/history${historyQuery(range)}`);
+}
+
+export function fetchLinkHistory(id: string, range: HistoryRange = {}) {
+  return api<StatusEvent[]>(`/links/${id}/history${historyQuery(range)}`);
+}
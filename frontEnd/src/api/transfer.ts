@@ -0,0 +1,82 @@
+import { API_BASE_URL, api } from "./client";
+import type { DeviceInventory, DeviceStatus, DeviceType, LinkMedium, LinkStatus } from "./topology";
+import type { DevicePort } from "./ports";
+import type { GroupKind } from "./groups";
+
+/** Documento versionado do GET /export (posições absolutas). */
+export type ExportDocument = {
+  format: "topology-export";
+  version: 1;
+  exportedAt?: string;
+  map?: { id: string; name: string } | null;
+  groups: {
+    id: string;
+    parentId?: string | null;
+    name: string;
+    kind?: GroupKind;
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    collapsed?: boolean;
+  }[];
+  devices: (DeviceInventory & {
+    id: string;
+    name: string;
+    type: DeviceType;
+    ip?: string;
+    status?: DeviceStatus;
+    x: number;
+    y: number;
+    groupId?: string | null;
+    isRoot?: boolean;
+    /** as portas vão sem id; os links apontam para elas pelo nome (fromHandle/toHandle) */
+    ports?: Omit<DevicePort, "id">[];
+  })[];
+  links: {
+    id: string;
+    fromId: string;
+    toId: string;
+    status?: LinkStatus;
+    label?: string;
+    fromHandle?: string;
+    toHandle?: string;
+    capacityMbps?: number;
+    medium?: LinkMedium;
+  }[];
+};
+
+export type ImportMode = "replace" | "merge" | "copy";
+
+type Counts = { created: number; updated: number; deleted: number };
+
+export type ImportReport = {
+  mode: ImportMode;
+  dryRun: boolean;
+  mapId: string;
+  groups: Counts;
+  devices: Counts;
+  links: Counts;
+  remapped: number;
+  warnings: string[];
+};
+
+export function exportTopology(mapId: string) {
+  return api<ExportDocument>(`/export?mapId=${encodeURIComponent(mapId)}`);
+}
+
+/** dryRun=true só simula (nada é gravado) e devolve o mesmo relatório. */
+export function importTopology(payload: { mapId: string; mode: ImportMode; dryRun: boolean; document: unknown }) {
+  return api<ImportReport>("/import", { method: "POST", json: payload });
+}
+
+export type DiagramFormat = "dot" | "graphml" | "drawio";
+
+/** Download direto (o navegador manda o cookie de sessão e usa o Content-Disposition). */
+export function diagramExportUrl(mapId: string, format: DiagramFormat) {
+  return `${API_BASE_URL}/export/${format}?mapId=${encodeURIComponent(mapId)}`;
+}
+
+export function importGraphml(payload: { mapId: string; mode: ImportMode; dryRun: boolean; xml: string }) {
+  return api<ImportReport>("/import/graphml", { method: "POST", json: payload });
+}
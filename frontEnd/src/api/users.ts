@@ -0,0 +1,25 @@
+import { api } from "./client";
+import type { Role } from "./auth";
+
+export type UserRow = {
+  id: string;
+  username: string;
+  role: Role;
+  created_at: string;
+};
+
+export function fetchUsers() {
+  return api<UserRow[]>("/users");
+}
+
+export function createUser(payload: { username: string; password: string; role: Role }) {
+  return api<UserRow>("/users", { method: "POST", json: payload });
+}
+
+export function updateUser(id: string, payload: { password?: string; role?: Role }) {
+  return api<UserRow>(`/users/${id}`, { method: "PATCH", json: payload });
+}
+
+export function deleteUser(id: string) {
+  return api(`/users/${id}`, { method: "DELETE" });
+}
@@ -0,0 +1,53 @@
+import { api } from "./client";
+
+export type Vlan = {
+  id: string;
+  map_id: string;
+  /** tag 802.1Q (1–4094) */
+  vid: number;
+  name: string;
+  color: string;
+  created_at: string;
+};
+
+export type LinkVlan = { vlanId: string; tagged: boolean };
+
+export type VlanWithMembers = Vlan & {
+  deviceIds: string[];
+  links: { linkId: string; tagged: boolean }[];
+};
+
+/** Equipamentos da VLAN que não se alcançam por links que a carregam. */
+export type VlanIslands = {
+  vlan: Pick<Vlan, "id" | "vid" | "name" | "color">;
+  /** maior ilha primeiro */
+  islands: { id: string; name: string }[][];
+};
+
+export function fetchVlans(mapId: string) {
+  return api<VlanWithMembers[]>(`/vlans?mapId=${encodeURIComponent(mapId)}`);
+}
+
+export function fetchVlanIslands(mapId: string) {
+  return api<VlanIslands[]>(`/vlans/islands?mapId=${encodeURIComponent(mapId)}`);
+}
+
+export function createVlan(payload: { mapId: string; vid: number; name: string; color?: string }) {
+  return api<Vlan>("/vlans", { method: "POST", json: payload });
+}
+
+export function updateVlan(id: string, payload: Partial<{ vid: number; name: string; color: string }>) {
+  return api<Vlan>(`/vlans/${id}`, { method: "PATCH", json: payload });
+}
+
+export function deleteVlan(id: string) {
+  return api(`/vlans/${id}`, { method: "DELETE" });
+}
+
+export function setLinkVlans(linkId: string, vlans: LinkVlan[]) {
+  return api<LinkVlan[]>(`/links/${linkId}/vlans`, { method: "PUT", json: { vlans } });
+}
+
+export function setDeviceVlans(deviceId: string, vlanIds: string[]) {
+  return api<string[]>(`/devices/${deviceId}/vlans`, { method: "PUT", json: { vlanIds } });
+}
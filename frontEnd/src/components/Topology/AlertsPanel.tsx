@@ -0,0 +1,655 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  createAlertChannel,
+  createAlertRule,
+  deleteAlertChannel,
+  deleteAlertRule,
+  fetchActiveAlerts,
+  fetchAlertChannels,
+  fetchAlertRules,
+  testAlertChannel,
+  updateAlertChannel,
+  updateAlertRule,
+  type ActiveAlert,
+  type AlertChannel,
+  type AlertChannelConfig,
+  type AlertChannelKind,
+  type AlertRule,
+  type AlertRulePayload,
+  type EmailConfig,
+  type WebhookConfig,
+} from "@/api/alerts";
+import type { DeviceStatus } from "@/api/topology";
+
+const buttonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+const removeClass =
+  "shrink-0 rounded-lg px-2 py-1 text-[11px] font-extrabold text-rose-600 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-950/40";
+
+const inputClass =
+  "h-8 min-w-0 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100";
+
+const primaryClass =
+  "h-8 rounded-lg bg-slate-900 px-3 text-[11px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white";
+
+const checkClass = "flex items-center gap-1.5 text-[11px] font-semibold text-slate-600 dark:text-slate-300";
+
+const kindLabel: Record<AlertChannelKind, string> = { webhook: "Webhook", email: "Email (SMTP)", chat: "Chat (Slack/Teams)" };
+
+const STATUSES: DeviceStatus[] = ["up", "warn", "down"];
+
+type Tab = "rules" | "channels" | "active";
+
+// listas digitadas separadas por vírgula
+const splitList = (v: string) => [...new Set(v.split(",").map((s) => s.trim()).filter(Boolean))];
+
+type RuleForm = {
+  name: string;
+  entityType: "device" | "link";
+  types: string;
+  namePattern: string;
+  tags: string;
+  fromStatus: DeviceStatus | "";
+  toStatus: DeviceStatus;
+  /** minutos, como o usuário digita */
+  minDuration: string;
+  repeat: string;
+  notifyRecovery: boolean;
+  mapId: string | null;
+  channelIds: string[];
+};
+
+const emptyRule = (mapId: string): RuleForm => ({
+  name: "",
+  entityType: "device",
+  types: "",
+  namePattern: "",
+  tags: "",
+  fromStatus: "up",
+  toStatus: "down",
+  minDuration: "2",
+  repeat: "",
+  notifyRecovery: true,
+  mapId,
+  channelIds: [],
+});
+
+const ruleToForm = (r: AlertRule): RuleForm => ({
+  name: r.name,
+  entityType: r.entity_type,
+  types: r.types.join(", "),
+  namePattern: r.name_pattern ?? "",
+  tags: r.tags.join(", "),
+  fromStatus: r.from_status ?? "",
+  toStatus: r.to_status,
+  minDuration: String(r.min_duration_s / 60),
+  repeat: r.repeat_interval_s ? String(r.repeat_interval_s / 60) : "",
+  notifyRecovery: r.notify_recovery,
+  mapId: r.map_id,
+  channelIds: r.channel_ids,
+});
+
+type ChannelForm = {
+  name: string;
+  kind: AlertChannelKind;
+  url: string;
+  /** webhook: uma linha "Nome: valor" por cabeçalho */
+  headers: string;
+  host: string;
+  port: string;
+  secure: boolean;
+  username: string;
+  /** vazio na edição = mantém a senha gravada */
+  password: string;
+  from: string;
+  to: string;
+};
+
+const emptyChannel: ChannelForm = {
+  name: "",
+  kind: "webhook",
+  url: "",
+  headers: "",
+  host: "",
+  port: "25",
+  secure: false,
+  username: "",
+  password: "",
+  from: "",
+  to: "",
+};
+
+function channelToForm(c: AlertChannel): ChannelForm {
+  const cfg = c.config as Partial<WebhookConfig & EmailConfig>;
+  return {
+    ...emptyChannel,
+    name: c.name,
+    kind: c.kind,
+    url: cfg.url ?? "",
+    headers: Object.entries((cfg.headers ?? {}) as Record<string, string>)
+      .map(([k, v]) => `${k}: ${v}`)
+      .join("\n"),
+    host: cfg.host ?? "",
+    port: cfg.port ? String(cfg.port) : emptyChannel.port,
+    secure: Boolean(cfg.secure),
+    username: cfg.username ?? "",
+    from: cfg.from ?? "",
+    to: (cfg.to ?? []).join(", "),
+  };
+}
+
+function formToConfig(f: ChannelForm): AlertChannelConfig | string {
+  if (f.kind === "chat") return f.url.trim() ? { url: f.url.trim() } : "Informe a URL do webhook do chat.";
+  if (f.kind === "webhook") {
+    if (!f.url.trim()) return "Informe a URL do webhook.";
+    const headers: Record<string, string> = {};
+    for (const line of f.headers.split("\n").filter((l) => l.trim())) {
+      const i = line.indexOf(":");
+      if (i <= 0) return `Cabeçalho inválido: ${line}`;
+      headers[line.slice(0, i).trim()] = line.slice(i + 1).trim();
+    }
+    return { url: f.url.trim(), headers };
+  }
+  const port = Number(f.port);
+  if (!f.host.trim() || !Number.isInteger(port) || port < 1 || port > 65535) return "Informe servidor e porta SMTP.";
+  const to = splitList(f.to);
+  if (!f.from.trim() || to.length === 0) return "Informe remetente e destinatário(s).";
+  return {
+    host: f.host.trim(),
+    port,
+    secure: f.secure,
+    username: f.username.trim() || undefined,
+    // em branco fica de fora: na edição o servidor mantém a gravada
+    password: f.password || undefined,
+    from: f.from.trim(),
+    to,
+  };
+}
+
+function describeRule(r: AlertRule, channels: Map<string, AlertChannel>) {
+  const parts = [
+    r.entity_type === "device" ? "equipamento" : "link",
+    `${r.from_status ?? "qualquer"}→${r.to_status}`,
+    r.min_duration_s > 0 ? `≥ ${r.min_duration_s / 60} min` : null,
+    r.repeat_interval_s ? `repete a cada ${r.repeat_interval_s / 60} min` : null,
+    r.types.length ? `tipos: ${r.types.join(", ")}` : null,
+    r.name_pattern ? `nome: ${r.name_pattern}` : null,
+    r.tags.length ? `tags: ${r.tags.join(", ")}` : null,
+    r.map_id ? null : "todos os mapas",
+    `${r.channel_ids.map((id) => channels.get(id)?.name ?? "?").join(", ") || "sem canais"}`,
+  ];
+  return parts.filter(Boolean).join(" • ");
+}
+
+/**
+ * Alertas (só admin): regras que casam transições de status, canais de
+ * notificação com envio de teste e os alertas abertos agora.
+ */
+export default function AlertsPanel({
+  mapId,
+  onMessage,
+  onClose,
+}: {
+  mapId: string;
+  onMessage: (msg: string) => void;
+  onClose: () => void;
+}) {
+  const [tab, setTab] = useState<Tab>("rules");
+  const [rules, setRules] = useState<AlertRule[] | null>(null);
+  const [channels, setChannels] = useState<AlertChannel[] | null>(null);
+  const [active, setActive] = useState<ActiveAlert[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState<number>(0);
+
+  // null = formulário fechado; "" = criando; id = editando
+  const [ruleEditing, setRuleEditing] = useState<string | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleForm>(() => emptyRule(mapId));
+  const [channelEditing, setChannelEditing] = useState<string | null>(null);
+  const [channelForm, setChannelForm] = useState<ChannelForm>(emptyChannel);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchAlertRules(), fetchAlertChannels(), fetchActiveAlerts()])
+      .then(([r, c, a]) => {
+        if (cancelled) return;
+        setError(null);
+        setRules(r);
+        setChannels(c);
+        setActive(a);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "unknown");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const run = useCallback(
+    async (fn: () => Promise<unknown>, ok: string) => {
+      try {
+        await fn();
+        onMessage(ok);
+        setReloadKey((k) => k + 1);
+        return true;
+      } catch (err: unknown) {
+        onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+        return false;
+      }
+    },
+    [onMessage]
+  );
+
+  const channelById = new Map((channels ?? []).map((c) => [c.id, c]));
+  const setRule = (patch: Partial<RuleForm>) => setRuleForm((f) => ({ ...f, ...patch }));
+  const setChannel = (patch: Partial<ChannelForm>) => setChannelForm((f) => ({ ...f, ...patch }));
+
+  // ---- regras ----
+
+  const submitRule = async () => {
+    const f = ruleForm;
+    if (!f.name.trim()) return onMessage("Dê um nome à regra.");
+    if (f.fromStatus === f.toStatus) return onMessage("Status de origem e destino devem ser diferentes.");
+    const minDuration = Number(f.minDuration || 0);
+    const repeat = f.repeat.trim() ? Number(f.repeat) : null;
+    if (!Number.isFinite(minDuration) || minDuration < 0) return onMessage("Duração mínima inválida.");
+    if (repeat !== null && (!Number.isFinite(repeat) || repeat < 1)) return onMessage("Repetição mínima: 1 min.");
+
+    const payload: AlertRulePayload = {
+      name: f.name.trim(),
+      mapId: f.mapId,
+      entityType: f.entityType,
+      types: splitList(f.types),
+      namePattern: f.namePattern.trim() || null,
+      tags: splitList(f.tags),
+      fromStatus: f.fromStatus || null,
+      toStatus: f.toStatus,
+      minDurationS: Math.round(minDuration * 60),
+      repeatIntervalS: repeat === null ? null : Math.round(repeat * 60),
+      notifyRecovery: f.notifyRecovery,
+      channelIds: f.channelIds,
+    };
+    const ok = await run(
+      () => (ruleEditing ? updateAlertRule(ruleEditing, payload) : createAlertRule(payload)),
+      ruleEditing ? "Regra salva ✅" : "Regra criada ✅"
+    );
+    if (ok) setRuleEditing(null);
+  };
+
+  const editRule = (r: AlertRule | null) => {
+    setRuleForm(r ? ruleToForm(r) : emptyRule(mapId));
+    setRuleEditing(r ? r.id : "");
+  };
+
+  const removeRule = (r: AlertRule) => {
+    if (!window.confirm(`Remover a regra "${r.name}"? Alertas abertos dela são descartados.`)) return;
+    if (ruleEditing === r.id) setRuleEditing(null);
+    return run(() => deleteAlertRule(r.id), "Regra removida ✅");
+  };
+
+  // ---- canais ----
+
+  const submitChannel = async () => {
+    const f = channelForm;
+    if (!f.name.trim()) return onMessage("Dê um nome ao canal.");
+    const config = formToConfig(f);
+    if (typeof config === "string") return onMessage(config);
+    const ok = await run(
+      () =>
+        channelEditing
+          ? updateAlertChannel(channelEditing, { name: f.name.trim(), config })
+          : createAlertChannel({ name: f.name.trim(), kind: f.kind, config }),
+      channelEditing ? "Canal salvo ✅" : "Canal criado ✅"
+    );
+    if (ok) setChannelEditing(null);
+  };
+
+  const editChannel = (c: AlertChannel | null) => {
+    setChannelForm(c ? channelToForm(c) : emptyChannel);
+    setChannelEditing(c ? c.id : "");
+  };
+
+  const removeChannel = (c: AlertChannel) => {
+    if (!window.confirm(`Remover o canal "${c.name}"? As regras deixam de avisá-lo.`)) return;
+    if (channelEditing === c.id) setChannelEditing(null);
+    return run(() => deleteAlertChannel(c.id), "Canal removido ✅");
+  };
+
+  const sendTest = async (c: AlertChannel) => {
+    setTesting(c.id);
+    try {
+      await testAlertChannel(c.id);
+      onMessage(`Teste enviado para "${c.name}" ✅`);
+    } catch (err: unknown) {
+      onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const tabButton = (t: Tab, label: string) => (
+    <button
+      onClick={() => setTab(t)}
+      className={`rounded-lg px-2 py-1 text-[11px] font-extrabold ${
+        tab === t ? "bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900" : "text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const emptyLine = (text: string) => <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">{text}</div>;
+
+  return (
+    <div className="w-[400px] rounded-2xl border border-slate-900/10 bg-white/95 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/95">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-[13px] font-extrabold text-slate-900 dark:text-slate-100">Alertas</h2>
+        <div className="flex">
+          <button onClick={() => setReloadKey((k) => k + 1)} className={buttonClass}>
+            Atualizar
+          </button>
+          <button onClick={onClose} className={buttonClass}>
+            Fechar
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-2 flex gap-1">
+        {tabButton("rules", "Regras")}
+        {tabButton("channels", "Canais")}
+        {tabButton("active", `Ativos${active && active.length > 0 ? ` (${active.length})` : ""}`)}
+      </div>
+
+      {error && <div className="py-2 text-[11px] font-semibold text-rose-600 dark:text-rose-300">Erro: {error}</div>}
+
+      {tab === "rules" && (
+        <>
+          {ruleEditing === null ? (
+            <button onClick={() => editRule(null)} className={`${primaryClass} mb-2`}>
+              Nova regra
+            </button>
+          ) : (
+            <div className="mb-2 grid grid-cols-2 gap-2 rounded-lg border border-slate-900/10 p-2 dark:border-slate-700">
+              <input
+                value={ruleForm.name}
+                onChange={(e) => setRule({ name: e.target.value })}
+                placeholder="Nome da regra"
+                className={`${inputClass} col-span-2`}
+              />
+              <select
+                value={ruleForm.entityType}
+                onChange={(e) => setRule({ entityType: e.target.value as RuleForm["entityType"], types: "" })}
+                className={inputClass}
+              >
+                <option value="device">Equipamentos</option>
+                <option value="link">Links</option>
+              </select>
+              <select
+                value={ruleForm.mapId ?? ""}
+                onChange={(e) => setRule({ mapId: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value={mapId}>Este mapa</option>
+                <option value="">Todos os mapas</option>
+                {ruleForm.mapId && ruleForm.mapId !== mapId && <option value={ruleForm.mapId}>Outro mapa</option>}
+              </select>
+              <div className="col-span-2 flex items-center gap-2">
+                <select
+                  value={ruleForm.fromStatus}
+                  onChange={(e) => setRule({ fromStatus: e.target.value as RuleForm["fromStatus"] })}
+                  className={`${inputClass} flex-1`}
+                  title="Status de origem"
+                >
+                  <option value="">qualquer</option>
+                  {STATUSES.map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </select>
+                <span className="text-[11px] font-extrabold text-slate-500">→</span>
+                <select
+                  value={ruleForm.toStatus}
+                  onChange={(e) => setRule({ toStatus: e.target.value as DeviceStatus })}
+                  className={`${inputClass} flex-1`}
+                  title="Status de destino"
+                >
+                  {STATUSES.map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </select>
+              </div>
+              <input
+                value={ruleForm.minDuration}
+                onChange={(e) => setRule({ minDuration: e.target.value })}
+                placeholder="Por pelo menos (min)"
+                inputMode="decimal"
+                title="Por pelo menos (minutos)"
+                className={inputClass}
+              />
+              <input
+                value={ruleForm.repeat}
+                onChange={(e) => setRule({ repeat: e.target.value })}
+                placeholder="Repetir a cada (min)"
+                inputMode="decimal"
+                title="Repetir a cada (minutos); vazio = avisa uma vez"
+                className={inputClass}
+              />
+              <input
+                value={ruleForm.types}
+                onChange={(e) => setRule({ types: e.target.value })}
+                placeholder={ruleForm.entityType === "device" ? "Tipos (router, switch…)" : "Meios (fiber, vpn…)"}
+                className={inputClass}
+              />
+              <input
+                value={ruleForm.tags}
+                onChange={(e) => setRule({ tags: e.target.value })}
+                placeholder="Tags (qualquer uma)"
+                className={inputClass}
+              />
+              <input
+                value={ruleForm.namePattern}
+                onChange={(e) => setRule({ namePattern: e.target.value })}
+                placeholder="Nome (curingas * e ?)"
+                className={`${inputClass} col-span-2`}
+              />
+              <label className={`${checkClass} col-span-2`}>
+                <input
+                  type="checkbox"
+                  checked={ruleForm.notifyRecovery}
+                  onChange={(e) => setRule({ notifyRecovery: e.target.checked })}
+                />
+                Avisar quando recuperar
+              </label>
+              <div className="col-span-2">
+                <div className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Canais</div>
+                {(channels ?? []).length === 0 && emptyLine("Nenhum canal cadastrado (aba Canais).")}
+                {(channels ?? []).map((c) => (
+                  <label key={c.id} className={checkClass}>
+                    <input
+                      type="checkbox"
+                      checked={ruleForm.channelIds.includes(c.id)}
+                      onChange={(e) =>
+                        setRule({
+                          channelIds: e.target.checked
+                            ? [...ruleForm.channelIds, c.id]
+                            : ruleForm.channelIds.filter((id) => id !== c.id),
+                        })
+                      }
+                    />
+                    {c.name} <span className="text-slate-400">({kindLabel[c.kind]})</span>
+                  </label>
+                ))}
+              </div>
+              <div className="col-span-2 flex justify-end gap-2">
+                <button onClick={() => setRuleEditing(null)} className={buttonClass}>
+                  Cancelar
+                </button>
+                <button onClick={submitRule} className={primaryClass}>
+                  {ruleEditing ? "Salvar" : "Criar"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="max-h-[320px] overflow-auto">
+            {!rules
+              ? !error && emptyLine("Carregando...")
+              : rules.length === 0
+                ? emptyLine("Nenhuma regra de alerta.")
+                : rules.map((r) => (
+                    <div key={r.id} className="flex items-center gap-2 border-b border-slate-900/5 py-1.5 last:border-0 dark:border-slate-800">
+                      <div className={`min-w-0 flex-1 ${r.enabled ? "" : "opacity-50"}`}>
+                        <div className="truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">{r.name}</div>
+                        <div className="text-[10px] font-semibold text-slate-500 dark:text-slate-400">{describeRule(r, channelById)}</div>
+                      </div>
+                      <button
+                        onClick={() => run(() => updateAlertRule(r.id, { enabled: !r.enabled }), r.enabled ? "Regra desligada ✅" : "Regra ligada ✅")}
+                        className={buttonClass}
+                      >
+                        {r.enabled ? "Desligar" : "Ligar"}
+                      </button>
+                      <button onClick={() => editRule(r)} className={buttonClass}>
+                        Editar
+                      </button>
+                      <button onClick={() => removeRule(r)} className={removeClass}>
+                        Remover
+                      </button>
+                    </div>
+                  ))}
+          </div>
+        </>
+      )}
+
+      {tab === "channels" && (
+        <>
+          {channelEditing === null ? (
+            <button onClick={() => editChannel(null)} className={`${primaryClass} mb-2`}>
+              Novo canal
+            </button>
+          ) : (
+            <div className="mb-2 grid grid-cols-2 gap-2 rounded-lg border border-slate-900/10 p-2 dark:border-slate-700">
+              <input value={channelForm.name} onChange={(e) => setChannel({ name: e.target.value })} placeholder="Nome" className={inputClass} />
+              <select
+                value={channelForm.kind}
+                onChange={(e) => setChannel({ kind: e.target.value as AlertChannelKind })}
+                disabled={Boolean(channelEditing)}
+                className={inputClass}
+              >
+                {(Object.keys(kindLabel) as AlertChannelKind[]).map((k) => (
+                  <option key={k} value={k}>{kindLabel[k]}</option>
+                ))}
+              </select>
+
+              {channelForm.kind !== "email" ? (
+                <input
+                  value={channelForm.url}
+                  onChange={(e) => setChannel({ url: e.target.value })}
+                  placeholder={channelForm.kind === "chat" ? "URL do incoming webhook" : "https://…"}
+                  className={`${inputClass} col-span-2`}
+                />
+              ) : (
+                <>
+                  <input value={channelForm.host} onChange={(e) => setChannel({ host: e.target.value })} placeholder="Servidor SMTP" className={inputClass} />
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={channelForm.port}
+                      onChange={(e) => setChannel({ port: e.target.value })}
+                      placeholder="Porta"
+                      inputMode="numeric"
+                      className={`${inputClass} w-16`}
+                    />
+                    <label className={checkClass} title="TLS direto (porta 465)">
+                      <input type="checkbox" checked={channelForm.secure} onChange={(e) => setChannel({ secure: e.target.checked })} />
+                      TLS
+                    </label>
+                  </div>
+                  <input value={channelForm.username} onChange={(e) => setChannel({ username: e.target.value })} placeholder="Usuário (opcional)" className={inputClass} />
+                  <input
+                    type="password"
+                    value={channelForm.password}
+                    onChange={(e) => setChannel({ password: e.target.value })}
+                    placeholder={channelEditing && channelById.get(channelEditing)?.config.hasPassword ? "Senha (mantida)" : "Senha"}
+                    className={inputClass}
+                  />
+                  <input value={channelForm.from} onChange={(e) => setChannel({ from: e.target.value })} placeholder="Remetente" className={inputClass} />
+                  <input value={channelForm.to} onChange={(e) => setChannel({ to: e.target.value })} placeholder="Destinatários (vírgula)" className={inputClass} />
+                </>
+              )}
+
+              {channelForm.kind === "webhook" && (
+                <textarea
+                  value={channelForm.headers}
+                  onChange={(e) => setChannel({ headers: e.target.value })}
+                  placeholder={"Cabeçalhos, um por linha\nAuthorization: Bearer …"}
+                  rows={2}
+                  className="col-span-2 rounded-lg border border-slate-900/10 bg-white px-2 py-1 text-[11px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                />
+              )}
+
+              <div className="col-span-2 flex justify-end gap-2">
+                <button onClick={() => setChannelEditing(null)} className={buttonClass}>
+                  Cancelar
+                </button>
+                <button onClick={submitChannel} className={primaryClass}>
+                  {channelEditing ? "Salvar" : "Criar"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="max-h-[320px] overflow-auto">
+            {!channels
+              ? !error && emptyLine("Carregando...")
+              : channels.length === 0
+                ? emptyLine("Nenhum canal de notificação.")
+                : channels.map((c) => (
+                    <div key={c.id} className="flex items-center gap-2 border-b border-slate-900/5 py-1.5 last:border-0 dark:border-slate-800">
+                      <div className={`min-w-0 flex-1 ${c.enabled ? "" : "opacity-50"}`}>
+                        <div className="truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">{c.name}</div>
+                        <div className="truncate text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                          {kindLabel[c.kind]} • {String(c.kind === "email" ? (c.config.to as string[]).join(", ") : c.config.url)}
+                        </div>
+                      </div>
+                      <button onClick={() => sendTest(c)} disabled={testing === c.id} className={buttonClass}>
+                        {testing === c.id ? "Enviando..." : "Enviar teste"}
+                      </button>
+                      <button
+                        onClick={() => run(() => updateAlertChannel(c.id, { enabled: !c.enabled }), c.enabled ? "Canal desligado ✅" : "Canal ligado ✅")}
+                        className={buttonClass}
+                      >
+                        {c.enabled ? "Desligar" : "Ligar"}
+                      </button>
+                      <button onClick={() => editChannel(c)} className={buttonClass}>
+                        Editar
+                      </button>
+                      <button onClick={() => removeChannel(c)} className={removeClass}>
+                        Remover
+                      </button>
+                    </div>
+                  ))}
+          </div>
+        </>
+      )}
+
+      {tab === "active" && (
+        <div className="max-h-[380px] overflow-auto">
+          {!active
+            ? !error && emptyLine("Carregando...")
+            : active.length === 0
+              ? <div className="py-2 text-[11px] font-semibold text-emerald-700 dark:text-emerald-300">Nenhum alerta aberto ✅</div>
+              : active.map((a) => (
+                  <div key={`${a.rule_id}-${a.entity_id}`} className="border-b border-slate-900/5 py-1.5 last:border-0 dark:border-slate-800">
+                    <div className="truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">
+                      {a.entity_name ?? a.entity_id} <span className="text-rose-600 dark:text-rose-300">{a.status ?? "?"}</span>
+                    </div>
+                    <div className="text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                      {a.rule_name} • desde {new Date(a.since).toLocaleString()} • avisado {new Date(a.last_notified_at).toLocaleString()}
+                    </div>
+                  </div>
+                ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { fetchAudit, type AuditAction, type AuditEntityType, type AuditEntry } from "@/api/audit";
+
+const actionLabel: Record<AuditAction, string> = {
+  create: "criou",
+  update: "alterou",
+  delete: "removeu",
+  position: "moveu",
+};
+
+const entityLabel: Record<AuditEntityType, string> = {
+  device: "equipamento",
+  link: "link",
+  group: "grupo",
+  map: "mapa",
+  subnet: "sub-rede",
+  device_type: "tipo de equipamento",
+  port: "porta",
+  vlan: "VLAN",
+  map_ref: "referência",
+  user: "usuário",
+};
+
+const actionColor: Record<AuditAction, string> = {
+  create: "text-emerald-600 dark:text-emerald-400",
+  update: "text-sky-600 dark:text-sky-400",
+  delete: "text-rose-600 dark:text-rose-400",
+  position: "text-slate-500 dark:text-slate-400",
+};
+
+function formatValue(v: unknown) {
+  if (v === null || v === undefined) return "∅";
+  if (typeof v === "number") return String(Math.round(v * 100) / 100);
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+/** Campos alterados no formato "campo: antes → depois". */
+function describeChanges(e: AuditEntry) {
+  if (e.action === "create" || e.action === "delete") return [];
+  const keys = Object.keys(e.after ?? {});
+  return keys.map((k) => `${k}: ${formatValue(e.before?.[k])} → ${formatValue(e.after?.[k])}`);
+}
+
+export default function AuditPanel({
+  resolveName,
+  canJump,
+  onJump,
+  onClose,
+}: {
+  /** nome atual no canvas (update só traz os campos alterados) */
+  resolveName: (type: AuditEntityType, id: string) => string | undefined;
+  canJump: (type: AuditEntityType, id: string) => boolean;
+  onJump: (type: AuditEntityType, id: string) => void;
+  onClose: () => void;
+}) {
+  const [entityType, setEntityType] = useState<AuditEntityType | "">("");
+  const [actor, setActor] = useState<string>("");
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("");
+  const [reloadKey, setReloadKey] = useState<number>(0);
+
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAudit({
+      entityType: entityType || undefined,
+      actor: actor.trim() || undefined,
+      from: from ? new Date(from).toISOString() : undefined,
+      // "até" inclui o dia inteiro
+      to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    })
+      .then((list) => {
+        if (cancelled) return;
+        setError(null);
+        setEntries(list);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "unknown");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, actor, from, to, reloadKey]);
+
+  const inputClass =
+    "h-8 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100";
+
+  return (
+    <div className="w-[380px] rounded-2xl border border-slate-900/10 bg-white/95 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/95">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-[13px] font-extrabold text-slate-900 dark:text-slate-100">Histórico de alterações</h2>
+        <div className="flex gap-1">
+          <button
+            onClick={() => setReloadKey((k) => k + 1)}
+            className="rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
+          >
+            Atualizar
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
+          >
+            Fechar
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select value={entityType} onChange={(e) => setEntityType(e.target.value as AuditEntityType | "")} className={inputClass}>
+          <option value="">Tudo</option>
+          {(Object.keys(entityLabel) as AuditEntityType[]).map((t) => (
+            <option key={t} value={t}>{entityLabel[t]}</option>
+          ))}
+        </select>
+        <input value={actor} onChange={(e) => setActor(e.target.value)} placeholder="Usuário" className={inputClass} />
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} title="De" className={inputClass} />
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} title="Até" className={inputClass} />
+      </div>
+
+      <div className="mt-2 max-h-[320px] overflow-auto">
+        {error ? (
+          <div className="py-2 text-[11px] font-semibold text-rose-600 dark:text-rose-300">Erro: {error}</div>
+        ) : !entries ? (
+          <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Carregando...</div>
+        ) : entries.length === 0 ? (
+          <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Nenhuma alteração encontrada.</div>
+        ) : (
+          entries.map((e) => {
+            const name =
+              resolveName(e.entity_type, e.entity_id) ??
+              formatValue(
+                e.after?.name ?? e.before?.name ?? e.after?.label ?? e.before?.label ?? e.after?.username ?? e.before?.username ?? e.entity_id.slice(0, 8)
+              );
+            const jumpable = canJump(e.entity_type, e.entity_id);
+            return (
+              <button
+                key={e.id}
+                onClick={() => jumpable && onJump(e.entity_type, e.entity_id)}
+                disabled={!jumpable}
+                title={jumpable ? "Ir para o item no mapa" : "Item não está neste mapa"}
+                className="block w-full border-b border-slate-900/5 py-1.5 text-left last:border-0 enabled:hover:bg-slate-50 dark:border-slate-800 dark:enabled:hover:bg-slate-800"
+              >
+                <div className="flex items-center justify-between gap-2 text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+                  <span className="min-w-0 truncate">
+                    <b className="text-slate-900 dark:text-slate-100">{e.actor_name}</b>{" "}
+                    <span className={`font-extrabold ${actionColor[e.action]}`}>{actionLabel[e.action]}</span>{" "}
+                    {entityLabel[e.entity_type]} <b>{name}</b>
+                  </span>
+                  <span className="shrink-0 text-slate-400 dark:text-slate-500" title={new Date(e.created_at).toLocaleString()}>
+                    {new Date(e.created_at).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+                  </span>
+                </div>
+                {describeChanges(e).map((c) => (
+                  <div key={c} className="truncate pl-2 text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                    {c}
+                  </div>
+                ))}
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import type { Edge } from "reactflow";
+import Modal from "@/components/ui/Modal";
+import { bulkImport, type BulkDeviceReport, type BulkImportReport, type BulkLinkReport } from "@/api/bulkImport";
+import type { FlowNode } from "./groups";
+import { layoutWithDagre } from "./layout";
+import { readSpreadsheet, type SheetRow } from "./spreadsheet";
+
+const fileClass = "mt-1 block w-full text-[12px] font-semibold text-slate-700 dark:text-slate-200";
+const labelClass = "text-[11px] font-bold text-slate-500 dark:text-slate-400";
+
+/**
+ * Equipamentos sem x/y: dagre só entre eles (com os links da planilha) e o
+ * bloco resultante vai à direita do que já está no mapa.
+ */
+function autoPlace(rows: SheetRow[], report: BulkImportReport, origin: { x: number; y: number }) {
+  const pending = report.devices.filter((d) => d.x === undefined && d.y === undefined);
+  if (pending.length === 0) return rows;
+
+  const idOf = (ref: string | undefined) => {
+    const lower = ref?.toLowerCase();
+    const d = pending.find((p) => p.name?.toLowerCase() === lower) ?? pending.find((p) => p.ip === ref);
+    return d ? `row-${d.row}` : undefined;
+  };
+
+  const nodes = pending.map((d) => ({ id: `row-${d.row}`, type: "device", position: { x: 0, y: 0 }, data: {} }) as FlowNode);
+  const edges: Edge[] = report.links.flatMap((l) => {
+    const source = idOf(l.from);
+    const target = idOf(l.to);
+    return source && target ? [{ id: `link-${l.row}`, source, target }] : [];
+  });
+
+  const laidOut = layoutWithDagre(nodes, edges, "TB");
+  const minX = Math.min(...laidOut.map((n) => n.position.x));
+  const minY = Math.min(...laidOut.map((n) => n.position.y));
+
+  const next = rows.map((r) => ({ ...r }));
+  laidOut.forEach((n) => {
+    const i = Number(n.id.slice(4)) - 2;
+    next[i].x = Math.round(origin.x + n.position.x - minX);
+    next[i].y = Math.round(origin.y + n.position.y - minY);
+  });
+  return next;
+}
+
+function Issues({ row }: { row: BulkDeviceReport | BulkLinkReport }) {
+  return (
+    <>
+      {row.errors.map((e) => (
+        <div key={e} className="text-rose-600 dark:text-rose-300">✖ {e}</div>
+      ))}
+      {row.warnings.map((w) => (
+        <div key={w} className="text-amber-700 dark:text-amber-300">⚠ {w}</div>
+      ))}
+    </>
+  );
+}
+
+/** Planilha de equipamentos (CSV ou XLSX com as duas abas) + links opcionais; valida antes de gravar. */
+export default function BulkImportModal({
+  open,
+  mapId,
+  origin,
+  onClose,
+  onImported,
+}: {
+  open: boolean;
+  mapId: string;
+  /** canto onde entram os equipamentos sem coordenadas */
+  origin: { x: number; y: number };
+  onClose: () => void;
+  onImported: (report: BulkImportReport) => void;
+}) {
+  const [devices, setDevices] = useState<SheetRow[]>([]);
+  const [links, setLinks] = useState<SheetRow[]>([]);
+  const [report, setReport] = useState<BulkImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const simulate = async (d: SheetRow[], l: SheetRow[]) => {
+    setReport(null);
+    setError(null);
+    if (d.length === 0 && l.length === 0) return;
+    setBusy(true);
+    try {
+      setReport(await bulkImport({ mapId, dryRun: true, devices: d, links: l }));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "unknown");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onDevicesFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const sheet = await readSpreadsheet(file);
+      // XLSX com aba de links preenche os dois de uma vez
+      const l = sheet.links ?? links;
+      setDevices(sheet.first);
+      setLinks(l);
+      await simulate(sheet.first, l);
+    } catch (err: unknown) {
+      setError(`Planilha ilegível: ${err instanceof Error ? err.message : "unknown"}`);
+    }
+  };
+
+  const onLinksFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const sheet = await readSpreadsheet(file);
+      setLinks(sheet.first);
+      await simulate(devices, sheet.first);
+    } catch (err: unknown) {
+      setError(`Planilha ilegível: ${err instanceof Error ? err.message : "unknown"}`);
+    }
+  };
+
+  const commit = async () => {
+    if (!report?.valid) return;
+    setBusy(true);
+    try {
+      const r = await bulkImport({ mapId, dryRun: false, devices: autoPlace(devices, report, origin), links });
+      setDevices([]);
+      setLinks([]);
+      setReport(null);
+      onImported(r);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "unknown");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const errorCount = report
+    ? [...report.devices, ...report.links].reduce((sum, r) => sum + r.errors.length, 0)
+    : 0;
+
+  return (
+    <Modal open={open} title="Importar planilha (CSV ou XLSX)" onClose={onClose}>
+      <div className="space-y-3">
+        <div>
+          <label className={labelClass}>Equipamentos: name, type, ip, status, x, y</label>
+          <input type="file" accept=".csv,.xlsx,text/csv" onChange={(e) => onDevicesFile(e.target.files?.[0])} className={fileClass} />
+        </div>
+
+        <div>
+          <label className={labelClass}>Links (opcional): from, to, label, status — por nome ou IP</label>
+          <input type="file" accept=".csv,.xlsx,text/csv" onChange={(e) => onLinksFile(e.target.files?.[0])} className={fileClass} />
+        </div>
+
+        {busy && <div className="text-[11px] font-semibold text-slate-500 dark:text-slate-400">Processando...</div>}
+        {error && <div className="break-words text-[11px] font-semibold text-rose-600 dark:text-rose-300">Erro: {error}</div>}
+
+        {report && (
+          <div className="max-h-80 overflow-auto rounded-xl border border-slate-900/10 p-3 text-[11px] font-semibold text-slate-700 dark:border-slate-700 dark:text-slate-200">
+            <div className="mb-1 font-extrabold text-slate-900 dark:text-slate-100">
+              Simulação: {report.devices.length} equipamentos, {report.links.length} links
+              {errorCount > 0 ? ` — ${errorCount} erros` : " — sem erros"}
+            </div>
+
+            {report.devices.length > 0 && (
+              <table className="mb-2 w-full text-left">
+                <thead className="text-slate-500 dark:text-slate-400">
+                  <tr>
+                    <th className="pr-2">Linha</th>
+                    <th className="pr-2">Nome</th>
+                    <th className="pr-2">Tipo</th>
+                    <th className="pr-2">IP</th>
+                    <th>Situação</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.devices.map((d) => (
+                    <tr key={d.row} className="align-top">
+                      <td className="pr-2">{d.row}</td>
+                      <td className="pr-2">{d.name ?? "—"}</td>
+                      <td className="pr-2">{d.type ?? "—"}</td>
+                      <td className="pr-2">{d.ip ?? "—"}</td>
+                      <td>{d.errors.length + d.warnings.length ? <Issues row={d} /> : "ok"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {report.links.length > 0 && (
+              <table className="w-full text-left">
+                <thead className="text-slate-500 dark:text-slate-400">
+                  <tr>
+                    <th className="pr-2">Linha</th>
+                    <th className="pr-2">De</th>
+                    <th className="pr-2">Para</th>
+                    <th>Situação</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.links.map((l) => (
+                    <tr key={l.row} className="align-top">
+                      <td className="pr-2">{l.row}</td>
+                      <td className="pr-2">{l.from ?? "—"}</td>
+                      <td className="pr-2">{l.to ?? "—"}</td>
+                      <td>{l.errors.length + l.warnings.length ? <Issues row={l} /> : "ok"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={commit}
+          disabled={!report?.valid || busy}
+          className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+        >
+          Importar
+        </button>
+      </div>
+    </Modal>
+  );
+}
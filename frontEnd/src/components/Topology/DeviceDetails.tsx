@@ -0,0 +1,198 @@
+import { useState } from "react";
+import type { DeviceInventory } from "@/api/topology";
+import { inventoryFields, nodeFieldOptions, type InventoryTextKey, type NodeFieldKey } from "./inventory";
+
+const labelClass = "text-[11px] font-bold text-slate-500 dark:text-slate-400";
+
+const inputClass =
+  "h-9 w-full min-w-0 rounded-lg border border-slate-900/10 bg-white px-2 text-[12px] font-semibold text-slate-900 outline-none disabled:opacity-60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+const smallButtonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+type Draft = {
+  text: Record<InventoryTextKey, string>;
+  tags: string[];
+  custom: { key: string; value: string }[];
+};
+
+function toDraft(inv: DeviceInventory = {}): Draft {
+  const text = {} as Record<InventoryTextKey, string>;
+  for (const f of inventoryFields) text[f.key] = inv[f.key] ?? "";
+  return {
+    text,
+    tags: inv.tags ?? [],
+    custom: Object.entries(inv.customFields ?? {}).map(([key, value]) => ({ key, value })),
+  };
+}
+
+function fromDraft(d: Draft): DeviceInventory {
+  const out: DeviceInventory = {
+    tags: d.tags,
+    customFields: Object.fromEntries(d.custom.filter((c) => c.key.trim()).map((c) => [c.key.trim(), c.value.trim()])),
+  };
+  for (const f of inventoryFields) out[f.key] = d.text[f.key].trim() || null;
+  return out;
+}
+
+/**
+ * Inventário do equipamento selecionado (fabricante, série, garantia, tags, campos livres).
+ * Admin edita; os demais só leem. Montado com key={id}: trocar de equipamento descarta o rascunho.
+ */
+export default function DeviceDetails({
+  inventory,
+  canEdit,
+  onSave,
+  nodeFields,
+  onNodeFieldsChange,
+}: {
+  inventory: DeviceInventory | undefined;
+  canEdit: boolean;
+  /** true = salvou (o rascunho passa a ser o novo original) */
+  onSave: (inventory: DeviceInventory) => Promise<boolean>;
+  nodeFields: NodeFieldKey[];
+  onNodeFieldsChange: (keys: NodeFieldKey[]) => void;
+}) {
+  const [original, setOriginal] = useState<Draft>(() => toDraft(inventory));
+  const [draft, setDraft] = useState<Draft>(original);
+  const [tagInput, setTagInput] = useState<string>("");
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const dirty = JSON.stringify(fromDraft(draft)) !== JSON.stringify(fromDraft(original));
+
+  const setText = (key: InventoryTextKey, value: string) => setDraft((d) => ({ ...d, text: { ...d.text, [key]: value } }));
+
+  const addTag = () => {
+    const tag = tagInput.trim();
+    setTagInput("");
+    if (!tag) return;
+    setDraft((d) => (d.tags.includes(tag) ? d : { ...d, tags: [...d.tags, tag] }));
+  };
+
+  const setCustom = (i: number, patch: Partial<Draft["custom"][number]>) =>
+    setDraft((d) => ({ ...d, custom: d.custom.map((c, j) => (j === i ? { ...c, ...patch } : c)) }));
+
+  const save = async () => {
+    setSaving(true);
+    const ok = await onSave(fromDraft(draft));
+    setSaving(false);
+    if (ok) setOriginal(draft);
+  };
+
+  const toggleNodeField = (key: NodeFieldKey) =>
+    onNodeFieldsChange(nodeFields.includes(key) ? nodeFields.filter((k) => k !== key) : [...nodeFields, key]);
+
+  return (
+    <div className="mb-3 rounded-xl border border-slate-900/10 bg-white p-3 dark:border-slate-700 dark:bg-slate-950">
+      <div className={labelClass}>Inventário{canEdit ? "" : " (somente leitura)"}</div>
+
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        {inventoryFields.map((f) => (
+          <label key={f.key} className="min-w-0">
+            <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400">{f.label}</span>
+            <input
+              type={f.date ? "date" : "text"}
+              value={draft.text[f.key]}
+              onChange={(e) => setText(f.key, e.target.value)}
+              placeholder={f.placeholder}
+              disabled={!canEdit}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className={`mt-3 ${labelClass}`}>Tags</div>
+      <div className="mt-1 flex flex-wrap gap-1">
+        {draft.tags.length === 0 && <span className="text-[11px] font-semibold text-slate-400">Nenhuma tag.</span>}
+        {draft.tags.map((t) => (
+          <span
+            key={t}
+            className="flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-bold text-slate-700 dark:bg-slate-800 dark:text-slate-200"
+          >
+            #{t}
+            {canEdit && (
+              <button
+                onClick={() => setDraft((d) => ({ ...d, tags: d.tags.filter((x) => x !== t) }))}
+                className="text-slate-400 hover:text-rose-500"
+                title="Remover tag"
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+      {canEdit && (
+        <input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+          onBlur={addTag}
+          placeholder="Nova tag + Enter"
+          className={`mt-1 ${inputClass}`}
+        />
+      )}
+
+      <div className={`mt-3 flex items-center justify-between ${labelClass}`}>
+        Campos personalizados
+        {canEdit && (
+          <button onClick={() => setDraft((d) => ({ ...d, custom: [...d.custom, { key: "", value: "" }] }))} className={smallButtonClass}>
+            + Campo
+          </button>
+        )}
+      </div>
+      {draft.custom.length === 0 && <div className="mt-1 text-[11px] font-semibold text-slate-400">Nenhum campo.</div>}
+      {draft.custom.map((c, i) => (
+        <div key={i} className="mt-1 flex items-center gap-1">
+          <input value={c.key} onChange={(e) => setCustom(i, { key: e.target.value })} placeholder="Nome" disabled={!canEdit} className={inputClass} />
+          <input value={c.value} onChange={(e) => setCustom(i, { value: e.target.value })} placeholder="Valor" disabled={!canEdit} className={inputClass} />
+          {canEdit && (
+            <button
+              onClick={() => setDraft((d) => ({ ...d, custom: d.custom.filter((_, j) => j !== i) }))}
+              className="px-1 text-[13px] font-extrabold text-slate-400 hover:text-rose-500"
+              title="Remover campo"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+
+      {canEdit && (
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={() => setDraft(original)}
+            disabled={!dirty || saving}
+            className="h-10 flex-1 rounded-xl border border-slate-900/10 bg-white text-[12px] font-extrabold text-slate-900 hover:bg-slate-50 disabled:opacity-40 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-800"
+          >
+            Descartar
+          </button>
+          <button
+            onClick={save}
+            disabled={!dirty || saving}
+            className="h-10 flex-1 rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 disabled:opacity-40 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+          >
+            {saving ? "Salvando..." : "Salvar"}
+          </button>
+        </div>
+      )}
+
+      <div className={`mt-3 ${labelClass}`}>Mostrar no nó</div>
+      <div className="mt-1 grid grid-cols-2 gap-x-2 gap-y-0.5">
+        {nodeFieldOptions.map((o) => (
+          <label key={o.key} className="flex items-center gap-1.5 text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+            <input type="checkbox" checked={nodeFields.includes(o.key)} onChange={() => toggleNodeField(o.key)} />
+            {o.label}
+          </label>
+        ))}
+      </div>
+      <div className="mt-1 text-[10px] font-semibold text-slate-400">Vale para todos os nós (preferência deste navegador).</div>
+    </div>
+  );
+}
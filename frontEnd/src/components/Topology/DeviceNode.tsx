@@ -1,52 +1,153 @@
-import React from "react";
-import { Handle, Position } from "reactflow";
-import type { DeviceStatus, DeviceType } from "@/api/topology";
-
-export type DeviceNodeData = {
-  name: string;
-  type: DeviceType;
-  ip?: string;
-  status: DeviceStatus;
+import React, { useContext, useEffect, useState } from "react";
+import { Handle, Position, useUpdateNodeInternals } from "reactflow";
+import type { DeviceNodePayload, EffectiveStatus } from "@/api/topology";
+import { describeDiffChanges } from "./snapshotDiff";
+import { useDeviceType } from "./deviceTypes";
+import DeviceTypeIcon from "./DeviceTypeIcon";
+import { NodeFieldsContext, nodeFieldLines } from "./inventory";
+import { describePort, formatSpeed, portHex } from "./ports";
+
+export type DeviceNodeData = DeviceNodePayload & {
+  /** só com um diff de snapshot sobreposto (snapshotDiff.ts) */
+  diff?: "added" | "removed" | "changed";
+  diffChanges?: string[];
 };
 
-const statusClasses: Record<DeviceStatus, { dot: string; border: string; bg: string }> = {
-  up:   { dot: "bg-emerald-500", border: "border-emerald-600", bg: "from-emerald-500/10 to-white/5" },
-  warn: { dot: "bg-amber-500",   border: "border-amber-600",   bg: "from-amber-500/10 to-white/5" },
-  down: { dot: "bg-rose-500",    border: "border-rose-600",    bg: "from-rose-500/10 to-white/5" },
+const diffClasses: Record<NonNullable<DeviceNodeData["diff"]>, string> = {
+  added: "ring-4 ring-emerald-400/70",
+  changed: "ring-4 ring-sky-400/70",
+  removed: "border-dashed opacity-40 grayscale",
 };
 
-const iconByType: Record<DeviceType, string> = {
-  hub: "🌐",
-  switch: "🔀",
-  router: "📡",
-  ap: "📶",
-  server: "🖥️",
+// unreachable: cinza tracejado, para não confundir o sintoma com o down que o causou
+const statusClasses: Record<EffectiveStatus, { dot: string; border: string; bg: string }> = {
+  up:          { dot: "bg-emerald-500", border: "border-emerald-600",             bg: "from-emerald-500/10 to-white/5" },
+  warn:        { dot: "bg-amber-500",   border: "border-amber-600",               bg: "from-amber-500/10 to-white/5" },
+  down:        { dot: "bg-rose-500",    border: "border-rose-600",                bg: "from-rose-500/10 to-white/5" },
+  unreachable: { dot: "bg-slate-400",   border: "border-dashed border-slate-400", bg: "from-slate-500/15 to-white/5" },
 };
 
-export default function DeviceNode({ data }: { data: DeviceNodeData }) {
-  const s = statusClasses[data.status];
+export default function DeviceNode({ id, data }: { id: string; data: DeviceNodeData }) {
+  // down gravado vence um status efetivo ainda não recalculado
+  const unreachable = data.status !== "down" && data.effectiveStatus === "unreachable";
+  const s = statusClasses[unreachable ? "unreachable" : data.status];
+  const isRef = Boolean(data.refOf);
+  const t = useDeviceType(data.type);
+  const extra = nodeFieldLines(data.inventory, useContext(NodeFieldsContext));
+  const ports = isRef ? [] : data.ports ?? [];
+  // recolhido: um handle por porta na borda de baixo; expandido: lista com o handle em cada linha
+  const [expanded, setExpanded] = useState<boolean>(false);
+
+  // handles mudaram de lugar (ou de quantidade): o React Flow precisa remedir
+  const updateNodeInternals = useUpdateNodeInternals();
+  const portKey = ports.map((p) => p.id).join(",");
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, expanded, portKey, updateNodeInternals]);
 
   return (
     <div
-      className={`min-w-[200px] rounded-2xl border ${s.border} bg-gradient-to-b ${s.bg} px-3 py-2 shadow-[0_12px_30px_rgba(0,0,0,.12)] dark:from-slate-900/60 dark:to-slate-950/60`}
-      title={`${data.name}${data.ip ? ` • ${data.ip}` : ""}`}
+      style={{ width: t.width, minHeight: t.height }}
+      className={`relative flex flex-col justify-center rounded-2xl border ${isRef ? "border-dashed opacity-80" : ""} ${data.diff ? diffClasses[data.diff] : ""} ${s.border} bg-gradient-to-b ${s.bg} px-3 py-2 shadow-[0_12px_30px_rgba(0,0,0,.12)] dark:from-slate-900/60 dark:to-slate-950/60`}
+      title={
+        isRef
+          ? `${data.name} • mapa ${data.homeMapName} (duplo clique para abrir)`
+          : `${data.name}${data.ip ? ` • ${data.ip}` : ""}${unreachable ? ` • inalcançável (status gravado: ${data.status})` : ""}`
+      }
     >
-      <Handle type="target" position={Position.Top} className={`h-2.5 w-2.5 ${s.dot}`} />
-      <Handle type="source" position={Position.Bottom} className={`h-2.5 w-2.5 ${s.dot}`} />
+      {data.isRoot && !isRef && (
+        <div className="absolute -top-2.5 left-3 rounded-full bg-indigo-600 px-2 py-0.5 text-[10px] font-extrabold text-white" title="Raiz (core) do mapa">
+          raiz
+        </div>
+      )}
+
+      {data.diff && (
+        <div
+          className="absolute -top-2.5 right-3 max-w-[180px] truncate rounded-full bg-slate-900 px-2 py-0.5 text-[10px] font-extrabold text-white dark:bg-slate-100 dark:text-slate-900"
+          title={data.diffChanges ? describeDiffChanges(data.diffChanges) : undefined}
+        >
+          {data.diff === "added" ? "novo" : data.diff === "removed" ? "removido" : `Δ ${describeDiffChanges(data.diffChanges ?? [])}`}
+        </div>
+      )}
+
+      {!isRef && (
+        <>
+          <Handle type="target" position={Position.Top} className={`h-2.5 w-2.5 ${s.dot}`} />
+          <Handle type="source" position={Position.Bottom} className={`h-2.5 w-2.5 ${s.dot}`} />
+        </>
+      )}
 
       <div className="flex items-center gap-2.5">
-        <div className="w-8 text-center text-xl">{iconByType[data.type]}</div>
+        <div className="flex w-8 shrink-0 justify-center" title={t.label}>
+          <DeviceTypeIcon icon={t.icon} iconSvg={t.iconSvg} />
+        </div>
 
         <div className="min-w-0 flex-1">
           <div className="truncate text-[13px] font-extrabold text-slate-900 dark:text-slate-100">{data.name}</div>
           <div className="truncate text-[11px] font-semibold text-slate-600 dark:text-slate-300">
-            {data.type.toUpperCase()}
+            {t.label.toUpperCase()}
             {data.ip ? ` • ${data.ip}` : ""}
           </div>
+          {extra.map((l) => (
+            <div key={l.key} className="truncate text-[10px] font-semibold text-slate-500 dark:text-slate-400" title={l.text}>
+              {l.text}
+            </div>
+          ))}
+          {isRef && (
+            <div className="truncate text-[10px] font-bold text-sky-600 dark:text-sky-400">↗ {data.homeMapName}</div>
+          )}
+          {unreachable && (
+            <div className="truncate text-[10px] font-bold text-slate-500 dark:text-slate-400">⊘ inalcançável</div>
+          )}
         </div>
 
         <div className={`h-2.5 w-2.5 rounded-full ${s.dot} shadow-[0_0_0_4px_rgba(0,0,0,.05)]`} />
       </div>
+
+      {ports.length > 0 && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setExpanded((v) => !v);
+          }}
+          className="nodrag mt-1 self-start rounded-md px-1 text-[10px] font-extrabold text-slate-500 hover:bg-slate-900/5 dark:text-slate-400 dark:hover:bg-white/10"
+        >
+          {expanded ? "▴" : "▾"} {ports.length} porta(s)
+        </button>
+      )}
+
+      {expanded &&
+        ports.map((p) => (
+          <div
+            key={p.id}
+            className="relative flex items-center gap-1.5 border-t border-slate-900/5 py-0.5 pr-2 text-[10px] font-semibold text-slate-600 dark:border-white/5 dark:text-slate-300"
+            title={describePort(p)}
+          >
+            <span className="h-1.5 w-1.5 shrink-0 rounded-full" style={{ background: portHex(p) }} />
+            <span className={`truncate ${p.adminStatus === "down" ? "line-through opacity-60" : ""}`}>{p.name}</span>
+            <span className="ml-auto text-slate-400">{formatSpeed(p.speedMbps)}</span>
+            <Handle
+              id={p.id}
+              type="source"
+              position={Position.Right}
+              className="h-2 w-2"
+              style={{ background: portHex(p), right: -16 }}
+            />
+          </div>
+        ))}
+
+      {!expanded &&
+        ports.map((p, i) => (
+          <Handle
+            key={p.id}
+            id={p.id}
+            type="source"
+            position={Position.Bottom}
+            title={describePort(p)}
+            className="h-2 w-2"
+            style={{ background: portHex(p), left: `${((i + 1) / (ports.length + 1)) * 100}%` }}
+          />
+        ))}
     </div>
   );
 }
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import {
+  createPort,
+  deletePort,
+  updatePort,
+  type DevicePort,
+  type PortKind,
+  type PortOperStatus,
+} from "@/api/ports";
+import { formatSpeed, portHex, portKindLabel } from "./ports";
+
+const labelClass = "text-[11px] font-bold text-slate-500 dark:text-slate-400";
+
+const inputClass =
+  "h-8 w-full min-w-0 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none disabled:opacity-60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+const buttonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+type Draft = { name: string; kind: PortKind; speed: string; description: string };
+
+const emptyDraft: Draft = { name: "", kind: "ethernet", speed: "", description: "" };
+
+/**
+ * Portas do equipamento selecionado. Admin cadastra/edita/remove;
+ * operador liga/desliga e marca o status operacional.
+ */
+export default function DevicePorts({
+  deviceId,
+  ports,
+  linkedPortIds,
+  canAdmin,
+  canOperate,
+  onChanged,
+  onMessage,
+}: {
+  deviceId: string;
+  ports: DevicePort[];
+  /** portas com link (não podem receber outro) */
+  linkedPortIds: Set<string>;
+  canAdmin: boolean;
+  canOperate: boolean;
+  onChanged: () => void;
+  onMessage: (msg: string) => void;
+}) {
+  // null = cadastrando uma nova
+  const [editing, setEditing] = useState<DevicePort | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+
+  const set = (patch: Partial<Draft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const run = async (fn: () => Promise<unknown>, ok: string) => {
+    try {
+      await fn();
+      onMessage(ok);
+      onChanged();
+      return true;
+    } catch (err: unknown) {
+      onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+      return false;
+    }
+  };
+
+  const startEdit = (p: DevicePort) => {
+    setEditing(p);
+    setDraft({ name: p.name, kind: p.kind, speed: p.speedMbps ? String(p.speedMbps) : "", description: p.description ?? "" });
+  };
+
+  const reset = () => {
+    setEditing(null);
+    setDraft(emptyDraft);
+  };
+
+  const submit = async () => {
+    if (!draft.name.trim()) return onMessage("Dê um nome à porta (ex.: Gi0/1).");
+    const payload = {
+      name: draft.name.trim(),
+      kind: draft.kind,
+      speedMbps: Number(draft.speed) || null,
+      description: draft.description.trim() || null,
+    };
+    const ok = editing
+      ? await run(() => updatePort(editing.id, payload), "Porta atualizada ✅")
+      : await run(() => createPort(deviceId, payload), "Porta criada ✅");
+    if (ok) reset();
+  };
+
+  const remove = (p: DevicePort) => {
+    const note = linkedPortIds.has(p.id) ? " O link continua, sem porta." : "";
+    if (!window.confirm(`Remover a porta "${p.name}"?${note}`)) return;
+    return run(() => deletePort(p.id), "Porta removida ✅");
+  };
+
+  return (
+    <div className="mb-3 rounded-xl border border-slate-900/10 bg-white p-3 dark:border-slate-700 dark:bg-slate-950">
+      <div className={labelClass}>Portas ({ports.length})</div>
+
+      <div className="mt-1 max-h-[220px] overflow-auto">
+        {ports.length === 0 && <div className="py-1 text-[11px] font-semibold text-slate-400">Nenhuma porta cadastrada.</div>}
+        {ports.map((p) => (
+          <div key={p.id} className="flex items-center gap-1.5 border-b border-slate-900/5 py-1 last:border-0 dark:border-slate-800">
+            <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: portHex(p) }} />
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-[11px] font-extrabold text-slate-900 dark:text-slate-100">
+                {p.name}
+                {linkedPortIds.has(p.id) && <span title="Com link"> 🔗</span>}
+              </div>
+              <div className="truncate text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                {[portKindLabel[p.kind], formatSpeed(p.speedMbps), p.description].filter(Boolean).join(" • ")}
+              </div>
+            </div>
+            <select
+              value={p.adminStatus}
+              disabled={!canOperate}
+              title="Status administrativo"
+              onChange={(e) => run(() => updatePort(p.id, { adminStatus: e.target.value as "up" | "down" }), "Porta atualizada ✅")}
+              className="h-7 rounded-md border border-slate-900/10 bg-white px-1 text-[10px] font-bold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+            >
+              <option value="up">ligada</option>
+              <option value="down">desligada</option>
+            </select>
+            <select
+              value={p.operStatus}
+              disabled={!canOperate}
+              title="Status operacional"
+              onChange={(e) => run(() => updatePort(p.id, { operStatus: e.target.value as PortOperStatus }), "Porta atualizada ✅")}
+              className="h-7 rounded-md border border-slate-900/10 bg-white px-1 text-[10px] font-bold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+            >
+              <option value="up">up</option>
+              <option value="down">down</option>
+              <option value="unknown">?</option>
+            </select>
+            {canAdmin && (
+              <>
+                <button onClick={() => startEdit(p)} className={buttonClass} title="Editar">
+                  ✎
+                </button>
+                <button onClick={() => remove(p)} className={buttonClass} title="Remover">
+                  ×
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canAdmin && (
+        <div className="mt-2 space-y-1.5 rounded-lg border border-slate-900/10 p-2 dark:border-slate-700">
+          <div className="grid grid-cols-2 gap-1.5">
+            <input value={draft.name} onChange={(e) => set({ name: e.target.value })} placeholder="Nome (ex.: Gi0/1)" className={inputClass} />
+            <select value={draft.kind} onChange={(e) => set({ kind: e.target.value as PortKind })} className={inputClass}>
+              {(Object.keys(portKindLabel) as PortKind[]).map((k) => (
+                <option key={k} value={k}>{portKindLabel[k]}</option>
+              ))}
+            </select>
+            <input value={draft.speed} onChange={(e) => set({ speed: e.target.value })} inputMode="numeric" placeholder="Velocidade (Mbps)" className={inputClass} />
+            <input value={draft.description} onChange={(e) => set({ description: e.target.value })} placeholder="Descrição" className={inputClass} />
+          </div>
+          <div className="flex justify-end">
+            {editing && (
+              <button onClick={reset} className={buttonClass}>
+                Cancelar
+              </button>
+            )}
+            <button
+              onClick={submit}
+              className="h-8 rounded-lg bg-slate-900 px-3 text-[11px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+            >
+              {editing ? "Salvar porta" : "Adicionar porta"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
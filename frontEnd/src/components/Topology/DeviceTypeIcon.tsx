@@ -0,0 +1,7 @@
+import { FALLBACK_ICON, svgDataUrl } from "./deviceTypes";
+
+/** Ícone de um tipo: SVG enviado, senão o emoji, senão o genérico. */
+export default function DeviceTypeIcon({ icon, iconSvg, size = 24 }: { icon: string | null; iconSvg: string | null; size?: number }) {
+  if (iconSvg) return <img src={svgDataUrl(iconSvg)} alt="" width={size} height={size} className="inline-block object-contain" />;
+  return <span style={{ fontSize: size * 0.85, lineHeight: 1 }}>{icon ?? FALLBACK_ICON}</span>;
+}
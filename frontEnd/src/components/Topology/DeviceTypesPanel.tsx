@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { createDeviceType, deleteDeviceType, updateDeviceType, type DeviceTypeDef } from "@/api/deviceTypes";
+import { DEVICE_SIZE } from "./groups";
+import DeviceTypeIcon from "./DeviceTypeIcon";
+
+const buttonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+const inputClass =
+  "h-8 min-w-0 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none disabled:opacity-50 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100";
+
+type Draft = { key: string; label: string; icon: string; iconSvg: string | null; width: string; height: string };
+
+const emptyDraft: Draft = {
+  key: "",
+  label: "",
+  icon: "",
+  iconSvg: null,
+  width: String(DEVICE_SIZE.width),
+  height: String(DEVICE_SIZE.height),
+};
+
+/** Cadastro dos tipos de equipamento (admin). A chave não muda depois de criada. */
+export default function DeviceTypesPanel({
+  types,
+  onChanged,
+  onMessage,
+  onClose,
+}: {
+  types: DeviceTypeDef[];
+  /** recarrega a lista no canvas */
+  onChanged: () => void;
+  onMessage: (msg: string) => void;
+  onClose: () => void;
+}) {
+  // null = criando um novo
+  const [editing, setEditing] = useState<DeviceTypeDef | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+
+  const set = (patch: Partial<Draft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const startEdit = (t: DeviceTypeDef) => {
+    setEditing(t);
+    setDraft({ key: t.key, label: t.label, icon: t.icon ?? "", iconSvg: t.icon_svg, width: String(t.width), height: String(t.height) });
+  };
+
+  const reset = () => {
+    setEditing(null);
+    setDraft(emptyDraft);
+  };
+
+  const onSvg = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > 64 * 1024) return onMessage("SVG muito grande (máx. 64 KB).");
+    set({ iconSvg: await file.text() });
+  };
+
+  const run = async (fn: () => Promise<unknown>, ok: string) => {
+    try {
+      await fn();
+      onMessage(ok);
+      onChanged();
+      return true;
+    } catch (err: unknown) {
+      onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+      return false;
+    }
+  };
+
+  const submit = async () => {
+    if (!draft.label.trim()) return onMessage("Dê um rótulo ao tipo.");
+    const payload = {
+      label: draft.label.trim(),
+      icon: draft.icon.trim() || null,
+      iconSvg: draft.iconSvg,
+      width: Number(draft.width) || DEVICE_SIZE.width,
+      height: Number(draft.height) || DEVICE_SIZE.height,
+    };
+    const ok = editing
+      ? await run(() => updateDeviceType(editing.id, payload), "Tipo atualizado ✅")
+      : await run(() => createDeviceType({ key: draft.key.trim().toLowerCase(), ...payload }), "Tipo criado ✅");
+    if (ok) reset();
+  };
+
+  const remove = (t: DeviceTypeDef) => {
+    if (!window.confirm(`Remover o tipo "${t.label}"?`)) return;
+    return run(() => deleteDeviceType(t.id), "Tipo removido ✅");
+  };
+
+  return (
+    <div className="w-[420px] rounded-2xl border border-slate-900/10 bg-white/95 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/95">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-[13px] font-extrabold text-slate-900 dark:text-slate-100">Tipos de equipamento</h2>
+        <button onClick={onClose} className={buttonClass}>
+          Fechar
+        </button>
+      </div>
+
+      <div className="mb-2 space-y-2 rounded-xl border border-slate-900/10 p-2 dark:border-slate-700">
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            value={draft.key}
+            onChange={(e) => set({ key: e.target.value })}
+            disabled={editing !== null}
+            placeholder="Chave (ex.: firewall)"
+            title={editing ? "A chave não muda depois de criada" : "letras minúsculas, números, - e _"}
+            className={inputClass}
+          />
+          <input value={draft.label} onChange={(e) => set({ label: e.target.value })} placeholder="Rótulo (ex.: Firewall)" className={inputClass} />
+          <input value={draft.icon} onChange={(e) => set({ icon: e.target.value })} placeholder="Emoji (ex.: 🧱)" className={inputClass} />
+          <div className="flex items-center gap-2">
+            <input value={draft.width} onChange={(e) => set({ width: e.target.value })} inputMode="numeric" title="Largura (px)" className={`${inputClass} w-full`} />
+            <span className="text-[11px] font-bold text-slate-400">×</span>
+            <input value={draft.height} onChange={(e) => set({ height: e.target.value })} inputMode="numeric" title="Altura (px)" className={`${inputClass} w-full`} />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+          <DeviceTypeIcon icon={draft.icon.trim() || null} iconSvg={draft.iconSvg} />
+          {draft.iconSvg ? (
+            <button onClick={() => set({ iconSvg: null })} className={buttonClass}>
+              Remover SVG
+            </button>
+          ) : (
+            <input type="file" accept=".svg,image/svg+xml" onChange={(e) => onSvg(e.target.files?.[0])} className="min-w-0 flex-1 text-[11px]" />
+          )}
+          <div className="ml-auto flex">
+            {editing && (
+              <button onClick={reset} className={buttonClass}>
+                Cancelar
+              </button>
+            )}
+            <button
+              onClick={submit}
+              className="h-8 rounded-lg bg-slate-900 px-3 text-[11px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+            >
+              {editing ? "Salvar" : "Criar"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-h-[320px] overflow-auto">
+        {types.length === 0 ? (
+          <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Nenhum tipo cadastrado.</div>
+        ) : (
+          types.map((t) => (
+            <div key={t.id} className="flex items-center gap-2 border-b border-slate-900/5 py-1.5 last:border-0 dark:border-slate-800">
+              <div className="flex w-8 shrink-0 justify-center">
+                <DeviceTypeIcon icon={t.icon} iconSvg={t.icon_svg} size={20} />
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">{t.label}</div>
+                <div className="truncate text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                  {t.key} • {t.width}×{t.height} • {t.device_count} equip.
+                </div>
+              </div>
+              <button onClick={() => startEdit(t)} className={buttonClass}>
+                Editar
+              </button>
+              <button
+                onClick={() => remove(t)}
+                disabled={t.device_count > 0}
+                title={t.device_count > 0 ? "Em uso: troque o tipo desses equipamentos antes" : undefined}
+                className="rounded-lg px-2 py-1 text-[11px] font-extrabold text-rose-600 hover:bg-rose-50 disabled:opacity-40 dark:text-rose-300 dark:hover:bg-rose-950/40"
+              >
+                Remover
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useCallback, useContext, useEffect, useState } from "react";
+import type { DeviceType } from "@/api/topology";
+import { discoverNmap, fetchCandidates, resolveCandidate, type DiscoveryCandidate, type ResolveAction } from "@/api/discovery";
+import { DeviceTypesContext, FALLBACK_ICON } from "./deviceTypes";
+
+const buttonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+const selectClass =
+  "h-7 rounded-lg border border-slate-900/10 bg-white px-1 text-[11px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100";
+
+/** Fila de revisão dos hosts encontrados pelo nmap. */
+export default function DiscoveryPanel({
+  mapId,
+  devices,
+  origin,
+  version,
+  canAdmin,
+  onMessage,
+  onClose,
+}: {
+  mapId: string;
+  /** equipamentos do mapa, para o "mesclar" */
+  devices: { id: string; name: string; ip?: string }[];
+  /** onde os aceitos entram (empilhados para baixo) */
+  origin: { x: number; y: number };
+  /** muda a cada discovery.queued do SSE: recarrega a fila */
+  version: number;
+  /** aceitar/mesclar mexem em equipamentos: só admin */
+  canAdmin: boolean;
+  onMessage: (msg: string) => void;
+  onClose: () => void;
+}) {
+  const [candidates, setCandidates] = useState<DiscoveryCandidate[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState<number>(0);
+  const [markMissing, setMarkMissing] = useState<boolean>(true);
+  const [busy, setBusy] = useState<boolean>(false);
+  // escolhas por candidato antes de resolver
+  const [types, setTypes] = useState<Record<string, DeviceType>>({});
+  const [mergeInto, setMergeInto] = useState<Record<string, string>>({});
+  const [placed, setPlaced] = useState<number>(0);
+  const deviceTypes = [...useContext(DeviceTypesContext).values()];
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCandidates(mapId)
+      .then((list) => {
+        if (cancelled) return;
+        setError(null);
+        setCandidates(list);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "unknown");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mapId, reloadKey, version]);
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      const r = await discoverNmap({ mapId, xml: await file.text(), markMissing });
+      const down = r.markedDown.length ? `, ${r.markedDown.length} marcados down` : "";
+      onMessage(`Scan lido: ${r.hosts} hosts, ${r.matched} conhecidos, ${r.queued} novos na fila${down} ✅`);
+      setReloadKey((k) => k + 1);
+    } catch (err: unknown) {
+      onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resolve = useCallback(
+    async (c: DiscoveryCandidate, body: ResolveAction, ok: string) => {
+      try {
+        await resolveCandidate(c.id, body);
+        onMessage(ok);
+        setReloadKey((k) => k + 1);
+      } catch (err: unknown) {
+        onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+      }
+    },
+    [onMessage]
+  );
+
+  const accept = (c: DiscoveryCandidate) => {
+    const position = { x: origin.x, y: origin.y + placed * 100 };
+    setPlaced((n) => n + 1);
+    return resolve(c, { action: "accept", type: types[c.id] ?? c.guessed_type, ...position }, `${c.hostname ?? c.ip} adicionado ✅`);
+  };
+
+  const merge = (c: DiscoveryCandidate) => {
+    const deviceId = mergeInto[c.id];
+    if (!deviceId) return onMessage("Escolha o equipamento para mesclar.");
+    return resolve(c, { action: "merge", deviceId }, `IP ${c.ip} atribuído ✅`);
+  };
+
+  return (
+    <div className="w-[420px] rounded-2xl border border-slate-900/10 bg-white/95 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/95">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-[13px] font-extrabold text-slate-900 dark:text-slate-100">Descoberta (nmap)</h2>
+        <button onClick={onClose} className={buttonClass}>
+          Fechar
+        </button>
+      </div>
+
+      <div className="mb-2 space-y-1 text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+        <input
+          type="file"
+          accept=".xml,text/xml,application/xml"
+          disabled={busy}
+          onChange={(e) => onFile(e.target.files?.[0])}
+          className="block w-full text-[11px]"
+        />
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={markMissing} onChange={(e) => setMarkMissing(e.target.checked)} />
+          Marcar como down os conhecidos que não responderam
+        </label>
+      </div>
+
+      <div className="max-h-[360px] overflow-auto">
+        {error ? (
+          <div className="py-2 text-[11px] font-semibold text-rose-600 dark:text-rose-300">Erro: {error}</div>
+        ) : !candidates ? (
+          <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Carregando...</div>
+        ) : candidates.length === 0 ? (
+          <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Nenhum host pendente.</div>
+        ) : (
+          candidates.map((c) => (
+            <div key={c.id} className="border-b border-slate-900/5 py-1.5 last:border-0 dark:border-slate-800">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">
+                    {c.hostname ?? c.ip}
+                    {c.hostname && <span className="font-semibold text-slate-500 dark:text-slate-400"> • {c.ip}</span>}
+                  </div>
+                  <div className="truncate text-[10px] font-semibold text-slate-500 dark:text-slate-400" title={c.type_reason ?? undefined}>
+                    {[c.os, c.vendor, c.open_ports.length ? `portas ${c.open_ports.join(", ")}` : null].filter(Boolean).join(" • ") || "sem detalhes"}
+                  </div>
+                </div>
+                {canAdmin && (
+                  <select
+                    value={types[c.id] ?? c.guessed_type}
+                    onChange={(e) => setTypes((t) => ({ ...t, [c.id]: e.target.value as DeviceType }))}
+                    className={selectClass}
+                    title={c.type_reason ?? "tipo sugerido"}
+                  >
+                    {!deviceTypes.some((t) => t.key === c.guessed_type) && <option value={c.guessed_type}>{c.guessed_type}</option>}
+                    {deviceTypes.map((t) => (
+                      <option key={t.key} value={t.key}>
+                        {t.icon_svg ? "" : `${t.icon ?? FALLBACK_ICON} `}
+                        {t.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              <div className="mt-1 flex items-center gap-1">
+                {canAdmin && (
+                  <>
+                    <button onClick={() => accept(c)} className={buttonClass}>
+                      Aceitar
+                    </button>
+                    <select
+                      value={mergeInto[c.id] ?? ""}
+                      onChange={(e) => setMergeInto((m) => ({ ...m, [c.id]: e.target.value }))}
+                      className={`${selectClass} min-w-0 flex-1`}
+                    >
+                      <option value="">Mesclar em…</option>
+                      {devices.map((d) => (
+                        <option key={d.id} value={d.id}>
+                          {d.name}
+                          {d.ip ? ` (${d.ip})` : ""}
+                        </option>
+                      ))}
+                    </select>
+                    <button onClick={() => merge(c)} disabled={!mergeInto[c.id]} className={buttonClass}>
+                      Mesclar
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => resolve(c, { action: "ignore" }, `${c.ip} ignorado ✅`)}
+                  className="rounded-lg px-2 py-1 text-[11px] font-extrabold text-rose-600 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-950/40"
+                >
+                  Ignorar
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
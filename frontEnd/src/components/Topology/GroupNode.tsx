@@ -0,0 +1,84 @@
+import { useContext } from "react";
+import { Handle, NodeResizer, Position, type NodeProps } from "reactflow";
+import type { DeviceStatus } from "@/api/topology";
+import type { GroupKind } from "@/api/groups";
+import { GroupActionsContext, type GroupNodeData } from "./groups";
+
+const dotByStatus: Record<DeviceStatus, string> = {
+  up: "bg-emerald-500",
+  warn: "bg-amber-500",
+  down: "bg-rose-500",
+};
+
+const borderByStatus: Record<DeviceStatus, string> = {
+  up: "border-emerald-600",
+  warn: "border-amber-600",
+  down: "border-rose-600",
+};
+
+const iconByKind: Record<GroupKind, string> = {
+  room: "🏢",
+  rack: "🗄️",
+  zone: "🛡️",
+  other: "📦",
+};
+
+export default function GroupNode({ id, data, selected }: NodeProps<GroupNodeData>) {
+  const actions = useContext(GroupActionsContext);
+  const dot = data.worstStatus ? dotByStatus[data.worstStatus] : "bg-slate-400";
+
+  const toggle = (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        actions.onToggleCollapse(id);
+      }}
+      className="nodrag rounded-lg px-1.5 text-[12px] font-extrabold text-slate-500 hover:bg-slate-900/5 dark:text-slate-400 dark:hover:bg-white/10"
+      title={data.collapsed ? "Expandir grupo" : "Recolher grupo"}
+    >
+      {data.collapsed ? "▸" : "▾"}
+    </button>
+  );
+
+  if (data.collapsed) {
+    const border = data.worstStatus ? borderByStatus[data.worstStatus] : "border-slate-400";
+    return (
+      <div
+        className={`flex h-full w-full items-center gap-2.5 rounded-2xl border-2 border-dashed ${border} bg-white/90 px-3 shadow-[0_12px_30px_rgba(0,0,0,.12)] dark:bg-slate-900/90`}
+      >
+        <Handle type="target" position={Position.Top} className={`h-2.5 w-2.5 ${dot}`} />
+        <Handle type="source" position={Position.Bottom} className={`h-2.5 w-2.5 ${dot}`} />
+
+        <div className="w-8 text-center text-xl">{iconByKind[data.kind]}</div>
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-[13px] font-extrabold text-slate-900 dark:text-slate-100">{data.name}</div>
+          <div className="truncate text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+            {data.kind.toUpperCase()} • {data.memberCount ?? 0} equip.
+          </div>
+        </div>
+        <div className={`h-2.5 w-2.5 rounded-full ${dot}`} />
+        {toggle}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <NodeResizer
+        isVisible={selected && actions.editable}
+        minWidth={180}
+        minHeight={110}
+        onResizeEnd={(_e, p) => actions.onResizeEnd(id, p)}
+      />
+      <div className="h-full w-full rounded-3xl border-2 border-dashed border-slate-400/60 bg-slate-500/5 dark:border-slate-600 dark:bg-slate-400/5">
+        <div className="flex items-center gap-2 px-3 py-1.5 text-[11px] font-extrabold text-slate-600 dark:text-slate-300">
+          <span>{iconByKind[data.kind]}</span>
+          <span className="truncate">{data.name}</span>
+          <span className="font-semibold text-slate-400 dark:text-slate-500">{data.memberCount ?? 0} equip.</span>
+          <span className={`ml-auto h-2 w-2 rounded-full ${dot}`} />
+          {toggle}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import Modal from "@/components/ui/Modal";
+import type { ImageExportOptions, ImageFormat } from "./imageExport";
+
+const inputClass =
+  "mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+const labelClass = "text-[11px] font-bold text-slate-500 dark:text-slate-400";
+
+export default function ImageExportModal({
+  open,
+  theme,
+  onClose,
+  onExport,
+}: {
+  open: boolean;
+  /** tema escolhido no TopologyPage: a imagem sai igual à tela */
+  theme: "light" | "dark";
+  onClose: () => void;
+  onExport: (opts: ImageExportOptions) => Promise<void>;
+}) {
+  const [format, setFormat] = useState<ImageFormat>("png");
+  const [scope, setScope] = useState<ImageExportOptions["scope"]>("all");
+  const [scale, setScale] = useState<number>(2);
+  const [title, setTitle] = useState<string>("Topologia da rede");
+  const [timestamp, setTimestamp] = useState<boolean>(true);
+  const [legend, setLegend] = useState<boolean>(true);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const submit = async () => {
+    setBusy(true);
+    try {
+      await onExport({ format, scope, scale, theme, title, timestamp, legend });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal open={open} title="Exportar imagem" onClose={onClose}>
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Formato</label>
+            <select value={format} onChange={(e) => setFormat(e.target.value as ImageFormat)} className={inputClass}>
+              <option value="png">PNG</option>
+              <option value="svg">SVG</option>
+              <option value="pdf">PDF (A4)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Área</label>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as ImageExportOptions["scope"])}
+              className={inputClass}
+            >
+              <option value="all">Mapa inteiro</option>
+              <option value="viewport">Área visível</option>
+            </select>
+          </div>
+        </div>
+
+        {format === "png" && (
+          <div>
+            <label className={labelClass}>Resolução</label>
+            <select value={scale} onChange={(e) => setScale(Number(e.target.value))} className={inputClass}>
+              <option value={1}>1x</option>
+              <option value={2}>2x</option>
+              <option value={4}>4x (impressão)</option>
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label className={labelClass}>Título (opcional)</label>
+          <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+        </div>
+
+        <div className="flex gap-4 text-[12px] font-semibold text-slate-700 dark:text-slate-200">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={timestamp} onChange={(e) => setTimestamp(e.target.checked)} />
+            Data da exportação
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={legend} onChange={(e) => setLegend(e.target.checked)} />
+            Legenda
+          </label>
+        </div>
+
+        <button
+          onClick={submit}
+          disabled={busy}
+          className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+        >
+          {busy ? "Gerando..." : "Exportar"}
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { fetchSpof, type FailureTarget, type SpofItem } from "@/api/impact";
+
+const buttonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+const labelClass = "text-[11px] font-bold text-slate-500 dark:text-slate-400";
+
+/**
+ * Impacto de falha: raízes (core) do mapa — as mesmas do status efetivo — e
+ * relatório de pontos únicos de falha, do que mais derruba para o que menos
+ * derruba. Montar com key = mapId.
+ */
+export default function ImpactPanel({
+  mapId,
+  options,
+  roots,
+  canManage,
+  onRootChange,
+  onSimulate,
+  onFocus,
+  onMessage,
+  onClose,
+}: {
+  mapId: string;
+  options: { id: string; label: string }[];
+  /** equipamentos marcados como raiz no mapa */
+  roots: string[];
+  canManage: boolean;
+  onRootChange: (id: string, isRoot: boolean) => void;
+  onSimulate: (target: FailureTarget) => void;
+  /** seleciona e centraliza o equipamento/link no canvas */
+  onFocus: (target: FailureTarget) => void;
+  onMessage: (msg: string) => void;
+  onClose: () => void;
+}) {
+  // null = relatório ainda não gerado
+  const [report, setReport] = useState<SpofItem[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const labelOf = new Map(options.map((o) => [o.id, o.label]));
+
+  const changeRoot = (id: string, isRoot: boolean) => {
+    onRootChange(id, isRoot);
+    setReport(null);
+  };
+
+  const runReport = async () => {
+    if (roots.length === 0) return onMessage("Nenhum equipamento raiz neste mapa.");
+    setLoading(true);
+    try {
+      setReport((await fetchSpof(mapId)).items);
+    } catch (err: unknown) {
+      onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-[400px] rounded-2xl border border-slate-900/10 bg-white/95 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/95">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-[13px] font-extrabold text-slate-900 dark:text-slate-100">Impacto de falha</h2>
+        <div className="flex">
+          <button onClick={runReport} disabled={loading} className={buttonClass} title="Pontos de articulação e pontes do mapa">
+            {loading ? "Calculando..." : "Relatório de SPOF"}
+          </button>
+          <button onClick={onClose} className={buttonClass}>
+            Fechar
+          </button>
+        </div>
+      </div>
+
+      <div className={labelClass}>Raízes (core)</div>
+      <div className="mt-1 flex flex-wrap gap-1">
+        {roots.map((id) => (
+          <span
+            key={id}
+            className="flex items-center gap-1 rounded-lg bg-slate-100 px-2 py-0.5 text-[11px] font-bold text-slate-700 dark:bg-slate-800 dark:text-slate-200"
+          >
+            {labelOf.get(id) ?? id}
+            {canManage && (
+              <button onClick={() => changeRoot(id, false)} className="text-slate-400 hover:text-rose-600" title="Remover raiz">
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        {roots.length === 0 && !canManage && (
+          <span className="text-[11px] font-semibold text-slate-500 dark:text-slate-400">Nenhuma (um admin define).</span>
+        )}
+        {canManage && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && changeRoot(e.target.value, true)}
+            className="h-7 min-w-0 flex-1 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+          >
+            <option value="">Adicionar raiz…</option>
+            {options
+              .filter((o) => !roots.includes(o.id))
+              .map((o) => (
+                <option key={o.id} value={o.id}>{o.label}</option>
+              ))}
+          </select>
+        )}
+      </div>
+      <div className="mt-1 text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+        Quem perde o caminho até as raízes conta como afetado (e aparece como inalcançável no mapa). Links down já não contam.
+      </div>
+
+      {report && (
+        <div className="mt-2 max-h-[320px] overflow-auto">
+          {report.length === 0 ? (
+            <div className="py-2 text-[11px] font-semibold text-emerald-700 dark:text-emerald-300">Nenhum ponto único de falha ✅</div>
+          ) : (
+            report.map((s) => (
+              <div key={`${s.kind}-${s.id}`} className="flex items-center gap-2 border-b border-slate-900/5 py-1.5 last:border-0 dark:border-slate-800">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">{s.name}</div>
+                  <div className="text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                    {s.kind === "device" ? "Equipamento" : "Link"} • {s.dependants} dependente(s)
+                  </div>
+                </div>
+                <button onClick={() => onFocus(s)} className={buttonClass}>
+                  Ver
+                </button>
+                <button onClick={() => onSimulate(s)} className={buttonClass}>
+                  Simular
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
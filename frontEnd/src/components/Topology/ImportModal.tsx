@@ -0,0 +1,150 @@
+import { useState } from "react";
+import Modal from "@/components/ui/Modal";
+import { importGraphml, importTopology, type ImportMode, type ImportReport } from "@/api/transfer";
+
+const modeLabel: Record<ImportMode, string> = {
+  replace: "Substituir o mapa inteiro",
+  merge: "Mesclar (casa por nome/IP)",
+  copy: "Importar como cópia (ids novos)",
+};
+
+const inputClass =
+  "mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+function countsLine(label: string, c: ImportReport["devices"]) {
+  return `${label}: ${c.created} novos, ${c.updated} atualizados, ${c.deleted} removidos`;
+}
+
+/** Escolhe o arquivo, mostra a simulação (dry-run) e só grava ao confirmar. */
+export default function ImportModal({
+  open,
+  mapId,
+  onClose,
+  onImported,
+}: {
+  open: boolean;
+  mapId: string;
+  onClose: () => void;
+  onImported: (report: ImportReport) => void;
+}) {
+  const [fileName, setFileName] = useState<string>("");
+  // JSON do /export ou GraphML (yEd, nosso próprio export...)
+  const [parsed, setParsed] = useState<{ kind: "json"; doc: unknown } | { kind: "graphml"; xml: string } | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const send = (source: NonNullable<typeof parsed>, m: ImportMode, dryRun: boolean) =>
+    source.kind === "graphml"
+      ? importGraphml({ mapId, mode: m, dryRun, xml: source.xml })
+      : importTopology({ mapId, mode: m, dryRun, document: source.doc });
+
+  const simulate = async (source: typeof parsed, m: ImportMode) => {
+    setReport(null);
+    setError(null);
+    if (!source) return;
+    setBusy(true);
+    try {
+      setReport(await send(source, m, true));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "unknown");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    const text = await file.text();
+    if (/\.graphml$/i.test(file.name) || text.trimStart().startsWith("<")) {
+      const source = { kind: "graphml" as const, xml: text };
+      setParsed(source);
+      return simulate(source, mode);
+    }
+    try {
+      const source = { kind: "json" as const, doc: JSON.parse(text) as unknown };
+      setParsed(source);
+      await simulate(source, mode);
+    } catch {
+      setParsed(null);
+      setReport(null);
+      setError("Arquivo não é um JSON válido.");
+    }
+  };
+
+  const commit = async () => {
+    if (!parsed) return;
+    setBusy(true);
+    try {
+      const r = await send(parsed, mode, false);
+      setParsed(null);
+      setFileName("");
+      setReport(null);
+      onImported(r);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "unknown");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal open={open} title="Importar topologia (JSON ou GraphML)" onClose={onClose}>
+      <div className="space-y-3">
+        <div>
+          <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Arquivo</label>
+          <input
+            type="file"
+            accept="application/json,.json,.graphml,.xml"
+            onChange={(e) => onFile(e.target.files?.[0])}
+            className="mt-1 block w-full text-[12px] font-semibold text-slate-700 dark:text-slate-200"
+          />
+          {fileName && <div className="mt-1 truncate text-[11px] font-semibold text-slate-500 dark:text-slate-400">{fileName}</div>}
+        </div>
+
+        <div>
+          <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Modo</label>
+          <select
+            value={mode}
+            onChange={(e) => {
+              const m = e.target.value as ImportMode;
+              setMode(m);
+              void simulate(parsed, m);
+            }}
+            className={inputClass}
+          >
+            {(Object.keys(modeLabel) as ImportMode[]).map((m) => (
+              <option key={m} value={m}>{modeLabel[m]}</option>
+            ))}
+          </select>
+        </div>
+
+        {busy && <div className="text-[11px] font-semibold text-slate-500 dark:text-slate-400">Processando...</div>}
+        {error && <div className="break-words text-[11px] font-semibold text-rose-600 dark:text-rose-300">Erro: {error}</div>}
+
+        {report && (
+          <div className="rounded-xl border border-slate-900/10 p-3 text-[11px] font-semibold text-slate-700 dark:border-slate-700 dark:text-slate-200">
+            <div className="mb-1 font-extrabold text-slate-900 dark:text-slate-100">Simulação (nada foi gravado)</div>
+            <div>{countsLine("Equipamentos", report.devices)}</div>
+            <div>{countsLine("Links", report.links)}</div>
+            <div>{countsLine("Grupos", report.groups)}</div>
+            {report.remapped > 0 && <div>{report.remapped} ids já existiam e serão trocados</div>}
+            {report.warnings.map((w) => (
+              <div key={w} className="text-amber-700 dark:text-amber-300">⚠ {w}</div>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={commit}
+          disabled={!report || busy}
+          className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+        >
+          Importar
+        </button>
+      </div>
+    </Modal>
+  );
+}
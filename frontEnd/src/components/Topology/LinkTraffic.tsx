@@ -0,0 +1,97 @@
+import { useState } from "react";
+import type { LinkMedium, LinkUtilization } from "@/api/topology";
+import { formatBps, mediumLabel, utilizationHex, utilizationPercent } from "./linkStyle";
+
+const labelClass = "text-[11px] font-bold text-slate-500 dark:text-slate-400";
+
+const inputClass =
+  "h-8 w-full min-w-0 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none disabled:opacity-60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+/**
+ * Capacidade/meio do link selecionado (admin edita) e a última amostra de tráfego.
+ * Montar com key = id do link: o rascunho nasce dos props.
+ */
+export default function LinkTraffic({
+  capacityMbps,
+  medium,
+  utilization,
+  canEdit,
+  onSave,
+}: {
+  capacityMbps: number | null;
+  medium: LinkMedium | null;
+  utilization: LinkUtilization | null;
+  canEdit: boolean;
+  onSave: (capacityMbps: number | null, medium: LinkMedium | null) => Promise<boolean>;
+}) {
+  const [capacity, setCapacity] = useState(capacityMbps ? String(capacityMbps) : "");
+  const [draftMedium, setDraftMedium] = useState<LinkMedium | "">(medium ?? "");
+
+  const parsed = capacity.trim() ? Number(capacity) : null;
+  const invalid = parsed !== null && !(Number.isInteger(parsed) && parsed > 0);
+  const dirty = parsed !== capacityMbps || (draftMedium || null) !== medium;
+  const percent = utilizationPercent(capacityMbps, utilization);
+
+  return (
+    <div className="mt-3 rounded-lg border border-slate-900/10 p-2 dark:border-slate-700">
+      <div className="grid grid-cols-2 gap-1.5">
+        <div>
+          <div className={labelClass}>Capacidade (Mbps)</div>
+          <input
+            value={capacity}
+            disabled={!canEdit}
+            onChange={(e) => setCapacity(e.target.value)}
+            inputMode="numeric"
+            placeholder="Ex: 1000"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <div className={labelClass}>Meio</div>
+          <select
+            value={draftMedium}
+            disabled={!canEdit}
+            onChange={(e) => setDraftMedium(e.target.value as LinkMedium | "")}
+            className={inputClass}
+          >
+            <option value="">(não informado)</option>
+            {(Object.keys(mediumLabel) as LinkMedium[]).map((m) => (
+              <option key={m} value={m}>{mediumLabel[m]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {canEdit && dirty && (
+        <div className="mt-1.5 flex items-center justify-end gap-2">
+          {invalid && <span className="text-[11px] font-bold text-rose-600 dark:text-rose-400">Capacidade inválida</span>}
+          <button
+            disabled={invalid}
+            onClick={() => void onSave(parsed, draftMedium || null)}
+            className="h-8 rounded-lg bg-slate-900 px-3 text-[11px] font-extrabold text-white hover:bg-slate-800 disabled:opacity-40 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+          >
+            Salvar
+          </button>
+        </div>
+      )}
+
+      <div className={`${labelClass} mt-2`}>Tráfego</div>
+      {utilization ? (
+        <div className="mt-1 text-[11px] font-semibold text-slate-700 dark:text-slate-200">
+          <div className="flex items-center gap-1.5">
+            {percent !== undefined && (
+              <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: utilizationHex(percent) }} />
+            )}
+            ↓ {formatBps(utilization.inBps)} • ↑ {formatBps(utilization.outBps)}
+            {percent !== undefined && <span className="font-extrabold">({percent.toFixed(1)}%)</span>}
+          </div>
+          <div className="text-[10px] text-slate-400" title={new Date(utilization.at).toLocaleString()}>
+            amostra de {new Date(utilization.at).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+            {percent === undefined && " • informe a capacidade para ver a ocupação"}
+          </div>
+        </div>
+      ) : (
+        <div className="mt-1 text-[11px] font-semibold text-slate-400">Nenhuma amostra recebida.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from "react";
+import Modal from "@/components/ui/Modal";
+import { createMap, fetchMaps, type MapInfo } from "@/api/maps";
+
+export default function MapSwitcher({
+  value,
+  onChange,
+  canManage,
+}: {
+  value: string | null;
+  onChange: (mapId: string) => void;
+  /** só admin cria mapas */
+  canManage: boolean;
+}) {
+  const [maps, setMaps] = useState<MapInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [openCreate, setOpenCreate] = useState<boolean>(false);
+  const [name, setName] = useState<string>("");
+  const [description, setDescription] = useState<string>("");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchMaps()
+      .then((list) => {
+        if (cancelled) return;
+        setMaps(list);
+        setError(null);
+        // mapa salvo pode ter sido apagado em outra tela
+        if (list.length > 0 && !list.some((m) => m.id === value)) onChange(list[0].id);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "unknown");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [value, onChange]);
+
+  const submitCreate = useCallback(async () => {
+    if (name.trim().length < 2) return setError("Nome muito curto.");
+    try {
+      const m = await createMap({
+        name: name.trim(),
+        description: description.trim() ? description.trim() : undefined,
+      });
+      setOpenCreate(false);
+      setName("");
+      setDescription("");
+      setMaps((prev) => [...prev, m]);
+      onChange(m.id);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "unknown");
+    }
+  }, [name, description, onChange]);
+
+  const current = maps.find((m) => m.id === value);
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value)}
+        title={current?.description ?? undefined}
+        className="h-9 rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-bold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+      >
+        {maps.map((m) => (
+          <option key={m.id} value={m.id}>
+            {m.name}
+            {m.device_count !== undefined ? ` (${m.device_count})` : ""}
+          </option>
+        ))}
+      </select>
+      {canManage && (
+        <button
+          onClick={() => setOpenCreate(true)}
+          className="h-9 rounded-xl border border-slate-900/10 bg-white px-3 text-[11px] font-extrabold text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700"
+        >
+          + Mapa
+        </button>
+      )}
+      {error && <span className="text-[11px] font-semibold text-rose-600 dark:text-rose-300">{error}</span>}
+
+      <Modal open={openCreate} title="Novo mapa" onClose={() => setOpenCreate(false)}>
+        <div className="space-y-3">
+          <div>
+            <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Nome</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              placeholder="Ex: Filial Centro"
+            />
+          </div>
+          <div>
+            <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Descrição (opcional)</label>
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+            />
+          </div>
+          <button
+            onClick={submitCreate}
+            className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+          >
+            Criar mapa
+          </button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
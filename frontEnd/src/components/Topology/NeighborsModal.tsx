@@ -0,0 +1,225 @@
+import { useState } from "react";
+import Modal from "@/components/ui/Modal";
+import {
+  acceptNeighbors,
+  reconcileNeighbors,
+  type NeighborEntry,
+  type NeighborReconciliation,
+} from "@/api/neighbors";
+
+const inputClass =
+  "mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+const labelClass = "text-[11px] font-bold text-slate-500 dark:text-slate-400";
+
+const sectionTitle = "mb-1 mt-2 font-extrabold text-slate-900 dark:text-slate-100";
+
+const port = (p: string | null) => (p ? ` (${p})` : "");
+
+/**
+ * Cola a saída de `show lldp/cdp neighbors` (ou um JSON de vizinhos),
+ * compara com os links do mapa e grava só o que foi marcado.
+ */
+export default function NeighborsModal({
+  open,
+  mapId,
+  canApply,
+  onClose,
+  onApplied,
+}: {
+  open: boolean;
+  mapId: string;
+  /** criar/remover links é de admin; os demais só conferem */
+  canApply: boolean;
+  onClose: () => void;
+  onApplied: (r: { created: number; removed: number }) => void;
+}) {
+  const [text, setText] = useState<string>("");
+  const [localDevice, setLocalDevice] = useState<string>("");
+  const [entries, setEntries] = useState<NeighborEntry[]>([]);
+  const [result, setResult] = useState<NeighborReconciliation | null>(null);
+  // índices das propostas / ids dos links sem respaldo marcados
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+  const [removed, setRemoved] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const onJsonFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    try {
+      const parsed = JSON.parse(content) as NeighborEntry[] | { entries: NeighborEntry[] };
+      setEntries(Array.isArray(parsed) ? parsed : parsed.entries);
+      setError(null);
+    } catch {
+      // não é JSON: trata como saída do equipamento
+      setText(content);
+      setEntries([]);
+    }
+  };
+
+  const compare = async () => {
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      const r = await reconcileNeighbors({
+        mapId,
+        text: text.trim() || undefined,
+        localDevice: localDevice.trim() || undefined,
+        entries,
+      });
+      setResult(r);
+      setAccepted(new Set(r.proposals.map((_, i) => i)));
+      setRemoved(new Set());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "unknown");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const apply = async () => {
+    if (!result) return;
+    setBusy(true);
+    try {
+      const r = await acceptNeighbors({
+        mapId,
+        links: result.proposals
+          .filter((_, i) => accepted.has(i))
+          .map(({ fromId, toId, fromHandle, toHandle }) => ({ fromId, toId, fromHandle, toHandle })),
+        removeLinkIds: [...removed],
+      });
+      setResult(null);
+      onApplied(r);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "unknown");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    return next;
+  };
+
+  return (
+    <Modal open={open} title="Vizinhos LLDP/CDP" onClose={onClose}>
+      <div className="space-y-3">
+        <div>
+          <label className={labelClass}>Saída do equipamento (pode colar vários, com a linha do prompt)</label>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={6}
+            placeholder={"sw1#show lldp neighbors detail\n..."}
+            className="mt-1 w-full rounded-xl border border-slate-900/10 bg-white p-3 font-mono text-[11px] text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Equipamento local (sem prompt)</label>
+            <input value={localDevice} onChange={(e) => setLocalDevice(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Ou arquivo (JSON/texto)</label>
+            <input
+              type="file"
+              accept=".json,.txt,.log,application/json,text/plain"
+              onChange={(e) => onJsonFile(e.target.files?.[0])}
+              className="mt-2 block w-full text-[11px] font-semibold text-slate-700 dark:text-slate-200"
+            />
+            {entries.length > 0 && <div className="text-[11px] font-semibold text-slate-500">{entries.length} vizinhos no JSON</div>}
+          </div>
+        </div>
+
+        <button
+          onClick={compare}
+          disabled={busy || (!text.trim() && entries.length === 0)}
+          className="h-10 w-full rounded-xl border border-slate-900/10 bg-white text-[12px] font-extrabold text-slate-900 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-800"
+        >
+          {busy ? "Processando..." : "Comparar com o mapa"}
+        </button>
+
+        {error && <div className="break-words text-[11px] font-semibold text-rose-600 dark:text-rose-300">Erro: {error}</div>}
+
+        {result && (
+          <div className="max-h-80 overflow-auto rounded-xl border border-slate-900/10 p-3 text-[11px] font-semibold text-slate-700 dark:border-slate-700 dark:text-slate-200">
+            <div className="font-extrabold text-slate-900 dark:text-slate-100">
+              {result.entries} vizinhos lidos · {result.confirmed.length} links confirmados
+            </div>
+
+            <div className={sectionTitle}>Links novos ({result.proposals.length})</div>
+            {result.proposals.length === 0 && <div className="text-slate-500">Nenhum.</div>}
+            {result.proposals.map((p, i) => (
+              <label key={`${p.fromId}-${p.fromHandle}-${p.toId}-${p.toHandle}`} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  disabled={!canApply}
+                  checked={accepted.has(i)}
+                  onChange={() => setAccepted((s) => toggle(s, i))}
+                />
+                <span>
+                  {p.fromName}{port(p.fromHandle)} → {p.toName}{port(p.toHandle)}
+                  {p.bothSides && <span className="text-emerald-700 dark:text-emerald-300"> · visto dos dois lados</span>}
+                </span>
+              </label>
+            ))}
+
+            {result.confirmed.some((c) => c.missingHandles) && (
+              <div className="mt-2 text-slate-500">
+                {result.confirmed.filter((c) => c.missingHandles).length} links confirmados ainda sem porta no mapa.
+              </div>
+            )}
+
+            <div className={sectionTitle}>Sem respaldo nos vizinhos ({result.unsupported.length})</div>
+            {result.unsupported.length === 0 && <div className="text-slate-500">Nenhum.</div>}
+            {result.unsupported.map((l) => (
+              <label key={l.linkId} className="flex items-center gap-2 text-amber-700 dark:text-amber-300">
+                <input
+                  type="checkbox"
+                  disabled={!canApply}
+                  checked={removed.has(l.linkId)}
+                  onChange={() => setRemoved((s) => toggle(s, l.linkId))}
+                />
+                <span>
+                  ⚠ {l.fromName}{port(l.fromHandle)} → {l.toName}{port(l.toHandle)}
+                  {l.label ? ` "${l.label}"` : ""} {removed.has(l.linkId) && "· será removido"}
+                </span>
+              </label>
+            ))}
+
+            {result.unresolved.length > 0 && (
+              <>
+                <div className={sectionTitle}>Não reconhecidos ({result.unresolved.length})</div>
+                {result.unresolved.map((u) => (
+                  <div key={`${u.localDevice}-${u.localPort}-${u.remoteSystem}-${u.remotePort}`} className="text-slate-500">
+                    {u.localDevice} {u.localPort} → {u.remoteSystem} {u.remotePort}: {u.reason}
+                  </div>
+                ))}
+              </>
+            )}
+
+            {result.unparsed.map((line) => (
+              <div key={line} className="text-slate-500">? {line}</div>
+            ))}
+          </div>
+        )}
+
+        {result && canApply && (
+          <button
+            onClick={apply}
+            disabled={busy || (accepted.size === 0 && removed.size === 0)}
+            className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+          >
+            Aplicar {accepted.size} novos{removed.size > 0 ? ` e remover ${removed.size}` : ""}
+          </button>
+        )}
+      </div>
+    </Modal>
+  );
+}
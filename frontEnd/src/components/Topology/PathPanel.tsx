@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { fetchPaths, type PathHop, type PathResult, type PathWeight } from "@/api/paths";
+import { statusHex } from "./deviceStyle";
+import { formatSpeed } from "./ports";
+
+const labelClass = "text-[11px] font-bold text-slate-500 dark:text-slate-400";
+
+const selectClass =
+  "h-8 w-full min-w-0 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+const buttonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+function describeHopLink(l: NonNullable<PathHop["link"]>) {
+  const ports = l.outPort || l.inPort ? `${l.outPort ?? "?"} → ${l.inPort ?? "?"}` : "";
+  return [ports, l.label, formatSpeed(l.capacityMbps ?? undefined), l.down ? "down" : ""].filter(Boolean).join(" • ") || "link";
+}
+
+/**
+ * Modo caminho: escolhe origem/destino, traça (GET /paths) e percorre os saltos.
+ * O resultado e o salto atual ficam no canvas, que destaca a rota.
+ */
+export default function PathPanel({
+  options,
+  selectedId,
+  result,
+  pathIndex,
+  hopIndex,
+  onResult,
+  onPathIndex,
+  onHopIndex,
+  onMessage,
+  onClose,
+}: {
+  options: { id: string; label: string }[];
+  /** equipamento selecionado no canvas (atalho para origem/destino) */
+  selectedId: string | null;
+  result: PathResult | null;
+  pathIndex: number;
+  hopIndex: number;
+  onResult: (r: PathResult | null) => void;
+  onPathIndex: (i: number) => void;
+  onHopIndex: (i: number) => void;
+  onMessage: (msg: string) => void;
+  onClose: () => void;
+}) {
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("");
+  const [weight, setWeight] = useState<PathWeight>("hops");
+  const [avoidDown, setAvoidDown] = useState<boolean>(true);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const trace = async () => {
+    if (!from || !to) return onMessage("Escolha origem e destino.");
+    setLoading(true);
+    try {
+      const r = await fetchPaths(from, to, { weight, avoidDown });
+      onResult(r);
+      onPathIndex(0);
+      onHopIndex(0);
+    } catch (err: unknown) {
+      onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pickPath = (i: number) => {
+    onPathIndex(i);
+    onHopIndex(0);
+  };
+
+  const path = result?.paths[pathIndex];
+  const hops = path?.hops ?? [];
+
+  const endpoint = (label: string, value: string, set: (v: string) => void) => (
+    <div>
+      <div className={labelClass}>{label}</div>
+      <div className="flex gap-1">
+        <select value={value} onChange={(e) => set(e.target.value)} className={selectClass}>
+          <option value="">(escolha)</option>
+          {options.map((o) => (
+            <option key={o.id} value={o.id}>{o.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => selectedId && set(selectedId)}
+          disabled={!selectedId || !options.some((o) => o.id === selectedId)}
+          className={buttonClass}
+          title="Usar o equipamento selecionado"
+        >
+          ⌖
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mb-3 rounded-xl border border-sky-500/30 bg-white p-3 dark:border-sky-500/30 dark:bg-slate-950">
+      <div className="mb-1 flex items-center justify-between">
+        <div className="text-[12px] font-extrabold text-slate-900 dark:text-slate-100">Traçar caminho</div>
+        <button onClick={onClose} className={buttonClass}>
+          Sair
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        {endpoint("Origem", from, setFrom)}
+        {endpoint("Destino", to, setTo)}
+        <div className="flex items-center gap-2">
+          <select value={weight} onChange={(e) => setWeight(e.target.value as PathWeight)} className={selectClass}>
+            <option value="hops">Menos saltos</option>
+            <option value="capacity">Maior capacidade</option>
+          </select>
+          <label className="flex shrink-0 items-center gap-1 text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+            <input type="checkbox" checked={avoidDown} onChange={(e) => setAvoidDown(e.target.checked)} />
+            evitar down
+          </label>
+        </div>
+        <button
+          onClick={trace}
+          disabled={loading}
+          className="h-8 w-full rounded-lg bg-slate-900 text-[11px] font-extrabold text-white hover:bg-slate-800 disabled:opacity-60 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+        >
+          {loading ? "Traçando..." : "Traçar"}
+        </button>
+      </div>
+
+      {result && (
+        <div className="mt-2 text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+          {result.paths.length === 0 ? (
+            <div className="font-bold text-rose-600 dark:text-rose-400">
+              Sem caminho{result.avoidDown ? " (links down foram evitados)" : ""}.
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <span>
+                  {result.paths.length} caminho(s){result.truncated ? "+" : ""} • custo {result.cost}
+                </span>
+                {result.paths.length > 1 && (
+                  <span className="flex items-center">
+                    <button onClick={() => pickPath(pathIndex - 1)} disabled={pathIndex === 0} className={buttonClass}>
+                      ◀
+                    </button>
+                    {pathIndex + 1}/{result.paths.length}
+                    <button
+                      onClick={() => pickPath(pathIndex + 1)}
+                      disabled={pathIndex >= result.paths.length - 1}
+                      className={buttonClass}
+                    >
+                      ▶
+                    </button>
+                  </span>
+                )}
+              </div>
+
+              <div className="mt-1 flex items-center justify-between">
+                <span className={labelClass}>
+                  Salto {hopIndex + 1} de {hops.length}
+                </span>
+                <span>
+                  <button onClick={() => onHopIndex(hopIndex - 1)} disabled={hopIndex === 0} className={buttonClass}>
+                    Anterior
+                  </button>
+                  <button onClick={() => onHopIndex(hopIndex + 1)} disabled={hopIndex >= hops.length - 1} className={buttonClass}>
+                    Próximo
+                  </button>
+                </span>
+              </div>
+
+              <ol className="mt-1 max-h-[260px] overflow-auto">
+                {hops.map((h, i) => (
+                  <li key={`${h.device.id}-${i}`}>
+                    {h.link && (
+                      <div className={`pl-4 text-[10px] ${h.link.down ? "font-bold text-rose-600 dark:text-rose-400" : "text-slate-400"}`}>
+                        ↓ {describeHopLink(h.link)}
+                      </div>
+                    )}
+                    <button
+                      onClick={() => onHopIndex(i)}
+                      className={`flex w-full items-center gap-1.5 rounded-md px-1 py-0.5 text-left ${
+                        i === hopIndex ? "bg-sky-100 font-extrabold text-sky-900 dark:bg-sky-950 dark:text-sky-100" : "hover:bg-slate-100 dark:hover:bg-slate-800"
+                      }`}
+                    >
+                      <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: statusHex[h.device.status] }} />
+                      <span className="truncate">
+                        {i + 1}. {h.device.name}
+                        {h.device.ip ? ` • ${h.device.ip}` : ""}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  createSnapshot,
+  deleteSnapshot,
+  fetchSnapshotDiff,
+  fetchSnapshots,
+  restoreSnapshot,
+  type SnapshotDiff,
+  type SnapshotRow,
+} from "@/api/snapshots";
+
+const buttonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+function summary(diff: SnapshotDiff) {
+  const d = diff.devices;
+  const l = diff.links;
+  return `equip. +${d.added.length} −${d.removed.length} Δ${d.modified.length} • links +${l.added.length} −${l.removed.length} Δ${l.modified.length}`;
+}
+
+export default function SnapshotsPanel({
+  mapId,
+  canCreate,
+  canManage,
+  comparing,
+  onCompare,
+  onRestored,
+  onMessage,
+  onClose,
+}: {
+  mapId: string;
+  /** operador+ tira snapshot */
+  canCreate: boolean;
+  /** admin restaura e remove */
+  canManage: boolean;
+  /** diff sobreposto no canvas agora (null = nenhum) */
+  comparing: SnapshotDiff | null;
+  onCompare: (diff: SnapshotDiff | null) => void;
+  onRestored: () => void;
+  onMessage: (msg: string) => void;
+  onClose: () => void;
+}) {
+  const [snapshots, setSnapshots] = useState<SnapshotRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState<string>("");
+  const [reloadKey, setReloadKey] = useState<number>(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSnapshots(mapId)
+      .then((list) => {
+        if (cancelled) return;
+        setError(null);
+        setSnapshots(list);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "unknown");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mapId, reloadKey]);
+
+  const run = useCallback(
+    async (fn: () => Promise<unknown>, ok: string) => {
+      try {
+        await fn();
+        onMessage(ok);
+        setReloadKey((k) => k + 1);
+      } catch (err: unknown) {
+        onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+      }
+    },
+    [onMessage]
+  );
+
+  const submitCreate = async () => {
+    if (!name.trim()) return onMessage("Dê um nome ao snapshot.");
+    await run(() => createSnapshot({ name: name.trim(), mapId }), "Snapshot salvo ✅");
+    setName("");
+  };
+
+  const compare = (s: SnapshotRow) =>
+    run(async () => onCompare(await fetchSnapshotDiff(s.id)), `Comparando com "${s.name}" ✅`);
+
+  const restore = (s: SnapshotRow) => {
+    if (!window.confirm(`Restaurar o mapa para "${s.name}"? O que foi criado depois será removido.`)) return;
+    return run(async () => {
+      await restoreSnapshot(s.id);
+      onCompare(null);
+      onRestored();
+    }, "Snapshot restaurado ✅");
+  };
+
+  const remove = (s: SnapshotRow) =>
+    run(async () => {
+      await deleteSnapshot(s.id);
+      if (comparing?.from.id === s.id) onCompare(null);
+    }, "Snapshot removido ✅");
+
+  return (
+    <div className="w-[380px] rounded-2xl border border-slate-900/10 bg-white/95 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/95">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-[13px] font-extrabold text-slate-900 dark:text-slate-100">Snapshots</h2>
+        <button onClick={onClose} className={buttonClass}>
+          Fechar
+        </button>
+      </div>
+
+      {canCreate && (
+        <div className="mb-2 flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submitCreate()}
+            placeholder="Nome (ex.: antes da janela de 12/10)"
+            className="h-8 flex-1 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+          />
+          <button
+            onClick={submitCreate}
+            className="h-8 rounded-lg bg-slate-900 px-3 text-[11px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+          >
+            Salvar
+          </button>
+        </div>
+      )}
+
+      {comparing && (
+        <div className="mb-2 rounded-lg bg-sky-50 px-2 py-1.5 text-[11px] font-semibold text-sky-800 dark:bg-sky-950/40 dark:text-sky-200">
+          <div className="flex items-center justify-between gap-2">
+            <span className="truncate">
+              <b>{comparing.from.name}</b> → atual
+            </span>
+            <button onClick={() => onCompare(null)} className={buttonClass}>
+              Sair da comparação
+            </button>
+          </div>
+          <div>{summary(comparing)}</div>
+        </div>
+      )}
+
+      <div className="max-h-[320px] overflow-auto">
+        {error ? (
+          <div className="py-2 text-[11px] font-semibold text-rose-600 dark:text-rose-300">Erro: {error}</div>
+        ) : !snapshots ? (
+          <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Carregando...</div>
+        ) : snapshots.length === 0 ? (
+          <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Nenhum snapshot deste mapa.</div>
+        ) : (
+          snapshots.map((s) => (
+            <div key={s.id} className="border-b border-slate-900/5 py-1.5 last:border-0 dark:border-slate-800">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">{s.name}</div>
+                  <div className="truncate text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                    {new Date(s.created_at).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+                    {s.created_by ? ` • ${s.created_by}` : ""} • {s.node_count} nós, {s.edge_count} links
+                  </div>
+                </div>
+                <div className="flex shrink-0">
+                  <button onClick={() => compare(s)} disabled={comparing?.from.id === s.id} className={buttonClass}>
+                    Comparar
+                  </button>
+                  {canManage && (
+                    <>
+                      <button onClick={() => restore(s)} className={buttonClass}>
+                        Restaurar
+                      </button>
+                      <button
+                        onClick={() => remove(s)}
+                        className="rounded-lg px-2 py-1 text-[11px] font-extrabold text-rose-600 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-950/40"
+                      >
+                        Remover
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  fetchDeviceHistory,
+  fetchLinkHistory,
+  type DeviceStatus,
+  type StatusEvent,
+} from "@/api/topology";
+
+const windows = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+} as const;
+
+type WindowKey = keyof typeof windows;
+
+const barColor: Record<DeviceStatus, string> = {
+  up: "bg-emerald-500",
+  warn: "bg-amber-500",
+  down: "bg-rose-500",
+};
+
+const sourceLabel = { manual: "manual", probe: "sonda", webhook: "webhook", discovery: "descoberta" } as const;
+
+function formatDuration(ms: number) {
+  const min = Math.round(ms / 60000);
+  if (min < 1) return "< 1 min";
+  if (min < 60) return `${min} min`;
+  const h = Math.floor(min / 60);
+  if (h < 48) return `${h}h ${min % 60}min`;
+  return `${Math.floor(h / 24)}d ${h % 24}h`;
+}
+
+export default function StatusTimeline({
+  entityType,
+  id,
+  status,
+}: {
+  entityType: "device" | "link";
+  id: string;
+  /** muda quando o status atual muda, forçando recarregar */
+  status: DeviceStatus;
+}) {
+  const [windowKey, setWindowKey] = useState<WindowKey>("24h");
+  const [result, setResult] = useState<{ key: string; events: StatusEvent[]; until: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestKey = `${entityType}:${id}:${status}:${windowKey}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    const until = Date.now();
+    const from = new Date(until - windows[windowKey]).toISOString();
+    const fetcher = entityType === "device" ? fetchDeviceHistory : fetchLinkHistory;
+
+    fetcher(id, { from })
+      .then((events) => {
+        if (cancelled) return;
+        setError(null);
+        setResult({ key: requestKey, events, until });
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "unknown");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, id, windowKey, requestKey]);
+
+  const loaded = result?.key === requestKey ? result : null;
+
+  // segmentos: cada evento vale até o próximo (ou até agora); o primeiro pode
+  // ser anterior à janela (status em vigor no início) e é cortado em start
+  const segments = useMemo(() => {
+    if (!loaded) return [];
+    const start = loaded.until - windows[windowKey];
+    return loaded.events.map((e, i) => {
+      const from = Math.max(new Date(e.created_at).getTime(), start);
+      const next = loaded.events[i + 1];
+      const to = next ? new Date(next.created_at).getTime() : loaded.until;
+      const elapsed = to - new Date(e.created_at).getTime();
+      return { event: e, from, to, duration: to - from, elapsed, start };
+    });
+  }, [loaded, windowKey]);
+
+  const total = windows[windowKey];
+
+  return (
+    <div className="mt-3 rounded-xl border border-slate-900/10 bg-white p-3 dark:border-slate-700 dark:bg-slate-950">
+      <div className="flex items-center justify-between">
+        <div className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Histórico de status</div>
+        <div className="flex gap-1">
+          {(Object.keys(windows) as WindowKey[]).map((k) => (
+            <button
+              key={k}
+              onClick={() => setWindowKey(k)}
+              className={`rounded-lg px-2 py-0.5 text-[10px] font-extrabold ${
+                k === windowKey
+                  ? "bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900"
+                  : "text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800"
+              }`}
+            >
+              {k}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="mt-2 text-[11px] font-semibold text-rose-600 dark:text-rose-300">Erro: {error}</div>
+      ) : !loaded ? (
+        <div className="mt-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Carregando...</div>
+      ) : segments.length === 0 ? (
+        <div className="mt-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Sem mudanças no período.</div>
+      ) : (
+        <>
+          <div className="relative mt-2 h-2.5 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-800">
+            {segments.map((s) => (
+              <div
+                key={s.event.id}
+                className={`absolute top-0 h-full ${barColor[s.event.status]}`}
+                style={{
+                  left: `${((s.from - s.start) / total) * 100}%`,
+                  width: `${Math.max((s.duration / total) * 100, 0.5)}%`,
+                }}
+                title={`${s.event.status.toUpperCase()} • ${formatDuration(s.duration)}`}
+              />
+            ))}
+          </div>
+
+          <div className="mt-2 max-h-[140px] overflow-auto">
+            {[...segments].reverse().map((s) => (
+              <div
+                key={s.event.id}
+                className="flex items-center justify-between gap-2 border-b border-slate-900/5 py-1 text-[11px] font-semibold text-slate-600 last:border-0 dark:border-slate-800 dark:text-slate-300"
+              >
+                <span className="flex items-center gap-1.5">
+                  <span className={`h-2 w-2 rounded-full ${barColor[s.event.status]}`} />
+                  {s.event.previous_status ? `${s.event.previous_status} → ` : ""}
+                  <b>{s.event.status}</b>
+                  <span className="text-slate-400 dark:text-slate-500">({sourceLabel[s.event.source]})</span>
+                </span>
+                <span title={new Date(s.event.created_at).toLocaleString()}>
+                  {new Date(s.event.created_at).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+                  {" • "}
+                  {formatDuration(s.elapsed)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  createSubnet,
+  deleteSubnet,
+  fetchSubnets,
+  fetchSubnetUtilization,
+  type AddressCount,
+  type SubnetSummary,
+  type SubnetUtilization,
+} from "@/api/subnets";
+
+const buttonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+const inputClass =
+  "h-8 min-w-0 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100";
+
+/** % de uso; com contagem em string (IPv6) é sempre ~0. */
+function percent(used: number, usable: AddressCount) {
+  const n = typeof usable === "number" ? usable : Infinity;
+  return n > 0 ? Math.min(100, (used / n) * 100) : 100;
+}
+
+function UsageBar({ used, usable }: { used: number; usable: AddressCount }) {
+  const p = percent(used, usable);
+  const color = p >= 90 ? "bg-rose-500" : p >= 70 ? "bg-amber-500" : "bg-emerald-500";
+  return (
+    <div className="mt-1 h-1.5 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-800">
+      <div className={`h-full ${color}`} style={{ width: `${Math.max(p, used > 0 ? 2 : 0)}%` }} />
+    </div>
+  );
+}
+
+/** Sub-redes do mapa com utilização; admin cria e remove. */
+export default function SubnetsPanel({
+  mapId,
+  canManage,
+  onMessage,
+  onClose,
+}: {
+  mapId: string;
+  canManage: boolean;
+  onMessage: (msg: string) => void;
+  onClose: () => void;
+}) {
+  const [subnets, setSubnets] = useState<SubnetSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState<number>(0);
+  const [detail, setDetail] = useState<SubnetUtilization | null>(null);
+
+  const [cidr, setCidr] = useState<string>("");
+  const [name, setName] = useState<string>("");
+  const [gateway, setGateway] = useState<string>("");
+  const [vlan, setVlan] = useState<string>("");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSubnets(mapId)
+      .then((list) => {
+        if (cancelled) return;
+        setError(null);
+        setSubnets(list);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "unknown");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mapId, reloadKey]);
+
+  const run = useCallback(
+    async (fn: () => Promise<unknown>, ok: string) => {
+      try {
+        await fn();
+        onMessage(ok);
+        setReloadKey((k) => k + 1);
+      } catch (err: unknown) {
+        onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+      }
+    },
+    [onMessage]
+  );
+
+  const submitCreate = async () => {
+    if (!cidr.trim() || !name.trim()) return onMessage("Informe CIDR e nome da sub-rede.");
+    const vlanId = vlan.trim() ? Number(vlan) : undefined;
+    if (vlanId !== undefined && (!Number.isInteger(vlanId) || vlanId < 1 || vlanId > 4094)) return onMessage("VLAN deve ser entre 1 e 4094.");
+    await run(
+      () => createSubnet({ mapId, cidr: cidr.trim(), name: name.trim(), gateway: gateway.trim() || undefined, vlan: vlanId }),
+      "Sub-rede criada ✅"
+    );
+    setCidr("");
+    setName("");
+    setGateway("");
+    setVlan("");
+  };
+
+  const open = async (s: SubnetSummary) => {
+    try {
+      setDetail(await fetchSubnetUtilization(s.id));
+    } catch (err: unknown) {
+      onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+    }
+  };
+
+  const remove = (s: SubnetSummary) => {
+    if (!window.confirm(`Remover a sub-rede ${s.cidr}? Os equipamentos continuam no mapa.`)) return;
+    return run(async () => {
+      await deleteSubnet(s.id);
+      if (detail?.subnet.id === s.id) setDetail(null);
+    }, "Sub-rede removida ✅");
+  };
+
+  return (
+    <div className="w-[400px] rounded-2xl border border-slate-900/10 bg-white/95 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/95">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-[13px] font-extrabold text-slate-900 dark:text-slate-100">
+          {detail ? `${detail.subnet.name} • ${detail.subnet.cidr}` : "Sub-redes"}
+        </h2>
+        <div className="flex">
+          {detail && (
+            <button onClick={() => setDetail(null)} className={buttonClass}>
+              Voltar
+            </button>
+          )}
+          <button onClick={onClose} className={buttonClass}>
+            Fechar
+          </button>
+        </div>
+      </div>
+
+      {detail ? (
+        <div className="max-h-[380px] overflow-auto text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+          <div>
+            {detail.used} usados de {detail.usable} atribuíveis • {detail.free} livres
+            {detail.subnet.vlan ? ` • VLAN ${detail.subnet.vlan}` : ""}
+          </div>
+          <UsageBar used={detail.used} usable={detail.usable} />
+
+          <div className="mt-2 text-[10px] font-extrabold uppercase tracking-wide text-slate-500 dark:text-slate-400">Em uso</div>
+          {detail.addresses.length === 0 ? (
+            <div className="py-1 text-slate-500 dark:text-slate-400">Nenhum endereço em uso.</div>
+          ) : (
+            detail.addresses.map((a, i) => (
+              <div
+                key={`${a.ip}-${a.deviceId ?? a.kind}-${i}`}
+                className={`flex justify-between gap-2 py-0.5 ${a.duplicate ? "text-rose-600 dark:text-rose-300" : ""}`}
+                title={a.duplicate ? "IP duplicado" : undefined}
+              >
+                <span className="font-mono">{a.ip}</span>
+                <span className="truncate">
+                  {a.kind === "gateway" ? "gateway" : a.name}
+                  {a.duplicate ? " ⚠" : ""}
+                </span>
+              </div>
+            ))
+          )}
+
+          <div className="mt-2 text-[10px] font-extrabold uppercase tracking-wide text-slate-500 dark:text-slate-400">Livres</div>
+          {detail.freeRanges.length === 0 ? (
+            <div className="py-1 text-slate-500 dark:text-slate-400">Sub-rede cheia.</div>
+          ) : (
+            detail.freeRanges.map((r) => (
+              <div key={r.from} className="flex justify-between gap-2 py-0.5">
+                <span className="truncate font-mono">{r.from === r.to ? r.from : `${r.from} – ${r.to}`}</span>
+                <span className="shrink-0">{r.count}</span>
+              </div>
+            ))
+          )}
+        </div>
+      ) : (
+        <>
+          {canManage && (
+            <div className="mb-2 grid grid-cols-2 gap-2">
+              <input value={cidr} onChange={(e) => setCidr(e.target.value)} placeholder="CIDR (10.0.0.0/24)" className={inputClass} />
+              <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nome" className={inputClass} />
+              <input value={gateway} onChange={(e) => setGateway(e.target.value)} placeholder="Gateway (opcional)" className={inputClass} />
+              <div className="flex gap-2">
+                <input
+                  value={vlan}
+                  onChange={(e) => setVlan(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && submitCreate()}
+                  placeholder="VLAN"
+                  inputMode="numeric"
+                  className={`${inputClass} w-full`}
+                />
+                <button
+                  onClick={submitCreate}
+                  className="h-8 rounded-lg bg-slate-900 px-3 text-[11px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+                >
+                  Criar
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="max-h-[320px] overflow-auto">
+            {error ? (
+              <div className="py-2 text-[11px] font-semibold text-rose-600 dark:text-rose-300">Erro: {error}</div>
+            ) : !subnets ? (
+              <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Carregando...</div>
+            ) : subnets.length === 0 ? (
+              <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Nenhuma sub-rede neste mapa.</div>
+            ) : (
+              subnets.map((s) => (
+                <div key={s.id} className="border-b border-slate-900/5 py-1.5 last:border-0 dark:border-slate-800">
+                  <div className="flex items-center justify-between gap-2">
+                    <button onClick={() => open(s)} className="min-w-0 flex-1 text-left">
+                      <div className="truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">
+                        {s.name} <span className="font-mono font-semibold text-slate-500 dark:text-slate-400">{s.cidr}</span>
+                      </div>
+                      <div className="truncate text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                        {s.used}/{s.usable} usados
+                        {s.gateway ? ` • gw ${s.gateway}` : ""}
+                        {s.vlan ? ` • VLAN ${s.vlan}` : ""}
+                        {s.nextFree ? ` • próximo livre ${s.nextFree}` : " • cheia"}
+                      </div>
+                      <UsageBar used={s.used} usable={s.usable} />
+                    </button>
+                    {canManage && (
+                      <button
+                        onClick={() => remove(s)}
+                        className="shrink-0 rounded-lg px-2 py-1 text-[11px] font-extrabold text-rose-600 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-950/40"
+                      >
+                        Remover
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,47 +3,133 @@ import ReactFlow, {
   Background,
   Controls,
   MiniMap,
+  ConnectionMode,
   MarkerType,
+  type Connection,
   type Edge,
-  type Node,
   type NodeTypes,
   useReactFlow,
   useEdgesState,
   useNodesState,
 } from "reactflow";
 import "reactflow/dist/style.css";
-import dagre from "dagre";
 
-import DeviceNode, { type DeviceNodeData } from "./DeviceNode";
+import DeviceNode from "./DeviceNode";
+import GroupNode from "./GroupNode";
+import {
+  DEVICE_SIZE,
+  GroupActionsContext,
+  absolutePosition,
+  buildGroupView,
+  descendantIds,
+  indexById,
+  isDeviceNode,
+  isGroupNode,
+  relativeTo,
+  sortParentsFirst,
+  worstStatus,
+  type FlowNode,
+  type TopologyNodeData,
+} from "./groups";
 import StatusPill from "./StatusPill";
+import StatusTimeline from "./StatusTimeline";
 import Modal from "@/components/ui/Modal";
 import Toast from "@/components/ui/Toast";
 
 import {
-  fetchTopology,
-  patchDevicePosition,
+  fetchDevices,
+  patchDeviceGroup,
+  patchDeviceRoot,
+  fetchEffectiveStatus,
+  patchDeviceInventory,
   patchDeviceStatus,
+  patchLinkCapacity,
   patchLinkStatus,
   createDevice,
   createLink,
   deleteDevice,
   deleteLink,
+  restoreEntities,
+  type DeviceInventory,
   type DeviceStatus,
   type DeviceType,
+  type LinkMedium,
   type LinkStatus,
+  type LinkUtilization,
+  type DeviceRow,
+  type LinkRow,
+  type RestoreDevice,
+  type RestoreLink,
   type TopologyEdge,
 } from "@/api/topology";
-
-const nodeTypes: NodeTypes = { device: DeviceNode };
-
-type EdgeData = { status?: LinkStatus };
-type FlowNode = Node<DeviceNodeData>;
+import { addMapRef, deleteMapRef, fetchMapTopology, patchMapRefPosition } from "@/api/maps";
+import { subscribeLive, type LiveEvent } from "@/api/live";
+import { createGroup, deleteGroup, patchPositions, updateGroup, type GroupKind, type PositionsBatch } from "@/api/groups";
+import type { Role } from "@/api/auth";
+import type { AuditEntityType } from "@/api/audit";
+import AuditPanel from "./AuditPanel";
+import SnapshotsPanel from "./SnapshotsPanel";
+import SubnetsPanel from "./SubnetsPanel";
+import DiscoveryPanel from "./DiscoveryPanel";
+import DeviceTypesPanel from "./DeviceTypesPanel";
+import DeviceDetails from "./DeviceDetails";
+import DevicePorts from "./DevicePorts";
+import VlansPanel from "./VlansPanel";
+import AlertsPanel from "./AlertsPanel";
+import VlanMembership from "./VlanMembership";
+import PathPanel from "./PathPanel";
+import ImpactPanel from "./ImpactPanel";
+import LinkTraffic from "./LinkTraffic";
+import { DeviceTypesContext, FALLBACK_ICON } from "./deviceTypes";
+import { describePort, portLinkStatus } from "./ports";
+import {
+  edgeWidth,
+  mediumDash,
+  mediumLabel,
+  throughputLabel,
+  utilizationHex,
+  utilizationPercent,
+} from "./linkStyle";
+import { NodeFieldsContext, deviceRowInventory, fullInventory, loadNodeFields, saveNodeFields, type NodeFieldKey } from "./inventory";
+import ImportModal from "./ImportModal";
+import BulkImportModal from "./BulkImportModal";
+import NeighborsModal from "./NeighborsModal";
+import ImageExportModal from "./ImageExportModal";
+import { exportCanvasImage, type ImageExportOptions } from "./imageExport";
+import { diagramExportUrl, exportTopology, type DiagramFormat } from "@/api/transfer";
+import { overlayDiff } from "./snapshotDiff";
+import { statusHex } from "./deviceStyle";
+import { layoutWithDagre } from "./layout";
+import type { SnapshotDiff } from "@/api/snapshots";
+import { fetchSubnets, type SubnetSummary } from "@/api/subnets";
+import { fetchDeviceTypes, type DeviceTypeDef } from "@/api/deviceTypes";
+import type { DevicePort } from "@/api/ports";
+import { fetchVlans, setDeviceVlans, setLinkVlans, type LinkVlan, type VlanWithMembers } from "@/api/vlans";
+import type { PathResult } from "@/api/paths";
+import { fetchImpact, type FailureTarget, type ImpactResult } from "@/api/impact";
+import { snapshotPositions, useUndoStack, type PositionSnapshot } from "./undo";
+
+const nodeTypes: NodeTypes = { device: DeviceNode, deviceGroup: GroupNode };
+
+const SHOW_THROUGHPUT_KEY = "showThroughput";
+
+// fromHandle/toHandle = nome da porta (LLDP/import); o handle do React Flow é o id da porta
+type EdgeData = {
+  status?: LinkStatus;
+  fromHandle?: string;
+  toHandle?: string;
+  fromPortId?: string | null;
+  toPortId?: string | null;
+  /** status do link piorado pelas portas das pontas (ver withPortStatus) */
+  effectiveStatus?: LinkStatus;
+  capacityMbps?: number | null;
+  medium?: LinkMedium | null;
+  utilization?: LinkUtilization | null;
+};
 type FlowEdge = Edge<EdgeData>;
 
 function edgeColor(status: LinkStatus) {
-  if (status === "up") return "#22c55e";
-  if (status === "warn") return "#f59e0b";
-  return "#ef4444";
+  return statusHex[status];
 }
 
 function toFlowEdge(e: TopologyEdge): FlowEdge {
@@ -53,43 +139,233 @@ function toFlowEdge(e: TopologyEdge): FlowEdge {
     source: e.source,
     target: e.target,
     label: e.label,
-    data: { status },
+    data: {
+      status,
+      fromHandle: e.data?.fromHandle,
+      toHandle: e.data?.toHandle,
+      fromPortId: e.data?.fromPortId ?? null,
+      toPortId: e.data?.toPortId ?? null,
+      capacityMbps: e.data?.capacityMbps ?? null,
+      medium: e.data?.medium ?? null,
+      utilization: e.data?.utilization,
+    },
+    sourceHandle: e.sourceHandle,
+    targetHandle: e.targetHandle,
     type: "smoothstep",
     animated: status !== "up",
-    style: { stroke: edgeColor(status), strokeWidth: 2 },
+    style: {
+      stroke: edgeColor(status),
+      strokeWidth: edgeWidth(e.data?.capacityMbps),
+      strokeDasharray: mediumDash(e.data?.medium),
+    },
     markerEnd: { type: MarkerType.ArrowClosed },
   };
 }
 
-function layoutWithDagre(
-  nodes: FlowNode[],
-  edges: FlowEdge[],
-  direction: "TB" | "LR" = "TB"
-) {
-  const g = new dagre.graphlib.Graph();
-  g.setDefaultEdgeLabel(() => ({}));
-  g.setGraph({ rankdir: direction, ranksep: 80, nodesep: 55 });
+function edgeToRestore(e: FlowEdge): RestoreLink {
+  return {
+    id: e.id,
+    fromId: e.source,
+    toId: e.target,
+    status: e.data?.status ?? "up",
+    label: typeof e.label === "string" ? e.label : undefined,
+    fromHandle: e.data?.fromHandle,
+    toHandle: e.data?.toHandle,
+    fromPortId: e.data?.fromPortId,
+    toPortId: e.data?.toPortId,
+    capacityMbps: e.data?.capacityMbps,
+    medium: e.data?.medium,
+  };
+}
 
-  nodes.forEach((n) => g.setNode(n.id, { width: 220, height: 70 }));
-  edges.forEach((e) => g.setEdge(e.source, e.target));
+function deviceRowToRestore(d: DeviceRow): RestoreDevice {
+  return {
+    id: d.id,
+    name: d.name,
+    type: d.type,
+    ip: d.ip ?? undefined,
+    status: d.status,
+    x: d.x,
+    y: d.y,
+    mapId: d.map_id,
+    groupId: d.group_id,
+    ...deviceRowInventory(d),
+  };
+}
 
-  dagre.layout(g);
+function linkRowToRestore(l: LinkRow): RestoreLink {
+  return {
+    id: l.id,
+    fromId: l.from_id,
+    toId: l.to_id,
+    status: l.status,
+    label: l.label ?? undefined,
+    fromHandle: l.from_handle ?? undefined,
+    toHandle: l.to_handle ?? undefined,
+    fromPortId: l.from_port_id,
+    toPortId: l.to_port_id,
+    capacityMbps: l.capacity_mbps,
+    medium: l.medium,
+  };
+}
 
-  return nodes.map((n) => {
-    const p = g.node(n.id) as { x: number; y: number };
+/**
+ * Porta desligada/caída derruba a cor do link ligado nela. Handle de porta que
+ * não existe mais no nó sai da aresta (o React Flow não desenha aresta sem handle).
+ */
+function withPortStatus(edges: FlowEdge[], nodes: FlowNode[]): FlowEdge[] {
+  const ports = new Map<string, DevicePort>();
+  for (const n of nodes) if (isDeviceNode(n)) n.data.ports?.forEach((p) => ports.set(p.id, p));
+  if (ports.size === 0 && !edges.some((e) => e.sourceHandle || e.targetHandle)) return edges;
+
+  return edges.map((e) => {
+    const from = e.sourceHandle ? ports.get(e.sourceHandle) : undefined;
+    const to = e.targetHandle ? ports.get(e.targetHandle) : undefined;
+    const status = e.data?.status ?? "up";
+    const portStatuses = [from, to]
+      .map((p) => (p ? portLinkStatus(p) : undefined))
+      .filter((x): x is LinkStatus => x !== undefined);
+    const effective = worstStatus([status, ...portStatuses]) ?? status;
+    if (effective === status && !!from === !!e.sourceHandle && !!to === !!e.targetHandle) return e;
     return {
-      ...n,
-      position: { x: p.x - 110, y: p.y - 35 },
+      ...e,
+      sourceHandle: from ? e.sourceHandle : undefined,
+      targetHandle: to ? e.targetHandle : undefined,
+      data: { ...e.data, effectiveStatus: effective },
+      animated: effective !== "up",
+      style: { ...e.style, stroke: edgeColor(effective) },
     };
   });
 }
 
-export default function TopologyCanvas() {
+/**
+ * Cor pela ocupação (só com o link up: status ruim continua mandando na cor)
+ * e, se pedido, a vazão no texto da aresta.
+ */
+function withTraffic(edges: FlowEdge[], showThroughput: boolean): FlowEdge[] {
+  return edges.map((e) => {
+    const u = e.data?.utilization;
+    if (!u) return e;
+    const percent = utilizationPercent(e.data?.capacityMbps, u);
+    const status = e.data?.effectiveStatus ?? e.data?.status ?? "up";
+    const colored = status === "up" && percent !== undefined;
+    if (!colored && !showThroughput) return e;
+    const label = typeof e.label === "string" && e.label ? e.label : undefined;
+    return {
+      ...e,
+      label: showThroughput ? [label, throughputLabel(u, percent)].filter(Boolean).join(" • ") : e.label,
+      style: colored ? { ...e.style, stroke: utilizationHex(percent) } : e.style,
+    };
+  });
+}
+
+const DIMMED = 0.2;
+
+/**
+ * Destaque de VLAN: links que a carregam ganham a cor dela (untagged sem traço)
+ * e o que não participa fica apagado. Equipamento participa se é membro ou ponta
+ * de um link da VLAN.
+ */
+function withVlanHighlight(view: { nodes: FlowNode[]; edges: FlowEdge[] }, vlan: VlanWithMembers | null) {
+  if (!vlan) return view;
+  const carried = new Map(vlan.links.map((l) => [l.linkId, l.tagged]));
+  const inVlan = new Set(vlan.deviceIds);
+  for (const e of view.edges) {
+    if (!carried.has(e.id)) continue;
+    inVlan.add(e.source);
+    inVlan.add(e.target);
+  }
+  return {
+    nodes: view.nodes.map((n) =>
+      isDeviceNode(n) && !inVlan.has(n.id) ? { ...n, style: { ...n.style, opacity: DIMMED } } : n
+    ),
+    edges: view.edges.map((e) => {
+      const tagged = carried.get(e.id);
+      if (tagged === undefined) return { ...e, animated: false, style: { ...e.style, opacity: DIMMED } };
+      return {
+        ...e,
+        style: {
+          ...e.style,
+          stroke: vlan.color,
+          strokeWidth: Math.max(Number(e.style?.strokeWidth ?? 2), 3),
+          strokeDasharray: tagged ? "8 3" : undefined,
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * Modo caminho: equipamentos e links da rota escolhida em destaque, o salto
+ * atual com contorno; o resto fica apagado.
+ */
+function withPathHighlight(view: { nodes: FlowNode[]; edges: FlowEdge[] }, path: PathResult["paths"][number] | null, hopIndex: number) {
+  if (!path) return view;
+  const onPath = new Set(path.hops.map((h) => h.device.id));
+  const linkIds = new Set(path.hops.flatMap((h) => (h.link ? [h.link.id] : [])));
+  const current = path.hops[hopIndex]?.device.id;
+  return {
+    nodes: view.nodes.map((n) => {
+      if (!isDeviceNode(n)) return n;
+      if (!onPath.has(n.id)) return { ...n, style: { ...n.style, opacity: DIMMED } };
+      if (n.id !== current) return n;
+      return { ...n, style: { ...n.style, filter: "drop-shadow(0 0 6px #0ea5e9) drop-shadow(0 0 2px #0ea5e9)" } };
+    }),
+    edges: view.edges.map((e) =>
+      linkIds.has(e.id)
+        ? { ...e, animated: true, style: { ...e.style, stroke: "#0ea5e9", strokeWidth: Math.max(Number(e.style?.strokeWidth ?? 2), 4), opacity: 1 } }
+        : { ...e, animated: false, style: { ...e.style, opacity: DIMMED } }
+    ),
+  };
+}
+
+/**
+ * Simulação de falha: o que falhou fica apagado e o que perde o caminho até as
+ * raízes ganha sombra vermelha, assim como os links que chegam nele.
+ */
+function withImpact(view: { nodes: FlowNode[]; edges: FlowEdge[] }, impact: ImpactResult | null) {
+  if (!impact) return view;
+  const lost = new Set(impact.unreachable.map((d) => d.id));
+  const failed = impact.failed;
+  return {
+    nodes: view.nodes.map((n) => {
+      if (failed.kind === "device" && n.id === failed.id) return { ...n, style: { ...n.style, opacity: 0.45, filter: "grayscale(1)" } };
+      if (!lost.has(n.id)) return n;
+      return { ...n, style: { ...n.style, filter: "drop-shadow(0 0 6px #e11d48) drop-shadow(0 0 2px #e11d48)" } };
+    }),
+    edges: view.edges.map((e) => {
+      if (failed.kind === "link" && e.id === failed.id) {
+        return { ...e, animated: false, style: { ...e.style, stroke: "#e11d48", strokeDasharray: "4 4", opacity: 0.6 } };
+      }
+      if (!lost.has(e.source) && !lost.has(e.target)) return e;
+      return { ...e, animated: false, style: { ...e.style, stroke: "#e11d48" } };
+    }),
+  };
+}
+
+export default function TopologyCanvas({
+  mapId,
+  role,
+  theme,
+  onOpenMap,
+}: {
+  mapId: string;
+  /** papel do usuário logado: esconde o que a API recusaria */
+  role: Role;
+  /** tema da página: usado no fundo das imagens exportadas */
+  theme: "light" | "dark";
+  /** troca o mapa exibido (nó de referência → mapa de origem) */
+  onOpenMap: (mapId: string) => void;
+}) {
   const rf = useReactFlow();
+  const { push: pushUndo, undo, redo, canUndo, canRedo, nextUndo, nextRedo } = useUndoStack(mapId);
+  const canOperate = role !== "viewer";
+  const canAdmin = role === "admin";
 
-  const [nodes, setNodes, onNodesChange] = useNodesState<DeviceNodeData>([]);
+  const [nodes, setNodes, onNodesChange] = useNodesState<TopologyNodeData>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState<EdgeData>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  const [live, setLive] = useState<boolean>(false);
 
   const [toast, setToast] = useState<string | null>(null);
   const toastTimer = useRef<number | null>(null);
@@ -106,11 +382,25 @@ export default function TopologyCanvas() {
   const [devName, setDevName] = useState<string>("");
   const [devType, setDevType] = useState<DeviceType>("switch");
   const [devIp, setDevIp] = useState<string>("");
+  // sub-redes do mapa, para sugerir o próximo IP livre no modal
+  const [devSubnets, setDevSubnets] = useState<SubnetSummary[]>([]);
+  const [devSubnetId, setDevSubnetId] = useState<string>("");
 
   // form link
   const [linkFrom, setLinkFrom] = useState<string>("");
   const [linkTo, setLinkTo] = useState<string>("");
+  // "" = sem porta (ponta no handle padrão do nó)
+  const [linkFromPort, setLinkFromPort] = useState<string>("");
+  const [linkToPort, setLinkToPort] = useState<string>("");
   const [linkLabel, setLinkLabel] = useState<string>("");
+  const [linkCapacity, setLinkCapacity] = useState<string>("");
+  const [linkMedium, setLinkMedium] = useState<LinkMedium | "">("");
+
+  // form grupo
+  const [openAddGroup, setOpenAddGroup] = useState<boolean>(false);
+  const [groupName, setGroupName] = useState<string>("");
+  const [groupKind, setGroupKind] = useState<GroupKind>("room");
+  const [groupParent, setGroupParent] = useState<string>("");
 
   // search
   const [query, setQuery] = useState<string>("");
@@ -124,106 +414,660 @@ export default function TopologyCanvas() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const topo = await fetchTopology();
+      const topo = await fetchMapTopology(mapId);
 
-      const rfNodes: FlowNode[] = topo.nodes.map((n) => ({
-        id: n.id,
-        type: "device",
-        position: n.position,
-        data: n.data,
-      }));
+      const rfNodes: FlowNode[] = sortParentsFirst(topo.nodes.map((n) => ({ ...n })));
 
       const rfEdges: FlowEdge[] = topo.edges.map((e) => toFlowEdge(e));
 
       setNodes(rfNodes);
       setEdges(rfEdges);
 
-      setLinkFrom(rfNodes[0]?.id ?? "");
-      setLinkTo(rfNodes[1]?.id ?? "");
+      const linkable = rfNodes.filter(isDeviceNode).filter((n) => !n.data.refOf);
+      setLinkFrom(linkable[0]?.id ?? "");
+      setLinkTo(linkable[1]?.id ?? "");
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : "unknown";
       showToast(`Erro ao carregar: ${msg}`);
     } finally {
       setLoading(false);
     }
-  }, [showToast]);
+  }, [mapId, showToast]);
 
   useEffect(() => {
     load();
   }, [load]);
 
+  // tipos de equipamento (ícone, rótulo, tamanho): recarregam no deviceType.changed
+  const [deviceTypes, setDeviceTypes] = useState<DeviceTypeDef[]>([]);
+  const [deviceTypesVersion, setDeviceTypesVersion] = useState<number>(0);
+  const deviceTypeMap = useMemo(() => new Map(deviceTypes.map((t) => [t.key, t])), [deviceTypes]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDeviceTypes()
+      .then((list) => {
+        if (!cancelled) setDeviceTypes(list);
+      })
+      .catch(() => {
+        // sem a lista os nós mostram a chave e o ícone genérico
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [deviceTypesVersion]);
+
+  // VLANs do mapa (painel, destaque e participação): recarregam no vlan.changed
+  const [vlans, setVlans] = useState<VlanWithMembers[] | null>(null);
+  const [vlansVersion, setVlansVersion] = useState<number>(0);
+  const [highlightVlanId, setHighlightVlanId] = useState<string | null>(null);
+  const highlightVlan = useMemo(() => vlans?.find((v) => v.id === highlightVlanId) ?? null, [vlans, highlightVlanId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchVlans(mapId)
+      .then((list) => {
+        if (!cancelled) setVlans(list);
+      })
+      .catch(() => {
+        // sem a lista o destaque e a participação ficam escondidos
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mapId, vlansVersion]);
+
+  // eventos de outras telas: aplica no estado sem refazer o fetch
+  // fila da descoberta (nmap): o painel recarrega quando muda
+  const [discoveryVersion, setDiscoveryVersion] = useState<number>(0);
+  // status efetivo é derivado do mapa inteiro: eventos de equipamento/link pedem só ele de novo
+  const [effectiveVersion, setEffectiveVersion] = useState<number>(0);
+
+  const applyLiveEvent = useCallback(
+    (e: LiveEvent) => {
+      switch (e.type) {
+        case "device.created":
+        case "device.updated": {
+          const incoming = e.data;
+          if (incoming.data.mapId !== mapId) {
+            // equipamento de outro mapa: só interessa se aparece aqui como referência
+            const refId = `ref:${incoming.id}`;
+            setNodes((prev) =>
+              prev.map((n) =>
+                n.id === refId && isDeviceNode(n)
+                  ? { ...n, data: { ...n.data, name: incoming.data.name, ip: incoming.data.ip, status: incoming.data.status } }
+                  : n
+              )
+            );
+            break;
+          }
+          setNodes((prev) => {
+            const byId = indexById(prev);
+            // posição do banco é absoluta; o React Flow quer relativa ao grupo
+            const parentId = incoming.data.groupId;
+            const position = relativeTo(incoming.position, parentId, byId);
+            const current = byId.get(incoming.id);
+            if (!current) {
+              return sortParentsFirst([...prev, { id: incoming.id, type: "device", position, parentId, data: incoming.data }]);
+            }
+            // eventos que não mexem em porta vêm sem `ports`: ficam as que o nó já tem (idem status efetivo)
+            const ports = incoming.data.ports ?? (isDeviceNode(current) ? current.data.ports : undefined);
+            const effectiveStatus = isDeviceNode(current) ? current.data.effectiveStatus : undefined;
+            const next = prev.map((n) =>
+              n.id === incoming.id
+                ? { ...n, parentId, position: n.dragging ? n.position : position, data: { ...incoming.data, ports, effectiveStatus } }
+                : n
+            );
+            return current.parentId === parentId ? next : sortParentsFirst(next);
+          });
+          setEffectiveVersion((v) => v + 1);
+          break;
+        }
+        case "device.position": {
+          const { id, position } = e.data;
+          setNodes((prev) => {
+            const byId = indexById(prev);
+            return prev.map((n) =>
+              n.id === id && !n.dragging ? { ...n, position: relativeTo(position, n.parentId, byId) } : n
+            );
+          });
+          break;
+        }
+        case "device.deleted": {
+          const { id } = e.data;
+          setNodes((prev) => prev.filter((n) => n.id !== id && n.id !== `ref:${id}`));
+          setEdges((prev) => prev.filter((x) => x.source !== id && x.target !== id));
+          setEffectiveVersion((v) => v + 1);
+          break;
+        }
+        case "link.created":
+        case "link.updated": {
+          const incoming = toFlowEdge(e.data);
+          // link de outro mapa
+          if (!rf.getNode(incoming.source)) break;
+          // evento sem tráfego (PATCH, restore): fica a última amostra que já temos
+          const keep = (x: FlowEdge): FlowEdge =>
+            incoming.data?.utilization === undefined
+              ? { ...incoming, data: { ...incoming.data, utilization: x.data?.utilization }, selected: x.selected }
+              : { ...incoming, selected: x.selected };
+          setEdges((prev) =>
+            prev.some((x) => x.id === incoming.id)
+              ? prev.map((x) => (x.id === incoming.id ? keep(x) : x))
+              : [...prev, incoming]
+          );
+          setEffectiveVersion((v) => v + 1);
+          break;
+        }
+        case "link.utilization": {
+          const samples = new Map(e.data.map((u) => [u.id, u.utilization]));
+          setEdges((prev) =>
+            prev.map((x) => {
+              const utilization = samples.get(x.id);
+              return utilization ? { ...x, data: { ...x.data, utilization } } : x;
+            })
+          );
+          break;
+        }
+        case "link.deleted": {
+          const { id } = e.data;
+          setEdges((prev) => prev.filter((x) => x.id !== id));
+          setEffectiveVersion((v) => v + 1);
+          break;
+        }
+        case "group.created":
+        case "group.updated": {
+          const incoming = e.data;
+          if (incoming.data.mapId !== mapId) break;
+          setNodes((prev) => {
+            const byId = indexById(prev);
+            const parentId = incoming.data.groupId;
+            const position = relativeTo(incoming.position, parentId, byId);
+            const node: FlowNode = { ...incoming, parentId, position };
+            const next = byId.has(incoming.id)
+              ? prev.map((n) =>
+                  n.id === incoming.id
+                    ? { ...n, ...node, position: n.dragging ? n.position : position, selected: n.selected }
+                    : n
+                )
+              : [...prev, node];
+            return sortParentsFirst(next);
+          });
+          break;
+        }
+        case "group.deleted":
+          // membros sobem para o grupo avô: mais simples refazer o fetch
+          if (rf.getNode(e.data.id)) void load();
+          break;
+        case "topology.restored":
+          if (e.data.mapId === null || e.data.mapId === mapId) void load();
+          break;
+        case "discovery.queued":
+          if (e.data.mapId === mapId) setDiscoveryVersion((v) => v + 1);
+          break;
+        case "deviceType.changed":
+          setDeviceTypesVersion((v) => v + 1);
+          break;
+        case "vlan.changed":
+          if (e.data.mapId === mapId) setVlansVersion((v) => v + 1);
+          break;
+      }
+    },
+    [mapId, rf, load, setNodes, setEdges]
+  );
+
+  useEffect(() => {
+    if (effectiveVersion === 0) return;
+    let cancelled = false;
+    // rajada de eventos (import, sonda) vira um pedido só
+    const timer = setTimeout(() => {
+      fetchEffectiveStatus(mapId)
+        .then((statuses) => {
+          if (cancelled) return;
+          setNodes((prev) =>
+            prev.map((n) =>
+              isDeviceNode(n) && statuses[n.id] && statuses[n.id] !== n.data.effectiveStatus
+                ? { ...n, data: { ...n.data, effectiveStatus: statuses[n.id] } }
+                : n
+            )
+          );
+        })
+        .catch(() => {
+          // fica o último status efetivo; o próximo evento tenta de novo
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mapId, effectiveVersion, setNodes]);
+
+  useEffect(
+    () =>
+      subscribeLive({
+        onEvent: applyLiveEvent,
+        onResync: () => load(),
+        onConnectionChange: setLive,
+      }),
+    [applyLiveEvent, load]
+  );
+
+  /**
+   * Salva posições absolutas dos nós alterados. Mover um grupo muda a
+   * posição absoluta de tudo que está dentro dele, então vai junto.
+   * Nó de referência guarda a posição na tabela map_refs, não no device.
+   */
+  const persistPositions = useCallback(
+    async (changed: FlowNode[], all: FlowNode[] = rf.getNodes()) => {
+      const byId = indexById(all);
+
+      const ids = new Set<string>();
+      changed.forEach((n) => {
+        ids.add(n.id);
+        if (isGroupNode(n)) descendantIds(n.id, all).forEach((id) => ids.add(id));
+      });
+
+      const batch: Required<PositionsBatch> = { devices: [], groups: [] };
+      const refs: Promise<unknown>[] = [];
+
+      sortParentsFirst(all).forEach((n) => {
+        if (!ids.has(n.id)) return;
+        const abs = absolutePosition(n, byId);
+        if (isGroupNode(n)) {
+          // recolhido: o style é o do resumo, não o tamanho real da caixa
+          const size = n.data.collapsed
+            ? {}
+            : { width: Number(n.style?.width), height: Number(n.style?.height) };
+          batch.groups.push({ id: n.id, ...abs, ...size });
+        } else if (isDeviceNode(n) && n.data.refOf) {
+          refs.push(patchMapRefPosition(mapId, n.data.refOf, abs.x, abs.y));
+        } else {
+          batch.devices.push({ id: n.id, ...abs });
+        }
+      });
+
+      await Promise.all([patchPositions(batch), ...refs]);
+    },
+    [mapId, rf]
+  );
+
+  // entradas do desfazer são chamadas muito depois: leem o estado mais recente daqui
+  const nodesRef = useRef<FlowNode[]>([]);
+  useEffect(() => {
+    nodesRef.current = nodes;
+  }, [nodes]);
+
+  /** Volta os nós para posições absolutas salvas e persiste. */
+  const applyPositions = useCallback(
+    async (snap: PositionSnapshot) => {
+      const built = new Map<string, FlowNode>();
+      const next = sortParentsFirst(nodesRef.current).map((n) => {
+        const s = snap.get(n.id);
+        let out = n;
+        if (s) {
+          const { width, height, ...abs } = s;
+          out = {
+            ...n,
+            // pais vêm antes: `built` já tem a posição nova do pai
+            position: relativeTo(abs, n.parentId, built),
+            style: width !== undefined ? { ...n.style, width, height } : n.style,
+          };
+        }
+        built.set(out.id, out);
+        return out;
+      });
+      setNodes(next);
+      await persistPositions(next.filter((n) => snap.has(n.id)), next);
+    },
+    [persistPositions, setNodes]
+  );
+
+  const dragStart = useRef<PositionSnapshot | null>(null);
+
+  const onNodeDragStart = useCallback(
+    (_event: unknown, node: FlowNode, dragged: FlowNode[]) => {
+      const all = rf.getNodes() as FlowNode[];
+      const ids = new Set<string>();
+      (dragged.length ? dragged : [node]).forEach((n) => {
+        ids.add(n.id);
+        descendantIds(n.id, all).forEach((id) => ids.add(id));
+      });
+      dragStart.current = snapshotPositions(ids, all);
+    },
+    [rf]
+  );
+
   // dragStop salva posição
   const onNodeDragStop = useCallback(
-    async (_event: unknown, node: FlowNode) => {
+    async (_event: unknown, node: FlowNode, dragged: FlowNode[]) => {
+      const before = dragStart.current;
+      dragStart.current = null;
       try {
-        await patchDevicePosition(node.id, node.position.x, node.position.y);
+        await persistPositions(dragged.length ? dragged : [node]);
         showToast("Posição salva ✅");
+
+        if (before) {
+          const after = snapshotPositions(before.keys(), rf.getNodes() as FlowNode[]);
+          const moved = [...before].some(([id, p]) => after.get(id)?.x !== p.x || after.get(id)?.y !== p.y);
+          if (moved) pushUndo({ label: "mover", undo: () => applyPositions(before), redo: () => applyPositions(after) });
+        }
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : "unknown";
         showToast(`Falha ao salvar posição: ${msg}`);
       }
     },
-    [showToast]
+    [rf, persistPositions, applyPositions, pushUndo, showToast]
+  );
+
+  const groupActions = useMemo(
+    () => ({
+      editable: canOperate,
+      onToggleCollapse: async (id: string) => {
+        const g = nodes.find((n) => n.id === id);
+        if (!g || !isGroupNode(g)) return;
+        const collapsed = !g.data.collapsed;
+        try {
+          // leitura só recolhe na própria tela
+          if (canOperate) await updateGroup(id, { collapsed });
+          setNodes((prev) =>
+            prev.map((n) => (n.id === id && isGroupNode(n) ? { ...n, data: { ...n.data, collapsed } } : n))
+          );
+        } catch (err: unknown) {
+          const msg = err instanceof Error ? err.message : "unknown";
+          showToast(`Falha ao atualizar grupo: ${msg}`);
+        }
+      },
+      onResizeEnd: async (id: string) => {
+        const g = rf.getNode(id) as FlowNode | undefined;
+        if (!g) return;
+        try {
+          await persistPositions([g]);
+          showToast("Tamanho do grupo salvo ✅");
+        } catch (err: unknown) {
+          const msg = err instanceof Error ? err.message : "unknown";
+          showToast(`Falha ao salvar grupo: ${msg}`);
+        }
+      },
+    }),
+    [canOperate, nodes, rf, persistPositions, setNodes, showToast]
   );
 
+  // grupos recolhidos escondem membros e desviam as arestas
+  // vazão no texto das arestas (preferência local)
+  const [showThroughput, setShowThroughput] = useState<boolean>(() => localStorage.getItem(SHOW_THROUGHPUT_KEY) === "1");
+  const toggleThroughput = useCallback(() => {
+    const next = !showThroughput;
+    setShowThroughput(next);
+    localStorage.setItem(SHOW_THROUGHPUT_KEY, next ? "1" : "0");
+  }, [showThroughput]);
+
+  // modo caminho: resultado vale só para o mapa em que foi traçado
+  const [pathMode, setPathMode] = useState<boolean>(false);
+  const [pathTrace, setPathTrace] = useState<{ mapId: string; result: PathResult } | null>(null);
+  const [pathIndex, setPathIndex] = useState<number>(0);
+  const [hopIndex, setHopIndex] = useState<number>(0);
+  const pathResult = pathMode && pathTrace?.mapId === mapId ? pathTrace.result : null;
+  const activePath = pathResult?.paths[pathIndex] ?? null;
+
+  // simulação de falha: vale só para o mapa em que foi feita
+  const [impact, setImpact] = useState<{ mapId: string; result: ImpactResult } | null>(null);
+  const activeImpact = impact?.mapId === mapId ? impact.result : null;
+
+  const view = useMemo(
+    () =>
+      withPathHighlight(
+        withImpact(
+          withVlanHighlight(buildGroupView(nodes, withTraffic(withPortStatus(edges, nodes), showThroughput)), highlightVlan),
+          activeImpact
+        ),
+        activePath,
+        hopIndex
+      ),
+    [nodes, edges, showThroughput, highlightVlan, activeImpact, activePath, hopIndex]
+  );
+
+  // diff de snapshot sobreposto: vale só para o mapa em que foi pedido
+  const [comparison, setComparison] = useState<{ mapId: string; diff: SnapshotDiff } | null>(null);
+  const activeDiff = comparison?.mapId === mapId ? comparison.diff : null;
+  const shown = useMemo(() => (activeDiff ? overlayDiff(view, activeDiff) : view), [view, activeDiff]);
+
   const onSelectionChange = useCallback((params: { nodes: FlowNode[]; edges: FlowEdge[] }) => {
     setSelectedNodeId(params.nodes?.[0]?.id ?? null);
     setSelectedEdgeId(params.edges?.[0]?.id ?? null);
   }, []);
 
-  const selectedNode = useMemo(
-    () => nodes.find((n) => n.id === selectedNodeId) ?? null,
-    [nodes, selectedNodeId]
-  );
+  const selectedNode = useMemo(() => {
+    const n = nodes.find((x) => x.id === selectedNodeId);
+    return n && isDeviceNode(n) ? n : null;
+  }, [nodes, selectedNodeId]);
+
+  const selectedGroup = useMemo(() => {
+    const n = view.nodes.find((x) => x.id === selectedNodeId);
+    return n && isGroupNode(n) ? n : null;
+  }, [view, selectedNodeId]);
 
   const selectedEdge = useMemo(
     () => edges.find((e) => e.id === selectedEdgeId) ?? null,
     [edges, selectedEdgeId]
   );
 
+  // portas das pontas do link selecionado (nome e status)
+  const selectedEdgePorts = useMemo(() => {
+    if (!selectedEdge) return null;
+    const portOf = (nodeId: string, portId: string | null | undefined) => {
+      const n = nodes.find((x) => x.id === nodeId);
+      return n && isDeviceNode(n) ? n.data.ports?.find((p) => p.id === portId) : undefined;
+    };
+    return {
+      from: portOf(selectedEdge.source, selectedEdge.data?.fromPortId),
+      to: portOf(selectedEdge.target, selectedEdge.data?.toPortId),
+    };
+  }, [selectedEdge, nodes]);
+
   // status
   const changeNodeStatus = useCallback(
     async (status: DeviceStatus) => {
       if (!selectedNode) return;
+      const { id } = selectedNode;
+      const previous = selectedNode.data.status;
       try {
-        await patchDeviceStatus(selectedNode.id, status);
+        await patchDeviceStatus(id, status);
         setNodes((prev) =>
-          prev.map((n) => (n.id === selectedNode.id ? { ...n, data: { ...n.data, status } } : n))
+          prev.map((n) => (n.id === id ? { ...n, data: { ...n.data, status } } : n))
         );
         showToast("Status do equipamento atualizado ✅");
+        pushUndo({
+          label: "status do equipamento",
+          undo: async () => {
+            await patchDeviceStatus(id, previous);
+            await load();
+          },
+          redo: async () => {
+            await patchDeviceStatus(id, status);
+            await load();
+          },
+        });
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : "unknown";
         showToast(`Falha ao atualizar: ${msg}`);
       }
     },
-    [selectedNode, showToast]
+    [selectedNode, load, pushUndo, showToast]
   );
 
+  // inventário: o painel manda tudo; desfazer regrava o inventário anterior inteiro
+  const saveNodeInventory = useCallback(
+    async (inventory: DeviceInventory) => {
+      if (!selectedNode) return false;
+      const { id } = selectedNode;
+      const previous = fullInventory(selectedNode.data.inventory);
+      try {
+        const row = await patchDeviceInventory(id, inventory);
+        setNodes((prev) =>
+          prev.map((n) => (n.id === id ? { ...n, data: { ...n.data, inventory: deviceRowInventory(row) } } : n))
+        );
+        showToast("Inventário salvo ✅");
+        pushUndo({
+          label: "inventário do equipamento",
+          undo: async () => {
+            await patchDeviceInventory(id, previous);
+            await load();
+          },
+          redo: async () => {
+            await patchDeviceInventory(id, inventory);
+            await load();
+          },
+        });
+        return true;
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        showToast(`Falha ao salvar inventário: ${msg}`);
+        return false;
+      }
+    },
+    [selectedNode, setNodes, load, pushUndo, showToast]
+  );
+
+  // campos do inventário mostrados nos nós (preferência local)
+  const [nodeFields, setNodeFields] = useState<NodeFieldKey[]>(loadNodeFields);
+  const changeNodeFields = useCallback((keys: NodeFieldKey[]) => {
+    setNodeFields(keys);
+    saveNodeFields(keys);
+  }, []);
+
   const changeEdgeStatus = useCallback(
     async (status: LinkStatus) => {
       if (!selectedEdge) return;
+      const { id } = selectedEdge;
+      const previous = selectedEdge.data?.status ?? "up";
       try {
-        await patchLinkStatus(selectedEdge.id, status);
+        await patchLinkStatus(id, status);
         setEdges((prev) =>
           prev.map((e) => {
-            if (e.id !== selectedEdge.id) return e;
+            if (e.id !== id) return e;
             return {
               ...e,
               data: { ...(e.data ?? {}), status },
               animated: status !== "up",
-              style: { ...(e.style ?? {}), stroke: edgeColor(status), strokeWidth: 2 },
+              style: { ...(e.style ?? {}), stroke: edgeColor(status) },
             };
           })
         );
         showToast("Status do link atualizado ✅");
+        pushUndo({
+          label: "status do link",
+          undo: async () => {
+            await patchLinkStatus(id, previous);
+            await load();
+          },
+          redo: async () => {
+            await patchLinkStatus(id, status);
+            await load();
+          },
+        });
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : "unknown";
         showToast(`Falha ao atualizar link: ${msg}`);
       }
     },
-    [selectedEdge, showToast]
+    [selectedEdge, load, pushUndo, showToast]
+  );
+
+  const saveEdgeCapacity = useCallback(
+    async (capacityMbps: number | null, medium: LinkMedium | null) => {
+      if (!selectedEdge) return false;
+      const { id } = selectedEdge;
+      const previous = { capacityMbps: selectedEdge.data?.capacityMbps ?? null, medium: selectedEdge.data?.medium ?? null };
+      const apply = (next: { capacityMbps: number | null; medium: LinkMedium | null }) =>
+        setEdges((prev) =>
+          prev.map((e) =>
+            e.id === id
+              ? {
+                  ...e,
+                  data: { ...(e.data ?? {}), ...next },
+                  style: { ...(e.style ?? {}), strokeWidth: edgeWidth(next.capacityMbps), strokeDasharray: mediumDash(next.medium) },
+                }
+              : e
+          )
+        );
+      try {
+        await patchLinkCapacity(id, { capacityMbps, medium });
+        apply({ capacityMbps, medium });
+        showToast("Capacidade do link salva ✅");
+        pushUndo({
+          label: "capacidade do link",
+          undo: async () => {
+            await patchLinkCapacity(id, previous);
+            apply(previous);
+          },
+          redo: async () => {
+            await patchLinkCapacity(id, { capacityMbps, medium });
+            apply({ capacityMbps, medium });
+          },
+        });
+        return true;
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        showToast(`Falha ao salvar link: ${msg}`);
+        return false;
+      }
+    },
+    [selectedEdge, setEdges, pushUndo, showToast]
+  );
+
+  const reloadVlans = useCallback(() => setVlansVersion((v) => v + 1), []);
+
+  // participação em VLANs (link com tagged/untagged, equipamento só a lista)
+  const saveVlans = useCallback(
+    async (kind: "link" | "device", id: string, next: LinkVlan[]) => {
+      const current = (vlans ?? []).flatMap((v) =>
+        kind === "device"
+          ? v.deviceIds.includes(id) ? [{ vlanId: v.id, tagged: true }] : []
+          : v.links.filter((l) => l.linkId === id).map((l) => ({ vlanId: v.id, tagged: l.tagged }))
+      );
+      const write = (list: LinkVlan[]) =>
+        kind === "link" ? setLinkVlans(id, list) : setDeviceVlans(id, list.map((v) => v.vlanId));
+      try {
+        await write(next);
+        reloadVlans();
+        showToast("VLANs salvas ✅");
+        pushUndo({
+          label: kind === "link" ? "VLANs do link" : "VLANs do equipamento",
+          undo: async () => {
+            await write(current);
+            reloadVlans();
+          },
+          redo: async () => {
+            await write(next);
+            reloadVlans();
+          },
+        });
+        return true;
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        showToast(`Falha ao salvar VLANs: ${msg}`);
+        return false;
+      }
+    },
+    [vlans, reloadVlans, pushUndo, showToast]
   );
 
+  const openCreateDevice = useCallback(() => {
+    setOpenAddDevice(true);
+    // o tipo escolhido da última vez pode ter sido removido
+    if (!deviceTypeMap.has(devType) && deviceTypes[0]) setDevType(deviceTypes[0].key);
+    setDevSubnetId("");
+    fetchSubnets(mapId)
+      .then(setDevSubnets)
+      .catch(() => setDevSubnets([]));
+  }, [mapId, devType, deviceTypes, deviceTypeMap]);
+
+  const pickDeviceSubnet = (id: string) => {
+    setDevSubnetId(id);
+    const next = devSubnets.find((s) => s.id === id)?.nextFree;
+    if (next) setDevIp(next);
+    else if (id) showToast("Sub-rede sem IP livre.");
+  };
+
   // criar device
   const submitCreateDevice = useCallback(async () => {
     if (devName.trim().length < 2) return showToast("Nome muito curto.");
@@ -234,13 +1078,14 @@ export default function TopologyCanvas() {
         y: window.innerHeight / 2,
       });
 
-      await createDevice({
+      const row = await createDevice({
         name: devName.trim(),
         type: devType,
         ip: devIp.trim() ? devIp.trim() : undefined,
         status: "up",
         x: center.x,
         y: center.y,
+        mapId,
       });
 
       setOpenAddDevice(false);
@@ -248,44 +1093,149 @@ export default function TopologyCanvas() {
       setDevIp("");
       showToast("Equipamento criado ✅");
       await load();
+      pushUndo({
+        label: "criar equipamento",
+        undo: async () => {
+          await deleteDevice(row.id);
+          await load();
+        },
+        redo: async () => {
+          await restoreEntities({ devices: [deviceRowToRestore(row)] });
+          await load();
+        },
+      });
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : "unknown";
       showToast(`Erro ao criar: ${msg}`);
     }
-  }, [devName, devType, devIp, rf, load, showToast]);
+  }, [devName, devType, devIp, mapId, rf, load, pushUndo, showToast]);
 
   // criar link
+  // modal e arrastar entre handles criam o link do mesmo jeito
+  const createLinkWithUndo = useCallback(
+    async (payload: Parameters<typeof createLink>[0]) => {
+      try {
+        const row = await createLink(payload);
+        showToast("Link criado ✅");
+        await load();
+        pushUndo({
+          label: "criar link",
+          undo: async () => {
+            await deleteLink(row.id);
+            await load();
+          },
+          redo: async () => {
+            await restoreEntities({ links: [linkRowToRestore(row)] });
+            await load();
+          },
+        });
+        return true;
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        showToast(`Erro ao conectar: ${msg}`);
+        return false;
+      }
+    },
+    [load, pushUndo, showToast]
+  );
+
   const submitCreateLink = useCallback(async () => {
     if (!linkFrom || !linkTo) return showToast("Selecione origem e destino.");
     if (linkFrom === linkTo) return showToast("Origem e destino não podem ser iguais.");
 
-    try {
-      await createLink({
-        fromId: linkFrom,
-        toId: linkTo,
-        label: linkLabel.trim() ? linkLabel.trim() : undefined,
-        status: "up",
-      });
-
+    const ok = await createLinkWithUndo({
+      fromId: linkFrom,
+      toId: linkTo,
+      label: linkLabel.trim() ? linkLabel.trim() : undefined,
+      status: "up",
+      fromPortId: linkFromPort || null,
+      toPortId: linkToPort || null,
+      capacityMbps: Number(linkCapacity) || null,
+      medium: linkMedium || null,
+    });
+    if (ok) {
       setOpenAddLink(false);
       setLinkLabel("");
-      showToast("Link criado ✅");
-      await load();
-    } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : "unknown";
-      showToast(`Erro ao conectar: ${msg}`);
+      setLinkFromPort("");
+      setLinkToPort("");
+      setLinkCapacity("");
+      setLinkMedium("");
     }
-  }, [linkFrom, linkTo, linkLabel, load, showToast]);
+  }, [linkFrom, linkTo, linkLabel, linkFromPort, linkToPort, linkCapacity, linkMedium, createLinkWithUndo, showToast]);
+
+  // arrastar de um handle a outro: handle com id é porta
+  const onConnect = useCallback(
+    (c: Connection) => {
+      if (!c.source || !c.target || c.source === c.target) return;
+      const portOf = (nodeId: string, handle: string | null) => {
+        const n = nodes.find((x) => x.id === nodeId);
+        return n && isDeviceNode(n) && n.data.ports?.some((p) => p.id === handle) ? handle : null;
+      };
+      void createLinkWithUndo({
+        fromId: c.source,
+        toId: c.target,
+        status: "up",
+        fromPortId: portOf(c.source, c.sourceHandle),
+        toPortId: portOf(c.target, c.targetHandle),
+      });
+    },
+    [nodes, createLinkWithUndo]
+  );
 
   // deletar selecionado
   const confirmDelete = useCallback(async () => {
     try {
-      if (selectedNode) {
-        await deleteDevice(selectedNode.id);
+      if (selectedNode?.data.refOf) {
+        await deleteMapRef(mapId, selectedNode.data.refOf);
+        showToast("Referência removida ✅");
+      } else if (selectedNode) {
+        // o banco apaga os links em cascata: guarda tudo para poder restaurar
+        const { id } = selectedNode;
+        const device: RestoreDevice = {
+          id,
+          name: selectedNode.data.name,
+          type: selectedNode.data.type,
+          ip: selectedNode.data.ip,
+          status: selectedNode.data.status,
+          ...absolutePosition(selectedNode, indexById(nodes)),
+          mapId,
+          groupId: selectedNode.data.groupId ?? null,
+          ...selectedNode.data.inventory,
+          ports: selectedNode.data.ports,
+        };
+        const links = edges.filter((e) => e.source === id || e.target === id).map(edgeToRestore);
+
+        await deleteDevice(id);
         showToast("Equipamento deletado ✅");
+        pushUndo({
+          label: "deletar equipamento",
+          undo: async () => {
+            await restoreEntities({ devices: [device], links });
+            await load();
+          },
+          redo: async () => {
+            await deleteDevice(id);
+            await load();
+          },
+        });
+      } else if (selectedGroup) {
+        await deleteGroup(selectedGroup.id);
+        showToast("Grupo deletado ✅");
       } else if (selectedEdge) {
-        await deleteLink(selectedEdge.id);
+        const link = edgeToRestore(selectedEdge);
+        await deleteLink(link.id);
         showToast("Link deletado ✅");
+        pushUndo({
+          label: "deletar link",
+          undo: async () => {
+            await restoreEntities({ links: [link] });
+            await load();
+          },
+          redo: async () => {
+            await deleteLink(link.id);
+            await load();
+          },
+        });
       } else {
         showToast("Nada selecionado.");
       }
@@ -298,14 +1248,69 @@ export default function TopologyCanvas() {
       const msg = err instanceof Error ? err.message : "unknown";
       showToast(`Erro ao deletar: ${msg}`);
     }
-  }, [selectedNode, selectedEdge, load, showToast]);
+  }, [selectedNode, selectedGroup, selectedEdge, nodes, edges, mapId, load, pushUndo, showToast]);
+
+  const groupOptions = useMemo(
+    () => nodes.filter(isGroupNode).map((n) => ({ id: n.id, label: n.data.name })),
+    [nodes]
+  );
+
+  // criar grupo
+  const submitCreateGroup = useCallback(async () => {
+    if (!groupName.trim()) return showToast("Informe o nome do grupo.");
+
+    try {
+      const parent = groupParent ? nodes.find((n) => n.id === groupParent) : undefined;
+      // dentro do pai: canto superior esquerdo; senão, centro da tela
+      const pos = parent
+        ? (() => {
+            const abs = absolutePosition(parent, indexById(nodes));
+            return { x: abs.x + 20, y: abs.y + 40 };
+          })()
+        : rf.screenToFlowPosition({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+
+      await createGroup({
+        mapId,
+        parentId: groupParent || null,
+        name: groupName.trim(),
+        kind: groupKind,
+        x: pos.x,
+        y: pos.y,
+        ...(parent ? { width: 300, height: 180 } : {}),
+      });
+
+      setOpenAddGroup(false);
+      setGroupName("");
+      setGroupParent("");
+      showToast("Grupo criado ✅");
+      await load();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      showToast(`Erro ao criar grupo: ${msg}`);
+    }
+  }, [groupName, groupKind, groupParent, nodes, mapId, rf, load, showToast]);
+
+  const changeNodeGroup = useCallback(
+    async (groupId: string | null) => {
+      if (!selectedNode) return;
+      try {
+        await patchDeviceGroup(selectedNode.id, groupId);
+        showToast(groupId ? "Equipamento movido para o grupo ✅" : "Equipamento removido do grupo ✅");
+        await load();
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        showToast(`Falha ao mudar grupo: ${msg}`);
+      }
+    },
+    [selectedNode, load, showToast]
+  );
 
   // search results
   const filteredNodes = useMemo(() => {
     const q = query.trim().toLowerCase();
     if (!q) return [];
 
-    return nodes.filter((n) => {
+    return nodes.filter(isDeviceNode).filter((n) => {
       const name = n.data.name.toLowerCase();
       const ip = (n.data.ip ?? "").toLowerCase();
       const type = n.data.type.toLowerCase();
@@ -324,29 +1329,232 @@ export default function TopologyCanvas() {
     [nodes, rf]
   );
 
+  // passo a passo do caminho: centraliza no salto atual
+  const stepHop = useCallback(
+    (i: number) => {
+      setHopIndex(i);
+      const n = nodes.find((x) => x.id === activePath?.hops[i]?.device.id);
+      if (n) rf.fitView({ nodes: [n], padding: 0.65, duration: 400 });
+    },
+    [nodes, rf, activePath]
+  );
+
+  const closePath = useCallback(() => {
+    setPathMode(false);
+    setPathTrace(null);
+  }, []);
+
+  // histórico de alterações (auditoria)
+  const [openAudit, setOpenAudit] = useState<boolean>(false);
+  const [openSnapshots, setOpenSnapshots] = useState<boolean>(false);
+  const [openImport, setOpenImport] = useState<boolean>(false);
+  const [openBulkImport, setOpenBulkImport] = useState<boolean>(false);
+  const [openNeighbors, setOpenNeighbors] = useState<boolean>(false);
+  const [openDiscovery, setOpenDiscovery] = useState<boolean>(false);
+  const [openSubnets, setOpenSubnets] = useState<boolean>(false);
+  const [openVlans, setOpenVlans] = useState<boolean>(false);
+  const [openImpact, setOpenImpact] = useState<boolean>(false);
+  const [openAlerts, setOpenAlerts] = useState<boolean>(false);
+  const [openDeviceTypes, setOpenDeviceTypes] = useState<boolean>(false);
+  const [openImageExport, setOpenImageExport] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const mapDevices = useMemo(
+    () =>
+      nodes.flatMap((n) => (isDeviceNode(n) && !n.id.startsWith("ref:") ? [{ id: n.id, name: n.data.name, ip: n.data.ip }] : [])),
+    [nodes]
+  );
+
+  // equipamentos sem x/y da planilha entram à direita do mapa atual
+  const bulkOrigin = useMemo(() => {
+    if (nodes.length === 0) return { x: 0, y: 0 };
+    const byId = indexById(nodes);
+    const abs = nodes.map((n) => ({ ...absolutePosition(n, byId), width: n.width ?? DEVICE_SIZE.width }));
+    return { x: Math.max(...abs.map((p) => p.x + p.width)) + 160, y: Math.min(...abs.map((p) => p.y)) };
+  }, [nodes]);
+
+  const exportImage = useCallback(
+    async (opts: ImageExportOptions) => {
+      if (!containerRef.current) return;
+      try {
+        await exportCanvasImage(rf, containerRef.current, opts, deviceTypeMap);
+        setOpenImageExport(false);
+        showToast("Imagem exportada ✅");
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        showToast(`Erro ao exportar imagem: ${msg}`);
+      }
+    },
+    [rf, deviceTypeMap, showToast]
+  );
+
+  const exportJson = useCallback(async () => {
+    try {
+      const doc = await exportTopology(mapId);
+      const blob = new Blob([JSON.stringify(doc, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `topologia-${(doc.map?.name ?? mapId).replace(/[^\w.-]+/g, "_")}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+      showToast("Topologia exportada ✅");
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      showToast(`Erro ao exportar: ${msg}`);
+    }
+  }, [mapId, showToast]);
+
+  const auditName = useCallback(
+    (type: AuditEntityType, id: string) => {
+      if (type === "device" || type === "group") {
+        const n = nodes.find((x) => x.id === id);
+        return n ? n.data.name : undefined;
+      }
+      if (type === "link") {
+        const e = edges.find((x) => x.id === id);
+        if (!e) return undefined;
+        const name = (nid: string) => nodes.find((x) => x.id === nid)?.data.name ?? "?";
+        return typeof e.label === "string" && e.label ? e.label : `${name(e.source)} → ${name(e.target)}`;
+      }
+      if (type === "vlan") {
+        const v = vlans?.find((x) => x.id === id);
+        if (v) return `VLAN ${v.vid} • ${v.name}`;
+      }
+      if (type === "map_ref") {
+        const n = nodes.find((x) => x.id === `ref:${id}`);
+        return n ? n.data.name : undefined;
+      }
+      if (type === "port") {
+        for (const n of nodes.filter(isDeviceNode)) {
+          const p = n.data.ports?.find((x) => x.id === id);
+          if (p) return `${n.data.name} • ${p.name}`;
+        }
+      }
+      return undefined;
+    },
+    [nodes, edges, vlans]
+  );
+
+  // raízes (core) do mapa: base do status efetivo e da análise de impacto
+  const roots = useMemo(
+    () => nodes.filter(isDeviceNode).filter((n) => n.data.isRoot && !n.data.refOf).map((n) => n.id),
+    [nodes]
+  );
+
+  const changeRoot = useCallback(
+    async (id: string, isRoot: boolean) => {
+      try {
+        await patchDeviceRoot(id, isRoot);
+        showToast(isRoot ? "Equipamento marcado como raiz ✅" : "Raiz removida ✅");
+        await load();
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        showToast(`Falha ao mudar raiz: ${msg}`);
+      }
+    },
+    [load, showToast]
+  );
+
+  const simulateFailure = useCallback(
+    async (target: FailureTarget) => {
+      if (roots.length === 0) {
+        setOpenImpact(true);
+        return showToast("Nenhum equipamento raiz neste mapa (defina em Impacto).");
+      }
+      try {
+        const result = await fetchImpact(target);
+        setImpact({ mapId, result });
+        showToast(`${result.unreachable.length} equipamento(s) perdem conexão`);
+      } catch (err: unknown) {
+        showToast(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+      }
+    },
+    [roots, mapId, showToast]
+  );
+
+  const auditCanJump = useCallback(
+    (type: AuditEntityType, id: string) =>
+      type === "link"
+        ? edges.some((e) => e.id === id)
+        : type === "map_ref"
+          ? nodes.some((n) => n.id === `ref:${id}`)
+          : type !== "map" && type !== "user" && nodes.some((n) => n.id === id),
+    [nodes, edges]
+  );
+
+  const auditJump = useCallback(
+    (type: AuditEntityType, id: string) => {
+      if (type === "map_ref") return zoomToNode(`ref:${id}`);
+      if (type !== "link") return zoomToNode(id);
+      const e = edges.find((x) => x.id === id);
+      if (!e) return;
+      const ends = nodes.filter((n) => n.id === e.source || n.id === e.target);
+      setSelectedNodeId(null);
+      setSelectedEdgeId(id);
+      rf.fitView({ nodes: ends, padding: 0.65, duration: 500 });
+    },
+    [nodes, edges, rf, zoomToNode]
+  );
+
   // auto layout + salvar posições
   const autoLayoutAndSave = useCallback(async () => {
     try {
-      const laidOut = layoutWithDagre(nodes, edges, "TB");
-      setNodes(laidOut);
-
-      await Promise.all(
-        laidOut.map((n) => patchDevicePosition(n.id, n.position.x, n.position.y))
+      // layout sobre a visão (recolhidos como nó único), aplicado ao estado real
+      const laidOut = layoutWithDagre(
+        view.nodes.map((v) => ({ ...v, style: nodes.find((n) => n.id === v.id)?.style ?? v.style })),
+        view.edges,
+        "TB"
       );
+      const byId = indexById(laidOut);
+      const next = nodes.map((n) => {
+        const l = byId.get(n.id);
+        return l ? { ...n, position: l.position, style: l.style } : n;
+      });
+      const ids = nodes.map((n) => n.id);
+      const before = snapshotPositions(ids, nodes);
+      setNodes(next);
+      await persistPositions(next.filter((n) => !n.parentId), next);
 
+      const after = snapshotPositions(ids, next);
+      pushUndo({ label: "auto layout", undo: () => applyPositions(before), redo: () => applyPositions(after) });
       showToast("Layout aplicado e salvo ✅");
       requestAnimationFrame(() => rf.fitView({ padding: 0.4, duration: 400 }));
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : "unknown";
       showToast(`Erro no layout: ${msg}`);
     }
-  }, [nodes, edges, rf, showToast]);
+  }, [nodes, view, rf, persistPositions, applyPositions, pushUndo, setNodes, showToast]);
+
+  const runUndo = useCallback(
+    async (direction: "undo" | "redo") => {
+      try {
+        const entry = await (direction === "undo" ? undo() : redo());
+        if (entry) showToast(`${direction === "undo" ? "Desfeito" : "Refeito"}: ${entry.label} ✅`);
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "unknown";
+        showToast(`Falha ao ${direction === "undo" ? "desfazer" : "refazer"}: ${msg}`);
+      }
+    },
+    [undo, redo, showToast]
+  );
 
-  // atalho Delete/Backspace + Ctrl+K
+  // atalho Delete/Backspace + Ctrl+K + Ctrl+Z / Ctrl+Shift+Z
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const typing = !!target && (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) || target.isContentEditable);
+      if ((e.ctrlKey || e.metaKey) && !typing && canOperate) {
+        const key = e.key.toLowerCase();
+        if (key === "z" || key === "y") {
+          e.preventDefault();
+          void runUndo(key === "y" || e.shiftKey ? "redo" : "undo");
+          return;
+        }
+      }
+
       if (e.key === "Delete" || e.key === "Backspace") {
-        if (selectedNode || selectedEdge) setOpenConfirmDelete(true);
+        if (canAdmin && (selectedNode || selectedEdge || selectedGroup)) setOpenConfirmDelete(true);
       }
       if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
         e.preventDefault();
@@ -356,32 +1564,101 @@ export default function TopologyCanvas() {
     };
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [selectedNode, selectedEdge]);
+  }, [canAdmin, canOperate, runUndo, selectedNode, selectedEdge, selectedGroup]);
 
   const nodeOptions = useMemo(
-    () => nodes.map((n) => ({ id: n.id, label: `${n.data.name} (${n.data.type})` })),
+    () =>
+      nodes
+        .filter(isDeviceNode)
+        .filter((n) => !n.data.refOf)
+        .map((n) => ({ id: n.id, label: `${n.data.name} (${n.data.type})` })),
     [nodes]
   );
 
+  // portas livres de um equipamento (um link por porta)
+  const linkedPortIds = useMemo(
+    () => new Set(edges.flatMap((e) => [e.data?.fromPortId, e.data?.toPortId]).filter((id): id is string => !!id)),
+    [edges]
+  );
+  const freePorts = useCallback(
+    (deviceId: string) => {
+      const n = nodes.find((x) => x.id === deviceId);
+      return n && isDeviceNode(n) ? (n.data.ports ?? []).filter((p) => !linkedPortIds.has(p.id)) : [];
+    },
+    [nodes, linkedPortIds]
+  );
+
+  // referência a equipamento de outro mapa
+  const [openAddRef, setOpenAddRef] = useState<boolean>(false);
+  const [refCandidates, setRefCandidates] = useState<DeviceRow[]>([]);
+  const [refDeviceId, setRefDeviceId] = useState<string>("");
+
+  const openRefModal = useCallback(async () => {
+    try {
+      const all = await fetchDevices();
+      const present = new Set(nodes.filter(isDeviceNode).map((n) => n.data.refOf).filter(Boolean));
+      const candidates = all.filter((d) => d.map_id !== mapId && !present.has(d.id));
+      setRefCandidates(candidates);
+      setRefDeviceId(candidates[0]?.id ?? "");
+      setOpenAddRef(true);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      showToast(`Erro ao listar equipamentos: ${msg}`);
+    }
+  }, [nodes, mapId, showToast]);
+
+  const submitAddRef = useCallback(async () => {
+    if (!refDeviceId) return showToast("Selecione um equipamento.");
+    try {
+      const center = rf.screenToFlowPosition({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+      await addMapRef(mapId, { deviceId: refDeviceId, x: center.x, y: center.y });
+      setOpenAddRef(false);
+      showToast("Referência adicionada ✅");
+      await load();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      showToast(`Erro ao referenciar: ${msg}`);
+    }
+  }, [refDeviceId, mapId, rf, load, showToast]);
+
+  const onNodeDoubleClick = useCallback(
+    (_event: unknown, node: FlowNode) => {
+      if (isDeviceNode(node) && node.data.homeMapId) onOpenMap(node.data.homeMapId);
+    },
+    [onOpenMap]
+  );
+
   return (
+    <DeviceTypesContext.Provider value={deviceTypeMap}>
+    <NodeFieldsContext.Provider value={nodeFields}>
     <div className="relative h-full w-full bg-slate-100 text-slate-900 dark:bg-slate-950 dark:text-slate-100">
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        nodeTypes={nodeTypes}
-        fitView
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onNodeDragStop={onNodeDragStop}
-        onSelectionChange={onSelectionChange}
-        panOnDrag
-        zoomOnScroll
-        selectionOnDrag
-      >
-        <Background gap={22} size={1} />
-        <Controls />
-        <MiniMap pannable zoomable />
-      </ReactFlow>
+      <div ref={containerRef} className="absolute inset-0">
+        <GroupActionsContext.Provider value={groupActions}>
+          <ReactFlow
+            nodes={shown.nodes}
+            edges={shown.edges}
+            nodeTypes={nodeTypes}
+            fitView
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            onNodeDragStart={onNodeDragStart}
+            onNodeDragStop={onNodeDragStop}
+            onNodeDoubleClick={onNodeDoubleClick}
+            onSelectionChange={onSelectionChange}
+            onConnect={onConnect}
+            connectionMode={ConnectionMode.Loose}
+            nodesDraggable={canOperate}
+            nodesConnectable={canAdmin}
+            panOnDrag
+            zoomOnScroll
+            selectionOnDrag
+          >
+            <Background gap={22} size={1} />
+            <Controls />
+            <MiniMap pannable zoomable />
+          </ReactFlow>
+        </GroupActionsContext.Provider>
+      </div>
 
       {/* Left actions + search */}
       <div className="absolute left-3 top-3 z-30 flex flex-col gap-2">
@@ -394,18 +1671,29 @@ export default function TopologyCanvas() {
               placeholder="Buscar por nome, IP, tipo… (Ctrl+K)"
               className="h-10 flex-1 rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
             />
-            <button
-              onClick={() => setOpenAddDevice(true)}
-              className="h-10 rounded-xl bg-slate-900 px-3 text-[12px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
-            >
-              + Equip
-            </button>
-            <button
-              onClick={() => setOpenAddLink(true)}
-              className="h-10 rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-extrabold text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-800"
-            >
-              + Link
-            </button>
+            {canAdmin && (
+              <>
+              <button
+                onClick={openCreateDevice}
+                className="h-10 rounded-xl bg-slate-900 px-3 text-[12px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+              >
+                + Equip
+              </button>
+              <button
+                onClick={() => setOpenAddLink(true)}
+                className="h-10 rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-extrabold text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-800"
+              >
+                + Link
+              </button>
+              <button
+                onClick={openRefModal}
+                title="Referenciar equipamento de outro mapa"
+                className="h-10 rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-extrabold text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-800"
+              >
+                + Ref
+              </button>
+              </>
+            )}
           </div>
 
           {query.trim() && (
@@ -434,7 +1722,7 @@ export default function TopologyCanvas() {
           )}
         </div>
 
-        <div className="flex gap-2">
+        <div className="flex w-[380px] flex-wrap gap-2">
           <button
             onClick={() => load()}
             className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
@@ -442,45 +1730,428 @@ export default function TopologyCanvas() {
             Recarregar
           </button>
 
+          <select
+            value=""
+            onChange={(e) => {
+              const format = e.target.value as "json" | "image" | DiagramFormat;
+              if (format === "image") setOpenImageExport(true);
+              else if (format === "json") void exportJson();
+              else if (format) window.location.assign(diagramExportUrl(mapId, format));
+            }}
+            className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+            title="Baixar o mapa"
+          >
+            <option value="">Exportar…</option>
+            <option value="image">Imagem (SVG/PNG/PDF)</option>
+            <option value="json">JSON (backup/import)</option>
+            <option value="dot">Graphviz DOT</option>
+            <option value="graphml">GraphML (yEd)</option>
+            <option value="drawio">draw.io</option>
+          </select>
+
+          {canAdmin && (
+            <button
+              onClick={() => setOpenImport(true)}
+              className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+              title="Carregar um JSON exportado"
+            >
+              Importar
+            </button>
+          )}
+
+          {canAdmin && (
+            <button
+              onClick={() => setOpenBulkImport(true)}
+              className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+              title="Equipamentos e links em lote (CSV/XLSX)"
+            >
+              Planilha
+            </button>
+          )}
+
+          {canOperate && (
+            <button
+              onClick={() => setOpenNeighbors(true)}
+              className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+              title="Conferir links com LLDP/CDP"
+            >
+              Vizinhos
+            </button>
+          )}
+
+          {canOperate && (
+            <button
+              onClick={() => setOpenDiscovery((v) => !v)}
+              className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+              title="Hosts encontrados pelo nmap"
+            >
+              Descoberta
+            </button>
+          )}
+
+          {canAdmin && (
+            <button
+              onClick={() => setOpenDeviceTypes((v) => !v)}
+              className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+              title="Tipos de equipamento e ícones"
+            >
+              Tipos
+            </button>
+          )}
+
           <button
-            onClick={autoLayoutAndSave}
-            className="rounded-2xl bg-slate-900 px-3 py-2 text-[12px] font-extrabold text-white shadow-sm hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+            onClick={() => setOpenSubnets((v) => !v)}
+            className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+            title="Sub-redes e utilização de IPs"
           >
-            Auto layout + salvar
+            Sub-redes
           </button>
 
           <button
-            onClick={() => setOpenConfirmDelete(true)}
-            disabled={!selectedNode && !selectedEdge}
-            className="rounded-2xl border border-rose-500/25 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-rose-600 shadow-sm backdrop-blur hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-rose-500/40 dark:bg-slate-900/90 dark:text-rose-300 dark:hover:bg-rose-950/40"
-            title="Delete / Backspace"
+            onClick={() => setOpenVlans((v) => !v)}
+            className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+            title="VLANs do mapa e ilhas"
+          >
+            VLANs
+          </button>
+
+          {vlans && vlans.length > 0 && (
+            <select
+              value={highlightVlan?.id ?? ""}
+              onChange={(e) => setHighlightVlanId(e.target.value || null)}
+              className={`rounded-2xl border px-3 py-2 text-[12px] font-extrabold shadow-sm outline-none backdrop-blur ${
+                highlightVlan
+                  ? "border-sky-500/40 bg-sky-50 text-sky-800 dark:border-sky-500/40 dark:bg-sky-950/60 dark:text-sky-200"
+                  : "border-slate-900/10 bg-white/90 text-slate-900 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100"
+              }`}
+              title="Apaga o que está fora da VLAN escolhida"
+            >
+              <option value="">Destacar VLAN…</option>
+              {vlans.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.vid} • {v.name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <button
+            onClick={() => setOpenAudit((v) => !v)}
+            className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+            title="Histórico de alterações"
+          >
+            Alterações
+          </button>
+
+          <button
+            onClick={() => setOpenSnapshots((v) => !v)}
+            className={`rounded-2xl border px-3 py-2 text-[12px] font-extrabold shadow-sm backdrop-blur ${
+              activeDiff
+                ? "border-sky-500/40 bg-sky-50 text-sky-800 hover:bg-sky-100 dark:border-sky-500/40 dark:bg-sky-950/60 dark:text-sky-200"
+                : "border-slate-900/10 bg-white/90 text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+            }`}
+            title="Snapshots e comparação"
+          >
+            Snapshots
+          </button>
+
+          <button
+            onClick={toggleThroughput}
+            className={`rounded-2xl border px-3 py-2 text-[12px] font-extrabold shadow-sm backdrop-blur ${
+              showThroughput
+                ? "border-sky-500/40 bg-sky-50 text-sky-800 hover:bg-sky-100 dark:border-sky-500/40 dark:bg-sky-950/60 dark:text-sky-200"
+                : "border-slate-900/10 bg-white/90 text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+            }`}
+            title="Mostrar a vazão atual no texto dos links"
           >
-            Deletar
+            Tráfego
           </button>
+
+          <button
+            onClick={() => (pathMode ? closePath() : setPathMode(true))}
+            className={`rounded-2xl border px-3 py-2 text-[12px] font-extrabold shadow-sm backdrop-blur ${
+              pathMode
+                ? "border-sky-500/40 bg-sky-50 text-sky-800 hover:bg-sky-100 dark:border-sky-500/40 dark:bg-sky-950/60 dark:text-sky-200"
+                : "border-slate-900/10 bg-white/90 text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+            }`}
+            title="Traçar o caminho entre dois equipamentos"
+          >
+            Caminho
+          </button>
+
+          <button
+            onClick={() => setOpenImpact((v) => !v)}
+            className={`rounded-2xl border px-3 py-2 text-[12px] font-extrabold shadow-sm backdrop-blur ${
+              activeImpact
+                ? "border-rose-500/40 bg-rose-50 text-rose-800 hover:bg-rose-100 dark:border-rose-500/40 dark:bg-rose-950/60 dark:text-rose-200"
+                : "border-slate-900/10 bg-white/90 text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+            }`}
+            title="Raízes, simulação de falha e pontos únicos de falha"
+          >
+            Impacto
+          </button>
+
+          {canAdmin && (
+            <button
+              onClick={() => setOpenAlerts((v) => !v)}
+              className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+              title="Regras de alerta e canais de notificação"
+            >
+              Alertas
+            </button>
+          )}
+
+          {canOperate && (
+            <>
+              <button
+                onClick={() => runUndo("undo")}
+                disabled={!canUndo}
+                title={nextUndo ? `Desfazer: ${nextUndo} (Ctrl+Z)` : "Desfazer (Ctrl+Z)"}
+                className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+              >
+                ↶
+              </button>
+              <button
+                onClick={() => runUndo("redo")}
+                disabled={!canRedo}
+                title={nextRedo ? `Refazer: ${nextRedo} (Ctrl+Shift+Z)` : "Refazer (Ctrl+Shift+Z)"}
+                className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+              >
+                ↷
+              </button>
+            </>
+          )}
+
+          {canOperate && (
+            <button
+              onClick={autoLayoutAndSave}
+              className="rounded-2xl bg-slate-900 px-3 py-2 text-[12px] font-extrabold text-white shadow-sm hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+            >
+              Auto layout + salvar
+            </button>
+          )}
+
+          {canAdmin && (
+            <>
+            <button
+              onClick={() => setOpenAddGroup(true)}
+              className="rounded-2xl border border-slate-900/10 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-slate-900 shadow-sm backdrop-blur hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900/90 dark:text-slate-100 dark:hover:bg-slate-800"
+            >
+              + Grupo
+            </button>
+
+            <button
+              onClick={() => setOpenConfirmDelete(true)}
+              disabled={!selectedNode && !selectedEdge && !selectedGroup}
+              className="rounded-2xl border border-rose-500/25 bg-white/90 px-3 py-2 text-[12px] font-extrabold text-rose-600 shadow-sm backdrop-blur hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-rose-500/40 dark:bg-slate-900/90 dark:text-rose-300 dark:hover:bg-rose-950/40"
+              title="Delete / Backspace"
+            >
+              Deletar
+            </button>
+            </>
+          )}
         </div>
+
+        {openAudit && (
+          <AuditPanel
+            resolveName={auditName}
+            canJump={auditCanJump}
+            onJump={auditJump}
+            onClose={() => setOpenAudit(false)}
+          />
+        )}
+
+        {openSnapshots && (
+          <SnapshotsPanel
+            mapId={mapId}
+            canCreate={canOperate}
+            canManage={canAdmin}
+            comparing={activeDiff}
+            onCompare={(diff) => setComparison(diff ? { mapId, diff } : null)}
+            onRestored={() => void load()}
+            onMessage={showToast}
+            onClose={() => setOpenSnapshots(false)}
+          />
+        )}
+
+        {openDiscovery && (
+          <DiscoveryPanel
+            mapId={mapId}
+            devices={mapDevices}
+            origin={bulkOrigin}
+            version={discoveryVersion}
+            canAdmin={canAdmin}
+            onMessage={showToast}
+            onClose={() => setOpenDiscovery(false)}
+          />
+        )}
+
+        {openVlans && (
+          <VlansPanel
+            mapId={mapId}
+            vlans={vlans}
+            canManage={canAdmin}
+            highlightId={highlightVlan?.id ?? null}
+            onHighlight={setHighlightVlanId}
+            onChanged={reloadVlans}
+            onMessage={showToast}
+            onClose={() => setOpenVlans(false)}
+          />
+        )}
+
+        {openImpact && (
+          <ImpactPanel
+            key={mapId}
+            mapId={mapId}
+            options={nodeOptions}
+            roots={roots}
+            canManage={canAdmin}
+            onRootChange={changeRoot}
+            onSimulate={simulateFailure}
+            onFocus={(t) => auditJump(t.kind, t.id)}
+            onMessage={showToast}
+            onClose={() => setOpenImpact(false)}
+          />
+        )}
+
+        {openAlerts && canAdmin && (
+          <AlertsPanel key={mapId} mapId={mapId} onMessage={showToast} onClose={() => setOpenAlerts(false)} />
+        )}
+
+        {openSubnets && (
+          <SubnetsPanel mapId={mapId} canManage={canAdmin} onMessage={showToast} onClose={() => setOpenSubnets(false)} />
+        )}
+
+        {openDeviceTypes && (
+          <DeviceTypesPanel
+            types={deviceTypes}
+            onChanged={() => setDeviceTypesVersion((v) => v + 1)}
+            onMessage={showToast}
+            onClose={() => setOpenDeviceTypes(false)}
+          />
+        )}
       </div>
 
       {/* Right panel */}
-      <div className="absolute right-3 top-3 z-30 w-[360px] rounded-2xl border border-slate-900/10 bg-white/90 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/90">
+      <div className="absolute right-3 top-3 z-30 max-h-[calc(100%-1.5rem)] w-[360px] overflow-y-auto rounded-2xl border border-slate-900/10 bg-white/90 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/90">
         <div className="mb-2 flex items-center justify-between">
           <h2 className="text-[13px] font-extrabold text-slate-900 dark:text-slate-100">
             {loading ? "Carregando..." : "Painel"}
           </h2>
-          <span className="text-[11px] font-semibold text-slate-500 dark:text-slate-400">Selecione um item</span>
+          <span className="flex items-center gap-1.5 text-[11px] font-semibold text-slate-500 dark:text-slate-400">
+            <span
+              className={`h-2 w-2 rounded-full ${live ? "bg-emerald-500" : "bg-slate-400"}`}
+              title={live ? "Recebendo atualizações ao vivo" : "Sem conexão ao vivo"}
+            />
+            {live ? "Ao vivo" : "Offline"} • Selecione um item
+          </span>
         </div>
 
+        {activeImpact && (
+          <div className="mb-3 rounded-xl border border-rose-500/30 bg-white p-3 dark:border-rose-500/30 dark:bg-slate-950">
+            <div className="flex items-center justify-between">
+              <div className="text-[12px] font-extrabold text-slate-900 dark:text-slate-100">
+                Falha: {auditName(activeImpact.failed.kind, activeImpact.failed.id) ?? activeImpact.failed.kind}
+              </div>
+              <button
+                onClick={() => setImpact(null)}
+                className="rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
+              >
+                Limpar
+              </button>
+            </div>
+            <div className="mt-1 text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+              {activeImpact.unreachable.length === 0
+                ? "Ninguém perde o caminho até as raízes ✅"
+                : `${activeImpact.unreachable.length} equipamento(s) sem caminho até as raízes:`}
+            </div>
+            {activeImpact.unreachable.length > 0 && (
+              <div className="mt-1 max-h-[140px] overflow-auto text-[11px] font-bold text-rose-600 dark:text-rose-400">
+                {activeImpact.unreachable.map((d) => (
+                  <button key={d.id} onClick={() => zoomToNode(d.id)} className="block truncate hover:underline">
+                    {d.name}
+                    {d.ip ? ` • ${d.ip}` : ""}
+                  </button>
+                ))}
+              </div>
+            )}
+            {activeImpact.alreadyUnreachable > 0 && (
+              <div className="mt-1 text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                {activeImpact.alreadyUnreachable} já estavam sem caminho antes da falha.
+              </div>
+            )}
+          </div>
+        )}
+
+        {pathMode && (
+          <PathPanel
+            key={mapId}
+            options={nodeOptions}
+            selectedId={selectedNode?.id ?? null}
+            result={pathResult}
+            pathIndex={pathIndex}
+            hopIndex={hopIndex}
+            onResult={(result) => setPathTrace(result ? { mapId, result } : null)}
+            onPathIndex={setPathIndex}
+            onHopIndex={stepHop}
+            onMessage={showToast}
+            onClose={closePath}
+          />
+        )}
+
         <div className="mb-3 rounded-xl border border-slate-900/10 bg-white p-3 dark:border-slate-700 dark:bg-slate-950">
           <div className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Selecionado</div>
           <div className="mt-1 text-[12px] font-extrabold text-slate-900 dark:text-slate-100">
             {selectedNode
               ? `Equipamento: ${selectedNode.data.name}`
+              : selectedGroup
+              ? `Grupo: ${selectedGroup.data.name}`
               : selectedEdge
               ? `Link: ${selectedEdge.source} → ${selectedEdge.target}`
               : "Nada selecionado"}
           </div>
         </div>
 
-        {selectedNode && (
+        {selectedGroup && (
+          <div className="mb-3 rounded-xl border border-slate-900/10 bg-white p-3 dark:border-slate-700 dark:bg-slate-950">
+            <div className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Grupo ({selectedGroup.data.kind})</div>
+            <div className="mt-2 flex items-center gap-2">
+              {selectedGroup.data.worstStatus && <StatusPill status={selectedGroup.data.worstStatus} />}
+              <span className="text-[12px] font-semibold text-slate-600 dark:text-slate-300">
+                {selectedGroup.data.memberCount ?? 0} equipamento(s)
+              </span>
+            </div>
+            <button
+              onClick={() => groupActions.onToggleCollapse(selectedGroup.id)}
+              className="mt-2 h-10 w-full rounded-xl border border-slate-900/10 bg-white text-[12px] font-extrabold text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-800"
+            >
+              {selectedGroup.data.collapsed ? "Expandir grupo" : "Recolher grupo"}
+            </button>
+            <div className="mt-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">
+              Arrastar o grupo move todos os membros.
+            </div>
+          </div>
+        )}
+
+        {selectedNode?.data.refOf && (
+          <div className="mb-3 rounded-xl border border-slate-900/10 bg-white p-3 dark:border-slate-700 dark:bg-slate-950">
+            <div className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Referência (somente leitura)</div>
+            <div className="mt-2 flex items-center gap-2">
+              <StatusPill status={selectedNode.data.status} />
+              <span className="truncate text-[12px] font-semibold text-slate-600 dark:text-slate-300">
+                Mapa de origem: {selectedNode.data.homeMapName}
+              </span>
+            </div>
+            <button
+              onClick={() => selectedNode.data.homeMapId && onOpenMap(selectedNode.data.homeMapId)}
+              className="mt-2 h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+            >
+              Abrir mapa de origem ↗
+            </button>
+          </div>
+        )}
+
+        {selectedNode && !selectedNode.data.refOf && (
           <div className="mb-3 rounded-xl border border-slate-900/10 bg-white p-3 dark:border-slate-700 dark:bg-slate-950">
             <div className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Status do equipamento</div>
 
@@ -489,6 +2160,7 @@ export default function TopologyCanvas() {
               <select
                 className="h-10 flex-1 rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-bold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
                 value={selectedNode.data.status}
+                disabled={!canOperate}
                 onChange={(e) => changeNodeStatus(e.target.value as DeviceStatus)}
               >
                 <option value="up">up</option>
@@ -497,18 +2169,101 @@ export default function TopologyCanvas() {
               </select>
             </div>
 
+            {selectedNode.data.probedAt && (
+              <div className="mt-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">
+                Sonda: {selectedNode.data.latencyMs !== undefined ? `${Math.round(selectedNode.data.latencyMs)} ms` : "sem resposta"}
+                {" • "}
+                {new Date(selectedNode.data.probedAt).toLocaleTimeString()}
+              </div>
+            )}
+
+            {selectedNode.data.effectiveStatus === "unreachable" && (
+              <div className="mt-2 text-[11px] font-bold text-slate-600 dark:text-slate-300">
+                Inalcançável: sem caminho até uma raiz do mapa (falha a montante).
+              </div>
+            )}
+
+            <label className="mt-2 flex items-center gap-2 text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={!!selectedNode.data.isRoot}
+                disabled={!canAdmin}
+                onChange={(e) => changeRoot(selectedNode.id, e.target.checked)}
+              />
+              Raiz (core): base do status efetivo e do impacto
+            </label>
+
+            <div className="mt-3 text-[11px] font-bold text-slate-500 dark:text-slate-400">Grupo</div>
+            <select
+              className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-bold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              value={selectedNode.parentId ?? ""}
+              disabled={!canAdmin}
+              onChange={(e) => changeNodeGroup(e.target.value || null)}
+            >
+              <option value="">(nenhum)</option>
+              {groupOptions.map((o) => (
+                <option key={o.id} value={o.id}>{o.label}</option>
+              ))}
+            </select>
+
             <div className="mt-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">
               Arraste e solte para salvar posição.
             </div>
+
+            <button
+              onClick={() => simulateFailure({ kind: "device", id: selectedNode.id })}
+              className="mt-2 rounded-lg px-2 py-1 text-[11px] font-extrabold text-rose-600 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-950/40"
+              title="Quem perde o caminho até as raízes se este equipamento cair"
+            >
+              Simular falha
+            </button>
+
+            <StatusTimeline entityType="device" id={selectedNode.id} status={selectedNode.data.status} />
           </div>
         )}
 
+        {selectedNode && !selectedNode.data.refOf && vlans && (
+          <VlanMembership
+            key={`vlans-${selectedNode.id}`}
+            vlans={vlans}
+            value={vlans.filter((v) => v.deviceIds.includes(selectedNode.id)).map((v) => ({ vlanId: v.id, tagged: true }))}
+            withMode={false}
+            canEdit={canAdmin}
+            onSave={(next) => saveVlans("device", selectedNode.id, next)}
+          />
+        )}
+
+        {selectedNode && !selectedNode.data.refOf && (
+          <DevicePorts
+            key={`ports-${selectedNode.id}`}
+            deviceId={selectedNode.id}
+            ports={selectedNode.data.ports ?? []}
+            linkedPortIds={linkedPortIds}
+            canAdmin={canAdmin}
+            canOperate={canOperate}
+            onChanged={load}
+            onMessage={showToast}
+          />
+        )}
+
+        {selectedNode && !selectedNode.data.refOf && (
+          <DeviceDetails
+            key={selectedNode.id}
+            inventory={selectedNode.data.inventory}
+            canEdit={canAdmin}
+            onSave={saveNodeInventory}
+            nodeFields={nodeFields}
+            onNodeFieldsChange={changeNodeFields}
+          />
+        )}
+
         {selectedEdge && (
           <div className="rounded-xl border border-slate-900/10 bg-white p-3 dark:border-slate-700 dark:bg-slate-950">
             <div className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Status do link</div>
             <select
               className="mt-2 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-bold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
               value={selectedEdge.data?.status ?? "up"}
+              disabled={!canOperate}
               onChange={(e) => changeEdgeStatus(e.target.value as LinkStatus)}
             >
               <option value="up">up</option>
@@ -516,9 +2271,53 @@ export default function TopologyCanvas() {
               <option value="down">down</option>
             </select>
 
+            {selectedEdgePorts && (selectedEdgePorts.from || selectedEdgePorts.to) && (
+              <div className="mt-2 text-[11px] font-semibold text-slate-600 dark:text-slate-300">
+                Portas: {selectedEdgePorts.from?.name ?? selectedEdge.data?.fromHandle ?? "—"} →{" "}
+                {selectedEdgePorts.to?.name ?? selectedEdge.data?.toHandle ?? "—"}
+                {[selectedEdgePorts.from, selectedEdgePorts.to].some((p) => p && portLinkStatus(p)) && (
+                  <div className="mt-1 font-bold text-rose-600 dark:text-rose-400">
+                    Porta desligada ou caída: o link aparece como down.
+                  </div>
+                )}
+              </div>
+            )}
+
+            {vlans && (
+              <VlanMembership
+                key={`vlans-${selectedEdge.id}`}
+                vlans={vlans}
+                value={vlans.flatMap((v) =>
+                  v.links.filter((l) => l.linkId === selectedEdge.id).map((l) => ({ vlanId: v.id, tagged: l.tagged }))
+                )}
+                withMode
+                canEdit={canAdmin}
+                onSave={(next) => saveVlans("link", selectedEdge.id, next)}
+              />
+            )}
+
+            <LinkTraffic
+              key={selectedEdge.id}
+              capacityMbps={selectedEdge.data?.capacityMbps ?? null}
+              medium={selectedEdge.data?.medium ?? null}
+              utilization={selectedEdge.data?.utilization ?? null}
+              canEdit={canAdmin}
+              onSave={saveEdgeCapacity}
+            />
+
             <div className="mt-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">
               Delete/Backspace para remover.
             </div>
+
+            <button
+              onClick={() => simulateFailure({ kind: "link", id: selectedEdge.id })}
+              className="mt-2 rounded-lg px-2 py-1 text-[11px] font-extrabold text-rose-600 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-950/40"
+              title="Quem perde o caminho até as raízes se este link cair"
+            >
+              Simular falha
+            </button>
+
+            <StatusTimeline entityType="link" id={selectedEdge.id} status={selectedEdge.data?.status ?? "up"} />
           </div>
         )}
 
@@ -529,6 +2328,48 @@ export default function TopologyCanvas() {
       </div>
 
       {/* Modais */}
+      <ImageExportModal
+        open={openImageExport}
+        theme={theme}
+        onClose={() => setOpenImageExport(false)}
+        onExport={exportImage}
+      />
+
+      <ImportModal
+        open={openImport}
+        mapId={mapId}
+        onClose={() => setOpenImport(false)}
+        onImported={(r) => {
+          setOpenImport(false);
+          showToast(`Importação concluída: ${r.devices.created + r.devices.updated} equipamentos ✅`);
+          void load();
+        }}
+      />
+
+      <BulkImportModal
+        open={openBulkImport}
+        mapId={mapId}
+        origin={bulkOrigin}
+        onClose={() => setOpenBulkImport(false)}
+        onImported={(r) => {
+          setOpenBulkImport(false);
+          showToast(`Planilha importada: ${r.devices.length} equipamentos, ${r.links.length} links ✅`);
+          void load();
+        }}
+      />
+
+      <NeighborsModal
+        open={openNeighbors}
+        mapId={mapId}
+        canApply={canAdmin}
+        onClose={() => setOpenNeighbors(false)}
+        onApplied={(r) => {
+          setOpenNeighbors(false);
+          showToast(`Vizinhos aplicados: ${r.created} links novos, ${r.removed} removidos ✅`);
+          void load();
+        }}
+      />
+
       <Modal open={openAddDevice} title="Adicionar equipamento" onClose={() => setOpenAddDevice(false)}>
         <div className="space-y-3">
           <div>
@@ -549,11 +2390,12 @@ export default function TopologyCanvas() {
                 onChange={(e) => setDevType(e.target.value as DeviceType)}
                 className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
               >
-                <option value="hub">hub</option>
-                <option value="switch">switch</option>
-                <option value="router">router</option>
-                <option value="ap">ap</option>
-                <option value="server">server</option>
+                {deviceTypes.map((t) => (
+                  <option key={t.key} value={t.key}>
+                    {t.icon_svg ? "" : `${t.icon ?? FALLBACK_ICON} `}
+                    {t.label}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -568,6 +2410,24 @@ export default function TopologyCanvas() {
             </div>
           </div>
 
+          {devSubnets.length > 0 && (
+            <div>
+              <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Sub-rede (sugere o próximo IP livre)</label>
+              <select
+                value={devSubnetId}
+                onChange={(e) => pickDeviceSubnet(e.target.value)}
+                className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              >
+                <option value="">—</option>
+                {devSubnets.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name} ({s.cidr}){s.nextFree ? "" : " • cheia"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <button
             onClick={submitCreateDevice}
             className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
@@ -587,26 +2447,56 @@ export default function TopologyCanvas() {
             <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Origem</label>
             <select
               value={linkFrom}
-              onChange={(e) => setLinkFrom(e.target.value)}
+              onChange={(e) => {
+                setLinkFrom(e.target.value);
+                setLinkFromPort("");
+              }}
               className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
             >
               {nodeOptions.map((o) => (
                 <option key={o.id} value={o.id}>{o.label}</option>
               ))}
             </select>
+            {freePorts(linkFrom).length > 0 && (
+              <select
+                value={linkFromPort}
+                onChange={(e) => setLinkFromPort(e.target.value)}
+                className="mt-2 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              >
+                <option value="">(sem porta)</option>
+                {freePorts(linkFrom).map((p) => (
+                  <option key={p.id} value={p.id}>{describePort(p)}</option>
+                ))}
+              </select>
+            )}
           </div>
 
           <div>
             <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Destino</label>
             <select
               value={linkTo}
-              onChange={(e) => setLinkTo(e.target.value)}
+              onChange={(e) => {
+                setLinkTo(e.target.value);
+                setLinkToPort("");
+              }}
               className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
             >
               {nodeOptions.map((o) => (
                 <option key={o.id} value={o.id}>{o.label}</option>
               ))}
             </select>
+            {freePorts(linkTo).length > 0 && (
+              <select
+                value={linkToPort}
+                onChange={(e) => setLinkToPort(e.target.value)}
+                className="mt-2 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              >
+                <option value="">(sem porta)</option>
+                {freePorts(linkTo).map((p) => (
+                  <option key={p.id} value={p.id}>{describePort(p)}</option>
+                ))}
+              </select>
+            )}
           </div>
 
           <div>
@@ -619,6 +2509,32 @@ export default function TopologyCanvas() {
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Capacidade (Mbps)</label>
+              <input
+                value={linkCapacity}
+                onChange={(e) => setLinkCapacity(e.target.value)}
+                inputMode="numeric"
+                className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+                placeholder="Ex: 1000"
+              />
+            </div>
+            <div>
+              <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Meio</label>
+              <select
+                value={linkMedium}
+                onChange={(e) => setLinkMedium(e.target.value as LinkMedium | "")}
+                className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              >
+                <option value="">(não informado)</option>
+                {(Object.keys(mediumLabel) as LinkMedium[]).map((m) => (
+                  <option key={m} value={m}>{mediumLabel[m]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           <button
             onClick={submitCreateLink}
             className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
@@ -632,11 +2548,101 @@ export default function TopologyCanvas() {
         </div>
       </Modal>
 
+      <Modal open={openAddGroup} title="Novo grupo" onClose={() => setOpenAddGroup(false)}>
+        <div className="space-y-3">
+          <div>
+            <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Nome</label>
+            <input
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              placeholder="Ex: Rack Core, 2º andar, DMZ"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Tipo</label>
+              <select
+                value={groupKind}
+                onChange={(e) => setGroupKind(e.target.value as GroupKind)}
+                className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              >
+                <option value="room">sala</option>
+                <option value="rack">rack</option>
+                <option value="zone">zona / VLAN</option>
+                <option value="other">outro</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Dentro de (opcional)</label>
+              <select
+                value={groupParent}
+                onChange={(e) => setGroupParent(e.target.value)}
+                className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+              >
+                <option value="">(nenhum)</option>
+                {groupOptions.map((o) => (
+                  <option key={o.id} value={o.id}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <button
+            onClick={submitCreateGroup}
+            className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+          >
+            Criar grupo
+          </button>
+
+          <div className="text-[11px] font-semibold text-slate-500 dark:text-slate-400">
+            Depois, selecione um equipamento e escolha o grupo no painel.
+          </div>
+        </div>
+      </Modal>
+
+      <Modal open={openAddRef} title="Referenciar equipamento de outro mapa" onClose={() => setOpenAddRef(false)}>
+        <div className="space-y-3">
+          <div>
+            <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Equipamento</label>
+            <select
+              value={refDeviceId}
+              onChange={(e) => setRefDeviceId(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+            >
+              {refCandidates.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name} ({d.type}){d.ip ? ` • ${d.ip}` : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={submitAddRef}
+            disabled={!refDeviceId}
+            className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+          >
+            Adicionar referência
+          </button>
+
+          <div className="text-[11px] font-semibold text-slate-500 dark:text-slate-400">
+            A referência é somente leitura e não aceita links. Duplo clique nela abre o mapa de origem.
+          </div>
+        </div>
+      </Modal>
+
       <Modal open={openConfirmDelete} title="Confirmar deleção" onClose={() => setOpenConfirmDelete(false)}>
         <div className="space-y-3">
           <div className="rounded-xl border border-slate-900/10 bg-slate-50 p-3 text-[12px] font-semibold text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200">
-            {selectedNode
+            {selectedNode?.data.refOf
+              ? `Você vai remover a referência a "${selectedNode.data.name}" deste mapa. O equipamento continua no mapa de origem.`
+              : selectedNode
               ? `Você vai deletar o equipamento "${selectedNode.data.name}". Os links ligados a ele serão removidos.`
+              : selectedGroup
+              ? `Você vai deletar o grupo "${selectedGroup.data.name}". Os membros passam para o grupo de cima (ou ficam soltos no mapa).`
               : selectedEdge
               ? `Você vai deletar o link "${selectedEdge.source} → ${selectedEdge.target}".`
               : "Nada selecionado."}
@@ -651,7 +2657,7 @@ export default function TopologyCanvas() {
             </button>
             <button
               onClick={confirmDelete}
-              disabled={!selectedNode && !selectedEdge}
+              disabled={!selectedNode && !selectedEdge && !selectedGroup}
               className="h-10 flex-1 rounded-xl bg-rose-600 text-[12px] font-extrabold text-white hover:bg-rose-500 disabled:opacity-50 dark:bg-rose-500 dark:hover:bg-rose-400"
             >
               Deletar
@@ -662,5 +2668,7 @@ export default function TopologyCanvas() {
 
       {toast && <Toast text={toast} />}
     </div>
+    </NodeFieldsContext.Provider>
+    </DeviceTypesContext.Provider>
   );
 }
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import type { LinkVlan, VlanWithMembers } from "@/api/vlans";
+
+const labelClass = "text-[11px] font-bold text-slate-500 dark:text-slate-400";
+
+/**
+ * VLANs de um link (com tagged/untagged) ou de um equipamento (sem modo).
+ * Montar com key = id da entidade: o rascunho nasce dos props.
+ */
+export default function VlanMembership({
+  vlans,
+  value,
+  withMode,
+  canEdit,
+  onSave,
+}: {
+  vlans: VlanWithMembers[];
+  value: LinkVlan[];
+  /** link: escolhe tagged/untagged; equipamento: só participa ou não */
+  withMode: boolean;
+  canEdit: boolean;
+  onSave: (next: LinkVlan[]) => Promise<boolean>;
+}) {
+  const [draft, setDraft] = useState<LinkVlan[]>(value);
+
+  const selected = new Map(draft.map((v) => [v.vlanId, v]));
+  const dirty =
+    draft.length !== value.length ||
+    value.some((v) => selected.get(v.vlanId)?.tagged !== v.tagged);
+  const untagged = draft.filter((v) => !v.tagged).length;
+
+  const toggle = (vlanId: string) =>
+    setDraft((d) => (selected.has(vlanId) ? d.filter((v) => v.vlanId !== vlanId) : [...d, { vlanId, tagged: true }]));
+
+  const setTagged = (vlanId: string, tagged: boolean) =>
+    setDraft((d) => d.map((v) => (v.vlanId === vlanId ? { ...v, tagged } : v)));
+
+  if (vlans.length === 0) return null;
+
+  return (
+    <div className="mt-3 rounded-lg border border-slate-900/10 p-2 dark:border-slate-700">
+      <div className={labelClass}>VLANs</div>
+      <div className="mt-1 max-h-[160px] overflow-auto">
+        {vlans.map((v) => {
+          const member = selected.get(v.id);
+          return (
+            <div key={v.id} className="flex items-center gap-2 py-0.5 text-[11px] font-semibold text-slate-700 dark:text-slate-200">
+              <label className="flex min-w-0 flex-1 items-center gap-1.5">
+                <input type="checkbox" checked={!!member} disabled={!canEdit} onChange={() => toggle(v.id)} />
+                <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: v.color }} />
+                <span className="truncate">
+                  {v.vid} • {v.name}
+                </span>
+              </label>
+              {withMode && member && (
+                <select
+                  value={member.tagged ? "tagged" : "untagged"}
+                  disabled={!canEdit}
+                  onChange={(e) => setTagged(v.id, e.target.value === "tagged")}
+                  className="h-6 rounded-md border border-slate-900/10 bg-white px-1 text-[10px] font-bold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+                >
+                  <option value="tagged">tagged</option>
+                  <option value="untagged">untagged</option>
+                </select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {canEdit && dirty && (
+        <div className="mt-1.5 flex items-center justify-end gap-2">
+          {untagged > 1 && <span className="text-[11px] font-bold text-rose-600 dark:text-rose-400">Só uma VLAN untagged</span>}
+          <button
+            onClick={() => setDraft(value)}
+            className="rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
+          >
+            Descartar
+          </button>
+          <button
+            disabled={untagged > 1}
+            onClick={() => void onSave(draft)}
+            className="h-8 rounded-lg bg-slate-900 px-3 text-[11px] font-extrabold text-white hover:bg-slate-800 disabled:opacity-40 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+          >
+            Salvar VLANs
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
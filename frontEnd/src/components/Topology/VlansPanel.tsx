@@ -0,0 +1,163 @@
+import { useCallback, useState } from "react";
+import { createVlan, deleteVlan, fetchVlanIslands, type VlanIslands, type VlanWithMembers } from "@/api/vlans";
+
+const buttonClass =
+  "rounded-lg px-2 py-1 text-[11px] font-extrabold text-slate-600 hover:bg-slate-100 disabled:opacity-40 dark:text-slate-300 dark:hover:bg-slate-800";
+
+const inputClass =
+  "h-8 min-w-0 rounded-lg border border-slate-900/10 bg-white px-2 text-[11px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100";
+
+/** VLANs do mapa: admin cria e remove; qualquer um destaca e verifica ilhas. */
+export default function VlansPanel({
+  mapId,
+  vlans,
+  canManage,
+  highlightId,
+  onHighlight,
+  onChanged,
+  onMessage,
+  onClose,
+}: {
+  mapId: string;
+  /** carregadas pelo canvas (o destaque usa a mesma lista) */
+  vlans: VlanWithMembers[] | null;
+  canManage: boolean;
+  highlightId: string | null;
+  onHighlight: (id: string | null) => void;
+  onChanged: () => void;
+  onMessage: (msg: string) => void;
+  onClose: () => void;
+}) {
+  const [vid, setVid] = useState<string>("");
+  const [name, setName] = useState<string>("");
+  const [color, setColor] = useState<string>("#6366f1");
+  // null = ainda não verificado
+  const [islands, setIslands] = useState<VlanIslands[] | null>(null);
+
+  const run = useCallback(
+    async (fn: () => Promise<unknown>, ok: string) => {
+      try {
+        await fn();
+        onMessage(ok);
+        onChanged();
+        setIslands(null);
+      } catch (err: unknown) {
+        onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+      }
+    },
+    [onChanged, onMessage]
+  );
+
+  const submitCreate = async () => {
+    const n = Number(vid);
+    if (!Number.isInteger(n) || n < 1 || n > 4094) return onMessage("VLAN deve ser entre 1 e 4094.");
+    if (!name.trim()) return onMessage("Dê um nome à VLAN.");
+    await run(() => createVlan({ mapId, vid: n, name: name.trim(), color }), "VLAN criada ✅");
+    setVid("");
+    setName("");
+  };
+
+  const remove = (v: VlanWithMembers) => {
+    if (!window.confirm(`Remover a VLAN ${v.vid} (${v.name})? Links e equipamentos deixam de participar dela.`)) return;
+    if (highlightId === v.id) onHighlight(null);
+    return run(() => deleteVlan(v.id), "VLAN removida ✅");
+  };
+
+  const checkIslands = async () => {
+    try {
+      setIslands(await fetchVlanIslands(mapId));
+    } catch (err: unknown) {
+      onMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+    }
+  };
+
+  return (
+    <div className="w-[400px] rounded-2xl border border-slate-900/10 bg-white/95 p-3 shadow-[0_18px_40px_rgba(0,0,0,.12)] backdrop-blur dark:border-slate-700/60 dark:bg-slate-900/95">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-[13px] font-extrabold text-slate-900 dark:text-slate-100">VLANs</h2>
+        <div className="flex">
+          <button onClick={checkIslands} className={buttonClass} title="Equipamentos da VLAN sem caminho até o resto dela">
+            Verificar ilhas
+          </button>
+          <button onClick={onClose} className={buttonClass}>
+            Fechar
+          </button>
+        </div>
+      </div>
+
+      {canManage && (
+        <div className="mb-2 flex gap-2">
+          <input value={vid} onChange={(e) => setVid(e.target.value)} placeholder="VLAN" inputMode="numeric" className={`${inputClass} w-16`} />
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submitCreate()}
+            placeholder="Nome"
+            className={`${inputClass} flex-1`}
+          />
+          <input type="color" value={color} onChange={(e) => setColor(e.target.value)} className="h-8 w-8 shrink-0 cursor-pointer rounded-lg" />
+          <button
+            onClick={submitCreate}
+            className="h-8 rounded-lg bg-slate-900 px-3 text-[11px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+          >
+            Criar
+          </button>
+        </div>
+      )}
+
+      {islands && (
+        <div className="mb-2 rounded-lg border border-slate-900/10 p-2 text-[11px] font-semibold text-slate-600 dark:border-slate-700 dark:text-slate-300">
+          {islands.length === 0 ? (
+            <div className="text-emerald-700 dark:text-emerald-300">Nenhuma VLAN partida ✅</div>
+          ) : (
+            islands.map((r) => (
+              <div key={r.vlan.id} className="py-1">
+                <div className="font-extrabold text-rose-600 dark:text-rose-300">
+                  VLAN {r.vlan.vid} ({r.vlan.name}): {r.islands.length} ilhas
+                </div>
+                {r.islands.map((island, i) => (
+                  <div key={i} className="truncate pl-2">
+                    {i + 1}. {island.map((d) => d.name).join(", ")}
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <div className="max-h-[320px] overflow-auto">
+        {!vlans ? (
+          <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Carregando...</div>
+        ) : vlans.length === 0 ? (
+          <div className="py-2 text-[11px] font-semibold text-slate-500 dark:text-slate-400">Nenhuma VLAN neste mapa.</div>
+        ) : (
+          vlans.map((v) => (
+            <div key={v.id} className="flex items-center gap-2 border-b border-slate-900/5 py-1.5 last:border-0 dark:border-slate-800">
+              <span className="h-3 w-3 shrink-0 rounded-full" style={{ background: v.color }} />
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">
+                  {v.vid} • {v.name}
+                </div>
+                <div className="text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+                  {v.deviceIds.length} equipamento(s) • {v.links.length} link(s)
+                </div>
+              </div>
+              <button onClick={() => onHighlight(highlightId === v.id ? null : v.id)} className={buttonClass}>
+                {highlightId === v.id ? "Parar destaque" : "Destacar"}
+              </button>
+              {canManage && (
+                <button
+                  onClick={() => remove(v)}
+                  className="shrink-0 rounded-lg px-2 py-1 text-[11px] font-extrabold text-rose-600 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-950/40"
+                >
+                  Remover
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
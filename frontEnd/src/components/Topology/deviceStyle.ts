@@ -0,0 +1,14 @@
+import type { DeviceStatus } from "@/api/topology";
+
+/** Paleta única de status: arestas, legenda e exportações. */
+export const statusHex: Record<DeviceStatus, string> = {
+  up: "#22c55e",
+  warn: "#f59e0b",
+  down: "#ef4444",
+};
+
+export const statusLabel: Record<DeviceStatus, string> = {
+  up: "Operacional",
+  warn: "Atenção",
+  down: "Fora do ar",
+};
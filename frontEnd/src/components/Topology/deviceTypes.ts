@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react";
+import type { DeviceTypeDef } from "@/api/deviceTypes";
+import { DEVICE_SIZE } from "./groups";
+
+/** Tipos cadastrados, por chave. Carregados pelo canvas (e recarregados no SSE). */
+export const DeviceTypesContext = createContext<Map<string, DeviceTypeDef>>(new Map());
+
+export const FALLBACK_ICON = "📦";
+
+/** Tipo apagado ou ainda não carregado: rótulo = chave, tamanho padrão. */
+export function resolveDeviceType(types: Map<string, DeviceTypeDef>, key: string) {
+  const t = types.get(key);
+  return {
+    key,
+    label: t?.label ?? key,
+    icon: t?.icon ?? null,
+    iconSvg: t?.icon_svg ?? null,
+    width: t?.width ?? DEVICE_SIZE.width,
+    height: t?.height ?? DEVICE_SIZE.height,
+  };
+}
+
+export function useDeviceType(key: string) {
+  return resolveDeviceType(useContext(DeviceTypesContext), key);
+}
+
+/** SVG vira data URL para <img>: dentro de <img> o SVG não executa scripts. */
+export function svgDataUrl(svg: string) {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
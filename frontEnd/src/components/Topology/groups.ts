@@ -0,0 +1,152 @@
+import { createContext } from "react";
+import type { Edge, Node } from "reactflow";
+import type { DeviceStatus, GroupNodePayload } from "@/api/topology";
+import type { DeviceNodeData } from "./DeviceNode";
+
+export type GroupNodeData = GroupNodePayload & {
+  /** calculados em buildGroupView */
+  worstStatus?: DeviceStatus;
+  memberCount?: number;
+};
+
+export type TopologyNodeData = DeviceNodeData | GroupNodeData;
+export type FlowNode = Node<TopologyNodeData>;
+
+export function isDeviceNode(n: FlowNode): n is Node<DeviceNodeData> {
+  return n.type === "device";
+}
+
+export function isGroupNode(n: FlowNode): n is Node<GroupNodeData> {
+  return n.type === "deviceGroup";
+}
+
+export const DEVICE_SIZE = { width: 220, height: 70 };
+export const COLLAPSED_SIZE = { width: 220, height: 64 };
+
+const severity: Record<DeviceStatus, number> = { up: 0, warn: 1, down: 2 };
+
+export function worstStatus(statuses: DeviceStatus[]): DeviceStatus | undefined {
+  return statuses.reduce<DeviceStatus | undefined>(
+    (worst, s) => (worst === undefined || severity[s] > severity[worst] ? s : worst),
+    undefined
+  );
+}
+
+/** Ações que o nó de grupo dispara no canvas (sem passar funções via `data`). */
+export const GroupActionsContext = createContext<{
+  /** leitura não redimensiona (o resize salva no banco) */
+  editable: boolean;
+  onToggleCollapse: (id: string) => void;
+  onResizeEnd: (id: string, rect: { x: number; y: number; width: number; height: number }) => void;
+}>({
+  editable: true,
+  onToggleCollapse: () => {},
+  onResizeEnd: () => {},
+});
+
+export function indexById(nodes: FlowNode[]) {
+  return new Map(nodes.map((n) => [n.id, n]));
+}
+
+/** Posição absoluta somando a cadeia de pais (o React Flow guarda relativa). */
+export function absolutePosition(n: FlowNode, byId: Map<string, FlowNode>) {
+  let { x, y } = n.position;
+  let p = n.parentId ? byId.get(n.parentId) : undefined;
+  while (p) {
+    x += p.position.x;
+    y += p.position.y;
+    p = p.parentId ? byId.get(p.parentId) : undefined;
+  }
+  return { x, y };
+}
+
+/** Converte posição absoluta (banco / eventos ao vivo) para relativa ao pai. */
+export function relativeTo(
+  abs: { x: number; y: number },
+  parentId: string | undefined,
+  byId: Map<string, FlowNode>
+) {
+  const parent = parentId ? byId.get(parentId) : undefined;
+  if (!parent) return abs;
+  const p = absolutePosition(parent, byId);
+  return { x: abs.x - p.x, y: abs.y - p.y };
+}
+
+export function descendantIds(groupId: string, nodes: FlowNode[]) {
+  const children = new Map<string, string[]>();
+  nodes.forEach((n) => {
+    if (!n.parentId) return;
+    children.set(n.parentId, [...(children.get(n.parentId) ?? []), n.id]);
+  });
+
+  const out: string[] = [];
+  const stack = [...(children.get(groupId) ?? [])];
+  while (stack.length) {
+    const id = stack.pop()!;
+    out.push(id);
+    stack.push(...(children.get(id) ?? []));
+  }
+  return out;
+}
+
+/** React Flow exige pais antes dos filhos no array. */
+export function sortParentsFirst(nodes: FlowNode[]) {
+  const byId = indexById(nodes);
+  const ordered: FlowNode[] = [];
+  const seen = new Set<string>();
+  const visit = (n: FlowNode) => {
+    if (seen.has(n.id)) return;
+    seen.add(n.id);
+    const parent = n.parentId ? byId.get(n.parentId) : undefined;
+    if (parent) visit(parent);
+    ordered.push(n);
+  };
+  nodes.filter(isGroupNode).forEach(visit);
+  nodes.forEach(visit);
+  return ordered;
+}
+
+/** Grupo recolhido mais externo que contém o nó (ele fica escondido). */
+function collapsedAncestor(id: string, byId: Map<string, FlowNode>) {
+  let found: string | undefined;
+  const n = byId.get(id);
+  let p = n?.parentId ? byId.get(n.parentId) : undefined;
+  while (p) {
+    if (isGroupNode(p) && p.data.collapsed) found = p.id;
+    p = p.parentId ? byId.get(p.parentId) : undefined;
+  }
+  return found;
+}
+
+/**
+ * Visão para o React Flow: grupos ganham pior status e contagem de membros;
+ * grupos recolhidos escondem os membros e as arestas passam a ligar no grupo.
+ */
+export function buildGroupView<E>(nodes: FlowNode[], edges: Edge<E>[]) {
+  const byId = indexById(nodes);
+
+  const viewNodes = nodes.map((n) => {
+    let out: FlowNode = n;
+    if (isGroupNode(n)) {
+      const members = descendantIds(n.id, nodes)
+        .map((id) => byId.get(id))
+        .filter((m): m is Node<DeviceNodeData> => !!m && isDeviceNode(m));
+      out = {
+        ...n,
+        data: { ...n.data, worstStatus: worstStatus(members.map((m) => m.data.status)), memberCount: members.length },
+        style: n.data.collapsed ? { ...n.style, ...COLLAPSED_SIZE } : n.style,
+      };
+    }
+    return collapsedAncestor(n.id, byId) ? { ...out, hidden: true } : out;
+  });
+
+  const viewEdges = edges.map((e) => {
+    const source = collapsedAncestor(e.source, byId) ?? e.source;
+    const target = collapsedAncestor(e.target, byId) ?? e.target;
+    if (source === e.source && target === e.target) return e;
+    if (source === target) return { ...e, hidden: true };
+    return { ...e, source, target, sourceHandle: undefined, targetHandle: undefined };
+  });
+
+  return { nodes: viewNodes, edges: viewEdges };
+}
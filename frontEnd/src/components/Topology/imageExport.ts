@@ -0,0 +1,237 @@
+import { getRectOfNodes, type ReactFlowInstance } from "reactflow";
+import { toPng, toSvg } from "html-to-image";
+import type { DeviceStatus } from "@/api/topology";
+import type { DeviceTypeDef } from "@/api/deviceTypes";
+import { statusHex, statusLabel } from "./deviceStyle";
+import { FALLBACK_ICON, resolveDeviceType, svgDataUrl } from "./deviceTypes";
+
+export type ImageFormat = "svg" | "png" | "pdf";
+
+export type ImageExportOptions = {
+  format: ImageFormat;
+  /** mapa inteiro ou só o que está na tela */
+  scope: "all" | "viewport";
+  /** resolução do PNG; o PDF sai sempre em 2x */
+  scale: number;
+  theme: "light" | "dark";
+  title?: string;
+  timestamp: boolean;
+  legend: boolean;
+};
+
+const PAD = 40;
+const HEADER = 56;
+const LEGEND = 44;
+const MIN_WIDTH = 640;
+
+// mesmos fundos do canvas (slate-100 / slate-950)
+const palette = {
+  light: { bg: "#f1f5f9", text: "#0f172a", muted: "#64748b" },
+  dark: { bg: "#020617", text: "#f1f5f9", muted: "#94a3b8" },
+};
+
+type Graph = { url: string; width: number; height: number };
+
+/** Tipos presentes no mapa exportado, para a legenda. */
+type LegendType = { label: string; icon: string | null; iconSvg: string | null };
+
+/** Operações de desenho comuns ao SVG e ao canvas (título, data, legenda). */
+type Op =
+  | { kind: "text"; x: number; y: number; text: string; size: number; bold?: boolean; color: string }
+  | { kind: "dot"; x: number; y: number; r: number; color: string }
+  | { kind: "image"; x: number; y: number; size: number; url: string };
+
+async function renderGraph(
+  rf: ReactFlowInstance,
+  container: HTMLElement,
+  opts: ImageExportOptions,
+  as: "svg" | "png",
+  pixelRatio: number
+): Promise<Graph> {
+  const viewport = container.querySelector<HTMLElement>(".react-flow__viewport");
+  if (!viewport) throw new Error("canvas não encontrado");
+
+  let width: number;
+  let height: number;
+  let transform: { x: number; y: number; zoom: number };
+  if (opts.scope === "viewport") {
+    width = container.clientWidth;
+    height = container.clientHeight;
+    transform = rf.getViewport();
+  } else {
+    const nodes = rf.getNodes().filter((n) => !n.hidden);
+    if (nodes.length === 0) throw new Error("mapa vazio");
+    const b = getRectOfNodes(nodes);
+    width = Math.ceil(b.width + PAD * 2);
+    height = Math.ceil(b.height + PAD * 2);
+    transform = { x: PAD - b.x, y: PAD - b.y, zoom: 1 };
+  }
+
+  const options = {
+    backgroundColor: palette[opts.theme].bg,
+    width,
+    height,
+    pixelRatio,
+    style: {
+      width: `${width}px`,
+      height: `${height}px`,
+      transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.zoom})`,
+    },
+  };
+  const url = as === "svg" ? await toSvg(viewport, options) : await toPng(viewport, options);
+  return { url, width, height };
+}
+
+function layout(graph: Graph, opts: ImageExportOptions, types: LegendType[]) {
+  const colors = palette[opts.theme];
+  const hasHeader = Boolean(opts.title?.trim()) || opts.timestamp;
+  const top = hasHeader ? HEADER : 0;
+  const width = Math.max(graph.width, MIN_WIDTH);
+  const height = top + graph.height + (opts.legend ? LEGEND : 0);
+
+  const ops: Op[] = [];
+  if (opts.title?.trim()) {
+    ops.push({ kind: "text", x: PAD / 2, y: 28, text: opts.title.trim(), size: 18, bold: true, color: colors.text });
+  }
+  if (opts.timestamp) {
+    ops.push({ kind: "text", x: PAD / 2, y: 46, text: `Exportado em ${new Date().toLocaleString()}`, size: 11, color: colors.muted });
+  }
+
+  if (opts.legend) {
+    const y = top + graph.height + LEGEND / 2;
+    let x = PAD / 2;
+    for (const s of Object.keys(statusHex) as DeviceStatus[]) {
+      ops.push({ kind: "dot", x: x + 5, y, r: 5, color: statusHex[s] });
+      ops.push({ kind: "text", x: x + 16, y: y + 4, text: statusLabel[s], size: 11, bold: true, color: colors.text });
+      x += 104;
+    }
+    x += 12;
+    for (const t of types) {
+      if (t.iconSvg) {
+        ops.push({ kind: "image", x, y: y - 8, size: 16, url: svgDataUrl(t.iconSvg) });
+        ops.push({ kind: "text", x: x + 20, y: y + 4, text: t.label, size: 12, color: colors.text });
+      } else {
+        ops.push({ kind: "text", x, y: y + 5, text: `${t.icon ?? FALLBACK_ICON} ${t.label}`, size: 12, color: colors.text });
+      }
+      x += 34 + t.label.length * 7;
+    }
+  }
+
+  return { width, height, top, ops, colors };
+}
+
+function escapeXml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function composeSvg(graph: Graph, opts: ImageExportOptions, types: LegendType[]) {
+  const { width, height, top, ops, colors } = layout(graph, opts, types);
+  const parts = ops.map((op) =>
+    op.kind === "dot"
+      ? `<circle cx="${op.x}" cy="${op.y}" r="${op.r}" fill="${op.color}"/>`
+      : op.kind === "image"
+      ? `<image href="${escapeXml(op.url)}" x="${op.x}" y="${op.y}" width="${op.size}" height="${op.size}"/>`
+      : `<text x="${op.x}" y="${op.y}" font-family="Helvetica, Arial, sans-serif" font-size="${op.size}" font-weight="${op.bold ? 800 : 600}" fill="${op.color}">${escapeXml(op.text)}</text>`
+  );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${colors.bg}"/>`,
+    `<image href="${escapeXml(graph.url)}" x="0" y="${top}" width="${graph.width}" height="${graph.height}"/>`,
+    ...parts,
+    `</svg>`,
+  ].join("");
+}
+
+function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("falha ao renderizar a imagem"));
+    img.src = url;
+  });
+}
+
+async function composeCanvas(graph: Graph, opts: ImageExportOptions, types: LegendType[], scale: number) {
+  const { width, height, top, ops, colors } = layout(graph, opts, types);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("canvas 2d indisponível");
+  ctx.scale(scale, scale);
+  ctx.fillStyle = colors.bg;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(await loadImage(graph.url), 0, top, graph.width, graph.height);
+
+  for (const op of ops) {
+    if (op.kind === "image") {
+      ctx.drawImage(await loadImage(op.url), op.x, op.y, op.size, op.size);
+      continue;
+    }
+    ctx.fillStyle = op.color;
+    if (op.kind === "dot") {
+      ctx.beginPath();
+      ctx.arc(op.x, op.y, op.r, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      ctx.font = `${op.bold ? 800 : 600} ${op.size}px Helvetica, Arial, sans-serif`;
+      ctx.fillText(op.text, op.x, op.y);
+    }
+  }
+  return { canvas, width, height };
+}
+
+function download(url: string, filename: string) {
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+}
+
+function fileBase(title: string | undefined) {
+  const slug = (title?.trim() || "topologia").replace(/[^\w.-]+/g, "_");
+  return `${slug}-${new Date().toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Exporta o canvas do React Flow. `container` é o elemento que envolve o
+ * <ReactFlow> (o tamanho dele é a "área visível").
+ */
+export async function exportCanvasImage(
+  rf: ReactFlowInstance,
+  container: HTMLElement,
+  opts: ImageExportOptions,
+  deviceTypes: Map<string, DeviceTypeDef>
+) {
+  const name = fileBase(opts.title);
+  const keys = new Set(rf.getNodes().filter((n) => n.type === "device" && !n.hidden).map((n) => String(n.data.type)));
+  const types = [...keys].map((k) => resolveDeviceType(deviceTypes, k)).sort((a, b) => a.label.localeCompare(b.label));
+
+  if (opts.format === "svg") {
+    const graph = await renderGraph(rf, container, opts, "svg", 1);
+    const svg = composeSvg(graph, opts, types);
+    download(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`, `${name}.svg`);
+    return;
+  }
+
+  const scale = opts.format === "pdf" ? 2 : opts.scale;
+  const graph = await renderGraph(rf, container, opts, "png", scale);
+  const { canvas, width, height } = await composeCanvas(graph, opts, types, scale);
+  const png = canvas.toDataURL("image/png");
+
+  if (opts.format === "png") {
+    download(png, `${name}.png`);
+    return;
+  }
+
+  // jspdf é grande: só carrega quando alguém pede PDF
+  const { jsPDF } = await import("jspdf");
+  // A4 na orientação da imagem, com margem de 10mm
+  const pdf = new jsPDF({ orientation: width >= height ? "landscape" : "portrait", unit: "mm", format: "a4" });
+  const pageW = pdf.internal.pageSize.getWidth() - 20;
+  const pageH = pdf.internal.pageSize.getHeight() - 20;
+  const fit = Math.min(pageW / width, pageH / height);
+  pdf.addImage(png, "PNG", 10 + (pageW - width * fit) / 2, 10, width * fit, height * fit);
+  pdf.save(`${name}.pdf`);
+}
@@ -0,0 +1,89 @@
+import { createContext } from "react";
+import type { DeviceInventory, DeviceRow } from "@/api/topology";
+
+export type InventoryTextKey = Exclude<keyof DeviceInventory, "tags" | "customFields">;
+
+/** Campos simples do inventário, na ordem do painel. */
+export const inventoryFields: { key: InventoryTextKey; label: string; date?: boolean; placeholder?: string }[] = [
+  { key: "vendor", label: "Fabricante" },
+  { key: "model", label: "Modelo" },
+  { key: "serialNumber", label: "Nº de série" },
+  { key: "firmwareVersion", label: "Firmware" },
+  { key: "mac", label: "MAC", placeholder: "aa:bb:cc:dd:ee:ff" },
+  { key: "location", label: "Localização" },
+  { key: "owner", label: "Responsável" },
+  { key: "purchaseDate", label: "Compra", date: true },
+  { key: "warrantyUntil", label: "Garantia até", date: true },
+];
+
+/** O que pode aparecer embaixo do nome no nó. */
+export type NodeFieldKey = InventoryTextKey | "tags";
+
+export const nodeFieldOptions: { key: NodeFieldKey; label: string }[] = [
+  ...inventoryFields.map(({ key, label }) => ({ key: key as NodeFieldKey, label })),
+  { key: "tags", label: "Tags" },
+];
+
+/** Campos escolhidos para mostrar nos nós (preferência local, por navegador). */
+export const NodeFieldsContext = createContext<NodeFieldKey[]>([]);
+
+const NODE_FIELDS_KEY = "nodeFields";
+
+export function loadNodeFields(): NodeFieldKey[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(NODE_FIELDS_KEY) ?? "[]");
+    const known = new Set(nodeFieldOptions.map((o) => o.key));
+    return Array.isArray(saved) ? saved.filter((k): k is NodeFieldKey => known.has(k)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveNodeFields(keys: NodeFieldKey[]) {
+  localStorage.setItem(NODE_FIELDS_KEY, JSON.stringify(keys));
+}
+
+function formatDate(v: string) {
+  const [y, m, d] = v.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+/** Linhas "Rótulo: valor" dos campos escolhidos que estão preenchidos. */
+export function nodeFieldLines(inv: DeviceInventory | undefined, keys: NodeFieldKey[]) {
+  if (!inv) return [];
+  const lines: { key: NodeFieldKey; text: string }[] = [];
+  for (const key of keys) {
+    if (key === "tags") {
+      if (inv.tags?.length) lines.push({ key, text: inv.tags.map((t) => `#${t}`).join(" ") });
+      continue;
+    }
+    const v = inv[key];
+    if (!v) continue;
+    const field = inventoryFields.find((f) => f.key === key);
+    lines.push({ key, text: `${field?.label ?? key}: ${field?.date ? formatDate(v) : v}` });
+  }
+  return lines;
+}
+
+/** Inventário completo: o que faltar vira null/vazio (para desfazer uma edição). */
+export function fullInventory(inv: DeviceInventory = {}): DeviceInventory {
+  const out: DeviceInventory = { tags: inv.tags ?? [], customFields: inv.customFields ?? {} };
+  for (const f of inventoryFields) out[f.key] = inv[f.key] ?? null;
+  return out;
+}
+
+export function deviceRowInventory(d: DeviceRow): DeviceInventory {
+  return {
+    vendor: d.vendor,
+    model: d.model,
+    serialNumber: d.serial_number,
+    firmwareVersion: d.firmware_version,
+    mac: d.mac,
+    location: d.location,
+    owner: d.owner,
+    purchaseDate: d.purchase_date,
+    warrantyUntil: d.warranty_until,
+    tags: d.tags,
+    customFields: d.custom_fields,
+  };
+}
@@ -0,0 +1,95 @@
+import type { Edge } from "reactflow";
+import dagre from "dagre";
+import { COLLAPSED_SIZE, DEVICE_SIZE, indexById, isGroupNode, type FlowNode } from "./groups";
+
+const GROUP_PAD = 20;
+const GROUP_HEADER = 36;
+
+/**
+ * Layout hierárquico. Grupos expandidos viram clusters do dagre (membros
+ * ficam juntos) e a caixa é recalculada em volta dos filhos; grupos
+ * recolhidos entram como um nó comum. Membros escondidos não se mexem.
+ */
+export function layoutWithDagre(
+  nodes: FlowNode[],
+  edges: Edge[],
+  direction: "TB" | "LR" = "TB"
+) {
+  const byId = indexById(nodes);
+  const visible = nodes.filter((n) => !n.hidden);
+  const visibleIds = new Set(visible.map((n) => n.id));
+  const hasVisibleChild = new Set(visible.map((n) => n.parentId).filter((id): id is string => !!id));
+  const isCluster = (n: FlowNode) => isGroupNode(n) && !n.data.collapsed && hasVisibleChild.has(n.id);
+
+  const sizeOf = (n: FlowNode) => {
+    // equipamento: o tamanho medido pelo React Flow (varia com o tipo)
+    if (!isGroupNode(n)) return { width: n.width ?? DEVICE_SIZE.width, height: n.height ?? DEVICE_SIZE.height };
+    if (n.data.collapsed) return COLLAPSED_SIZE;
+    return { width: Number(n.style?.width ?? 400), height: Number(n.style?.height ?? 260) };
+  };
+
+  const g = new dagre.graphlib.Graph({ compound: true });
+  g.setDefaultEdgeLabel(() => ({}));
+  g.setGraph({ rankdir: direction, ranksep: 80, nodesep: 55 });
+
+  visible.forEach((n) => g.setNode(n.id, isCluster(n) ? {} : sizeOf(n)));
+  visible.forEach((n) => {
+    if (n.parentId && visibleIds.has(n.parentId)) g.setParent(n.id, n.parentId);
+  });
+  edges.forEach((e) => {
+    const s = byId.get(e.source);
+    const t = byId.get(e.target);
+    if (e.hidden || !s || !t || !visibleIds.has(s.id) || !visibleIds.has(t.id)) return;
+    if (isCluster(s) || isCluster(t)) return;
+    g.setEdge(e.source, e.target);
+  });
+
+  dagre.layout(g);
+
+  // retângulos absolutos: folhas pelo dagre, clusters em volta dos filhos (mais fundo primeiro)
+  const rects = new Map<string, { x: number; y: number; width: number; height: number }>();
+  visible.forEach((n) => {
+    if (isCluster(n)) return;
+    const p = g.node(n.id) as { x: number; y: number };
+    const size = sizeOf(n);
+    rects.set(n.id, { x: p.x - size.width / 2, y: p.y - size.height / 2, ...size });
+  });
+
+  const depth = (n: FlowNode) => {
+    let d = 0;
+    let p = n.parentId ? byId.get(n.parentId) : undefined;
+    while (p) {
+      d++;
+      p = p.parentId ? byId.get(p.parentId) : undefined;
+    }
+    return d;
+  };
+
+  visible
+    .filter(isCluster)
+    .sort((a, b) => depth(b) - depth(a))
+    .forEach((n) => {
+      const children = visible.map((c) => (c.parentId === n.id ? rects.get(c.id) : undefined)).filter((r) => !!r);
+      const minX = Math.min(...children.map((r) => r.x));
+      const minY = Math.min(...children.map((r) => r.y));
+      const maxX = Math.max(...children.map((r) => r.x + r.width));
+      const maxY = Math.max(...children.map((r) => r.y + r.height));
+      rects.set(n.id, {
+        x: minX - GROUP_PAD,
+        y: minY - GROUP_HEADER,
+        width: maxX - minX + GROUP_PAD * 2,
+        height: maxY - minY + GROUP_HEADER + GROUP_PAD,
+      });
+    });
+
+  return nodes.map((n) => {
+    const r = rects.get(n.id);
+    if (!r) return n;
+    const parent = n.parentId ? rects.get(n.parentId) : undefined;
+    return {
+      ...n,
+      position: parent ? { x: r.x - parent.x, y: r.y - parent.y } : { x: r.x, y: r.y },
+      style: isCluster(n) ? { ...n.style, width: r.width, height: r.height } : n.style,
+    };
+  });
+}
@@ -0,0 +1,53 @@
+import type { LinkMedium, LinkUtilization } from "@/api/topology";
+
+export const mediumLabel: Record<LinkMedium, string> = {
+  copper: "Cobre",
+  fiber: "Fibra",
+  wireless: "Wireless",
+  vpn: "VPN",
+};
+
+/** Meios sem cabo dedicado vão tracejados. */
+export function mediumDash(medium: LinkMedium | null | undefined) {
+  return medium === "wireless" || medium === "vpn" ? "6 4" : undefined;
+}
+
+/** Espessura cresce uma unidade por ordem de grandeza: 10M → 1.5, 1G → 3.5, 100G → 5.5. */
+export function edgeWidth(capacityMbps: number | null | undefined) {
+  if (!capacityMbps) return 2;
+  return Math.min(7, Math.max(1.5, 1.5 + Math.log10(capacityMbps / 10)));
+}
+
+/** Ocupação do sentido mais carregado, em % da capacidade (undefined sem capacidade ou amostra). */
+export function utilizationPercent(capacityMbps: number | null | undefined, u: LinkUtilization | null | undefined) {
+  if (!capacityMbps || !u) return undefined;
+  return (Math.max(u.inBps, u.outBps) / (capacityMbps * 1_000_000)) * 100;
+}
+
+const utilizationScale: [number, string][] = [
+  [50, "#22c55e"],
+  [75, "#eab308"],
+  [90, "#f97316"],
+];
+
+export function utilizationHex(percent: number) {
+  return utilizationScale.find(([limit]) => percent < limit)?.[1] ?? "#dc2626";
+}
+
+export function formatBps(bps: number) {
+  if (bps < 1000) return `${bps} b/s`;
+  const units = ["K", "M", "G", "T"];
+  let v = bps;
+  let i = -1;
+  while (v >= 1000 && i < units.length - 1) {
+    v /= 1000;
+    i++;
+  }
+  return `${v >= 100 ? Math.round(v) : v.toFixed(1)} ${units[i]}b/s`;
+}
+
+/** Texto da aresta: entrada/saída vistas da origem do link. */
+export function throughputLabel(u: LinkUtilization, percent: number | undefined) {
+  const pct = percent === undefined ? "" : ` (${Math.round(percent)}%)`;
+  return `↓${formatBps(u.inBps)} ↑${formatBps(u.outBps)}${pct}`;
+}
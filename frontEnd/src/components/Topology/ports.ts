@@ -0,0 +1,39 @@
+import type { DeviceStatus } from "@/api/topology";
+import type { DevicePort, PortKind } from "@/api/ports";
+import { statusHex } from "./deviceStyle";
+
+export const portKindLabel: Record<PortKind, string> = {
+  ethernet: "Ethernet",
+  fiber: "Fibra",
+  wireless: "Wireless",
+  console: "Console",
+  virtual: "Virtual",
+  other: "Outra",
+};
+
+/** Status que a porta impõe ao link ligado nela (undefined = não interfere). */
+export function portLinkStatus(p: DevicePort): DeviceStatus | undefined {
+  if (p.adminStatus === "down" || p.operStatus === "down") return "down";
+  return undefined;
+}
+
+const idleHex = "#94a3b8";
+
+/** Cor do handle: desligada/desconhecida em cinza. */
+export function portHex(p: DevicePort) {
+  if (p.adminStatus === "down") return idleHex;
+  if (p.operStatus === "down") return statusHex.down;
+  return p.operStatus === "up" ? statusHex.up : idleHex;
+}
+
+export function formatSpeed(mbps: number | undefined) {
+  if (!mbps) return "";
+  return mbps >= 1000 && mbps % 1000 === 0 ? `${mbps / 1000}G` : `${mbps}M`;
+}
+
+export function describePort(p: DevicePort) {
+  const speed = formatSpeed(p.speedMbps);
+  return [p.name, portKindLabel[p.kind], speed, p.adminStatus === "down" ? "desligada" : `oper ${p.operStatus}`, p.description]
+    .filter(Boolean)
+    .join(" • ");
+}
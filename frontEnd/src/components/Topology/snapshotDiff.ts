@@ -0,0 +1,81 @@
+import type { Edge } from "reactflow";
+import type { SnapshotDiff } from "@/api/snapshots";
+import type { FlowNode } from "./groups";
+
+export const GHOST_PREFIX = "ghost:";
+
+const changeLabel: Record<string, string> = {
+  name: "nome",
+  type: "tipo",
+  ip: "IP",
+  status: "status",
+  group: "grupo",
+  root: "raiz",
+  position: "posição",
+  endpoints: "pontas",
+  ports: "portas",
+  capacity: "capacidade",
+  medium: "meio",
+  label: "rótulo",
+  vlans: "VLANs",
+};
+
+export function describeDiffChanges(changes: string[]) {
+  return changes.map((c) => changeLabel[c] ?? c).join(", ");
+}
+
+/**
+ * Sobrepõe o diff (snapshot → atual) à visão do canvas: o que surgiu
+ * depois fica destacado, o que mudou ganha selo e o que sumiu volta
+ * como fantasma na posição do snapshot (não arrastável nem selecionável).
+ */
+export function overlayDiff<E>(view: { nodes: FlowNode[]; edges: Edge<E>[] }, diff: SnapshotDiff) {
+  const added = new Set(diff.devices.added.map((d) => d.id));
+  const changed = new Map(diff.devices.modified.map((m) => [m.id, m.changes]));
+
+  const nodes: FlowNode[] = view.nodes.map((n) => {
+    if (added.has(n.id)) return { ...n, data: { ...n.data, diff: "added" } };
+    const changes = changed.get(n.id);
+    return changes ? { ...n, data: { ...n.data, diff: "changed", diffChanges: changes } } : n;
+  });
+
+  const ghosts: FlowNode[] = diff.devices.removed.map((d) => ({
+    id: `${GHOST_PREFIX}${d.id}`,
+    type: "device",
+    position: d.position,
+    data: { ...d.data, groupId: undefined, diff: "removed" },
+    draggable: false,
+    selectable: false,
+    connectable: false,
+  }));
+
+  const present = new Set([...nodes, ...ghosts].map((n) => n.id));
+  const endpoint = (id: string) => (present.has(id) ? id : `${GHOST_PREFIX}${id}`);
+
+  const addedEdges = new Set(diff.links.added.map((l) => l.id));
+  const changedEdges = new Map(diff.links.modified.map((m) => [m.id, m.changes]));
+
+  const edges: Edge<E>[] = view.edges.map((e) => {
+    if (addedEdges.has(e.id)) {
+      return { ...e, label: `＋ ${e.label ?? "novo"}`, style: { ...e.style, strokeWidth: 4 } };
+    }
+    const changes = changedEdges.get(e.id);
+    if (!changes) return e;
+    return { ...e, label: `Δ ${e.label ? `${e.label} • ` : ""}${describeDiffChanges(changes)}`, style: { ...e.style, strokeWidth: 3 } };
+  });
+
+  const ghostEdges: Edge<E>[] = diff.links.removed
+    .map((l) => ({ ...l, source: endpoint(l.source), target: endpoint(l.target) }))
+    .filter((l) => present.has(l.source) && present.has(l.target))
+    .map((l) => ({
+      id: `${GHOST_PREFIX}${l.id}`,
+      source: l.source,
+      target: l.target,
+      label: `removido${l.label ? ` • ${l.label}` : ""}`,
+      type: "smoothstep",
+      selectable: false,
+      style: { stroke: "#94a3b8", strokeWidth: 2, strokeDasharray: "6 4", opacity: 0.7 },
+    }));
+
+  return { nodes: [...nodes, ...ghosts], edges: [...edges, ...ghostEdges] };
+}
@@ -0,0 +1,82 @@
+import readXlsxFile from "read-excel-file/browser";
+
+/** Linha da planilha: cabeçalho → célula (o backend normaliza os nomes das colunas). */
+export type SheetRow = Record<string, string | number | boolean | null>;
+
+/** CSV com aspas (RFC 4180); separador vírgula ou ponto e vírgula (Excel em pt-BR). */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  const sep = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === sep) {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows;
+}
+
+function toRecords(rows: unknown[][]): SheetRow[] {
+  const [header, ...body] = rows;
+  if (!header) return [];
+  const names = header.map((h) => String(h ?? "").trim());
+
+  return body
+    .filter((r) => r.some((v) => v !== null && v !== undefined && String(v).trim() !== ""))
+    .map((r) => {
+      const out: SheetRow = {};
+      names.forEach((name, i) => {
+        if (!name) return;
+        const v = r[i];
+        out[name] = v instanceof Date ? v.toISOString() : (v as SheetRow[string]) ?? null;
+      });
+      return out;
+    });
+}
+
+const isSheet = (name: string, ...aliases: string[]) => aliases.includes(name.trim().toLowerCase());
+
+/**
+ * Lê CSV (uma tabela) ou XLSX. No XLSX vale a aba "devices"/"equipamentos"
+ * e "links"; sem esses nomes, a primeira e a segunda aba.
+ */
+export async function readSpreadsheet(file: File): Promise<{ first: SheetRow[]; links?: SheetRow[] }> {
+  if (/\.csv$/i.test(file.name) || file.type === "text/csv") {
+    return { first: toRecords(parseCsv(await file.text())) };
+  }
+
+  const sheets = await readXlsxFile(file);
+  const devices = sheets.find((s) => isSheet(s.sheet, "devices", "equipamentos")) ?? sheets[0];
+  const links = sheets.find((s) => isSheet(s.sheet, "links", "conexoes", "conexões")) ?? sheets.find((s) => s !== devices);
+  return {
+    first: devices ? toRecords(devices.data) : [],
+    links: links ? toRecords(links.data) : undefined,
+  };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useRef, useState } from "react";
+import { absolutePosition, indexById, isGroupNode, type FlowNode } from "./groups";
+
+/** Uma edição do canvas, com como desfazer e como refazer (ambos chamam a API). */
+export type UndoEntry = {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+};
+
+const LIMIT = 100;
+
+/**
+ * Pilhas de desfazer/refazer. `scope` (o mapa aberto) zera as pilhas
+ * quando muda: uma entrada só vale no mapa em que foi criada.
+ */
+export function useUndoStack(scope: string) {
+  const [state, setState] = useState<{ scope: string; past: UndoEntry[]; future: UndoEntry[] }>({
+    scope,
+    past: [],
+    future: [],
+  });
+  const busy = useRef(false);
+
+  const current = state.scope === scope;
+  const past = current ? state.past : [];
+  const future = current ? state.future : [];
+
+  const push = useCallback(
+    (entry: UndoEntry) => {
+      setState((s) => ({
+        scope,
+        past: [...(s.scope === scope ? s.past : []).slice(-(LIMIT - 1)), entry],
+        future: [],
+      }));
+    },
+    [scope]
+  );
+
+  /** Executa e move a entrada de pilha; se a API falhar as pilhas ficam como estavam. */
+  const step = useCallback(
+    async (direction: "undo" | "redo") => {
+      if (state.scope !== scope) return null;
+      const from = direction === "undo" ? state.past : state.future;
+      const entry = from[from.length - 1];
+      if (!entry || busy.current) return null;
+
+      busy.current = true;
+      try {
+        await entry[direction]();
+        setState((s) => {
+          if (s.scope !== scope) return s;
+          return direction === "undo"
+            ? { scope, past: s.past.slice(0, -1), future: [...s.future, entry] }
+            : { scope, past: [...s.past, entry], future: s.future.slice(0, -1) };
+        });
+        return entry;
+      } finally {
+        busy.current = false;
+      }
+    },
+    [scope, state]
+  );
+
+  const undo = useCallback(() => step("undo"), [step]);
+  const redo = useCallback(() => step("redo"), [step]);
+
+  return {
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    nextUndo: past[past.length - 1]?.label,
+    nextRedo: future[future.length - 1]?.label,
+    push,
+    undo,
+    redo,
+  };
+}
+
+export type PositionSnapshot = Map<string, { x: number; y: number; width?: number; height?: number }>;
+
+/** Posições absolutas (e tamanho de grupos abertos) para voltar depois. */
+export function snapshotPositions(ids: Iterable<string>, all: FlowNode[]): PositionSnapshot {
+  const byId = indexById(all);
+  const snap: PositionSnapshot = new Map();
+  for (const id of ids) {
+    const n = byId.get(id);
+    if (!n) continue;
+    const size =
+      isGroupNode(n) && !n.data.collapsed ? { width: Number(n.style?.width), height: Number(n.style?.height) } : {};
+    snap.set(id, { ...absolutePosition(n, byId), ...size });
+  }
+  return snap;
+}
@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useState } from "react";
+import Modal from "@/components/ui/Modal";
+import type { Role } from "@/api/auth";
+import { createUser, deleteUser, fetchUsers, updateUser, type UserRow } from "@/api/users";
+
+const roleLabel: Record<Role, string> = {
+  viewer: "leitura",
+  operator: "operador",
+  admin: "admin",
+};
+
+const inputClass =
+  "h-9 rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100";
+
+export default function UsersModal({
+  open,
+  currentUserId,
+  onClose,
+}: {
+  open: boolean;
+  currentUserId: string;
+  onClose: () => void;
+}) {
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [username, setUsername] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [role, setRole] = useState<Role>("viewer");
+
+  const [resetId, setResetId] = useState<string | null>(null);
+  const [resetPassword, setResetPassword] = useState<string>("");
+
+  const reload = useCallback(async () => {
+    try {
+      setUsers(await fetchUsers());
+    } catch (err: unknown) {
+      setMessage(err instanceof Error ? err.message : "unknown");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    fetchUsers()
+      .then((list) => {
+        if (!cancelled) setUsers(list);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setMessage(err instanceof Error ? err.message : "unknown");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const run = useCallback(
+    async (fn: () => Promise<unknown>, ok: string) => {
+      try {
+        await fn();
+        setMessage(ok);
+        await reload();
+      } catch (err: unknown) {
+        setMessage(`Erro: ${err instanceof Error ? err.message : "unknown"}`);
+      }
+    },
+    [reload]
+  );
+
+  const submitCreate = async () => {
+    if (username.trim().length < 3) return setMessage("Usuário precisa de 3+ caracteres.");
+    if (password.length < 8) return setMessage("Senha precisa de 8+ caracteres.");
+    await run(() => createUser({ username: username.trim(), password, role }), "Usuário criado ✅");
+    setUsername("");
+    setPassword("");
+  };
+
+  const submitReset = async (id: string) => {
+    if (resetPassword.length < 8) return setMessage("Senha precisa de 8+ caracteres.");
+    await run(() => updateUser(id, { password: resetPassword }), "Senha alterada ✅");
+    setResetId(null);
+    setResetPassword("");
+  };
+
+  return (
+    <Modal open={open} title="Usuários" onClose={onClose}>
+      <div className="space-y-3">
+        <div className="max-h-[280px] overflow-auto rounded-xl border border-slate-900/10 dark:border-slate-700">
+          {users.map((u) => (
+            <div key={u.id} className="border-b border-slate-900/5 px-3 py-2 last:border-b-0 dark:border-slate-800">
+              <div className="flex items-center gap-2">
+                <div className="min-w-0 flex-1 truncate text-[12px] font-extrabold text-slate-900 dark:text-slate-100">
+                  {u.username}
+                  {u.id === currentUserId ? " (você)" : ""}
+                </div>
+                <select
+                  value={u.role}
+                  onChange={(e) => run(() => updateUser(u.id, { role: e.target.value as Role }), "Papel alterado ✅")}
+                  className={inputClass}
+                >
+                  {(Object.keys(roleLabel) as Role[]).map((r) => (
+                    <option key={r} value={r}>{roleLabel[r]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setResetId(resetId === u.id ? null : u.id)}
+                  className="h-9 rounded-xl border border-slate-900/10 px-2 text-[11px] font-extrabold text-slate-700 hover:bg-slate-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800"
+                >
+                  Senha
+                </button>
+                <button
+                  onClick={() => run(() => deleteUser(u.id), "Usuário removido ✅")}
+                  disabled={u.id === currentUserId}
+                  className="h-9 rounded-xl border border-rose-500/25 px-2 text-[11px] font-extrabold text-rose-600 hover:bg-rose-50 disabled:opacity-40 dark:border-rose-500/40 dark:text-rose-300 dark:hover:bg-rose-950/40"
+                >
+                  Remover
+                </button>
+              </div>
+
+              {resetId === u.id && (
+                <div className="mt-2 flex gap-2">
+                  <input
+                    type="password"
+                    value={resetPassword}
+                    onChange={(e) => setResetPassword(e.target.value)}
+                    placeholder="Nova senha (8+)"
+                    className={`${inputClass} flex-1`}
+                  />
+                  <button
+                    onClick={() => submitReset(u.id)}
+                    className="h-9 rounded-xl bg-slate-900 px-3 text-[11px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+                  >
+                    Salvar
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="rounded-xl border border-slate-900/10 p-3 dark:border-slate-700">
+          <div className="mb-2 text-[11px] font-bold text-slate-500 dark:text-slate-400">Novo usuário</div>
+          <div className="grid grid-cols-2 gap-2">
+            <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Usuário" className={inputClass} />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Senha (8+)"
+              className={inputClass}
+            />
+            <select value={role} onChange={(e) => setRole(e.target.value as Role)} className={inputClass}>
+              {(Object.keys(roleLabel) as Role[]).map((r) => (
+                <option key={r} value={r}>{roleLabel[r]}</option>
+              ))}
+            </select>
+            <button
+              onClick={submitCreate}
+              className="h-9 rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+            >
+              Criar
+            </button>
+          </div>
+        </div>
+
+        {message && <div className="text-[11px] font-semibold text-slate-600 dark:text-slate-300">{message}</div>}
+
+        <div className="text-[11px] font-semibold text-slate-500 dark:text-slate-400">
+          Leitura: só visualiza • Operador: status e posições • Admin: cria/remove e gerencia usuários.
+        </div>
+      </div>
+    </Modal>
+  );
+}
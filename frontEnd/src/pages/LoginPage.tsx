@@ -0,0 +1,71 @@
+import { useState, type FormEvent } from "react";
+import { login } from "@/api/auth";
+import logoMp from "@/assets/logo-mapa.png";
+
+export default function LoginPage() {
+  const [username, setUsername] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return setError("Informe usuário e senha.");
+
+    setBusy(true);
+    try {
+      await login(username.trim(), password);
+      window.location.assign("/");
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "unknown";
+      setError(msg.includes("Invalid username or password") ? "Usuário ou senha inválidos." : `Erro ao entrar: ${msg}`);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex h-full items-center justify-center bg-slate-100 p-4 text-slate-900 dark:bg-slate-950 dark:text-slate-100">
+      <form
+        onSubmit={submit}
+        className="w-full max-w-sm space-y-3 rounded-2xl border border-slate-900/10 bg-white p-5 shadow-[0_30px_80px_rgba(0,0,0,.15)] dark:border-slate-700 dark:bg-slate-900"
+      >
+        <div className="flex items-center gap-3">
+          <img src={logoMp} alt="logo" width={80} height={80} />
+          <h1 className="text-sm font-extrabold">Mapa de Equipamentos</h1>
+        </div>
+
+        <div>
+          <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Usuário</label>
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoFocus
+            autoComplete="username"
+            className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+          />
+        </div>
+
+        <div>
+          <label className="text-[11px] font-bold text-slate-500 dark:text-slate-400">Senha</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="mt-1 h-10 w-full rounded-xl border border-slate-900/10 bg-white px-3 text-[12px] font-semibold text-slate-900 outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+          />
+        </div>
+
+        {error && <div className="text-[12px] font-semibold text-rose-600 dark:text-rose-300">{error}</div>}
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="h-10 w-full rounded-xl bg-slate-900 text-[12px] font-extrabold text-white hover:bg-slate-800 disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-white"
+        >
+          {busy ? "Entrando…" : "Entrar"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,11 +1,35 @@
 import React, { useEffect, useState } from "react";
 import { ReactFlowProvider } from "reactflow";
 import TopologyCanvas from "@/components/Topology/TopologyCanvas";
+import MapSwitcher from "@/components/Topology/MapSwitcher";
+import UsersModal from "@/components/Users/UsersModal";
+import { fetchMe, hasRole, logout, type CurrentUser } from "@/api/auth";
 import logoMp from "@/assets/logo-mapa.png";
 
 
 export default function TopologyPage() {
   const [theme, setTheme] = useState<"light" | "dark">("light");
+  const [mapId, setMapId] = useState<string | null>(() => localStorage.getItem("mapId"));
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [openUsers, setOpenUsers] = useState<boolean>(false);
+
+  // sem sessão o client já redireciona para /login
+  useEffect(() => {
+    let cancelled = false;
+    fetchMe()
+      .then((me) => {
+        if (!cancelled) setUser(me);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const signOut = async () => {
+    await logout().catch(() => {});
+    window.location.assign("/login");
+  };
 
   useEffect(() => {
     const saved = localStorage.getItem("theme");
@@ -19,12 +43,17 @@ export default function TopologyPage() {
     localStorage.setItem("theme", theme);
   }, [theme]);
 
+  useEffect(() => {
+    if (mapId) localStorage.setItem("mapId", mapId);
+  }, [mapId]);
+
   return (
     <div className="flex h-full flex-col bg-slate-100 text-slate-900 dark:bg-slate-950 dark:text-slate-100">
       <header className="flex h-14 items-center justify-between border-b border-slate-900/10 bg-white px-4 dark:border-slate-800 dark:bg-slate-900">
         <div className="flex items-center">
           <img src={logoMp} alt="logo" width={100} height={100} />
-          <h1 className="text-sm font-extrabold">Mapa de Equipamentos</h1>
+          <h1 className="mr-4 text-sm font-extrabold">Mapa de Equipamentos</h1>
+          {user && <MapSwitcher value={mapId} onChange={setMapId} canManage={hasRole(user, "admin")} />}
         </div>
         <div className="flex items-center gap-3 text-xs font-semibold text-slate-500 dark:text-slate-400">
           Zoom: scroll • Pan: arrastar • DragStop salva • Delete remove • Ctrl+K busca
@@ -34,14 +63,39 @@ export default function TopologyPage() {
           >
             {theme === "dark" ? "Modo light" : "Modo dark"}
           </button>
+          {user && (
+            <>
+              {hasRole(user, "admin") && (
+                <button
+                  onClick={() => setOpenUsers(true)}
+                  className="rounded-xl border border-slate-900/10 bg-white px-3 py-2 text-[11px] font-extrabold text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700"
+                >
+                  Usuários
+                </button>
+              )}
+              <span className="text-[11px] font-extrabold text-slate-700 dark:text-slate-200">
+                {user.username} ({user.role})
+              </span>
+              <button
+                onClick={signOut}
+                className="rounded-xl border border-slate-900/10 bg-white px-3 py-2 text-[11px] font-extrabold text-slate-900 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 dark:hover:bg-slate-700"
+              >
+                Sair
+              </button>
+            </>
+          )}
         </div>
       </header>
 
       <main className="min-h-0 flex-1">
         <ReactFlowProvider>
-          <TopologyCanvas />
+          {mapId && user && <TopologyCanvas mapId={mapId} role={user.role} theme={theme} onOpenMap={setMapId} />}
         </ReactFlowProvider>
       </main>
+
+      {user && hasRole(user, "admin") && (
+        <UsersModal open={openUsers} currentUserId={user.id} onClose={() => setOpenUsers(false)} />
+      )}
     </div>
   );
 }